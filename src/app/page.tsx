@@ -1,99 +1,408 @@
 "use client";
 
 import type React from 'react';
-import { useState } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { FileUpload } from '@/components/quiz/FileUpload';
 import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
-import { parseQuizCsv } from '@/lib/csvParser';
-import type { Quiz, Question } from '@/types/quiz';
+import { QuestionEditor } from '@/components/quiz/QuestionEditor';
+import { PracticeMode } from '@/components/quiz/PracticeMode';
+import { LintReport } from '@/components/quiz/LintReport';
+import { ProblemsPanel } from '@/components/quiz/ProblemsPanel';
+import { AssetReport } from '@/components/quiz/AssetReport';
+import { AssetContext } from '@/components/quiz/AssetContext';
+import { ExportMenu } from '@/components/quiz/ExportMenu';
+import { SplitDialog } from '@/components/quiz/SplitDialog';
+import { MarkdownEditor, MARKDOWN_TEMPLATE } from '@/components/quiz/MarkdownEditor';
+import { QuestionList } from '@/components/quiz/QuestionList';
+import type { QuestionListHandle } from '@/components/quiz/QuestionList';
+import { QuestionOutline } from '@/components/quiz/QuestionOutline';
+import { QuestionFilterBar } from '@/components/quiz/QuestionFilterBar';
+import { StatisticsDashboard } from '@/components/quiz/StatisticsDashboard';
+import { DuplicatesView } from '@/components/quiz/DuplicatesView';
+import { CompareView } from '@/components/quiz/CompareView';
+import { MergeView } from '@/components/quiz/MergeView';
+import { ParseProgress } from '@/components/quiz/ParseProgress';
+import { importQuizBundle, QUIZ_FORMAT_LABELS } from '@/lib/formats';
+import type { ImportResult, QuizFormat } from '@/lib/formats';
+import type { CsvParseMessage, CsvParseProgress, CsvParseRequest } from '@/lib/csvParser.worker';
+import { validateQuiz } from '@/lib/validation';
+import { lintQuiz, DEFAULT_ENABLED_LINT_RULES } from '@/lib/lint';
+import { indexesAfterRemoval, removeQuestions, sectionIndexOf } from '@/lib/sections';
+import { buildSearchIndex, filterQuestions, isFilterActive, EMPTY_QUESTION_FILTER } from '@/lib/search';
+import { useQuestionFilter } from '@/hooks/use-question-filter';
+import type { AssetResolver, QuizBundle } from '@/lib/assets';
+import { createAssetResolver, analyzeAssetReferences, csvSourceOf } from '@/lib/assets';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { SidebarProvider, SidebarInset } from '@/components/ui/sidebar';
+import type { Quiz, Question, ParseDiagnostic } from '@/types/quiz';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle, CheckCircle } from 'lucide-react';
 
 export default function Home() {
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<QuizFormat>('csv');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [mode, setMode] = useState<string>('preview');
+  const [source, setSource] = useState<string>('upload');
+  const [markdown, setMarkdown] = useState<string>(MARKDOWN_TEMPLATE);
+  const [parseProgress, setParseProgress] = useState<CsvParseProgress | null>(null);
+  const parseWorkerRef = useRef<Worker | null>(null);
 
-  const handleFileProcess = (csvContent: string, name: string) => {
+  // Re-validated on every change so edited questions lose (or gain) their flags immediately.
+  // Checks wait for a streamed CSV to finish rather than rerunning on every batch of questions.
+  const validation = useMemo(() => (quiz && !parseProgress ? validateQuiz(quiz) : null), [quiz, parseProgress]);
+
+  const [enabledLintRules, setEnabledLintRules] = useState<Record<string, boolean>>(DEFAULT_ENABLED_LINT_RULES);
+  const lintFindings = useMemo(() => (quiz && !parseProgress ? lintQuiz(quiz, enabledLintRules) : null), [quiz, parseProgress, enabledLintRules]);
+
+  const [openSections, setOpenSections] = useState<string[]>([]);
+  const questionListRef = useRef<QuestionListHandle>(null);
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+
+  const [questionFilter, setQuestionFilter] = useQuestionFilter();
+  const searchIndex = useMemo(() => (quiz ? buildSearchIndex(quiz) : []), [quiz]);
+  // Undefined while unfiltered, so the list keeps its sections
+  const filteredIndexes = useMemo(
+    () => (quiz && isFilterActive(questionFilter) ? filterQuestions(quiz, questionFilter, searchIndex, validation, lintFindings) : undefined),
+    [quiz, questionFilter, searchIndex, validation, lintFindings]
+  );
+
+  const [assetResolver, setAssetResolver] = useState<AssetResolver | null>(null);
+  // Revoke the previous upload's object URLs once it is replaced
+  useEffect(() => () => assetResolver?.dispose(), [assetResolver]);
+  const assetReport = useMemo(
+    () => (quiz && !parseProgress && assetResolver?.hasAssets ? analyzeAssetReferences(quiz, assetResolver) : null),
+    [quiz, parseProgress, assetResolver]
+  );
+
+  // Shows an imported quiz, or explains why it has no questions
+  const showImport = (result: ImportResult, bundle: QuizBundle) => {
+    const { quiz: parsedQuiz, diagnostics: parseDiagnostics, format: parsedFormat, assets: embeddedAssets } = result;
+    setAssetResolver(createAssetResolver([...bundle.assets, ...(embeddedAssets ?? [])]));
+    setDiagnostics(parseDiagnostics);
+    setFormat(parsedFormat);
+    // Basic validation: Check if any questions were parsed
+    if (!parsedQuiz || !parsedQuiz.questions || parsedQuiz.questions.length === 0) {
+        setError(`Could not find any questions in the ${QUIZ_FORMAT_LABELS[parsedFormat]} file. Please check the file format.`);
+        setQuiz(null);
+    } else {
+        setQuiz(parsedQuiz);
+        setOpenSections((parsedQuiz.sections ?? []).map((_, idx) => `section-${idx}`));
+        console.log("Parsed Quiz:", parsedQuiz); // Log parsed data for debugging
+    }
+  };
+
+  const showParseError = (err: unknown) => {
+    console.error("Error parsing quiz:", err);
+    setError(err instanceof Error ? err.message : "An unknown error occurred during parsing.");
+    setQuiz(null);
+    setAssetResolver(null);
+  };
+
+  const stopParseWorker = () => {
+    parseWorkerRef.current?.terminate();
+    parseWorkerRef.current = null;
+    setParseProgress(null);
+  };
+  // A parse still running when the page goes away has nobody to report to
+  useEffect(() => () => parseWorkerRef.current?.terminate(), []);
+
+  // CSVs are parsed in a worker as they are read; questions are listed as they arrive
+  const parseCsvInWorker = (file: Blob, bundle: QuizBundle) => {
+    const worker = new Worker(new URL('../lib/csvParser.worker.ts', import.meta.url));
+    parseWorkerRef.current = worker;
+    setFormat('csv');
+    setQuiz({ questions: [] });
+    setAssetResolver(createAssetResolver(bundle.assets));
+    setParseProgress({ bytesRead: 0, totalBytes: file.size, recordsProcessed: 0, questionsFound: 0 });
+    worker.onmessage = (event: MessageEvent<CsvParseMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setParseProgress(message.progress);
+        if (message.questions.length > 0) {
+          setQuiz(prev => prev && { ...prev, questions: [...prev.questions, ...message.questions] });
+        }
+        return;
+      }
+      stopParseWorker();
+      if (message.type === 'done') showImport({ ...message.result, format: 'csv' }, bundle);
+      else showParseError(new Error(message.message));
+      setIsLoading(false);
+    };
+    worker.onerror = event => {
+      stopParseWorker();
+      showParseError(new Error(event.message || 'The CSV parser stopped unexpectedly.'));
+      setIsLoading(false);
+    };
+    const request: CsvParseRequest = { file };
+    worker.postMessage(request);
+  };
+
+  const handleCancelParse = () => {
+    stopParseWorker();
+    setQuiz(null);
+    setDiagnostics([]);
+    setAssetResolver(null);
+    setFileName(null);
+    setIsLoading(false);
+  };
+
+  const handleFileProcess = (bundle: QuizBundle) => {
+    stopParseWorker(); // A new upload replaces one still being parsed
     setIsLoading(true);
     setError(null);
-    setFileName(name); // Store the filename
+    setDiagnostics([]);
+    setEditingIndex(null);
+    setMode('preview');
+    setFileName(bundle.name); // Store the filename
+    const csvFile = csvSourceOf(bundle);
+    if (csvFile) {
+      parseCsvInWorker(csvFile, bundle);
+      return;
+    }
     try {
-      // Simulate parsing delay
-      setTimeout(() => {
-        const parsedQuiz = parseQuizCsv(csvContent);
-        // Basic validation: Check if any questions were parsed
-        if (!parsedQuiz || !parsedQuiz.questions || parsedQuiz.questions.length === 0) {
-            setError("Could not parse any valid questions from the CSV. Please check the file format.");
-            setQuiz(null);
-        } else {
-            setQuiz(parsedQuiz);
-            console.log("Parsed Quiz:", parsedQuiz); // Log parsed data for debugging
-        }
-        setIsLoading(false);
-      }, 500); // 0.5 second delay simulation
-
+      showImport(importQuizBundle(bundle), bundle);
     } catch (err) {
-      console.error("Error parsing CSV:", err);
-      setError(err instanceof Error ? err.message : "An unknown error occurred during parsing.");
-      setQuiz(null);
-      setIsLoading(false);
+      showParseError(err);
     }
+    setIsLoading(false);
   };
 
    const handleFileReject = (reason: string) => {
         setError(`File rejected: ${reason}`);
         setQuiz(null);
+        setDiagnostics([]);
+        setAssetResolver(null);
         setFileName(null);
         setIsLoading(false);
     };
 
+  // Quizzes written in the editor or merged from several banks go through the same import as uploaded files
+  const handleOpenBundle = (bundle: QuizBundle) => {
+    setSource('upload');
+    handleFileProcess(bundle);
+  };
+
+  // Write an edited question back into the in-memory quiz so exports pick it up
+  const handleSaveQuestion = (questionIndex: number, updated: Question) => {
+    setQuiz(prev => prev && { ...prev, questions: prev.questions.map((q, i) => (i === questionIndex ? updated : q)) });
+    // Validation results from parse time no longer describe the edited question
+    setDiagnostics(prev => prev.filter(d => !(d.questionIndex === questionIndex && (d.code === 'incomplete-question' || d.code === 'invalid-question'))));
+    setEditingIndex(null);
+  };
+
+  // Drop questions, e.g. duplicates, and move problems reported on the others to their new positions
+  const handleRemoveQuestions = (questionIndexes: number[]) => {
+    if (!quiz) return;
+    const removed = new Set(questionIndexes);
+    const newIndexes = indexesAfterRemoval(quiz.questions.length, removed);
+    setQuiz(removeQuestions(quiz, removed));
+    setDiagnostics(prev => prev.flatMap(d => {
+      if (d.questionIndex === undefined) return [d];
+      const questionIndex = newIndexes[d.questionIndex];
+      return questionIndex === undefined ? [] : [{ ...d, questionIndex }];
+    }));
+    setEditingIndex(null);
+    setCurrentIndex(null);
+  };
+
+  // Scroll the matching question card into view when a problem is clicked
+  const handleSelectQuestion = (questionIndex: number) => {
+    // The Write tab's preview cards are not virtualized and carry the same anchors
+    if (source !== 'upload') {
+      document.getElementById(`question-${questionIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      return;
+    }
+    const scroll = () => questionListRef.current?.scrollToQuestion(questionIndex);
+    const sectionIndex = quiz ? sectionIndexOf(quiz, questionIndex) : undefined;
+    const sectionKey = `section-${sectionIndex}`;
+    const isFilteredOut = filteredIndexes !== undefined && !filteredIndexes.includes(questionIndex);
+    const isHidden = !filteredIndexes && sectionIndex !== undefined && !openSections.includes(sectionKey);
+    if (mode === 'preview' && !isHidden && !isFilteredOut) {
+      scroll();
+      return;
+    }
+    // The list is not showing the question; bring it up and wait for it to render
+    if (isFilteredOut) setQuestionFilter(EMPTY_QUESTION_FILTER);
+    if (sectionIndex !== undefined && (isHidden || isFilteredOut)) setOpenSections(prev => (prev.includes(sectionKey) ? prev : [...prev, sectionKey]));
+    setMode('preview');
+    setTimeout(scroll, 0);
+  };
+
+  const handleToggleSection = (sectionKey: string) =>
+    setOpenSections(prev => (prev.includes(sectionKey) ? prev.filter(key => key !== sectionKey) : [...prev, sectionKey]));
+
+  const renderQuestion = (question: Question, index: number) => (
+    editingIndex === index ? (
+      <QuestionEditor
+        key={`edit-${index}`}
+        question={question}
+        index={index}
+        onSave={updated => handleSaveQuestion(index, updated)}
+        onCancel={() => setEditingIndex(null)}
+      />
+    ) : (
+      <QuestionDisplay
+        key={`${index}-${question.id || question.title}`}
+        question={question}
+        index={index}
+        onEdit={parseProgress ? undefined : () => setEditingIndex(index)} // The finished parse would replace an edit
+        issues={validation?.issuesByQuestion[index]}
+        lintFindings={lintFindings?.[index]}
+      />
+    )
+  );
+
   return (
-    <main className="container mx-auto p-4 md:p-8">
-      <header className="mb-8 text-center">
-        <h1 className="text-3xl md:text-4xl font-bold text-primary mb-2">QuizView</h1>
-        <p className="text-muted-foreground">Preview your Brightspace Quiz CSV</p>
-      </header>
-
-      <section className="mb-8">
-        <FileUpload
-          onFileAccepted={handleFileProcess}
-          onFileRejected={handleFileReject}
-          isLoading={isLoading}
-          />
-      </section>
-
-       {error && (
-         <Alert variant="destructive" className="mb-8">
-           <AlertCircle className="h-4 w-4" />
-           <AlertTitle>Parsing Error</AlertTitle>
-           <AlertDescription>{error}</AlertDescription>
-         </Alert>
-       )}
-
-      {quiz && !error && (
-        <section>
-            <div className="mb-6 p-4 border border-green-300 bg-green-50 rounded-md flex items-center">
-                <CheckCircle className="h-5 w-5 mr-3 text-green-600" />
-                <div>
-                     <h2 className="text-xl font-semibold text-green-800">Quiz Preview: {fileName}</h2>
-                     <p className="text-sm text-green-700">{quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''} loaded.</p>
-                </div>
-            </div>
-            {quiz.questions.map((question, index) => (
-                 // Add a key based on index and maybe question title/id for stability
-                <QuestionDisplay key={`${index}-${question.id || question.title}`} question={question} index={index} />
-            ))}
-        </section>
+    <SidebarProvider>
+      {quiz && !error && source === 'upload' && (
+        <QuestionOutline
+          quiz={quiz}
+          currentIndex={currentIndex}
+          validation={validation}
+          lintFindings={lintFindings}
+          onSelectQuestion={handleSelectQuestion}
+        />
       )}
+      <SidebarInset>
+        <div className="container mx-auto p-4 md:p-8">
+          <header className="mb-8 text-center">
+            <h1 className="text-3xl md:text-4xl font-bold text-primary mb-2">QuizView</h1>
+            <p className="text-muted-foreground">Preview your Brightspace Quiz CSV, QTI package or Moodle question bank, write a quiz in Markdown, compare two versions of a bank, or merge several banks into one</p>
+          </header>
 
-       {!quiz && !error && !isLoading && (
-            <div className="text-center text-muted-foreground mt-12">
-                <p>Upload a Brightspace quiz CSV file to begin the preview.</p>
-            </div>
-        )}
+          <section className="mb-8">
+            <Tabs value={source} onValueChange={setSource}>
+              <TabsList className="mb-4">
+                <TabsTrigger value="upload">Upload</TabsTrigger>
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="compare">Compare</TabsTrigger>
+                <TabsTrigger value="merge">Merge</TabsTrigger>
+              </TabsList>
+              <TabsContent value="upload">
+                <FileUpload
+                  onFileAccepted={handleFileProcess}
+                  onFileRejected={handleFileReject}
+                  isLoading={isLoading}
+                  />
+              </TabsContent>
+              <TabsContent value="write">
+                <MarkdownEditor
+                  value={markdown}
+                  onChange={setMarkdown}
+                  onLoad={handleOpenBundle}
+                  currentQuiz={quiz}
+                  isLoading={isLoading}
+                />
+              </TabsContent>
+              {/* Kept mounted so the loaded banks survive switching tabs */}
+              <TabsContent value="compare" forceMount className="data-[state=inactive]:hidden">
+                <CompareView />
+              </TabsContent>
+              <TabsContent value="merge" forceMount className="data-[state=inactive]:hidden">
+                <MergeView onOpen={handleOpenBundle} />
+              </TabsContent>
+            </Tabs>
+          </section>
+
+           {error && (
+             <Alert variant="destructive" className="mb-8">
+               <AlertCircle className="h-4 w-4" />
+               <AlertTitle>Parsing Error</AlertTitle>
+               <AlertDescription>{error}</AlertDescription>
+             </Alert>
+           )}
+
+          {parseProgress && <ParseProgress fileName={fileName} progress={parseProgress} onCancel={handleCancelParse} />}
+
+          <ProblemsPanel diagnostics={diagnostics} onSelectQuestion={handleSelectQuestion} />
+
+          {/* Hidden while writing: the editor's preview cards use the same question-N anchors */}
+          {quiz && !error && source === 'upload' && (
+            <AssetContext.Provider value={assetResolver}>
+              <section>
+                  <div className="mb-6 p-4 border border-green-300 bg-green-50 rounded-md flex items-center">
+                      <CheckCircle className="h-5 w-5 mr-3 text-green-600" />
+                      <div className="flex-1">
+                           <h2 className="text-xl font-semibold text-green-800">Quiz Preview: {fileName}</h2>
+                           <p className="text-sm text-green-700">
+                              {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''} loaded{parseProgress ? ' so far' : ''} from {QUIZ_FORMAT_LABELS[format]}.
+                              {diagnostics.length > 0 && ` ${diagnostics.length} problem${diagnostics.length !== 1 ? 's' : ''} reported.`}
+                              {validation && validation.invalidCount > 0 && ` ${validation.invalidCount} question${validation.invalidCount !== 1 ? 's are' : ' is'} flagged as invalid.`}
+                           </p>
+                      </div>
+                      {!parseProgress && <SplitDialog quiz={quiz} fileName={fileName} />}
+                      {!parseProgress && <ExportMenu quiz={quiz} fileName={fileName} onSelectQuestion={handleSelectQuestion} />}
+                  </div>
+                  <Tabs value={mode} onValueChange={setMode}>
+                      <TabsList className="mb-6">
+                          <TabsTrigger value="preview">Preview</TabsTrigger>
+                          <TabsTrigger value="practice" disabled={!!parseProgress}>Practice</TabsTrigger>
+                          <TabsTrigger value="statistics" disabled={!!parseProgress}>Statistics</TabsTrigger>
+                          <TabsTrigger value="duplicates" disabled={!!parseProgress}>Duplicates</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="preview">
+                          {assetReport && assetResolver && (
+                              <AssetReport
+                                  report={assetReport}
+                                  assetCount={assetResolver.paths.length}
+                                  onSelectQuestion={handleSelectQuestion}
+                              />
+                          )}
+                          {lintFindings && (
+                              <LintReport
+                                  quiz={quiz}
+                                  findings={lintFindings}
+                                  enabledRules={enabledLintRules}
+                                  onToggleRule={(ruleId, enabled) => setEnabledLintRules(prev => ({ ...prev, [ruleId]: enabled }))}
+                                  onSelectQuestion={handleSelectQuestion}
+                              />
+                          )}
+                          <QuestionFilterBar
+                              filter={questionFilter}
+                              onChange={setQuestionFilter}
+                              shownCount={filteredIndexes?.length ?? quiz.questions.length}
+                              totalCount={quiz.questions.length}
+                          />
+                          <QuestionList
+                              ref={questionListRef}
+                              quiz={quiz}
+                              questionIndexes={filteredIndexes}
+                              openSections={openSections}
+                              onToggleSection={handleToggleSection}
+                              renderQuestion={renderQuestion}
+                              currentIndex={currentIndex}
+                              onCurrentChange={setCurrentIndex}
+                              onSelectQuestion={handleSelectQuestion}
+                          />
+                      </TabsContent>
+                      <TabsContent value="practice">
+                          {/* Content unmounts while hidden, so each visit starts a fresh attempt */}
+                          <PracticeMode quiz={quiz} />
+                      </TabsContent>
+                      <TabsContent value="statistics">
+                          <StatisticsDashboard quiz={quiz} fileName={fileName} />
+                      </TabsContent>
+                      <TabsContent value="duplicates">
+                          <DuplicatesView quiz={quiz} onRemoveQuestions={handleRemoveQuestions} />
+                      </TabsContent>
+                  </Tabs>
+              </section>
+            </AssetContext.Provider>
+          )}
+
+           {!quiz && !error && !isLoading && source === 'upload' && (
+                <div className="text-center text-muted-foreground mt-12">
+                    <p>Upload a Brightspace quiz CSV, a QTI package, or a Moodle XML, GIFT, Aiken or Markdown file to begin the preview, or write one on the Write tab.</p>
+                </div>
+            )}
 
-    </main>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
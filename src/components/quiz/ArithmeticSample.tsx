@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from 'react';
+import type { FormulaQuestion } from '@/types/quiz';
+import { Button } from '@/components/ui/button';
+import { RenderHtml } from '@/components/quiz/RenderHtml';
+import { sampleArithmetic, substituteVariables, formatNumber, describeTolerance, toSignificantFigures } from '@/lib/arithmetic';
+import { Shuffle } from 'lucide-react';
+
+// One randomized instance of an Arithmetic or Significant Figures question, as a learner would see it, with the computed answer
+export function ArithmeticSample({ question }: { question: FormulaQuestion }) {
+  const [instance, setInstance] = useState(() => sampleArithmetic(question));
+  const names = Object.keys(instance.values);
+
+  return (
+    <div className="p-3 border rounded-md bg-secondary/50 text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Sample instance</h4>
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => setInstance(sampleArithmetic(question))}>
+          <Shuffle className="h-4 w-4 mr-1" /> New values
+        </Button>
+      </div>
+      {question.questionText && <RenderHtml content={substituteVariables(question.questionText, instance.values)} />}
+      {names.length > 0 && (
+        <p className="text-muted-foreground">{names.map(name => `${name} = ${formatNumber(instance.values[name])}`).join(', ')}</p>
+      )}
+      {instance.answer !== undefined
+        ? (
+          <p>
+            <strong>Answer:</strong>{' '}
+            {question.type === 'SF' ? toSignificantFigures(instance.answer, question.significantFigures) : formatNumber(instance.answer)}{' '}
+            ({describeTolerance(question.tolerance)})
+          </p>
+        )
+        : <p className="text-destructive">{instance.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { createContext, useContext } from 'react';
+import type { AssetResolver } from '@/lib/assets';
+
+// Media uploaded with the CSV (from a ZIP or folder); null when only a CSV was loaded
+export const AssetContext = createContext<AssetResolver | null>(null);
+
+export const useAssetResolver = (): AssetResolver | null => useContext(AssetContext);
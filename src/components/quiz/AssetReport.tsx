@@ -0,0 +1,71 @@
+"use client";
+
+import type React from 'react';
+import type { AssetReferenceReport } from '@/lib/assets';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ImageOff, FileQuestion } from 'lucide-react';
+
+interface AssetReportProps {
+  report: AssetReferenceReport;
+  assetCount: number;
+  onSelectQuestion?: (questionIndex: number) => void;
+}
+
+export function AssetReport({ report, assetCount, onSelectQuestion }: AssetReportProps) {
+  const { missing, unreferenced } = report;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle className="text-lg font-semibold">Media</CardTitle>
+          <CardDescription>
+            {assetCount} file{assetCount !== 1 ? 's' : ''} uploaded with the CSV.
+            {missing.length === 0 && unreferenced.length === 0 && ' Every image reference was found.'}
+          </CardDescription>
+        </div>
+        <div className="flex space-x-2">
+          {missing.length > 0 && <Badge variant="destructive">{missing.length} missing</Badge>}
+          {unreferenced.length > 0 && <Badge variant="secondary">{unreferenced.length} unused</Badge>}
+        </div>
+      </CardHeader>
+      {(missing.length > 0 || unreferenced.length > 0) && (
+        <CardContent className="space-y-4 text-sm">
+          {missing.length > 0 && (
+            <div>
+              <p className="font-medium mb-1">Referenced but not uploaded</p>
+              <ul className="space-y-1">
+                {missing.map(({ questionIndex, reference }, idx) => (
+                  <li key={`${questionIndex}-${idx}`} className="flex items-start space-x-2">
+                    <ImageOff className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                    <button
+                      type="button"
+                      onClick={() => onSelectQuestion?.(questionIndex)}
+                      className="text-left hover:underline break-all"
+                    >
+                      <span className="font-medium">Question {questionIndex + 1}:</span> {reference}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {unreferenced.length > 0 && (
+            <div>
+              <p className="font-medium mb-1">Uploaded but never referenced</p>
+              <ul className="space-y-1 text-muted-foreground">
+                {unreferenced.map(path => (
+                  <li key={path} className="flex items-start space-x-2">
+                    <FileQuestion className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span className="break-all">{path}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
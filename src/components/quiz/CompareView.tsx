@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { ComparisonEntry, ComparisonStatus, FieldChange } from '@/lib/compare';
+import { compareQuizzes, diffWords } from '@/lib/compare';
+import { readQuizBundle } from '@/lib/formats';
+import type { QuizBundle } from '@/lib/assets';
+import { useToast } from '@/hooks/use-toast';
+import { FileUpload } from '@/components/quiz/FileUpload';
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeftRight } from 'lucide-react';
+
+interface LoadedVersion {
+  name: string;
+  quiz: Quiz;
+}
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = { added: 'Added', removed: 'Removed', modified: 'Modified', unchanged: 'Unchanged' };
+const STATUS_STYLES: Record<ComparisonStatus, string> = {
+  added: 'border-green-300 bg-green-50 text-green-800',
+  removed: 'border-red-300 bg-red-50 text-red-800',
+  modified: 'border-amber-300 bg-amber-50 text-amber-800',
+  unchanged: '',
+};
+
+// The before and after values of a field, with changed words marked
+function FieldChangeRow({ change }: { change: FieldChange }) {
+  const parts = diffWords(change.before ?? '', change.after ?? '');
+  return (
+    <tr className="border-b last:border-b-0 align-top">
+      <td className="py-1 pr-4 font-medium whitespace-nowrap">{change.label}</td>
+      <td className="py-1 font-mono text-xs whitespace-pre-wrap break-words">
+        {parts.map((part, idx) => (
+          part.kind === 'same' ? <span key={idx}>{part.text}</span>
+          : part.kind === 'removed' ? <del key={idx} className="bg-red-100 text-red-800">{part.text}</del>
+          : <ins key={idx} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        ))}
+      </td>
+    </tr>
+  );
+}
+
+function EntryDetails({ entry, before, after }: { entry: ComparisonEntry; before: Quiz; after: Quiz }) {
+  const beforeQuestion = entry.beforeIndex !== undefined ? before.questions[entry.beforeIndex] : undefined;
+  const afterQuestion = entry.afterIndex !== undefined ? after.questions[entry.afterIndex] : undefined;
+  if (entry.status !== 'modified' || !beforeQuestion || !afterQuestion) {
+    const question = afterQuestion ?? beforeQuestion;
+    const index = entry.afterIndex ?? entry.beforeIndex ?? 0;
+    return question ? <QuestionDisplay question={question} index={index} highlight={entry.status} /> : null;
+  }
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm">
+        <tbody>{entry.changes.map(change => <FieldChangeRow key={change.path} change={change} />)}</tbody>
+      </table>
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div>
+          <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Before</p>
+          <QuestionDisplay question={beforeQuestion} index={entry.beforeIndex ?? 0} highlight="modified" />
+        </div>
+        <div>
+          <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">After</p>
+          <QuestionDisplay question={afterQuestion} index={entry.afterIndex ?? 0} highlight="modified" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const entryTitle = (entry: ComparisonEntry, before: Quiz, after: Quiz): string => {
+  const [quiz, index] = entry.afterIndex !== undefined ? [after, entry.afterIndex] : [before, entry.beforeIndex ?? 0];
+  const question = quiz.questions[index];
+  const moved = entry.beforeIndex !== undefined && entry.afterIndex !== undefined && entry.beforeIndex !== entry.afterIndex;
+  return `Question ${index + 1}${moved ? ` (was ${(entry.beforeIndex ?? 0) + 1})` : ''}${question?.title ? `: ${question.title}` : ''}`;
+};
+
+// Loads two versions of a bank and lists what was added, removed and changed between them
+export function CompareView() {
+  const { toast } = useToast();
+  const [before, setBefore] = useState<LoadedVersion | null>(null);
+  const [after, setAfter] = useState<LoadedVersion | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const comparison = useMemo(() => (before && after ? compareQuizzes(before.quiz, after.quiz) : null), [before, after]);
+  const entries = comparison?.entries.filter(entry => showUnchanged || entry.status !== 'unchanged') ?? [];
+
+  const load = (setVersion: (version: LoadedVersion) => void) => async (bundle: QuizBundle) => {
+    try {
+      const { quiz } = await readQuizBundle(bundle);
+      if (quiz.questions.length === 0) throw new Error(`Could not find any questions in ${bundle.name}.`);
+      setVersion({ name: bundle.name, quiz });
+    } catch (err) {
+      console.error('Error loading quiz to compare:', err);
+      toast({ variant: 'destructive', title: 'Could not load the quiz', description: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <h3 className="mb-2 font-semibold">Before{before && `: ${before.name}`}</h3>
+          <FileUpload onFileAccepted={load(setBefore)} />
+        </div>
+        <div>
+          <h3 className="mb-2 font-semibold">After{after && `: ${after.name}`}</h3>
+          <FileUpload onFileAccepted={load(setAfter)} />
+        </div>
+      </div>
+
+      {comparison && before && after && (
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(STATUS_LABELS) as ComparisonStatus[]).map(status => (
+              <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+                {comparison.counts[status]} {STATUS_LABELS[status].toLowerCase()}
+              </Badge>
+            ))}
+            <div className="ml-auto flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged">Show unchanged</Label>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => { setBefore(after); setAfter(before); }}>
+                <ArrowLeftRight className="h-4 w-4 mr-2" /> Swap
+              </Button>
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">The two versions have the same questions.</p>
+          ) : (
+            <Accordion type="multiple">
+              {entries.map(entry => {
+                const key = `${entry.beforeIndex ?? '-'}:${entry.afterIndex ?? '-'}`;
+                return (
+                  <AccordionItem key={key} value={key}>
+                    <AccordionTrigger className="hover:no-underline">
+                      <div className="flex flex-1 flex-wrap items-center gap-2 mr-2 text-left">
+                        <Badge variant="outline" className={STATUS_STYLES[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+                        <span className="font-medium">{entryTitle(entry, before.quiz, after.quiz)}</span>
+                        {entry.changes.length > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            {entry.changes.length} field{entry.changes.length !== 1 ? 's' : ''} changed
+                          </span>
+                        )}
+                        {entry.matchedBy === 'similarity' && <span className="text-xs text-muted-foreground">(matched by text)</span>}
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="text-base">
+                      <EntryDetails entry={entry} before={before.quiz} after={after.quiz} />
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import type React from 'react';
+import type { ConversionWarning } from '@/lib/formats';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle } from 'lucide-react';
+
+interface ConversionReportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formatLabel: string;
+  fileName: string;
+  warnings: ConversionWarning[];
+  onSelectQuestion?: (questionIndex: number) => void;
+}
+
+// Lists the question features an export could not carry over, grouped by question
+export function ConversionReport({ open, onOpenChange, formatLabel, fileName, warnings, onSelectQuestion }: ConversionReportProps) {
+  const byQuestion = new Map<number, ConversionWarning[]>();
+  warnings.forEach(warning => byQuestion.set(warning.questionIndex, [...(byQuestion.get(warning.questionIndex) ?? []), warning]));
+
+  const handleSelect = (questionIndex: number) => {
+    onOpenChange(false);
+    onSelectQuestion?.(questionIndex);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Conversion Report</DialogTitle>
+          <DialogDescription>
+            {fileName} was exported as {formatLabel}, but {byQuestion.size} question{byQuestion.size !== 1 ? 's use' : ' uses'} features the format cannot represent.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <ul className="space-y-3">
+            {[...byQuestion.entries()].map(([questionIndex, questionWarnings]) => (
+              <li key={questionIndex} className="text-sm">
+                <button type="button" onClick={() => handleSelect(questionIndex)} className="font-medium text-left hover:underline">
+                  Question {questionIndex + 1}{questionWarnings[0].questionTitle ? `: ${questionWarnings[0].questionTitle}` : ''}
+                </button>
+                <ul className="mt-1 space-y-1">
+                  {questionWarnings.map((warning, idx) => (
+                    <li key={idx} className="flex items-start space-x-2 text-muted-foreground">
+                      <AlertTriangle className="h-4 w-4 text-orange-600 shrink-0 mt-0.5" />
+                      <span>{warning.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { DuplicateCluster } from '@/lib/duplicates';
+import type { DuplicatesMessage, DuplicatesRequest } from '@/lib/duplicates.worker';
+import { useToast } from '@/hooks/use-toast';
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+interface DuplicatesViewProps {
+  quiz: Quiz;
+  onRemoveQuestions: (questionIndexes: number[]) => void;
+}
+
+const clusterTitle = (cluster: DuplicateCluster): string =>
+  `Questions ${cluster.questionIndexes.map(idx => idx + 1).join(', ')}`;
+
+const clusterDescription = (cluster: DuplicateCluster): string =>
+  cluster.kind === 'duplicate' ? 'Identical' : `Near-duplicates, ${Math.round(cluster.similarity * 100)}% similar`;
+
+// Groups of repeated questions side by side, keeping one of each group and dropping the rest
+export function DuplicatesView({ quiz, onRemoveQuestions }: DuplicatesViewProps) {
+  const { toast } = useToast();
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null); // null while the worker is comparing
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [kept, setKept] = useState<Record<string, number>>({}); // Question kept per cluster; the first by default
+  const keptOf = (cluster: DuplicateCluster) => {
+    const choice = kept[cluster.key];
+    return choice !== undefined && cluster.questionIndexes.includes(choice) ? choice : cluster.questionIndexes[0];
+  };
+
+  const dropOthers = (toResolve: DuplicateCluster[]) => {
+    const dropped = toResolve.flatMap(cluster => cluster.questionIndexes.filter(idx => idx !== keptOf(cluster)));
+    onRemoveQuestions(dropped);
+    toast({ title: `Dropped ${dropped.length} question${dropped.length !== 1 ? 's' : ''}`, description: 'Export the bank to keep the change.' });
+  };
+
+  // Compared in a worker so a large bank doesn't freeze the page; a newer quiz cancels the search for the old one
+  useEffect(() => {
+    setClusters(null);
+    setSearchError(null);
+    const worker = new Worker(new URL('../../lib/duplicates.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<DuplicatesMessage>) => {
+      const message = event.data;
+      worker.terminate();
+      if (message.type === 'done') setClusters(message.clusters);
+      else setSearchError(message.message);
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      setSearchError(event.message || 'The duplicate search stopped unexpectedly.');
+    };
+    const request: DuplicatesRequest = { questions: quiz.questions };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [quiz]);
+
+  if (searchError) {
+    return <p className="py-8 text-center text-destructive">Could not look for duplicates: {searchError}</p>;
+  }
+
+  if (!clusters) {
+    return <p className="py-8 text-center text-muted-foreground">Looking for duplicate questions…</p>;
+  }
+
+  if (clusters.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">No duplicate or near-duplicate questions found.</p>;
+  }
+
+  const duplicateCount = clusters.filter(cluster => cluster.kind === 'duplicate').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{duplicateCount} identical group{duplicateCount !== 1 ? 's' : ''}</Badge>
+        <Badge variant="outline">{clusters.length - duplicateCount} near-duplicate group{clusters.length - duplicateCount !== 1 ? 's' : ''}</Badge>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={() => dropOthers(clusters)}>
+          Keep the selected question of every group
+        </Button>
+      </div>
+
+      <Accordion type="multiple">
+        {clusters.map(cluster => {
+          const keptIndex = keptOf(cluster);
+          return (
+            <AccordionItem key={cluster.key} value={cluster.key}>
+              <AccordionTrigger className="hover:no-underline">
+                <div className="flex flex-1 flex-wrap items-center gap-2 mr-2 text-left">
+                  <span className="font-medium">{clusterTitle(cluster)}</span>
+                  <span className="text-xs text-muted-foreground">{clusterDescription(cluster)}</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="text-base space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <RadioGroup
+                    value={String(keptIndex)}
+                    onValueChange={value => setKept(prev => ({ ...prev, [cluster.key]: Number(value) }))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {cluster.questionIndexes.map(idx => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <RadioGroupItem value={String(idx)} id={`keep-${cluster.key}-${idx}`} />
+                        <Label htmlFor={`keep-${cluster.key}-${idx}`}>Keep question {idx + 1}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <Button size="sm" onClick={() => dropOthers([cluster])}>
+                    Drop the other {cluster.questionIndexes.length - 1}
+                  </Button>
+                </div>
+                <div className="grid gap-4 lg:grid-cols-2">
+                  {cluster.questionIndexes.map(idx => (
+                    <QuestionDisplay key={idx} question={quiz.questions[idx]} index={idx} highlight={idx === keptIndex ? undefined : 'removed'} />
+                  ))}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import type React from 'react';
+import { useState } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { QuizExporter, ExportResult } from '@/lib/formats';
+import { QUIZ_EXPORTERS, baseNameOf } from '@/lib/formats';
+import { downloadBlob } from '@/lib/download';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { ConversionReport } from '@/components/quiz/ConversionReport';
+import { ChevronDown, Download } from 'lucide-react';
+
+interface ExportMenuProps {
+  quiz: Quiz;
+  fileName: string | null;
+  onSelectQuestion?: (questionIndex: number) => void;
+}
+
+export function ExportMenu({ quiz, fileName, onSelectQuestion }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [report, setReport] = useState<{ exporter: QuizExporter; result: ExportResult } | null>(null);
+
+  const handleExport = async (exporter: QuizExporter) => {
+    setIsExporting(true);
+    try {
+      const result = await exporter.export(quiz, baseNameOf(fileName || 'quiz'));
+      downloadBlob(result.blob, result.fileName);
+      // Only interrupt with the report when something was lost along the way
+      if (result.warnings.length > 0) setReport({ exporter, result });
+    } catch (err) {
+      console.error('Error exporting quiz:', err);
+      toast({ variant: 'destructive', title: 'Export failed', description: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isExporting}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+            <ChevronDown className="h-4 w-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Export as</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {QUIZ_EXPORTERS.map(exporter => (
+            <DropdownMenuItem key={exporter.format} onSelect={() => handleExport(exporter)} className="flex flex-col items-start">
+              <span>{exporter.label}</span>
+              <span className="text-xs text-muted-foreground">{exporter.description}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {report && (
+        <ConversionReport
+          open
+          onOpenChange={open => !open && setReport(null)}
+          formatLabel={report.exporter.label}
+          fileName={report.result.fileName}
+          warnings={report.result.warnings}
+          onSelectQuestion={onSelectQuestion}
+        />
+      )}
+    </>
+  );
+}
@@ -7,17 +7,22 @@ import { UploadCloud, XCircle, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent } from '@/components/ui/card';
+import type { QuizBundle } from '@/lib/assets';
+import { isCsvPath, isQuizDocumentPath, isZipPath, loadQuizBundle } from '@/lib/assets';
 
 interface FileUploadProps {
-  onFileAccepted: (fileContent: string, fileName: string) => void;
+  // The quiz documents (a CSV, QTI or Moodle XML, or GIFT) plus any media dropped with them in a ZIP, folder or selection
+  onFileAccepted: (bundle: QuizBundle) => void;
   onFileRejected?: (reason: string) => void;
   isLoading?: boolean;
+  separateFiles?: boolean; // Each dropped quiz document or ZIP is accepted as a bank of its own instead of one combined bundle
 }
 
-export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false }: FileUploadProps) {
+export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false, separateFiles = false }: FileUploadProps) {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0); // Progress simulation
+  const [assetCount, setAssetCount] = useState<number>(0);
 
   const handleFileRead = (file: File) => {
       setError(null);
@@ -36,7 +41,7 @@ export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false }
       reader.onload = (e) => {
           const content = e.target?.result as string;
           if (content) {
-            onFileAccepted(content, file.name);
+            onFileAccepted({ name: file.name, documents: [{ path: file.name, content }], assets: [] });
             setProgress(100); // Ensure progress hits 100 on completion
           } else {
              const rejectionError = "Failed to read file content.";
@@ -58,37 +63,84 @@ export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false }
       reader.readAsText(file, 'UTF-8'); // Specify UTF-8 encoding
   };
 
+  // A ZIP, a dropped folder or a CSV picked together with its images
+  const handleBundleRead = async (files: File[]) => {
+      setError(null);
+      setUploadedFile(files.find(file => !isQuizDocumentPath(file.name)) ?? files[0]);
+      setProgress(50);
+      try {
+          const bundle = await loadQuizBundle(files);
+          setAssetCount(bundle.assets.length);
+          onFileAccepted(bundle);
+          setProgress(100);
+      } catch (err) {
+          const rejectionError = err instanceof Error ? err.message : "Error reading files.";
+          setError(rejectionError);
+          if (onFileRejected) onFileRejected(rejectionError);
+          setUploadedFile(null);
+          setProgress(0);
+      }
+  };
+
 
   const onDrop = useCallback((acceptedFiles: File[], fileRejections: any[]) => {
     setError(null); // Clear previous errors
     setUploadedFile(null); // Clear previous file
     setProgress(0);
+    setAssetCount(0);
 
-    if (fileRejections.length > 0) {
+    // Folders usually contain stray files; only complain when nothing usable was dropped
+    if (fileRejections.length > 0 && acceptedFiles.length === 0) {
       const rejectionError = fileRejections[0].errors[0].message || "Invalid file type or size.";
       setError(rejectionError);
       if(onFileRejected) onFileRejected(rejectionError);
       return;
     }
 
-    if (acceptedFiles.length > 0) {
+    if (separateFiles) {
+       acceptedFiles.filter(file => isQuizDocumentPath(file.name) || isZipPath(file.name)).forEach(file => {
+         if (isCsvPath(file.name)) {
+           setUploadedFile(file);
+           setProgress(100);
+           onFileAccepted({ name: file.name, documents: [], assets: [], csvFile: file });
+         } else if (isQuizDocumentPath(file.name)) {
+           handleFileRead(file);
+         } else {
+           handleBundleRead([file]);
+         }
+       });
+    } else if (acceptedFiles.length === 1 && isCsvPath(acceptedFiles[0].name)) {
+       // Left unread: the page streams it to the parser, which reports its own progress
+       setUploadedFile(acceptedFiles[0]);
+       setProgress(100);
+       onFileAccepted({ name: acceptedFiles[0].name, documents: [], assets: [], csvFile: acceptedFiles[0] });
+    } else if (acceptedFiles.length === 1 && isQuizDocumentPath(acceptedFiles[0].name)) {
        handleFileRead(acceptedFiles[0]);
+    } else if (acceptedFiles.length > 0) {
+       handleBundleRead(acceptedFiles);
     }
-  }, [onFileAccepted, onFileRejected]);
+  }, [onFileAccepted, onFileRejected, separateFiles]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml'],
+      'text/plain': ['.txt', '.gift'],
+      'text/markdown': ['.md', '.markdown'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip'],
+      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.bmp'],
     },
-    multiple: false,
-    maxSize: 5 * 1024 * 1024, // 5MB limit
+    multiple: true,
   });
 
   const removeFile = () => {
     setUploadedFile(null);
     setError(null);
     setProgress(0);
+    setAssetCount(0);
     // Optionally call a handler if parent needs to know file was removed
     // onFileRemoved?.();
   };
@@ -100,13 +152,15 @@ export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false }
             <input {...getInputProps()} />
             <UploadCloud className="mx-auto h-12 w-12 text-primary" />
             {isDragActive ? (
-              <p className="mt-4 text-lg font-semibold text-primary">Drop the CSV file here...</p>
+              <p className="mt-4 text-lg font-semibold text-primary">Drop the quiz file here...</p>
             ) : (
               <p className="mt-4 text-lg font-semibold text-foreground">
-                Drag & drop your Brightspace quiz CSV file here, or click to select file
+                Drag & drop your Brightspace quiz CSV, QTI package or Moodle export here, or click to select files
               </p>
             )}
-            <p className="mt-1 text-sm text-muted-foreground">CSV files only, max 5MB</p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              CSV, QTI or Moodle XML, GIFT, Aiken, Markdown, or a ZIP package, or a folder with the quiz and its images
+            </p>
           </div>
 
            {error && (
@@ -126,7 +180,10 @@ export function FileUpload({ onFileAccepted, onFileRejected, isLoading = false }
                  <FileText className="h-6 w-6 text-primary" />
                  <div className='flex-1'>
                      <p className="text-sm font-medium text-foreground truncate">{uploadedFile.name}</p>
-                     <p className="text-xs text-muted-foreground">{(uploadedFile.size / 1024).toFixed(2)} KB</p>
+                     <p className="text-xs text-muted-foreground">
+                       {(uploadedFile.size / 1024).toFixed(2)} KB
+                       {assetCount > 0 && ` · ${assetCount} media file${assetCount !== 1 ? 's' : ''}`}
+                     </p>
                  </div>
                  <Button variant="ghost" size="icon" onClick={removeFile} className="absolute top-1 right-1 h-6 w-6" aria-label="Remove file">
                      <XCircle className="h-4 w-4 text-muted-foreground hover:text-destructive" />
@@ -0,0 +1,30 @@
+"use client";
+
+import type React from 'react';
+import type { FillInTheBlankQuestion, FIBBlank } from '@/types/quiz';
+import { RenderHtml } from '@/components/quiz/RenderHtml';
+
+// Brightspace's default blank width, used when a Blank row has no size
+export const DEFAULT_BLANK_SIZE = 20;
+
+// Width for a blank's input box, estimated from its size in characters
+export const blankWidth = (blank: FIBBlank): string => `${Math.min(blank.size ?? DEFAULT_BLANK_SIZE, 60) * 0.9}ch`;
+
+interface FillInTheBlankTextProps {
+  question: FillInTheBlankQuestion;
+  renderBlank: (blank: FIBBlank, blankIndex: number) => React.ReactNode;
+}
+
+// Lays out the Text rows with each blank rendered in place, wrapping like a sentence
+export function FillInTheBlankText({ question, renderBlank }: FillInTheBlankTextProps) {
+  let blankIndex = 0;
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-2 gap-y-2 mb-2">
+      {question.parts?.map((part, idx) => (
+        part.type === 'text'
+          ? <RenderHtml key={idx} content={part.text} />
+          : <span key={idx}>{renderBlank(part, blankIndex++)}</span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import type React from 'react';
+import type { LintFinding, LintSeverity } from '@/lib/lint';
+import { LINT_RULES } from '@/lib/lint';
+import type { Quiz } from '@/types/quiz';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+interface LintReportProps {
+  quiz: Quiz;
+  findings: LintFinding[][]; // Indexed like quiz.questions
+  enabledRules: Record<string, boolean>;
+  onToggleRule: (ruleId: string, enabled: boolean) => void;
+  onSelectQuestion?: (questionIndex: number) => void;
+}
+
+export const LINT_SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'border-red-300 bg-red-50 text-red-800',
+  warning: 'border-orange-300 bg-orange-50 text-orange-800',
+  info: 'border-blue-300 bg-blue-50 text-blue-800',
+};
+
+export function LintReport({ quiz, findings, enabledRules, onToggleRule, onSelectQuestion }: LintReportProps) {
+  const allFindings = findings.flat();
+  const findingsByRule = (ruleId: string) => allFindings.filter(finding => finding.ruleId === ruleId);
+  const flaggedQuestions = findings.filter(questionFindings => questionFindings.length > 0).length;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-semibold">Lint Report</CardTitle>
+        <CardDescription>
+          {allFindings.length === 0
+            ? 'No authoring problems found by the enabled rules.'
+            : `${allFindings.length} finding${allFindings.length !== 1 ? 's' : ''} across ${flaggedQuestions} of ${quiz.questions.length} questions.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {LINT_RULES.map(rule => {
+            const ruleFindings = findingsByRule(rule.id);
+            const enabled = enabledRules[rule.id] !== false;
+            return (
+              <AccordionItem key={rule.id} value={rule.id}>
+                <div className="flex items-center space-x-3">
+                  <Switch
+                    checked={enabled}
+                    onCheckedChange={checked => onToggleRule(rule.id, checked)}
+                    aria-label={`Toggle rule ${rule.label}`}
+                  />
+                  <AccordionTrigger className="flex-1 py-3 hover:no-underline" disabled={ruleFindings.length === 0}>
+                    <div className="flex flex-1 items-center justify-between pr-2 text-left">
+                      <div className={cn(!enabled && 'opacity-50')}>
+                        <p className="text-sm font-medium">{rule.label}</p>
+                        <p className="text-xs text-muted-foreground font-normal">{rule.description}</p>
+                      </div>
+                      {enabled && (
+                        <Badge variant="outline" className={ruleFindings.length > 0 ? LINT_SEVERITY_STYLES[rule.severity] : ''}>
+                          {ruleFindings.length}
+                        </Badge>
+                      )}
+                    </div>
+                  </AccordionTrigger>
+                </div>
+                <AccordionContent>
+                  <ul className="space-y-1 pl-12">
+                    {ruleFindings.map((finding, idx) => (
+                      <li key={`${finding.questionIndex}-${idx}`}>
+                        <button
+                          type="button"
+                          onClick={() => onSelectQuestion?.(finding.questionIndex)}
+                          className="text-left text-sm hover:underline"
+                        >
+                          <span className="font-medium">Question {finding.questionIndex + 1}:</span> {finding.message}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
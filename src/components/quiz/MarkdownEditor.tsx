@@ -0,0 +1,143 @@
+"use client";
+
+import type React from 'react';
+import { useMemo, useDeferredValue } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { QuizBundle } from '@/lib/assets';
+import { importMarkdown, serializeQuizMarkdown } from '@/lib/formats/markdown';
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, AlertTriangle, FileInput, Upload } from 'lucide-react';
+
+// Shown when the editor is first opened; it demonstrates each part of the dialect
+export const MARKDOWN_TEMPLATE = `# Atoms
+points: 2
+difficulty: 1
+hint: Think *small*
+
+What is the **smallest** unit of matter?
+
+- [x] Atom
+  > Correct!
+- [ ] Molecule
+- [ ] Cell
+
+# Primes
+Which of these numbers are prime?
+
+- [x] 2
+- [x] 3
+- [ ] 4
+  > 4 = 2 × 2
+
+# Sky
+answer: true
+
+The sky is blue.
+
+# Capital
+answer: Paris
+
+What is the capital of France?
+
+# Pairs
+Match each animal to its sound.
+
+- Cat -> Meow
+- Dog -> Woof
+
+# Steps
+Put the steps in order.
+
+1. Plan
+2. Build
+3. Test
+
+# Essay
+key: Mentions cause and effect
+
+Explain why the sky is blue.
+`;
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onLoad: (bundle: QuizBundle) => void;
+  currentQuiz?: Quiz | null; // Offered as a starting point when a quiz is already loaded
+  isLoading?: boolean;
+}
+
+export function MarkdownEditor({ value, onChange, onLoad, currentQuiz, isLoading = false }: MarkdownEditorProps) {
+  // Parsing lags behind typing on long banks instead of blocking the textarea
+  const deferredValue = useDeferredValue(value);
+  const preview = useMemo(
+    () => importMarkdown([{ path: 'quiz.md', content: deferredValue }]),
+    [deferredValue]
+  );
+  const problems = preview.diagnostics.filter(d => d.severity !== 'info');
+
+  const handleLoad = () => {
+    onLoad({ name: 'quiz.md', documents: [{ path: 'quiz.md', content: value }], assets: [] });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-lg font-semibold">Markdown</CardTitle>
+          <div className="flex space-x-2">
+            {currentQuiz && (
+              <Button variant="outline" size="sm" onClick={() => onChange(serializeQuizMarkdown(currentQuiz))}>
+                <FileInput className="h-4 w-4 mr-2" />
+                Start from loaded quiz
+              </Button>
+            )}
+            <Button size="sm" onClick={handleLoad} disabled={isLoading || preview.quiz.questions.length === 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load quiz
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Textarea
+            value={value}
+            onChange={event => onChange(event.target.value)}
+            spellCheck={false}
+            className="min-h-[32rem] font-mono text-sm"
+            aria-label="Quiz in Markdown"
+          />
+          <p className="mt-2 text-xs text-muted-foreground">
+            Each heading starts a question. Mark correct options with <code>- [x]</code>, give partial credit with <code>- [50%]</code>,
+            and set properties such as <code>points:</code>, <code>difficulty:</code> or <code>hint:</code> on the lines under the heading.
+          </p>
+          {problems.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm">
+              {problems.map((diagnostic, idx) => (
+                <li key={idx} className="flex items-start gap-2">
+                  {diagnostic.severity === 'error'
+                    ? <AlertCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                    : <AlertTriangle className="h-4 w-4 mt-0.5 text-orange-600 shrink-0" />}
+                  <span><span className="text-muted-foreground">{diagnostic.source}:</span> {diagnostic.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div>
+        <p className="mb-4 text-sm text-muted-foreground">
+          Preview: {preview.quiz.questions.length} question{preview.quiz.questions.length !== 1 ? 's' : ''}
+        </p>
+        <ScrollArea className="h-[40rem] pr-4">
+          {preview.quiz.questions.map((question, index) => (
+            <QuestionDisplay key={`${index}-${question.title}`} question={question} index={index} />
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
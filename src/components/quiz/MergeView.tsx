@@ -0,0 +1,214 @@
+"use client";
+
+import { useMemo, useRef, useState } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { MergeConflict, MergeResolution, MergeSource } from '@/lib/merge';
+import { defaultResolution, findMergeConflicts, mergeQuizzes, mergedIdOf } from '@/lib/merge';
+import { baseNameOf, readQuizBundle } from '@/lib/formats';
+import { serializeQuizCsv } from '@/lib/csvSerializer';
+import type { QuizBundle } from '@/lib/assets';
+import { useToast } from '@/hooks/use-toast';
+import { FileUpload } from '@/components/quiz/FileUpload';
+import { ExportMenu } from '@/components/quiz/ExportMenu';
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, Eye, Trash2 } from 'lucide-react';
+
+interface LoadedSource {
+  key: number;
+  name: string;
+  quiz: Quiz;
+  usePrefix: boolean;
+  idPrefix: string;
+}
+
+interface MergeViewProps {
+  onOpen: (bundle: QuizBundle) => void; // Loads the merged bank into the main preview
+}
+
+const MERGED_FILE_NAME = 'merged.csv';
+
+const conflictTitle = (conflict: MergeConflict): string =>
+  conflict.sharedIds.length > 0
+    ? `Same ID: ${conflict.sharedIds.join(', ')}${conflict.textsMatch ? '' : ' (different questions)'}`
+    : `Near-duplicate (${Math.round((conflict.similarity ?? 0) * 100)}% of words shared)`;
+
+// Loads several banks, resolves questions they have in common and exports them as one
+export function MergeView({ onOpen }: MergeViewProps) {
+  const { toast } = useToast();
+  const [sources, setSources] = useState<LoadedSource[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const nextKey = useRef(0);
+
+  const mergeSources = useMemo(
+    (): MergeSource[] => sources.map(source => ({ name: source.name, quiz: source.quiz, idPrefix: source.usePrefix ? source.idPrefix : undefined })),
+    [sources],
+  );
+  const conflicts = useMemo(() => findMergeConflicts(mergeSources), [mergeSources]);
+  const merged = useMemo(() => mergeQuizzes(mergeSources, conflicts, resolutions), [mergeSources, conflicts, resolutions]);
+  const resolutionOf = (conflict: MergeConflict) => resolutions[conflict.key] ?? defaultResolution(conflict);
+
+  const sourceQuestionCount = sources.reduce((total, source) => total + source.quiz.questions.length, 0);
+  const duplicateIdCount = useMemo(() => {
+    const ids = merged.questions.map(question => question.id).filter(Boolean);
+    return ids.length - new Set(ids).size;
+  }, [merged]);
+
+  const handleFileAccepted = async (bundle: QuizBundle) => {
+    try {
+      const { quiz } = await readQuizBundle(bundle);
+      if (quiz.questions.length === 0) throw new Error(`Could not find any questions in ${bundle.name}.`);
+      const key = nextKey.current++;
+      setSources(prev => [...prev, { key, name: bundle.name, quiz, usePrefix: false, idPrefix: `${baseNameOf(bundle.name)}-` }]);
+    } catch (err) {
+      console.error('Error loading quiz to merge:', err);
+      toast({ variant: 'destructive', title: 'Could not load the quiz', description: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const updateSource = (key: number, changes: Partial<LoadedSource>) =>
+    setSources(prev => prev.map(source => (source.key === key ? { ...source, ...changes } : source)));
+
+  // Applies one choice to every conflict, e.g. to keep the first bank's version throughout
+  const resolveAll = (resolution: MergeResolution) =>
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.key, resolution])));
+
+  const handleOpen = () => onOpen({ name: MERGED_FILE_NAME, documents: [{ path: MERGED_FILE_NAME, content: serializeQuizCsv(merged) }], assets: [] });
+
+  return (
+    <div className="space-y-6">
+      <FileUpload onFileAccepted={handleFileAccepted} separateFiles />
+
+      {sources.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Banks</h3>
+          {sources.map(source => (
+            <div key={source.key} className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+              <div className="flex-1 min-w-[12rem]">
+                <p className="font-medium truncate">{source.name}</p>
+                <p className="text-xs text-muted-foreground">{source.quiz.questions.length} question{source.quiz.questions.length !== 1 ? 's' : ''}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id={`prefix-${source.key}`} checked={source.usePrefix} onCheckedChange={usePrefix => updateSource(source.key, { usePrefix })} />
+                <Label htmlFor={`prefix-${source.key}`}>Prefix IDs</Label>
+                <Input
+                  value={source.idPrefix}
+                  onChange={event => updateSource(source.key, { idPrefix: event.target.value })}
+                  disabled={!source.usePrefix}
+                  className="h-8 w-40"
+                  aria-label={`ID prefix for ${source.name}`}
+                />
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setSources(prev => prev.filter(other => other.key !== source.key))} aria-label={`Remove ${source.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {sources.length > 1 && (
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="font-semibold mr-2">Questions in more than one bank</h3>
+            <Badge variant="outline">{conflicts.length} conflict{conflicts.length !== 1 ? 's' : ''}</Badge>
+            {conflicts.length > 0 && (
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => resolveAll(0)}>Keep first version everywhere</Button>
+                <Button variant="outline" size="sm" onClick={() => resolveAll('keep-all')}>Keep all versions</Button>
+              </div>
+            )}
+          </div>
+
+          {conflicts.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground">No shared IDs or near-duplicate questions between these banks.</p>
+          ) : (
+            <Accordion type="multiple">
+              {conflicts.map(conflict => {
+                const resolution = resolutionOf(conflict);
+                return (
+                  <AccordionItem key={conflict.key} value={conflict.key}>
+                    <AccordionTrigger className="hover:no-underline">
+                      <div className="flex flex-1 flex-wrap items-center gap-2 mr-2 text-left">
+                        <span className="font-medium">{conflictTitle(conflict)}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {resolution === 'keep-all' ? 'Keeping all versions' : `Keeping the version from ${mergeSources[conflict.members[resolution].sourceIndex].name}`}
+                        </span>
+                        {resolution === 'keep-all' && conflict.sharedIds.length > 0 && (
+                          <AlertTriangle className="h-4 w-4 text-amber-500" aria-label="Leaves duplicate IDs" />
+                        )}
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="text-base space-y-4">
+                      <RadioGroup
+                        value={String(resolution)}
+                        onValueChange={value => setResolutions(prev => ({ ...prev, [conflict.key]: value === 'keep-all' ? 'keep-all' : Number(value) }))}
+                      >
+                        {conflict.members.map((member, idx) => (
+                          <div key={idx} className="flex items-center gap-2">
+                            <RadioGroupItem value={String(idx)} id={`${conflict.key}-${idx}`} />
+                            <Label htmlFor={`${conflict.key}-${idx}`}>
+                              Keep the version from {mergeSources[member.sourceIndex].name} (question {member.questionIndex + 1})
+                            </Label>
+                          </div>
+                        ))}
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="keep-all" id={`${conflict.key}-all`} />
+                          <Label htmlFor={`${conflict.key}-all`}>
+                            Keep all versions{conflict.sharedIds.length > 0 && ' (the merged bank will have duplicate IDs unless they are prefixed)'}
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                      <div className="grid gap-4 lg:grid-cols-2">
+                        {conflict.members.map((member, idx) => {
+                          const source = mergeSources[member.sourceIndex];
+                          const question = source.quiz.questions[member.questionIndex];
+                          const mergedId = mergedIdOf(source, question);
+                          return (
+                            <div key={idx}>
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">
+                                {source.name}{mergedId && ` · ${mergedId}`}
+                              </p>
+                              <QuestionDisplay
+                                question={question}
+                                index={member.questionIndex}
+                                highlight={resolution === 'keep-all' || resolution === idx ? undefined : 'removed'}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 rounded-md border p-4">
+            <div className="flex-1">
+              <p className="font-medium">
+                Merged bank: {merged.questions.length} question{merged.questions.length !== 1 ? 's' : ''}
+                {merged.sections && `, ${merged.sections.length} section${merged.sections.length !== 1 ? 's' : ''}`}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {sourceQuestionCount - merged.questions.length} duplicate{sourceQuestionCount - merged.questions.length !== 1 ? 's' : ''} dropped
+                {duplicateIdCount > 0 && ` · ${duplicateIdCount} duplicate ID${duplicateIdCount !== 1 ? 's' : ''} left`}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleOpen}>
+              <Eye className="h-4 w-4 mr-2" /> Open in preview
+            </Button>
+            <ExportMenu quiz={merged} fileName={MERGED_FILE_NAME} />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
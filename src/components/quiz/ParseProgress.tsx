@@ -0,0 +1,36 @@
+import type { CsvParseProgress } from '@/lib/csvParser.worker';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, XCircle } from 'lucide-react';
+
+interface ParseProgressProps {
+  fileName: string | null;
+  progress: CsvParseProgress;
+  onCancel: () => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Progress of a CSV being parsed in the background, with a way to stop it
+export function ParseProgress({ fileName, progress, onCancel }: ParseProgressProps) {
+  const percentage = progress.totalBytes > 0 ? Math.round((progress.bytesRead * 100) / progress.totalBytes) : 0;
+  return (
+    <div className="mb-8 p-4 border rounded-md bg-background space-y-2">
+      <div className="flex items-center gap-3">
+        <Loader2 className="h-5 w-5 text-primary animate-spin" />
+        <div className="flex-1">
+          <p className="text-sm font-medium">Parsing {fileName ?? 'quiz'}…</p>
+          <p className="text-xs text-muted-foreground">
+            {progress.recordsProcessed.toLocaleString()} record{progress.recordsProcessed !== 1 ? 's' : ''} processed,{' '}
+            {progress.questionsFound.toLocaleString()} question{progress.questionsFound !== 1 ? 's' : ''} found
+            {' '}({formatSize(progress.bytesRead)} of {formatSize(progress.totalBytes)})
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          <XCircle className="h-4 w-4 mr-1" /> Cancel
+        </Button>
+      </div>
+      <Progress value={percentage} className="h-2" />
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { Quiz, Question } from '@/types/quiz';
+import type { QuestionResponse, QuizGrade } from '@/types/practice';
+import { PracticeQuestion } from '@/components/quiz/PracticeQuestion';
+import { gradeQuiz } from '@/lib/scoring';
+import { shuffle } from '@/lib/random';
+import { drawPracticeQuestions } from '@/lib/sections';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent } from '@/components/ui/card';
+import { ClipboardCheck, RotateCcw } from 'lucide-react';
+
+// Ordering questions start from a shuffled arrangement, which is itself the learner's initial answer
+const initialResponse = (question: Question): QuestionResponse | undefined => {
+  if (question.type !== 'O') return undefined;
+  const indices = (question.items ?? []).map((_, idx) => idx);
+  let order = shuffle(indices);
+  // Avoid presenting the items already in the correct order when there is any alternative
+  for (let attempt = 0; attempt < 5 && indices.length > 1 && order.every((itemIdx, position) => itemIdx === position); attempt++) {
+    order = shuffle(indices);
+  }
+  return { type: 'O', order };
+};
+
+const initialResponses = (quiz: Quiz) => quiz.questions.map(initialResponse);
+
+export function PracticeMode({ quiz: bank }: { quiz: Quiz }) {
+  // Each attempt takes every question outside pools plus a fresh random draw from each pool
+  const [drawn, setDrawn] = useState<number[]>(() => drawPracticeQuestions(bank));
+  const quiz = useMemo<Quiz>(() => ({ questions: drawn.map(idx => bank.questions[idx]) }), [bank, drawn]);
+  const [responses, setResponses] = useState<(QuestionResponse | undefined)[]>(() => initialResponses(quiz));
+  const [result, setResult] = useState<QuizGrade | null>(null);
+  const [attempt, setAttempt] = useState<number>(0); // Bumped on retry to remount cards and reshuffle
+
+  const answeredCount = responses.filter(Boolean).length;
+
+  const handleChange = (questionIndex: number, response: QuestionResponse) => {
+    setResponses(prev => prev.map((r, i) => (i === questionIndex ? response : r)));
+  };
+
+  const handleSubmit = () => {
+    setResult(gradeQuiz(quiz, responses));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleRetry = () => {
+    const next = drawPracticeQuestions(bank);
+    setDrawn(next);
+    setResponses(initialResponses({ questions: next.map(idx => bank.questions[idx]) }));
+    setResult(null);
+    setAttempt(a => a + 1);
+  };
+
+  const percent = result && result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 0;
+
+  return (
+    <div>
+      {result && (
+        <Card className="mb-6 border-primary">
+          <CardContent className="p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Score: {result.score} / {result.maxScore} ({percent}%)</h2>
+              <Button variant="outline" size="sm" onClick={handleRetry}>
+                <RotateCcw className="h-4 w-4 mr-2" /> Try Again
+              </Button>
+            </div>
+            <Progress value={percent} className="h-2" />
+            {result.pendingManualPoints > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.pendingManualPoints} point{result.pendingManualPoints !== 1 ? 's' : ''} from written responses are not included and need manual grading.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {drawn.length < bank.questions.length && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          This attempt draws {drawn.length} of {bank.questions.length} questions from the quiz&apos;s pools; Try Again draws a new set.
+        </p>
+      )}
+
+      {quiz.questions.map((question, index) => (
+        <PracticeQuestion
+          key={`${attempt}-${drawn[index]}-${question.id || question.title}`}
+          question={question}
+          index={index}
+          response={responses[index]}
+          onChange={response => handleChange(index, response)}
+          grade={result?.grades[index]}
+        />
+      ))}
+
+      {!result && (
+        <div className="flex items-center justify-end space-x-4">
+          <p className="text-sm text-muted-foreground">{answeredCount} of {quiz.questions.length} answered</p>
+          <Button onClick={handleSubmit}>
+            <ClipboardCheck className="h-4 w-4 mr-2" /> Submit Answers
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
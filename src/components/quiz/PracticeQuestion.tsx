@@ -0,0 +1,351 @@
+"use client";
+
+import type React from 'react';
+import { useState } from 'react';
+import type { Question } from '@/types/quiz';
+import type { QuestionResponse, QuestionGrade, GradeStatus } from '@/types/practice';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RenderHtml } from '@/components/quiz/RenderHtml';
+import { QuestionImage } from '@/components/quiz/QuestionImage';
+import { getQuestionIcon } from '@/components/quiz/QuestionDisplay';
+import { FillInTheBlankText, blankWidth } from '@/components/quiz/FillInTheBlankText';
+import { blanksOf } from '@/lib/fillInTheBlank';
+import { answerBoxCount } from '@/lib/scoring';
+import { sampleArithmetic, substituteVariables } from '@/lib/arithmetic';
+import { likertChoices, likertStatements } from '@/lib/likert';
+import { shuffle } from '@/lib/random';
+import { stripHtml } from '@/lib/html';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface PracticeQuestionProps {
+  question: Question;
+  index: number;
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse) => void;
+  grade?: QuestionGrade; // Present once the attempt has been submitted; locks the inputs
+}
+
+const STATUS_STYLES: Record<GradeStatus, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-green-100 text-green-800 border-green-300' },
+  partial: { label: 'Partially correct', className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  incorrect: { label: 'Incorrect', className: 'bg-red-100 text-red-800 border-red-300' },
+  unanswered: { label: 'Not answered', className: 'bg-muted text-muted-foreground' },
+  manual: { label: 'Needs manual grading', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  survey: { label: 'Response recorded', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+};
+
+export function PracticeQuestion({ question, index, response, onChange, grade }: PracticeQuestionProps) {
+  const locked = grade !== undefined;
+  // Match texts are offered in a random order so their position doesn't give the answer away
+  const [matchOrder] = useState(() => (question.type === 'M' ? shuffle(question.pairs ?? []) : []));
+  // Each attempt at an Arithmetic or Significant Figures question draws its own variable values
+  const [instance] = useState(() => (question.type === 'ARITH' || question.type === 'SF' ? sampleArithmetic(question) : null));
+
+  const renderAnswerArea = (): React.ReactNode => {
+    switch (question.type) {
+      case 'WR':
+        return (
+          <Textarea
+            placeholder="Enter your response here..."
+            rows={5}
+            value={response?.type === 'WR' ? response.text : question.initialText || ''}
+            onChange={e => onChange({ type: 'WR', text: e.target.value })}
+            disabled={locked}
+          />
+        );
+
+      case 'SA':
+        return (
+          <div>
+            <Input
+              placeholder="Enter your answer"
+              value={response?.type === 'SA' ? response.text : ''}
+              onChange={e => onChange({ type: 'SA', text: e.target.value })}
+              style={{ width: question.inputBox?.cols ? `${question.inputBox.cols * 0.9}ch` : '100%', maxWidth: '100%' }}
+              disabled={locked}
+            />
+            {locked && <p className="text-sm text-muted-foreground mt-2"><strong>Accepted answer:</strong> {question.bestAnswer} ({question.evaluation})</p>}
+          </div>
+        );
+
+      case 'MC':
+        return (
+          <RadioGroup
+            className="space-y-2"
+            value={response?.type === 'MC' && response.selected !== null ? String(response.selected) : ''}
+            onValueChange={value => onChange({ type: 'MC', selected: Number(value) })}
+            disabled={locked}
+          >
+            {question.options?.map((option, idx) => (
+              <div key={idx} className="flex items-center space-x-2 p-2 border rounded-md hover:bg-secondary/30">
+                <RadioGroupItem value={String(idx)} id={`practice-mc-${index}-${idx}`} />
+                <Label htmlFor={`practice-mc-${index}-${idx}`} className="flex-1 cursor-pointer"><RenderHtml content={option.text} /></Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'TF':
+        return (
+          <RadioGroup
+            className="space-y-2"
+            value={response?.type === 'TF' && response.selected !== null ? String(response.selected) : ''}
+            onValueChange={value => onChange({ type: 'TF', selected: value === 'true' })}
+            disabled={locked}
+          >
+            {(['true', 'false'] as const).map(value => (
+              <div key={value} className="flex items-center space-x-2 p-2 border rounded-md hover:bg-secondary/30">
+                <RadioGroupItem value={value} id={`practice-tf-${index}-${value}`} />
+                <Label htmlFor={`practice-tf-${index}-${value}`} className="flex-1 cursor-pointer">{value === 'true' ? 'True' : 'False'}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'MS': {
+        const selected = response?.type === 'MS' ? response.selected : [];
+        const toggle = (idx: number, checked: boolean) => {
+          onChange({ type: 'MS', selected: checked ? [...selected, idx].sort((a, b) => a - b) : selected.filter(i => i !== idx) });
+        };
+        return (
+          <div className="space-y-2">
+            {question.options?.map((option, idx) => (
+              <div key={idx} className="flex items-center space-x-2 p-2 border rounded-md hover:bg-secondary/30">
+                <Checkbox
+                  id={`practice-ms-${index}-${idx}`}
+                  checked={selected.includes(idx)}
+                  onCheckedChange={checked => toggle(idx, checked === true)}
+                  disabled={locked}
+                />
+                <Label htmlFor={`practice-ms-${index}-${idx}`} className="flex-1 cursor-pointer"><RenderHtml content={option.text} /></Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'M': {
+        const matches = response?.type === 'M' ? response.matches : {};
+        return (
+          <div className="space-y-2">
+            {question.pairs?.map(pair => (
+              <div key={pair.choiceNo} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center p-2 border rounded-md">
+                <RenderHtml content={pair.choiceText} />
+                <Select
+                  value={matches[pair.choiceNo] !== undefined ? String(matches[pair.choiceNo]) : ''}
+                  onValueChange={value => onChange({ type: 'M', matches: { ...matches, [pair.choiceNo]: Number(value) } })}
+                  disabled={locked}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a match" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matchOrder.map(match => (
+                      <SelectItem key={match.choiceNo} value={String(match.choiceNo)}>{stripHtml(match.matchText ?? '')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'O': {
+        const order = response?.type === 'O' ? response.order : [];
+        const move = (from: number, to: number) => {
+          const next = [...order];
+          [next[from], next[to]] = [next[to], next[from]];
+          onChange({ type: 'O', order: next });
+        };
+        return (
+          <ul className="space-y-2">
+            {order.map((itemIdx, position) => (
+              <li key={itemIdx} className="flex items-center space-x-2 p-2 border rounded-md bg-secondary/50">
+                <span className="font-semibold">{position + 1}.</span>
+                <div className="flex-1"><RenderHtml content={question.items?.[itemIdx]?.text} /></div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(position, position - 1)} disabled={locked || position === 0} aria-label="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(position, position + 1)} disabled={locked || position === order.length - 1} aria-label="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        );
+      }
+
+      case 'FIB': {
+        const answers = response?.type === 'FIB' ? response.answers : [];
+        const setAnswer = (blankIndex: number, text: string) => {
+          const next = blanksOf(question).map((_, idx) => answers[idx] ?? '');
+          next[blankIndex] = text;
+          onChange({ type: 'FIB', answers: next });
+        };
+        return (
+          <div>
+            <FillInTheBlankText
+              question={question}
+              renderBlank={(blank, blankIndex) => (
+                <Input
+                  value={answers[blankIndex] ?? ''}
+                  onChange={e => setAnswer(blankIndex, e.target.value)}
+                  className="inline-flex h-8"
+                  style={{ width: blankWidth(blank), maxWidth: '100%' }}
+                  aria-label={`Blank ${blankIndex + 1}`}
+                  disabled={locked}
+                />
+              )}
+            />
+            {locked && (
+              <ul className="text-sm text-muted-foreground mt-2 space-y-1">
+                {blanksOf(question).map((blank, blankIndex) => (
+                  <li key={blankIndex}>
+                    <strong>Blank {blankIndex + 1} accepts:</strong> {blank.answers.map(answer => answer.text).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      }
+
+      case 'MSA': {
+        const answers = response?.type === 'MSA' ? response.answers : [];
+        const boxes = answerBoxCount(question);
+        const setAnswer = (boxIndex: number, text: string) => {
+          const next = Array.from({ length: boxes }, (_, idx) => answers[idx] ?? '');
+          next[boxIndex] = text;
+          onChange({ type: 'MSA', answers: next });
+        };
+        return (
+          <div className="space-y-2">
+            {Array.from({ length: boxes }, (_, idx) => (
+              <Input
+                key={idx}
+                placeholder={`Answer ${idx + 1}`}
+                value={answers[idx] ?? ''}
+                onChange={e => setAnswer(idx, e.target.value)}
+                style={{ width: question.inputBox?.cols ? `${question.inputBox.cols * 0.9}ch` : '100%', maxWidth: '100%' }}
+                aria-label={`Answer ${idx + 1}`}
+                disabled={locked}
+              />
+            ))}
+            {locked && <p className="text-sm text-muted-foreground"><strong>Accepted answers:</strong> {(question.answers ?? []).map(answer => answer.text).join(', ')}</p>}
+          </div>
+        );
+      }
+
+      case 'ARITH':
+      case 'SF': {
+        const type = question.type;
+        return (
+          <div>
+            <Input
+              placeholder={type === 'SF' ? 'e.g. 1.23e4' : 'Enter a number'}
+              inputMode={type === 'SF' ? 'text' : 'decimal'}
+              value={response?.type === type ? response.text : ''}
+              onChange={e => onChange({ type, values: instance?.values ?? {}, text: e.target.value })}
+              className="max-w-xs"
+              disabled={locked}
+            />
+            {question.type === 'SF' && (
+              <p className="text-sm text-muted-foreground mt-2">Give your answer to {question.significantFigures} significant figure{question.significantFigures !== 1 ? 's' : ''}.</p>
+            )}
+          </div>
+        );
+      }
+
+      case 'LIK': {
+        const ratings = response?.type === 'LIK' ? response.ratings : [];
+        const statements = likertStatements(question);
+        const choices = likertChoices(question);
+        const rate = (statementIdx: number, choiceIdx: number) => {
+          const next = statements.map((_, idx) => ratings[idx] ?? null);
+          next[statementIdx] = choiceIdx;
+          onChange({ type: 'LIK', ratings: next });
+        };
+        return (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {choices.map(choice => <th key={choice} className="font-medium text-center p-2 text-muted-foreground">{choice}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {statements.map((statement, statementIdx) => (
+                  <tr key={statementIdx} className="border-t">
+                    <td className="p-2">{question.statements?.length ? <RenderHtml content={statement.text} /> : <span className="text-muted-foreground italic">Your rating</span>}</td>
+                    {choices.map((choice, choiceIdx) => (
+                      <td key={choice} className="p-2 text-center">
+                        <RadioGroup
+                          className="inline-flex"
+                          value={ratings[statementIdx] === choiceIdx ? String(choiceIdx) : ''}
+                          onValueChange={() => rate(statementIdx, choiceIdx)}
+                          disabled={locked}
+                        >
+                          <RadioGroupItem value={String(choiceIdx)} aria-label={choice} />
+                        </RadioGroup>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card id={`practice-question-${index}`} className="mb-6 shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className='flex items-center'>
+          {getQuestionIcon(question.type)}
+          <CardTitle className="text-lg font-semibold">Question {index + 1}{question.title ? `: ${question.title}` : ''}</CardTitle>
+        </div>
+        <Badge variant="secondary">
+          {grade && grade.status !== 'manual' && grade.status !== 'survey' ? `${grade.score} / ` : ''}{question.points} Point{question.points !== 1 ? 's' : ''}
+        </Badge>
+      </CardHeader>
+      <CardContent>
+        {question.questionText && (
+          <CardDescription className="mb-4 text-base">
+            <RenderHtml content={instance ? substituteVariables(question.questionText, instance.values) : question.questionText} />
+          </CardDescription>
+        )}
+        {question.image && <QuestionImage path={question.image} alt={question.title} />}
+        {renderAnswerArea()}
+      </CardContent>
+      {(grade || question.hint) && (
+        <CardFooter className="flex flex-col items-start text-sm text-muted-foreground space-y-2 pt-4 border-t">
+          {!grade && question.hint && <p><strong>Hint:</strong> <RenderHtml content={question.hint} /></p>}
+          {grade && (
+            <>
+              <Badge variant="outline" className={STATUS_STYLES[grade.status].className}>{STATUS_STYLES[grade.status].label}</Badge>
+              {grade.note && <p>{grade.note}</p>}
+              {grade.feedback.map((text, idx) => (
+                <div key={idx} className="italic"><RenderHtml content={text} /></div>
+              ))}
+            </>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
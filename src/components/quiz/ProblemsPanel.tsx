@@ -0,0 +1,96 @@
+"use client";
+
+import type React from 'react';
+import { useState } from 'react';
+import type { ParseDiagnostic, DiagnosticSeverity } from '@/types/quiz';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ProblemsPanelProps {
+  diagnostics: ParseDiagnostic[];
+  onSelectQuestion?: (questionIndex: number) => void;
+}
+
+// Helper to get icon based on diagnostic severity
+const getSeverityIcon = (severity: DiagnosticSeverity): React.ReactElement => {
+    switch (severity) {
+        case 'error': return <AlertCircle className="h-4 w-4 text-destructive shrink-0" />;
+        case 'warning': return <AlertTriangle className="h-4 w-4 text-orange-600 shrink-0" />;
+        default: return <Info className="h-4 w-4 text-muted-foreground shrink-0" />;
+    }
+};
+
+// Describes where in the CSV a diagnostic points to, e.g. "Line 12, record 8, column 2 (Match)",
+// or names the file and item for other import formats
+const formatLocation = (diagnostic: ParseDiagnostic): string => {
+    if (diagnostic.line === undefined) return diagnostic.source ?? '';
+    let location = `Line ${diagnostic.line}, record ${diagnostic.record}`;
+    if (diagnostic.column !== undefined) location += `, column ${diagnostic.column}`;
+    if (diagnostic.key) location += ` (${diagnostic.key})`;
+    return location;
+};
+
+export function ProblemsPanel({ diagnostics, onSelectQuestion }: ProblemsPanelProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const countBySeverity = (severity: DiagnosticSeverity) => diagnostics.filter(d => d.severity === severity).length;
+  const errorCount = countBySeverity('error');
+  const warningCount = countBySeverity('warning');
+  const infoCount = countBySeverity('info');
+
+  const handleSelect = (diagnostic: ParseDiagnostic, idx: number) => {
+    setSelected(idx);
+    if (diagnostic.questionIndex !== undefined && onSelectQuestion) {
+      onSelectQuestion(diagnostic.questionIndex);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-semibold">Problems ({diagnostics.length})</CardTitle>
+        <div className="flex space-x-2">
+          {errorCount > 0 && <Badge variant="destructive">{errorCount} error{errorCount !== 1 ? 's' : ''}</Badge>}
+          {warningCount > 0 && <Badge variant="outline" className="border-orange-400 text-orange-700">{warningCount} warning{warningCount !== 1 ? 's' : ''}</Badge>}
+          {infoCount > 0 && <Badge variant="secondary">{infoCount} info</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-72 pr-2 [&>[data-radix-scroll-area-viewport]]:max-h-72">
+          <ul className="space-y-1">
+            {diagnostics.map((diagnostic, idx) => (
+              <li key={`${diagnostic.record}-${diagnostic.code}-${idx}`}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(diagnostic, idx)}
+                  className={cn(
+                    "w-full flex items-start space-x-2 p-2 rounded-md text-left text-sm hover:bg-secondary/50",
+                    selected === idx && "bg-secondary"
+                  )}
+                >
+                  {getSeverityIcon(diagnostic.severity)}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-foreground">{diagnostic.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatLocation(diagnostic)}
+                      {diagnostic.questionTitle && <> &middot; {diagnostic.questionTitle}</>}
+                      {diagnostic.questionIndex !== undefined && <> &middot; Question {diagnostic.questionIndex + 1}</>}
+                      {' '}&middot; <code>{diagnostic.code}</code>
+                    </p>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
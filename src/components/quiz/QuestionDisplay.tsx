@@ -1,5 +1,11 @@
 import type React from 'react';
 import type { Question } from '@/types/quiz';
+import type { ValidationIssue } from '@/lib/validation';
+import { formatValidationIssue } from '@/lib/validation';
+import type { LintFinding } from '@/lib/lint';
+import type { ComparisonStatus } from '@/lib/compare';
+import { getLintRule } from '@/lib/lint';
+import { LINT_SEVERITY_STYLES } from '@/components/quiz/LintReport';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -8,10 +14,19 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input'; // Keep Input component import
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertCircle, HelpCircle, Image as ImageIcon, ListOrdered, MessageSquare, MousePointerSquareDashed, CheckSquare, AlignJustify, Check, X, Type } from 'lucide-react'; // Changed 'Input' icon import to 'Type'
+import { Button } from '@/components/ui/button';
+import { RenderHtml } from '@/components/quiz/RenderHtml';
+import { QuestionImage } from '@/components/quiz/QuestionImage';
+import { FillInTheBlankText, blankWidth } from '@/components/quiz/FillInTheBlankText';
+import { ArithmeticSample } from '@/components/quiz/ArithmeticSample';
+import { bestAnswersOf, blanksOf } from '@/lib/fillInTheBlank';
+import { answerBoxCount } from '@/lib/scoring';
+import { describeVariable, describeTolerance } from '@/lib/arithmetic';
+import { LIKERT_SCALES, likertChoices, likertStatements } from '@/lib/likert';
+import { AlertCircle, HelpCircle, ListOrdered, MessageSquare, MousePointerSquareDashed, CheckSquare, AlignJustify, Check, X, Type, Pencil, TextCursorInput, Rows3, Calculator, Sigma, SlidersHorizontal } from 'lucide-react'; // Changed 'Input' icon import to 'Type'
 
 // Helper to get icon based on question type
-const getQuestionIcon = (type: Question['type']): React.ReactElement => {
+export const getQuestionIcon = (type: Question['type']): React.ReactElement => {
     switch (type) {
         case 'WR': return <MessageSquare className="h-5 w-5 mr-2 text-primary" />;
         case 'SA': return <Type className="h-5 w-5 mr-2 text-primary" />; // Changed Input icon to Type icon for Short Answer
@@ -20,49 +35,77 @@ const getQuestionIcon = (type: Question['type']): React.ReactElement => {
         case 'TF': return <HelpCircle className="h-5 w-5 mr-2 text-primary" />; // Using HelpCircle for T/F
         case 'MS': return <CheckSquare className="h-5 w-5 mr-2 text-primary" />;
         case 'O': return <ListOrdered className="h-5 w-5 mr-2 text-primary" />; // Re-using ListOrdered for Ordering
+        case 'FIB': return <TextCursorInput className="h-5 w-5 mr-2 text-primary" />;
+        case 'MSA': return <Rows3 className="h-5 w-5 mr-2 text-primary" />;
+        case 'ARITH': return <Calculator className="h-5 w-5 mr-2 text-primary" />;
+        case 'SF': return <Sigma className="h-5 w-5 mr-2 text-primary" />;
+        case 'LIK': return <SlidersHorizontal className="h-5 w-5 mr-2 text-primary" />;
         default: return <AlertCircle className="h-5 w-5 mr-2 text-muted-foreground" />;
     }
 };
 
-// Helper to render HTML safely (basic implementation)
-const RenderHtml = ({ content }: { content?: string | null | undefined }) => {
-    // Ensure content is a string before attempting to render
-    if (typeof content !== 'string' || !content) {
-        return null;
-    }
-    // WARNING: In a real app, use a proper sanitizer library like DOMPurify
-    // to prevent XSS attacks before using dangerouslySetInnerHTML.
-    // This basic version assumes trusted content.
-    return <div className="rendered-html-content" dangerouslySetInnerHTML={{ __html: content }} />;
-};
+interface QuestionDisplayProps {
+  question: Question;
+  index: number;
+  onEdit?: () => void; // Shows an edit button when provided
+  issues?: ValidationIssue[]; // Validation problems; the card is flagged when non-empty
+  lintFindings?: LintFinding[];
+  highlight?: ComparisonStatus; // Colours the card by how the question changed between two versions of a bank
+}
 
+const HIGHLIGHT_STYLES: Record<ComparisonStatus, string> = {
+  added: 'border-green-400 bg-green-50/50',
+  removed: 'border-red-400 bg-red-50/50',
+  modified: 'border-amber-400',
+  unchanged: '',
+};
 
-export function QuestionDisplay({ question, index }: { question: Question; index: number }) {
+export function QuestionDisplay({ question, index, onEdit, issues = [], lintFindings = [], highlight }: QuestionDisplayProps) {
   const QuestionIcon = getQuestionIcon(question.type);
 
   return (
-    <Card className="mb-6 shadow-md hover:shadow-lg transition-shadow duration-200">
+    <Card id={`question-${index}`} className={`mb-6 scroll-mt-4 shadow-md hover:shadow-lg transition-shadow duration-200 ${issues.length > 0 ? 'border-destructive' : ''} ${highlight ? HIGHLIGHT_STYLES[highlight] : ''}`}>
       <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
         <div className='flex items-center'>
             {QuestionIcon}
             <CardTitle className="text-lg font-semibold">Question {index + 1}{question.title ? `: ${question.title}` : ''}</CardTitle>
         </div>
-        <Badge variant="secondary">{question.points} Point{question.points !== 1 ? 's' : ''}</Badge>
+        <div className="flex items-center space-x-2">
+            {issues.length > 0 && <Badge variant="destructive">Invalid</Badge>}
+            <Badge variant="secondary">{question.points} Point{question.points !== 1 ? 's' : ''}</Badge>
+            {onEdit && (
+                <Button variant="ghost" size="icon" onClick={onEdit} className="h-7 w-7" aria-label={`Edit question ${index + 1}`}>
+                    <Pencil className="h-4 w-4" />
+                </Button>
+            )}
+        </div>
       </CardHeader>
       <CardContent>
-        <CardDescription className="mb-4 text-base">
-           <RenderHtml content={question.questionText} />
-        </CardDescription>
-
-        {question.image && (
-          <div className="mb-4 p-2 border rounded-md bg-secondary flex items-center justify-center">
-            <ImageIcon className="h-6 w-6 mr-2 text-muted-foreground" />
-            <span className="text-muted-foreground italic">Image placeholder: {question.image}</span>
-            {/* In a real app, you might fetch and display the image:
-            <img src={`/path/to/images/${question.image}`} alt={question.title} className="max-w-full h-auto rounded" />
-            */}
+        {lintFindings.length > 0 && (
+          <div className="mb-4 flex flex-wrap gap-2">
+            {lintFindings.map((finding, idx) => (
+              <Badge key={`${finding.ruleId}-${idx}`} variant="outline" className={LINT_SEVERITY_STYLES[finding.severity]} title={finding.message}>
+                {getLintRule(finding.ruleId)?.label ?? finding.ruleId}
+              </Badge>
+            ))}
           </div>
         )}
+        {issues.length > 0 && (
+          <div className="mb-4 p-3 border border-destructive/50 rounded-md bg-destructive/5 text-sm text-destructive">
+            <p className="font-medium flex items-center"><AlertCircle className="h-4 w-4 mr-2" />This question will not import cleanly into Brightspace:</p>
+            <ul className="list-disc ml-8 mt-1">
+              {issues.map((issue, idx) => <li key={idx}>{formatValidationIssue(issue)}</li>)}
+            </ul>
+          </div>
+        )}
+        {/* Fill-in-the-blank questions may have no lead-in; their Text rows are rendered below */}
+        {question.questionText && (
+          <CardDescription className="mb-4 text-base">
+             <RenderHtml content={question.questionText} />
+          </CardDescription>
+        )}
+
+        {question.image && <QuestionImage path={question.image} alt={question.title} />}
 
         {/* Render question-specific content */}
         {question.type === 'WR' && (
@@ -196,6 +239,108 @@ export function QuestionDisplay({ question, index }: { question: Question; index
            </div>
         )}
 
+        {question.type === 'FIB' && (
+          <div>
+            {/* Each blank shows its best answer in place; every accepted answer is listed below */}
+            <FillInTheBlankText
+              question={question}
+              renderBlank={(blank, blankIndex) => (
+                <Input
+                  value={bestAnswersOf(blank)[0]?.text ?? ''}
+                  placeholder={`Blank ${blankIndex + 1}`}
+                  className="inline-flex h-8 read-only:bg-muted/50"
+                  style={{ width: blankWidth(blank), maxWidth: '100%' }}
+                  aria-label={`Blank ${blankIndex + 1}`}
+                  readOnly
+                />
+              )}
+            />
+            <ul className="text-sm text-muted-foreground space-y-1 mt-2">
+              {blanksOf(question).map((blank, blankIndex) => (
+                <li key={blankIndex}>
+                  <strong>Blank {blankIndex + 1}:</strong>{' '}
+                  {blank.answers.length === 0
+                    ? <span className="text-destructive">no accepted answers</span>
+                    : blank.answers.map(answer => `${answer.text}${answer.weight !== 100 ? ` (${answer.weight}%)` : ''}`).join(', ')}
+                  {blank.answers.length > 0 && ` (${[...new Set(blank.answers.map(answer => answer.evaluation))].join(', ')})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {question.type === 'MSA' && (
+          <div>
+            <div className="space-y-2 mb-2">
+              {Array.from({ length: answerBoxCount(question) }, (_, idx) => (
+                <Input
+                  key={idx}
+                  placeholder={`Answer ${idx + 1}`}
+                  className="read-only:bg-muted/50"
+                  style={{ width: question.inputBox?.cols ? `${question.inputBox.cols * 0.9}ch` : '100%', maxWidth: '100%' }}
+                  aria-label={`Answer ${idx + 1}`}
+                  readOnly
+                />
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              <strong>Accepted Answers:</strong>{' '}
+              {question.answers?.length
+                ? question.answers.map(answer => `${answer.text} (${answer.evaluation})`).join(', ')
+                : <span className="text-destructive">none</span>}
+            </p>
+          </div>
+        )}
+
+        {(question.type === 'ARITH' || question.type === 'SF') && (
+          <div className="space-y-3">
+            <div className="text-sm space-y-1">
+              <p><strong>Formula:</strong> <code className="px-1 rounded bg-muted">{question.formula}</code></p>
+              {question.type === 'SF' && <p><strong>Significant Figures:</strong> {question.significantFigures}</p>}
+              {question.variables?.length > 0 && (
+                <ul className="list-disc ml-6 text-muted-foreground">
+                  {question.variables.map(variable => (
+                    <li key={variable.name}><code>{`{${variable.name}}`}</code>: {describeVariable(variable)}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-muted-foreground"><strong>Tolerance:</strong> {describeTolerance(question.tolerance)}</p>
+            </div>
+            {/* Re-drawn whenever the formula or variables are edited */}
+            <ArithmeticSample key={JSON.stringify([question.formula, question.variables])} question={question} />
+          </div>
+        )}
+
+        {question.type === 'LIK' && (
+          <div className="overflow-x-auto">
+            {/* Survey layout: one row per statement, one column per point of the scale */}
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium p-2">{LIKERT_SCALES[question.scale]?.label ?? question.scale} scale</th>
+                  {likertChoices(question).map(choice => (
+                    <th key={choice} className="font-medium text-center p-2 text-muted-foreground">{choice}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {likertStatements(question).map((statement, statementIdx) => (
+                  <tr key={statementIdx} className="border-t">
+                    <td className="p-2">{question.statements?.length ? <RenderHtml content={statement.text} /> : <span className="text-muted-foreground italic">Rating of the question</span>}</td>
+                    {likertChoices(question).map(choice => (
+                      <td key={choice} className="p-2 text-center">
+                        <RadioGroup className="inline-flex" disabled>
+                          <RadioGroupItem value={choice} aria-label={`${choice}`} />
+                        </RadioGroup>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
       </CardContent>
         {(question.hint || question.feedback || question.difficulty !== undefined || question.id) && ( // Check difficulty explicitly
             <CardFooter className="flex flex-col items-start text-sm text-muted-foreground space-y-1 pt-4 border-t">
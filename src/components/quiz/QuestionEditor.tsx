@@ -0,0 +1,614 @@
+"use client";
+
+import type React from 'react';
+import { useForm, useFieldArray, useFormContext, type FieldPath } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Question, RawRow } from '@/types/quiz';
+import {
+  questionSchema,
+  type QuestionFormValues,
+  MATCHING_SCORING_OPTIONS,
+  ORDERING_SCORING_OPTIONS,
+  MULTI_SELECT_SCORING_OPTIONS,
+  SHORT_ANSWER_EVALUATION_OPTIONS,
+  matchingScoringOf,
+} from '@/lib/questionSchemas';
+import { LIKERT_SCALE_OPTIONS } from '@/lib/likert';
+import { QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, X } from 'lucide-react';
+
+type FieldName = FieldPath<QuestionFormValues>;
+
+interface QuestionEditorProps {
+  question: Question;
+  index: number;
+  onSave: (question: Question) => void;
+  onCancel: () => void;
+}
+
+// Parsed questions may lack parts the form needs (e.g. no Scoring row); fill those with Brightspace defaults
+const toFormValues = (question: Question): QuestionFormValues => {
+  switch (question.type) {
+    case 'SA':
+      return {
+        ...question,
+        evaluation: question.evaluation ?? 'insensitive',
+        inputBox: question.inputBox ?? { rows: 1, cols: 40 },
+      };
+    case 'M':
+      return { ...question, pairs: question.pairs ?? [], scoring: matchingScoringOf(question) };
+    case 'MC':
+      return { ...question, options: question.options ?? [] };
+    case 'TF':
+      return {
+        ...question,
+        trueOption: question.trueOption ?? { isTrue: true, credit: 100, htmlFlag: false },
+        falseOption: question.falseOption ?? { isTrue: false, credit: 0, htmlFlag: false },
+      };
+    case 'MS':
+      return { ...question, options: question.options ?? [], scoring: question.scoring ?? 'RightAnswers' };
+    case 'O':
+      return { ...question, items: question.items ?? [], scoring: matchingScoringOf(question) };
+    case 'FIB':
+      return { ...question, questionText: question.questionText ?? '', parts: question.parts ?? [] };
+    case 'MSA':
+      return { ...question, answers: question.answers ?? [], inputBox: question.inputBox ?? { rows: question.answers?.length || 1, cols: 40 } };
+    case 'ARITH':
+      return { ...question, formula: question.formula ?? '', variables: question.variables ?? [] };
+    case 'SF':
+      return { ...question, formula: question.formula ?? '', variables: question.variables ?? [], significantFigures: question.significantFigures ?? 3 };
+    case 'LIK':
+      return { ...question, scale: question.scale ?? 'OneToFive', statements: question.statements ?? [] };
+    default:
+      return question;
+  }
+};
+
+// Generic single-line text or number field bound to the surrounding form
+const TextField = ({ name, label, type = 'text', className }: { name: FieldName; label: string; type?: 'text' | 'number'; className?: string }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} type={type} value={(field.value as string | number | undefined) ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+const TextareaField = ({ name, label, rows = 3, className }: { name: FieldName; label: string; rows?: number; className?: string }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Textarea {...field} rows={rows} value={(field.value as string | undefined) ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+// "HTML" checkbox matching the HTML flag columns of the CSV
+const HtmlFlagField = ({ name, label = 'HTML' }: { name: FieldName; label?: string }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+          <FormControl>
+            <Checkbox checked={field.value === true} onCheckedChange={checked => field.onChange(checked === true)} />
+          </FormControl>
+          <FormLabel className="font-normal">{label}</FormLabel>
+        </FormItem>
+      )}
+    />
+  );
+};
+
+const SelectField = ({ name, label, options }: { name: FieldName; label: string; options: readonly string[] }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => {
+        const value = field.value as string;
+        // Keep values QuizView doesn't know about selectable so editing never silently changes them
+        const choices = value && !options.includes(value) ? [...options, value] : options;
+        return (
+          <FormItem>
+            <FormLabel>{label}</FormLabel>
+            <Select value={value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {choices.map(choice => <SelectItem key={choice} value={choice}>{choice}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+};
+
+// Shows the array-level error (e.g. "Add at least one option.") that zod reports on the list itself
+const ListError = ({ name }: { name: 'options' | 'items' | 'pairs' | 'parts' | 'answers' | 'variables' }) => {
+  const { formState } = useFormContext<QuestionFormValues>();
+  const errors = formState.errors as Record<string, { message?: string; root?: { message?: string } } | undefined>;
+  const message = errors[name]?.message ?? errors[name]?.root?.message;
+  return message ? <p className="text-sm font-medium text-destructive">{message}</p> : null;
+};
+
+const SectionHeading = ({ children }: { children: React.ReactNode }) => (
+  <h4 className="font-medium">{children}</h4>
+);
+
+const BaseFields = () => (
+  <div className="space-y-4">
+    <TextField name="title" label="Title" />
+    <TextareaField name="questionText" label="Question Text" rows={4} />
+    <HtmlFlagField name="questionTextHtmlFlag" label="Question text is HTML" />
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <TextField name="points" label="Points" type="number" />
+      <TextField name="difficulty" label="Difficulty" type="number" />
+      <TextField name="id" label="Question ID" />
+    </div>
+    <TextField name="image" label="Image" />
+    <TextareaField name="hint" label="Hint" rows={2} />
+    <TextareaField name="feedback" label="General Feedback" rows={2} />
+    <HtmlFlagField name="feedbackHtmlFlag" label="Feedback is HTML" />
+  </div>
+);
+
+const WrittenResponseFields = () => (
+  <div className="space-y-4">
+    <TextareaField name="initialText" label="Initial Text" />
+    <TextareaField name="answerKey" label="Answer Key" />
+    <HtmlFlagField name="answerKeyHtmlFlag" label="Answer key is HTML" />
+  </div>
+);
+
+const ShortAnswerFields = () => (
+  <div className="space-y-4">
+    <TextField name="bestAnswer" label="Answer" />
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <SelectField name="evaluation" label="Evaluation" options={SHORT_ANSWER_EVALUATION_OPTIONS} />
+      <TextField name="inputBox.rows" label="Input Rows" type="number" />
+      <TextField name="inputBox.cols" label="Input Columns" type="number" />
+    </div>
+  </div>
+);
+
+// Shared option list for MC (percent credit) and MS (weights)
+const OptionFields = ({ scoreField, scoreLabel }: { scoreField: 'percent' | 'weight'; scoreLabel: string }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'options' });
+
+  const addOption = () => {
+    const blank = { text: '', htmlFlag: false, feedbackHtmlFlag: false };
+    append(scoreField === 'percent' ? { ...blank, percent: 0 } : { ...blank, weight: 0 });
+  };
+
+  return (
+    <div className="space-y-3">
+      <SectionHeading>Options</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="p-3 border rounded-md space-y-3">
+          <div className="flex items-start space-x-2">
+            <TextField name={`options.${idx}.text`} label={`Option ${idx + 1}`} className="flex-1" />
+            <TextField name={`options.${idx}.${scoreField}`} label={scoreLabel} type="number" className="w-28" />
+          </div>
+          <TextField name={`options.${idx}.feedback`} label="Feedback" />
+          <div className="flex items-center space-x-4">
+            <HtmlFlagField name={`options.${idx}.htmlFlag`} label="Option is HTML" />
+            <HtmlFlagField name={`options.${idx}.feedbackHtmlFlag`} label="Feedback is HTML" />
+            <div className="flex-1" />
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx - 1)} disabled={idx === 0} aria-label="Move option up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx + 1)} disabled={idx === fields.length - 1} aria-label="Move option down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} aria-label="Remove option">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <ListError name="options" />
+      <Button type="button" variant="outline" size="sm" onClick={addOption}>
+        <Plus className="h-4 w-4 mr-2" /> Add Option
+      </Button>
+    </div>
+  );
+};
+
+const TrueFalseFields = () => (
+  <div className="space-y-4">
+    {(['trueOption', 'falseOption'] as const).map(optionName => (
+      <div key={optionName} className="p-3 border rounded-md space-y-3">
+        <SectionHeading>{optionName === 'trueOption' ? 'True' : 'False'}</SectionHeading>
+        <div className="flex items-start space-x-2">
+          <TextField name={`${optionName}.feedback`} label="Feedback" className="flex-1" />
+          <TextField name={`${optionName}.credit`} label="Credit %" type="number" className="w-28" />
+        </div>
+        <HtmlFlagField name={`${optionName}.htmlFlag`} />
+      </div>
+    ))}
+  </div>
+);
+
+const MatchingFields = () => {
+  const { control, getValues } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'pairs' });
+
+  const addPair = () => {
+    // Choice numbers link Choice and Match rows, so new pairs take the next free number
+    const pairs = (getValues('pairs') ?? []) as { choiceNo: number }[];
+    const nextChoiceNo = pairs.reduce((max, pair) => Math.max(max, Number(pair.choiceNo) || 0), 0) + 1;
+    append({ choiceNo: nextChoiceNo, choiceText: '', matchText: '' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <SelectField name="scoring" label="Scoring" options={MATCHING_SCORING_OPTIONS} />
+      <SectionHeading>Pairs</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="flex items-start space-x-2">
+          <TextField name={`pairs.${idx}.choiceText`} label={`Choice ${idx + 1}`} className="flex-1" />
+          <TextField name={`pairs.${idx}.matchText`} label="Match" className="flex-1" />
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} className="mt-8" aria-label="Remove pair">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <ListError name="pairs" />
+      <Button type="button" variant="outline" size="sm" onClick={addPair}>
+        <Plus className="h-4 w-4 mr-2" /> Add Pair
+      </Button>
+    </div>
+  );
+};
+
+const OrderingFields = () => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'items' });
+
+  return (
+    <div className="space-y-3">
+      <SelectField name="scoring" label="Scoring" options={ORDERING_SCORING_OPTIONS} />
+      <SectionHeading>Items (Correct Order)</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="p-3 border rounded-md space-y-3">
+          <TextField name={`items.${idx}.text`} label={`Item ${idx + 1}`} />
+          <TextField name={`items.${idx}.feedback`} label="Feedback" />
+          <div className="flex items-center space-x-4">
+            <HtmlFlagField name={`items.${idx}.htmlFlag`} label="Item is HTML" />
+            <HtmlFlagField name={`items.${idx}.feedbackHtmlFlag`} label="Feedback is HTML" />
+            <div className="flex-1" />
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx - 1)} disabled={idx === 0} aria-label="Move item up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx + 1)} disabled={idx === fields.length - 1} aria-label="Move item down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} aria-label="Remove item">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <ListError name="items" />
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '', htmlFlag: false, feedbackHtmlFlag: false })}>
+        <Plus className="h-4 w-4 mr-2" /> Add Item
+      </Button>
+    </div>
+  );
+};
+
+// Accepted answers of one blank, each with its own weight and evaluation
+const BlankAnswerFields = ({ partIndex }: { partIndex: number }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: `parts.${partIndex}.answers` });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, idx) => (
+        <div key={field.id} className="flex items-start space-x-2">
+          <TextField name={`parts.${partIndex}.answers.${idx}.text`} label={`Answer ${idx + 1}`} className="flex-1" />
+          <TextField name={`parts.${partIndex}.answers.${idx}.weight`} label="Weight %" type="number" className="w-28" />
+          <SelectField name={`parts.${partIndex}.answers.${idx}.evaluation`} label="Evaluation" options={SHORT_ANSWER_EVALUATION_OPTIONS} />
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} className="mt-8" aria-label="Remove answer">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '', weight: 100, evaluation: 'insensitive' })}>
+        <Plus className="h-4 w-4 mr-2" /> Add Answer
+      </Button>
+    </div>
+  );
+};
+
+const FillInTheBlankFields = () => {
+  const { control, watch } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'parts' });
+  const parts = (watch('parts') ?? []) as { type: 'text' | 'blank' }[];
+  let blankCount = 0;
+
+  return (
+    <div className="space-y-3">
+      <SectionHeading>Text and Blanks (Reading Order)</SectionHeading>
+      {fields.map((field, idx) => {
+        const isBlank = parts[idx]?.type === 'blank';
+        if (isBlank) blankCount++;
+        return (
+          <div key={field.id} className="p-3 border rounded-md space-y-3">
+            {isBlank ? (
+              <>
+                <div className="flex items-start space-x-2">
+                  <SectionHeading>Blank {blankCount}</SectionHeading>
+                  <div className="flex-1" />
+                  <TextField name={`parts.${idx}.size`} label="Size" type="number" className="w-28" />
+                </div>
+                <BlankAnswerFields partIndex={idx} />
+              </>
+            ) : (
+              <>
+                <TextareaField name={`parts.${idx}.text`} label="Text" rows={2} />
+                <HtmlFlagField name={`parts.${idx}.htmlFlag`} label="Text is HTML" />
+              </>
+            )}
+            <div className="flex items-center justify-end space-x-2">
+              <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx - 1)} disabled={idx === 0} aria-label="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx + 1)} disabled={idx === fields.length - 1} aria-label="Move down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} aria-label="Remove">
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      <ListError name="parts" />
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ type: 'text', text: '', htmlFlag: false })}>
+          <Plus className="h-4 w-4 mr-2" /> Add Text
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ type: 'blank', answers: [{ text: '', weight: 100, evaluation: 'insensitive' }] })}>
+          <Plus className="h-4 w-4 mr-2" /> Add Blank
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const MultiShortAnswerFields = () => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'answers' });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField name="inputBox.rows" label="Answer Boxes" type="number" />
+        <TextField name="inputBox.cols" label="Input Columns" type="number" />
+      </div>
+      <SectionHeading>Accepted Answers</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="flex items-start space-x-2">
+          <TextField name={`answers.${idx}.text`} label={`Answer ${idx + 1}`} className="flex-1" />
+          <SelectField name={`answers.${idx}.evaluation`} label="Evaluation" options={SHORT_ANSWER_EVALUATION_OPTIONS} />
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} className="mt-8" aria-label="Remove answer">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <ListError name="answers" />
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '', evaluation: 'insensitive' })}>
+        <Plus className="h-4 w-4 mr-2" /> Add Answer
+      </Button>
+    </div>
+  );
+};
+
+// Enumerated values are edited as comma-separated text; the schema turns them back into numbers
+const VariableValuesField = ({ variableIndex }: { variableIndex: number }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  return (
+    <FormField
+      control={control}
+      name={`variables.${variableIndex}.values`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Values (overrides the range)</FormLabel>
+          <FormControl>
+            <Input {...field} placeholder="e.g. 2, 4, 8" value={Array.isArray(field.value) ? field.value.join(', ') : (field.value as string | undefined) ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+// Shared by Arithmetic and Significant Figures, which adds the number of figures answers must show
+const ArithmeticFields = ({ significantFigures = false }: { significantFigures?: boolean }) => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'variables' });
+
+  return (
+    <div className="space-y-3">
+      <TextField name="formula" label="Formula (variables in braces, e.g. {m} * {v}^2 / 2)" />
+      {significantFigures && <TextField name="significantFigures" label="Significant Figures" type="number" className="w-48" />}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField name="tolerance.amount" label="Tolerance (blank for an exact answer)" type="number" />
+        <SelectField name="tolerance.unit" label="Tolerance Unit" options={['absolute', 'percent']} />
+      </div>
+      <SectionHeading>Variables</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="p-3 border rounded-md space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <TextField name={`variables.${idx}.name`} label="Name" />
+            <TextField name={`variables.${idx}.min`} label="Min" type="number" />
+            <TextField name={`variables.${idx}.max`} label="Max" type="number" />
+            <TextField name={`variables.${idx}.decimalPlaces`} label="Decimals" type="number" />
+            <TextField name={`variables.${idx}.step`} label="Step" type="number" />
+          </div>
+          <div className="flex items-end space-x-2">
+            <div className="flex-1"><VariableValuesField variableIndex={idx} /></div>
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} aria-label="Remove variable">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <ListError name="variables" />
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', min: 1, max: 10, decimalPlaces: 0 })}>
+        <Plus className="h-4 w-4 mr-2" /> Add Variable
+      </Button>
+    </div>
+  );
+};
+
+const LikertFields = () => {
+  const { control } = useFormContext<QuestionFormValues>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'statements' });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end space-x-4">
+        <SelectField name="scale" label="Scale" options={LIKERT_SCALE_OPTIONS} />
+        <HtmlFlagField name="notApplicable" label="Offer N/A" />
+      </div>
+      <SectionHeading>Statements (leave empty to rate the question text)</SectionHeading>
+      {fields.map((field, idx) => (
+        <div key={field.id} className="flex items-start space-x-2">
+          <TextField name={`statements.${idx}.text`} label={`Statement ${idx + 1}`} className="flex-1" />
+          <div className="mt-10"><HtmlFlagField name={`statements.${idx}.htmlFlag`} /></div>
+          <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx - 1)} disabled={idx === 0} className="mt-8" aria-label="Move statement up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => move(idx, idx + 1)} disabled={idx === fields.length - 1} className="mt-8" aria-label="Move statement down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} className="mt-8" aria-label="Remove statement">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '', htmlFlag: false })}>
+        <Plus className="h-4 w-4 mr-2" /> Add Statement
+      </Button>
+    </div>
+  );
+};
+
+// Rows QuizView doesn't understand can't be edited here, but they are saved back as read; list them so they aren't a surprise
+const PreservedRows = ({ rows = [] }: { rows?: RawRow[] }) => {
+  const unrecognized = rows.filter(row => !row.recognized);
+  if (unrecognized.length === 0) return null;
+  return (
+    <div className="space-y-2 text-sm">
+      <SectionHeading>Preserved Rows</SectionHeading>
+      <p className="text-muted-foreground">QuizView doesn&apos;t edit these rows; they are kept as written when the quiz is saved.</p>
+      <ul className="p-2 border rounded-md bg-muted/50 font-mono text-xs space-y-1 overflow-x-auto">
+        {unrecognized.map((row, idx) => <li key={idx} className="whitespace-pre">{row.cells.join(', ')}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+const TypeSpecificFields = ({ type }: { type: Question['type'] }) => {
+  switch (type) {
+    case 'WR': return <WrittenResponseFields />;
+    case 'SA': return <ShortAnswerFields />;
+    case 'M': return <MatchingFields />;
+    case 'MC': return <OptionFields scoreField="percent" scoreLabel="Percent" />;
+    case 'TF': return <TrueFalseFields />;
+    case 'MS': return (
+      <div className="space-y-4">
+        <SelectField name="scoring" label="Scoring" options={MULTI_SELECT_SCORING_OPTIONS} />
+        <OptionFields scoreField="weight" scoreLabel="Weight" />
+      </div>
+    );
+    case 'O': return <OrderingFields />;
+    case 'FIB': return <FillInTheBlankFields />;
+    case 'MSA': return <MultiShortAnswerFields />;
+    case 'ARITH': return <ArithmeticFields />;
+    case 'SF': return <ArithmeticFields significantFigures />;
+    case 'LIK': return <LikertFields />;
+    default: return null;
+  }
+};
+
+export function QuestionEditor({ question, index, onSave, onCancel }: QuestionEditorProps) {
+  const form = useForm<QuestionFormValues>({
+    resolver: zodResolver(questionSchema),
+    defaultValues: toFormValues(question),
+  });
+
+  const onSubmit = (values: QuestionFormValues) => {
+    onSave(values);
+  };
+
+  return (
+    <Card id={`question-${index}`} className="mb-6 scroll-mt-4 shadow-md border-primary">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+            <CardTitle className="text-lg font-semibold">Editing Question {index + 1}</CardTitle>
+            <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <BaseFields />
+            <Separator />
+            <TypeSpecificFields type={question.type} />
+            <PreservedRows rows={question.rawRows} />
+          </CardContent>
+          <CardFooter className="flex justify-end space-x-2 pt-4 border-t">
+            <Button type="button" variant="ghost" onClick={onCancel}>
+              <X className="h-4 w-4 mr-2" /> Cancel
+            </Button>
+            <Button type="submit">
+              <Save className="h-4 w-4 mr-2" /> Save
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
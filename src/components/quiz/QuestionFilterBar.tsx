@@ -0,0 +1,151 @@
+"use client";
+
+import type { QuestionType } from '@/types/quiz';
+import type { LintStatusFilter, QuestionFeature, QuestionFilter, QuestionSortKey } from '@/lib/search';
+import { EMPTY_QUESTION_FILTER, LINT_STATUS_FILTER_LABELS, QUESTION_FEATURE_LABELS, QUESTION_SORT_LABELS, isFilterActive } from '@/lib/search';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuCheckboxItem, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, ChevronDown, Search, X } from 'lucide-react';
+
+interface QuestionFilterBarProps {
+  filter: QuestionFilter;
+  onChange: (filter: QuestionFilter) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  (checked ? [...values, value] : values.filter(item => item !== value));
+
+const boundOf = (text: string): number | undefined => (text.trim() === '' || !Number.isFinite(Number(text)) ? undefined : Number(text));
+
+// A min–max pair of number inputs; either end may be left open
+function RangeInputs({ label, min, max, onChange }: { label: string; min?: number; max?: number; onChange: (min?: number, max?: number) => void }) {
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <Input type="number" className="h-9 w-16" placeholder="min" aria-label={`Minimum ${label.toLowerCase()}`}
+        value={min ?? ''} onChange={e => onChange(boundOf(e.target.value), max)} />
+      <span className="text-muted-foreground">–</span>
+      <Input type="number" className="h-9 w-16" placeholder="max" aria-label={`Maximum ${label.toLowerCase()}`}
+        value={max ?? ''} onChange={e => onChange(min, boundOf(e.target.value))} />
+    </div>
+  );
+}
+
+// Search box, filters and sort order for the question list
+export function QuestionFilterBar({ filter, onChange, shownCount, totalCount }: QuestionFilterBarProps) {
+  const update = (changes: Partial<QuestionFilter>) => onChange({ ...filter, ...changes });
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          className="pl-9"
+          placeholder="Search titles, question text, options, feedback and answers"
+          value={filter.query}
+          onChange={e => update({ query: e.target.value })}
+          aria-label="Search questions"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              {filter.types.length === 0 ? 'All types' : filter.types.length === 1 ? QUESTION_TYPE_LABELS[filter.types[0]] : `${filter.types.length} types`}
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Question types</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {QUESTION_TYPES.map((type: QuestionType) => (
+              <DropdownMenuCheckboxItem
+                key={type}
+                checked={filter.types.includes(type)}
+                onCheckedChange={checked => update({ types: toggle(filter.types, type, checked === true) })}
+                onSelect={e => e.preventDefault()} // Keep the menu open to pick several
+              >
+                {QUESTION_TYPE_LABELS[type]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              {filter.features.length === 0 ? 'Any content' : `With ${filter.features.map(feature => QUESTION_FEATURE_LABELS[feature].toLowerCase()).join(', ')}`}
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Must have</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {(Object.keys(QUESTION_FEATURE_LABELS) as QuestionFeature[]).map(feature => (
+              <DropdownMenuCheckboxItem
+                key={feature}
+                checked={filter.features.includes(feature)}
+                onCheckedChange={checked => update({ features: toggle(filter.features, feature, checked === true) })}
+                onSelect={e => e.preventDefault()}
+              >
+                {QUESTION_FEATURE_LABELS[feature]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Select value={filter.lint} onValueChange={value => update({ lint: value as LintStatusFilter })}>
+          <SelectTrigger className="h-9 w-36" aria-label="Lint status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LINT_STATUS_FILTER_LABELS) as LintStatusFilter[]).map(status => (
+              <SelectItem key={status} value={status}>{LINT_STATUS_FILTER_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <RangeInputs label="Points" min={filter.minPoints} max={filter.maxPoints} onChange={(minPoints, maxPoints) => update({ minPoints, maxPoints })} />
+        <RangeInputs label="Difficulty" min={filter.minDifficulty} max={filter.maxDifficulty} onChange={(minDifficulty, maxDifficulty) => update({ minDifficulty, maxDifficulty })} />
+
+        <div className="ml-auto flex items-center gap-1">
+          <Select value={filter.sort} onValueChange={value => update({ sort: value as QuestionSortKey })}>
+            <SelectTrigger className="h-9 w-36" aria-label="Sort by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(QUESTION_SORT_LABELS) as QuestionSortKey[]).map(sort => (
+                <SelectItem key={sort} value={sort}>{QUESTION_SORT_LABELS[sort]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => update({ descending: !filter.descending })}
+            aria-label={filter.descending ? 'Sort ascending' : 'Sort descending'}
+            title={filter.descending ? 'Descending' : 'Ascending'}
+          >
+            {filter.descending ? <ArrowDownWideNarrow className="h-4 w-4" /> : <ArrowUpNarrowWide className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+      {active && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Showing {shownCount} of {totalCount} question{totalCount !== 1 ? 's' : ''}.</span>
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => onChange(EMPTY_QUESTION_FILTER)}>
+            <X className="h-4 w-4 mr-1" /> Clear
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
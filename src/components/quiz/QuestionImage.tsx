@@ -0,0 +1,32 @@
+"use client";
+
+import type React from 'react';
+import { useAssetResolver } from '@/components/quiz/AssetContext';
+import { isWebUrl } from '@/lib/assets';
+import { Image as ImageIcon, ImageOff } from 'lucide-react';
+
+// Shows the image from a question's Image row, resolved against the uploaded media; web addresses are shown as they are
+export function QuestionImage({ path, alt }: { path: string; alt?: string }) {
+  const resolver = useAssetResolver();
+  const url = resolver?.resolve(path) ?? (isWebUrl(path) ? path.trim() : undefined);
+
+  if (url) {
+    return (
+      <div className="mb-4 flex justify-center">
+        {/* eslint-disable-next-line @next/next/no-img-element -- object URLs and arbitrary hosts cannot go through next/image */}
+        <img src={url} alt={alt || path} className="max-w-full h-auto rounded-md border" />
+      </div>
+    );
+  }
+
+  // Only call the image missing when media was uploaded and none matched
+  const missing = resolver?.hasAssets;
+  return (
+    <div className={`mb-4 p-2 border rounded-md flex items-center justify-center ${missing ? 'border-destructive/50 bg-destructive/5' : 'bg-secondary'}`}>
+      {missing ? <ImageOff className="h-6 w-6 mr-2 text-destructive" /> : <ImageIcon className="h-6 w-6 mr-2 text-muted-foreground" />}
+      <span className={`italic ${missing ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {missing ? `Missing image: ${path}` : `Image placeholder: ${path}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import type React from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import type { Quiz, Question } from '@/types/quiz';
+import { quizRows } from '@/lib/sections';
+import type { QuizRow } from '@/lib/sections';
+import { SectionSummary } from '@/components/quiz/SectionSummary';
+import { Button } from '@/components/ui/button';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+export interface QuestionListHandle {
+  scrollToQuestion: (questionIndex: number) => void;
+}
+
+interface QuestionListProps {
+  quiz: Quiz;
+  questionIndexes?: number[]; // When given, only these questions are listed, in this order, without section headings
+  openSections: string[]; // `section-<index>` keys of the expanded sections
+  onToggleSection: (sectionKey: string) => void;
+  renderQuestion: (question: Question, index: number) => React.ReactNode;
+  currentIndex: number | null;
+  onCurrentChange: (questionIndex: number | null) => void;
+  onSelectQuestion: (questionIndex: number) => void; // Moves to a question, expanding its section if needed
+}
+
+const POSITION_BAR_HEIGHT = 56; // The sticky bar covers the top of the list, so rows scroll in below it
+const ESTIMATED_ROW_HEIGHT = 320;
+
+// Keys typed into a form field belong to the field, not to list navigation
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// The questions of a quiz, grouped by section. Only the cards near the viewport are mounted, so banks with
+// thousands of questions stay responsive; a sticky bar shows the current position, and J/K move between questions.
+export const QuestionList = forwardRef<QuestionListHandle, QuestionListProps>(function QuestionList(
+  { quiz, questionIndexes, openSections, onToggleSection, renderQuestion, currentIndex, onCurrentChange, onSelectQuestion },
+  ref
+) {
+  const rows = useMemo(() => (questionIndexes
+    ? questionIndexes.map((questionIndex): QuizRow => ({ kind: 'question', questionIndex }))
+    : quizRows(quiz, idx => openSections.includes(`section-${idx}`))), [quiz, questionIndexes, openSections]);
+  // Questions in the order J/K walk through them; questions in collapsed sections are opened on the way
+  const order = useMemo(() => questionIndexes ?? quiz.questions.map((_, idx) => idx), [quiz, questionIndexes]);
+
+  // Distance from the top of the page to the list, which moves as the reports above it open and close
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+  useLayoutEffect(() => {
+    const measure = () => setScrollMargin(listRef.current ? listRef.current.getBoundingClientRect().top + window.scrollY : 0);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: rows.length,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    // Keyed by content so measured heights survive sections opening and closing
+    getItemKey: idx => (rows[idx].kind === 'section' ? `section-${rows[idx].sectionIndex}` : `question-${rows[idx].questionIndex}`),
+    overscan: 3,
+    scrollMargin,
+    scrollPaddingStart: POSITION_BAR_HEIGHT,
+  });
+
+  useImperativeHandle(ref, () => ({
+    scrollToQuestion: questionIndex => {
+      const rowIndex = rows.findIndex(row => row.kind === 'question' && row.questionIndex === questionIndex);
+      if (rowIndex >= 0) virtualizer.scrollToIndex(rowIndex, { align: 'start' });
+    },
+  }), [rows, virtualizer]);
+
+  // The current question is the first one not hidden under the position bar
+  const items = virtualizer.getVirtualItems();
+  const visibleFrom = (virtualizer.scrollOffset ?? 0) + POSITION_BAR_HEIGHT;
+  const currentRow = items.map(item => ({ item, row: rows[item.index] })).find(({ item, row }) => row?.kind === 'question' && item.end > visibleFrom);
+  const visibleIndex = currentRow?.row.kind === 'question' ? currentRow.row.questionIndex : null;
+  useEffect(() => {
+    if (visibleIndex !== currentIndex) onCurrentChange(visibleIndex);
+  }, [visibleIndex, currentIndex, onCurrentChange]);
+
+  const questionCount = quiz.questions.length;
+  const position = currentIndex !== null ? order.indexOf(currentIndex) : -1;
+  const canGoBack = position > 0;
+  const canGoForward = position >= 0 && position < order.length - 1;
+  const goTo = (newPosition: number) => onSelectQuestion(order[Math.min(Math.max(newPosition, 0), order.length - 1)]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target) || position < 0) return;
+      if (event.key === 'j') goTo(position + 1);
+      else if (event.key === 'k') goTo(position - 1);
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const current = currentIndex !== null ? quiz.questions[currentIndex] : undefined;
+
+  return (
+    <div>
+      <div className="sticky top-0 z-10 mb-4 flex items-center gap-2 border-b bg-background/95 py-2 backdrop-blur" style={{ height: POSITION_BAR_HEIGHT }}>
+        <SidebarTrigger aria-label="Toggle question outline" />
+        <p className="flex-1 truncate text-sm">
+          {current && currentIndex !== null
+            ? (
+              <>
+                <span className="font-medium">Question {currentIndex + 1} of {questionCount}</span>
+                {questionIndexes && <span className="text-muted-foreground"> · {position + 1} of {order.length} shown</span>}
+                {current.title && <span className="text-muted-foreground">: {current.title}</span>}
+              </>
+            )
+            : <span className="text-muted-foreground">{order.length} question{order.length !== 1 ? 's' : ''}</span>}
+        </p>
+        <span className="hidden text-xs text-muted-foreground sm:inline">J / K to move</span>
+        <Button variant="outline" size="icon" className="h-8 w-8" disabled={!canGoBack} onClick={() => goTo(position - 1)} aria-label="Previous question">
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" disabled={!canGoForward} onClick={() => goTo(position + 1)} aria-label="Next question">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {items.map(item => {
+          const row = rows[item.index];
+          return (
+            // flow-root keeps the cards' bottom margins inside the measured row
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full flow-root"
+              style={{ transform: `translateY(${item.start - scrollMargin}px)` }}
+            >
+              {row.kind === 'section' ? (
+                <button
+                  type="button"
+                  className="mb-6 flex w-full items-center border-b py-4 hover:bg-secondary/30"
+                  aria-expanded={openSections.includes(`section-${row.sectionIndex}`)}
+                  onClick={() => onToggleSection(`section-${row.sectionIndex}`)}
+                >
+                  <SectionSummary quiz={quiz} section={row.section} />
+                  <ChevronDown className={`h-4 w-4 shrink-0 transition-transform duration-200 ${openSections.includes(`section-${row.sectionIndex}`) ? 'rotate-180' : ''}`} />
+                </button>
+              ) : renderQuestion(quiz.questions[row.questionIndex], row.questionIndex)}
+            </div>
+          );
+        })}
+      </div>
+      {rows.length === 0 && <p className="py-8 text-center text-muted-foreground">No questions match the search and filters.</p>}
+    </div>
+  );
+});
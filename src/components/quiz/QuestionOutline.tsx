@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { Quiz } from '@/types/quiz';
+import type { QuizValidation } from '@/lib/validation';
+import type { LintFinding, LintSeverity } from '@/lib/lint';
+import { quizRows } from '@/lib/sections';
+import { stripHtml } from '@/lib/html';
+import { QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { getQuestionIcon } from '@/components/quiz/QuestionDisplay';
+import { Sidebar, SidebarContent, SidebarHeader, useSidebar } from '@/components/ui/sidebar';
+
+interface QuestionOutlineProps {
+  quiz: Quiz;
+  currentIndex: number | null;
+  validation: QuizValidation | null;
+  lintFindings: LintFinding[][] | null;
+  onSelectQuestion: (questionIndex: number) => void;
+}
+
+const ROW_HEIGHT = 32;
+
+const SEVERITY_ORDER: LintSeverity[] = ['error', 'warning', 'info'];
+
+const STATUS_DOTS: Record<LintSeverity | 'clean', { style: string; label: string }> = {
+  error: { style: 'bg-red-500', label: 'Has errors' },
+  warning: { style: 'bg-orange-400', label: 'Has warnings' },
+  info: { style: 'bg-blue-400', label: 'Has suggestions' },
+  clean: { style: 'bg-green-500', label: 'No problems' },
+};
+
+// Sidebar listing every question by number, title, type and lint status; clicking one jumps to it
+export function QuestionOutline({ quiz, currentIndex, validation, lintFindings, onSelectQuestion }: QuestionOutlineProps) {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const rows = useMemo(() => quizRows(quiz), [quiz]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  // Keep the current question in view as the list scrolls
+  useEffect(() => {
+    if (currentIndex === null) return;
+    const rowIndex = rows.findIndex(row => row.kind === 'question' && row.questionIndex === currentIndex);
+    if (rowIndex >= 0) virtualizer.scrollToIndex(rowIndex, { align: 'auto' });
+  }, [currentIndex, rows, virtualizer]);
+
+  // Invalid questions count as errors; otherwise the most severe lint finding decides
+  const statusOf = (questionIndex: number): LintSeverity | 'clean' | undefined => {
+    if (!validation || !lintFindings) return undefined; // Not checked yet, e.g. while a CSV is still streaming in
+    if (validation.issuesByQuestion[questionIndex]?.length) return 'error';
+    const severities = (lintFindings[questionIndex] ?? []).map(finding => finding.severity);
+    return SEVERITY_ORDER.find(severity => severities.includes(severity)) ?? 'clean';
+  };
+
+  const handleSelect = (questionIndex: number) => {
+    onSelectQuestion(questionIndex);
+    if (isMobile) setOpenMobile(false);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="border-b">
+        <h2 className="px-2 text-sm font-semibold">Outline</h2>
+        <p className="px-2 text-xs text-muted-foreground">
+          {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''}
+          {currentIndex !== null && ` · at ${currentIndex + 1}`}
+        </p>
+      </SidebarHeader>
+      <SidebarContent ref={scrollRef}>
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(item => {
+            const row = rows[item.index];
+            const style = { height: item.size, transform: `translateY(${item.start}px)` };
+            if (row.kind === 'section') {
+              return (
+                <div key={item.key} className="absolute left-0 top-0 flex w-full items-end px-4 pb-1 text-xs font-semibold uppercase text-muted-foreground" style={style}>
+                  <span className="truncate">{row.section.name}</span>
+                </div>
+              );
+            }
+            const question = quiz.questions[row.questionIndex];
+            const status = statusOf(row.questionIndex);
+            const isCurrent = row.questionIndex === currentIndex;
+            return (
+              <button
+                key={item.key}
+                type="button"
+                className={`absolute left-0 top-0 flex w-full items-center gap-2 px-3 text-left text-sm hover:bg-sidebar-accent ${isCurrent ? 'bg-sidebar-accent font-medium border-l-2 border-primary' : ''}`}
+                style={style}
+                aria-current={isCurrent ? 'location' : undefined}
+                onClick={() => handleSelect(row.questionIndex)}
+              >
+                <span className="w-8 shrink-0 text-right text-xs text-muted-foreground">{row.questionIndex + 1}</span>
+                <span className="shrink-0 [&_svg]:mr-0 [&_svg]:h-4 [&_svg]:w-4" title={QUESTION_TYPE_LABELS[question.type]}>
+                  {getQuestionIcon(question.type)}
+                </span>
+                <span className="flex-1 truncate">{question.title || stripHtml(question.questionText ?? '') || 'Untitled'}</span>
+                {status && <span className={`h-2 w-2 shrink-0 rounded-full ${STATUS_DOTS[status].style}`} title={STATUS_DOTS[status].label} />}
+              </button>
+            );
+          })}
+        </div>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type React from 'react';
+import { useMemo } from 'react';
+import { canSanitizeHtml, sanitizeHtmlToFragment } from '@/lib/sanitizeHtml';
+import { typesetMath } from '@/lib/math';
+import { stripHtml } from '@/lib/html';
+import type { AssetResolver } from '@/lib/assets';
+import { useAssetResolver } from '@/components/quiz/AssetContext';
+
+// Sanitize CSV content, point images at uploaded media, then typeset any LaTeX it contains
+const toSafeHtml = (content: string, assets: AssetResolver | null): string => {
+    const fragment = sanitizeHtmlToFragment(content);
+    if (assets) {
+        fragment.querySelectorAll('img[src]').forEach(img => {
+            const url = assets.resolve(img.getAttribute('src') ?? '');
+            if (url) img.setAttribute('src', url);
+        });
+    }
+    typesetMath(fragment);
+    const container = document.createElement('div');
+    container.appendChild(fragment);
+    return container.innerHTML;
+};
+
+// Renders question content from untrusted CSVs: allow-listed HTML, MathML and LaTeX (\( \), \[ \], $$ $$)
+export const RenderHtml = ({ content }: { content?: string | null | undefined }) => {
+    const assets = useAssetResolver();
+    const html = useMemo(
+        () => (typeof content === 'string' && content && canSanitizeHtml() ? toSafeHtml(content, assets) : null),
+        [content, assets]
+    );
+
+    // Ensure content is a string before attempting to render
+    if (typeof content !== 'string' || !content) {
+        return null;
+    }
+    // Without a DOM (static prerender) fall back to plain text rather than unsanitized markup
+    if (html === null) {
+        return <div className="rendered-html-content">{stripHtml(content)}</div>;
+    }
+    return <div className="rendered-html-content" dangerouslySetInnerHTML={{ __html: html }} />;
+};
@@ -0,0 +1,28 @@
+import type { Quiz, QuizSection } from '@/types/quiz';
+import { Badge } from '@/components/ui/badge';
+import { drawCount, sectionPoints } from '@/lib/sections';
+import { Folder, Shuffle } from 'lucide-react';
+
+interface SectionSummaryProps {
+  quiz: Quiz;
+  section: QuizSection;
+}
+
+// Header line of a section: its name, size, pool setting and the points it contributes to an attempt
+export function SectionSummary({ quiz, section }: SectionSummaryProps) {
+  const { min, max } = sectionPoints(quiz, section);
+  const isPool = section.select !== undefined;
+  return (
+    <div className="flex flex-1 flex-wrap items-center gap-2 mr-2 text-left">
+      {isPool ? <Shuffle className="h-5 w-5 text-primary" /> : <Folder className="h-5 w-5 text-primary" />}
+      <span className="text-lg font-semibold">{section.name}</span>
+      <Badge variant="secondary">{section.count} question{section.count !== 1 ? 's' : ''}</Badge>
+      {isPool && <Badge variant="outline">Pool: {drawCount(section)} of {section.count} drawn</Badge>}
+      <Badge variant="secondary">{min === max ? min : `${min}–${max}`} Point{max !== 1 ? 's' : ''}</Badge>
+      {section.select !== undefined && section.select > section.count && (
+        <span className="text-xs font-normal text-destructive">Selects {section.select} but has only {section.count}.</span>
+      )}
+      {section.description && <p className="basis-full text-sm font-normal text-muted-foreground">{section.description}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import type { Quiz } from '@/types/quiz';
+import type { SplitOptions, SplitRule } from '@/lib/split';
+import { DEFAULT_SPLIT_OPTIONS, SPLIT_RULE_LABELS, exportSplitZip, splitQuiz } from '@/lib/split';
+import { baseNameOf } from '@/lib/formats';
+import { downloadBlob } from '@/lib/download';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scissors } from 'lucide-react';
+
+interface SplitDialogProps {
+  quiz: Quiz;
+  fileName: string | null;
+}
+
+const RULE_HINTS: Partial<Record<SplitRule, string>> = {
+  difficulty: 'Easy is difficulty 1-2, medium 3 and hard 4-5.',
+  tag: "Tags are read from rows keyed 'Tag' in the CSV, e.g. Tag,week1. A question with several tags goes into each tag's file.",
+};
+
+// Splits the loaded bank into several Brightspace CSVs by a rule and downloads them as a ZIP with a manifest
+export function SplitDialog({ quiz, fileName }: SplitDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<SplitOptions>(DEFAULT_SPLIT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const baseName = baseNameOf(fileName || 'quiz');
+
+  // Only worked out while the dialog is open, since it copies the bank once per file
+  const parts = useMemo(() => (open ? splitQuiz(quiz, baseName, options) : []), [open, quiz, baseName, options]);
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await exportSplitZip(parts, options.rule), `${baseName}-split.zip`);
+      setOpen(false);
+    } catch (err) {
+      console.error('Error splitting quiz:', err);
+      toast({ variant: 'destructive', title: 'Split failed', description: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="mr-2">
+          <Scissors className="h-4 w-4 mr-2" /> Split
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Split into several CSVs</DialogTitle>
+          <DialogDescription>
+            Each file keeps its questions in their original order, with their sections and the bank&apos;s template rows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="split-rule">Split by</Label>
+            <Select value={options.rule} onValueChange={value => setOptions(prev => ({ ...prev, rule: value as SplitRule }))}>
+              <SelectTrigger id="split-rule" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SPLIT_RULE_LABELS) as SplitRule[]).map(rule => (
+                  <SelectItem key={rule} value={rule}>{SPLIT_RULE_LABELS[rule]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {options.rule === 'chunk' && (
+            <div className="space-y-1">
+              <Label htmlFor="split-chunk-size">Questions per file</Label>
+              <Input
+                id="split-chunk-size"
+                type="number"
+                min={1}
+                value={options.chunkSize}
+                onChange={event => setOptions(prev => ({ ...prev, chunkSize: Math.max(1, Number(event.target.value) || 1) }))}
+                className="w-32"
+              />
+            </div>
+          )}
+          {options.rule === 'idPrefix' && (
+            <div className="space-y-1">
+              <Label htmlFor="split-id-separator">Prefix ends at</Label>
+              <Input
+                id="split-id-separator"
+                value={options.idSeparator}
+                onChange={event => setOptions(prev => ({ ...prev, idSeparator: event.target.value }))}
+                className="w-32"
+              />
+            </div>
+          )}
+        </div>
+        {RULE_HINTS[options.rule] && <p className="text-sm text-muted-foreground">{RULE_HINTS[options.rule]}</p>}
+
+        <ScrollArea className="max-h-[40vh] pr-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-1 pr-4 font-medium">{SPLIT_RULE_LABELS[options.rule]}</th>
+                <th className="py-1 pr-4 font-medium">File</th>
+                <th className="py-1 text-right font-medium">Questions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parts.map(part => (
+                <tr key={part.fileName} className="border-b last:border-b-0">
+                  <td className="py-1 pr-4">{part.label}</td>
+                  <td className="py-1 pr-4 font-mono text-xs">{part.fileName}</td>
+                  <td className="py-1 text-right">{part.questionIndexes.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleDownload} disabled={isExporting || parts.length === 0}>
+            Download ZIP ({parts.length} file{parts.length !== 1 ? 's' : ''})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
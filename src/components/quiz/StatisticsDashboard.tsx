@@ -0,0 +1,190 @@
+"use client";
+
+import type React from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, ComposedChart, XAxis, YAxis } from 'recharts';
+import type { Quiz } from '@/types/quiz';
+import { computeQuizStatistics, statisticsToCsv } from '@/lib/statistics';
+import { chartsToPng } from '@/lib/chartImage';
+import { baseNameOf } from '@/lib/formats';
+import { downloadBlob, downloadTextFile } from '@/lib/download';
+import { useToast } from '@/hooks/use-toast';
+import type { ChartConfig } from '@/components/ui/chart';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { FileSpreadsheet, ImageDown } from 'lucide-react';
+
+interface StatisticsDashboardProps {
+  quiz: Quiz;
+  fileName: string | null;
+}
+
+const TYPE_CHART: ChartConfig = {
+  count: { label: 'Questions', color: 'hsl(var(--chart-1))' },
+  points: { label: 'Points', color: 'hsl(var(--chart-2))' },
+};
+const DIFFICULTY_CHART: ChartConfig = { count: { label: 'Questions', color: 'hsl(var(--chart-3))' } };
+const OPTIONS_CHART: ChartConfig = {
+  MC: { label: 'Multiple Choice', color: 'hsl(var(--chart-1))' },
+  MS: { label: 'Multi-Select', color: 'hsl(var(--chart-4))' },
+};
+const POSITION_CHART: ChartConfig = {
+  count: { label: 'Correct answers', color: 'hsl(var(--chart-2))' },
+  expected: { label: 'Expected if even', color: 'hsl(var(--chart-5))' },
+};
+
+const formatPoints = (value: number) => String(Number(value.toFixed(2)));
+
+function StatisticCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border p-4">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+    </div>
+  );
+}
+
+// A titled chart; the wrapper is registered so the chart can be drawn into the PNG summary
+function ChartCard({ title, description, chartRef, children }: { title: string; description?: string; chartRef: (element: HTMLDivElement | null) => void; children: React.ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent ref={chartRef}>{children}</CardContent>
+    </Card>
+  );
+}
+
+// Counts, points and answer patterns across the whole bank, with PNG and CSV downloads
+export function StatisticsDashboard({ quiz, fileName }: StatisticsDashboardProps) {
+  const { toast } = useToast();
+  const stats = useMemo(() => computeQuizStatistics(quiz), [quiz]);
+  const chartElements = useRef<Record<string, HTMLDivElement | null>>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const register = (title: string) => (element: HTMLDivElement | null) => { chartElements.current[title] = element; };
+  const baseName = baseNameOf(fileName || 'quiz');
+
+  const handleExportPng = async () => {
+    setIsExporting(true);
+    try {
+      const charts = Object.entries(chartElements.current).flatMap(([title, element]) => {
+        const svg = element?.querySelector<SVGSVGElement>('svg.recharts-surface');
+        return svg ? [{ title, svg }] : [];
+      });
+      const summary = `${fileName ?? 'Quiz'}: ${stats.questionCount} questions, ${formatPoints(stats.totalPoints)} points`;
+      downloadBlob(await chartsToPng(summary, charts), `${baseName}-statistics.png`);
+    } catch (err) {
+      console.error('Error exporting statistics:', err);
+      toast({ variant: 'destructive', title: 'Export failed', description: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const mcCount = stats.byType.find(stat => stat.type === 'MC')?.count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => downloadTextFile(statisticsToCsv(stats), `${baseName}-statistics.csv`, 'text/csv')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" /> Download CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExportPng} disabled={isExporting}>
+          <ImageDown className="h-4 w-4 mr-2" /> Download PNG
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <StatisticCard label="Questions" value={String(stats.questionCount)} />
+        <StatisticCard label="Total points" value={formatPoints(stats.totalPoints)} />
+        <StatisticCard label="Average points" value={formatPoints(stats.averagePoints)} />
+        <StatisticCard label="Question types" value={String(stats.byType.length)} />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Supporting content</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {stats.features.map(entry => (
+            <div key={entry.feature} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>With {entry.label.toLowerCase()}</span>
+                <span className="text-muted-foreground">{entry.count} ({Math.round(entry.share * 100)}%)</span>
+              </div>
+              <Progress value={entry.share * 100} className="h-2" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartCard title="Questions and points by type" chartRef={register('Questions and points by type')}>
+          <ChartContainer config={TYPE_CHART} className="min-h-[240px] w-full">
+            <BarChart data={stats.byType} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="type" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.label} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              <Bar dataKey="points" fill="var(--color-points)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Difficulty" chartRef={register('Difficulty')}>
+          <ChartContainer config={DIFFICULTY_CHART} className="min-h-[240px] w-full">
+            <BarChart data={stats.difficulty} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="difficulty" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        {stats.optionCounts.length > 0 && (
+          <ChartCard title="Options per question (MC and MS)" chartRef={register('Options per question (MC and MS)')}>
+            <ChartContainer config={OPTIONS_CHART} className="min-h-[240px] w-full">
+              <BarChart data={stats.optionCounts} accessibilityLayer>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="options" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={value => `${value} options`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="MC" stackId="options" fill="var(--color-MC)" />
+                <Bar dataKey="MS" stackId="options" fill="var(--color-MS)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+        )}
+
+        {stats.correctPositions.length > 0 && (
+          <ChartCard
+            title="Correct answer position (MC)"
+            description={`Where the full-credit option sits in ${mcCount} Multiple Choice question${mcCount !== 1 ? 's' : ''}. Bars well above the line suggest answer-position bias.`}
+            chartRef={register('Correct answer position (MC)')}
+          >
+            <ChartContainer config={POSITION_CHART} className="min-h-[240px] w-full">
+              <ComposedChart data={stats.correctPositions} accessibilityLayer>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="position" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={value => `Option ${value}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                <Line dataKey="expected" type="monotone" stroke="var(--color-expected)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </ChartCard>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import type { QuestionFilter } from "@/lib/search"
+import { EMPTY_QUESTION_FILTER, filterFromSearchParams, filterToSearchParams } from "@/lib/search"
+
+// The question list's filter, kept in the page URL so a filtered view can be bookmarked or shared
+export function useQuestionFilter() {
+  const [filter, setFilter] = React.useState<QuestionFilter>(EMPTY_QUESTION_FILTER)
+  const [hasReadUrl, setHasReadUrl] = React.useState(false)
+
+  // The URL is only available after hydration
+  React.useEffect(() => {
+    setFilter(filterFromSearchParams(new URLSearchParams(window.location.search)))
+    setHasReadUrl(true)
+  }, [])
+
+  React.useEffect(() => {
+    if (!hasReadUrl) return
+    const params = filterToSearchParams(filter).toString()
+    window.history.replaceState(null, "", params ? `?${params}` : window.location.pathname)
+  }, [filter, hasReadUrl])
+
+  return [filter, setFilter] as const
+}
@@ -0,0 +1,254 @@
+import type { ArithmeticVariable, FormulaQuestion } from '@/types/quiz';
+
+type Evaluate = (values: Record<string, number>) => number;
+
+// Functions and constants a formula may use, as in Brightspace's formula editor
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|\{\s*([A-Za-z_]\w*)\s*\}|([A-Za-z_]\w*)|(\S))/gy;
+
+type Token = { kind: 'number'; value: number } | { kind: 'variable' | 'name' | 'symbol'; text: string };
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN_PATTERN.lastIndex < formula.length && (match = TOKEN_PATTERN.exec(formula)) !== null) {
+    const [, number, variable, name, symbol] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', value: parseFloat(number) });
+    else if (variable !== undefined) tokens.push({ kind: 'variable', text: variable });
+    else if (name !== undefined) tokens.push({ kind: 'name', text: name.toLowerCase() });
+    else if (symbol !== undefined) tokens.push({ kind: 'symbol', text: symbol });
+  }
+  return tokens;
+};
+
+// Parses a formula such as "{m} * {v}^2 / 2" into a function of the variable values.
+// Throws an Error describing the first syntax problem; unknown variables are reported when evaluating.
+export function compileFormula(formula: string): Evaluate {
+  const tokens = tokenize(formula);
+  let position = 0;
+  const peek = (text: string) => {
+    const token = tokens[position];
+    return token !== undefined && token.kind === 'symbol' && token.text === text;
+  };
+  const expect = (text: string) => {
+    if (!peek(text)) throw new Error(`Expected "${text}" in the formula.`);
+    position++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const expression = (): Evaluate => {
+    let left = term();
+    while (peek('+') || peek('-')) {
+      const operator = (tokens[position++] as { text: string }).text;
+      const [a, b] = [left, term()];
+      left = operator === '+' ? values => a(values) + b(values) : values => a(values) - b(values);
+    }
+    return left;
+  };
+  // term := unary (("*" | "/" | "%") unary)*
+  const term = (): Evaluate => {
+    let left = unary();
+    while (peek('*') || peek('/') || peek('%')) {
+      const operator = (tokens[position++] as { text: string }).text;
+      const [a, b] = [left, unary()];
+      left = operator === '*' ? values => a(values) * b(values)
+        : operator === '/' ? values => a(values) / b(values)
+        : values => a(values) % b(values);
+    }
+    return left;
+  };
+  // unary := ("-" | "+") unary | power; a leading minus applies after the power, so -2^2 is -4
+  const unary = (): Evaluate => {
+    if (peek('-')) {
+      position++;
+      const operand = unary();
+      return values => -operand(values);
+    }
+    if (peek('+')) {
+      position++;
+      return unary();
+    }
+    return power();
+  };
+  // power := primary ("^" unary)?, right-associative
+  const power = (): Evaluate => {
+    const base = primary();
+    if (!peek('^')) return base;
+    position++;
+    const exponent = unary();
+    return values => Math.pow(base(values), exponent(values));
+  };
+  const primary = (): Evaluate => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error('The formula ends unexpectedly.');
+    if (token.kind === 'number') return () => token.value;
+    if (token.kind === 'variable') {
+      return values => {
+        const value = values[token.text];
+        if (value === undefined) throw new Error(`The formula uses {${token.text}}, which is not a variable of the question.`);
+        return value;
+      };
+    }
+    if (token.kind === 'name') {
+      if (peek('(')) {
+        const fn = FUNCTIONS[token.text];
+        if (!fn) throw new Error(`Unknown function "${token.text}" in the formula.`);
+        position++;
+        const args: Evaluate[] = [expression()];
+        while (peek(',')) {
+          position++;
+          args.push(expression());
+        }
+        expect(')');
+        return values => fn(...args.map(arg => arg(values)));
+      }
+      const constant = CONSTANTS[token.text];
+      if (constant === undefined) throw new Error(`Unknown name "${token.text}" in the formula; variables are written in braces, e.g. {${token.text}}.`);
+      return () => constant;
+    }
+    if (token.text === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.text}" in the formula.`);
+  };
+
+  if (tokens.length === 0) throw new Error('The formula is empty.');
+  const evaluate = expression();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.kind === 'number' ? token.value : token.text}" in the formula.`);
+  }
+  return evaluate;
+}
+
+// Describes why a formula cannot be read, or returns undefined when it parses
+export function formulaError(formula: string): string | undefined {
+  try {
+    compileFormula(formula);
+    return undefined;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Names written as {name} in a formula or question text, in order of first use
+export const referencedVariables = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(/\{\s*([A-Za-z_]\w*)\s*\}/g), match => match[1])));
+
+const roundTo = (value: number, decimalPlaces: number): number => {
+  const factor = Math.pow(10, Math.max(0, decimalPlaces));
+  return Math.round(value * factor) / factor;
+};
+
+// Drops floating-point noise such as 0.30000000000000004 before a number is shown
+export const formatNumber = (value: number): string => String(parseFloat(value.toPrecision(12)));
+
+// Picks a value for a variable: one of its enumerated values, a step from min, or any value in range
+export function sampleVariable(variable: ArithmeticVariable, random: () => number = Math.random): number {
+  if (variable.values && variable.values.length > 0) {
+    return variable.values[Math.floor(random() * variable.values.length)];
+  }
+  const low = Math.min(variable.min, variable.max);
+  const high = Math.max(variable.min, variable.max);
+  if (variable.step && variable.step > 0) {
+    const steps = Math.floor((high - low) / variable.step + 1e-9);
+    return roundTo(low + variable.step * Math.floor(random() * (steps + 1)), variable.decimalPlaces);
+  }
+  return roundTo(low + random() * (high - low), variable.decimalPlaces);
+}
+
+export interface ArithmeticInstance {
+  values: Record<string, number>;
+  answer?: number; // Undefined when the formula cannot be evaluated
+  error?: string;
+}
+
+// Evaluates the formula for a given set of variable values
+export function solveArithmetic(question: FormulaQuestion, values: Record<string, number>): ArithmeticInstance {
+  try {
+    const answer = compileFormula(question.formula ?? '')(values);
+    if (!Number.isFinite(answer)) return { values, error: 'The formula has no finite value for these variable values.' };
+    return { values, answer };
+  } catch (e) {
+    return { values, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// A random instance of the question: a value for every variable and the answer they produce
+export function sampleArithmetic(question: FormulaQuestion, random: () => number = Math.random): ArithmeticInstance {
+  const values: Record<string, number> = {};
+  for (const variable of question.variables ?? []) values[variable.name] = sampleVariable(variable, random);
+  return solveArithmetic(question, values);
+}
+
+// Replaces {name} references in question text with the instance's values; unknown names are left as written
+export const substituteVariables = (text: string, values: Record<string, number>): string =>
+  text.replace(/\{\s*([A-Za-z_]\w*)\s*\}/g, (reference, name: string) => (values[name] !== undefined ? formatNumber(values[name]) : reference));
+
+// Whether a learner's number is within the question's tolerance of the answer; without one it must match exactly
+export function withinTolerance(response: number, answer: number, tolerance: FormulaQuestion['tolerance']): boolean {
+  const allowed = !tolerance ? 0 : tolerance.unit === 'percent' ? Math.abs(answer) * tolerance.amount / 100 : tolerance.amount;
+  // A tiny epsilon keeps rounding in the answer itself from failing exact matches
+  return Math.abs(response - answer) <= allowed + 1e-9 * Math.max(1, Math.abs(answer));
+}
+
+// e.g. "1 to 10 in steps of 0.5" or "one of 2, 4, 8"
+export function describeVariable(variable: ArithmeticVariable): string {
+  if (variable.values && variable.values.length > 0) return `one of ${variable.values.map(formatNumber).join(', ')}`;
+  const range = `${formatNumber(variable.min)} to ${formatNumber(variable.max)}`;
+  if (variable.step) return `${range} in steps of ${formatNumber(variable.step)}`;
+  return `${range}, ${variable.decimalPlaces} decimal place${variable.decimalPlaces !== 1 ? 's' : ''}`;
+}
+
+export const describeTolerance = (tolerance: FormulaQuestion['tolerance']): string =>
+  (tolerance ? `± ${formatNumber(tolerance.amount)}${tolerance.unit === 'percent' ? '%' : ''}` : 'exact answer');
+
+// Rounds to a number of significant figures, written the way learners are asked to, e.g. "0.00340" or "1.23e+5"
+export const toSignificantFigures = (value: number, figures: number): string => value.toPrecision(Math.min(Math.max(1, figures), 21));
+
+// Reads a learner's number written plainly or in scientific notation ("1.2e3", "1.2 x 10^3", "1.2×10^3")
+export function parseScientific(text: string): { value: number; mantissa: string } | undefined {
+  const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+))\s*(?:(?:e|E)\s*([+-]?\d+)|(?:x|X|\*|×)\s*10\s*\^\s*\(?\s*([+-]?\d+)\s*\)?)?\s*$/.exec(text);
+  if (!match) return undefined;
+  const exponent = Number(match[2] ?? match[3] ?? 0);
+  return { value: Number(match[1]) * Math.pow(10, exponent), mantissa: match[1] };
+}
+
+// How many significant figures a written number shows. Trailing zeros of a whole number without a decimal
+// point ("1200") are ambiguous, so the count is a range: 1200 shows between 2 and 4 figures.
+export function significantFigureRange(mantissa: string): { min: number; max: number } {
+  const unsigned = mantissa.replace(/^[+-]/, '');
+  if (unsigned.includes('.')) {
+    const digits = unsigned.replace('.', '').replace(/^0+/, '');
+    // "0.00" has no non-zero digit; its zeros after the point still state its precision
+    const figures = digits.length > 0 ? digits.length : Math.max(1, unsigned.split('.')[1].length);
+    return { min: figures, max: figures };
+  }
+  const digits = unsigned.replace(/^0+/, '');
+  if (digits.length === 0) return { min: 1, max: 1 };
+  return { min: Math.max(1, digits.replace(/0+$/, '').length), max: digits.length };
+}
+
@@ -0,0 +1,227 @@
+import JSZip from 'jszip';
+import type { Quiz, Question } from '@/types/quiz';
+
+// A media file shipped alongside the CSV, keyed by its path inside the ZIP or folder
+export interface QuizAsset {
+  path: string;
+  blob: Blob;
+}
+
+// A text file the quiz is read from: a CSV, or the XML of a QTI package
+export interface QuizDocument {
+  path: string;
+  content: string;
+}
+
+export interface QuizBundle {
+  name: string; // Name of the uploaded file, or of the quiz document inside it
+  documents: QuizDocument[];
+  assets: QuizAsset[];
+  csvFile?: Blob; // A CSV uploaded on its own, left unread so it can be streamed to the parser
+}
+
+export interface AssetResolver {
+  hasAssets: boolean;
+  // Returns a displayable URL for a reference from the CSV, or undefined if no uploaded file matches
+  resolve: (reference: string) => string | undefined;
+  // Like resolve, but returns the matched asset's path
+  match: (reference: string) => string | undefined;
+  paths: string[];
+  dispose: () => void;
+}
+
+export interface AssetReferenceReport {
+  missing: { questionIndex: number; reference: string }[];
+  unreferenced: string[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+const extensionOf = (path: string): string => path.split('.').pop()?.toLowerCase() ?? '';
+
+export const isCsvPath = (path: string): boolean => extensionOf(path) === 'csv';
+export const isXmlPath = (path: string): boolean => extensionOf(path) === 'xml';
+// Plain-text question formats (GIFT, Aiken and the Markdown authoring format)
+export const isMarkdownPath = (path: string): boolean => ['md', 'markdown'].includes(extensionOf(path));
+export const isTextQuizPath = (path: string): boolean => ['gift', 'txt'].includes(extensionOf(path)) || isMarkdownPath(path);
+export const isQuizDocumentPath = (path: string): boolean => isCsvPath(path) || isXmlPath(path) || isTextQuizPath(path);
+export const isZipPath = (path: string): boolean => extensionOf(path) === 'zip';
+export const isMediaPath = (path: string): boolean => extensionOf(path) in MIME_TYPES;
+
+// Web addresses the browser can load directly, with or without a scheme
+export const isWebUrl = (reference: string): boolean => /^(?:https?:)?\/\//i.test(reference.trim());
+
+// References that point outside the upload are left alone and never reported as missing
+const isExternalReference = (reference: string): boolean => /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(reference);
+
+// Canonical form used to compare CSV references with uploaded paths
+const normalizePath = (path: string): string => {
+  let normalized = path.trim().replace(/[?#].*$/, '').replace(/\\/g, '/');
+  try {
+    normalized = decodeURIComponent(normalized);
+  } catch {
+    // Leave malformed escapes as written
+  }
+  return normalized.replace(/^(\.\/|\/)+/, '').toLowerCase();
+};
+
+export const basename = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+// react-dropzone exposes the path relative to a dropped folder; fall back to the plain name
+const relativePathOf = (file: File): string =>
+  (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+
+export const withMimeType = (blob: Blob, path: string): Blob =>
+  blob.type ? blob : new Blob([blob], { type: MIME_TYPES[extensionOf(path)] ?? 'application/octet-stream' });
+
+async function readZip(file: Blob): Promise<{ documents: QuizDocument[]; assets: QuizAsset[] }> {
+  const zip = await JSZip.loadAsync(file);
+  const documents: QuizDocument[] = [];
+  const assets: QuizAsset[] = [];
+  for (const entry of Object.values(zip.files)) {
+    // Skip folders and the resource forks macOS adds to archives
+    if (entry.dir || entry.name.startsWith('__MACOSX/') || basename(entry.name).startsWith('._')) continue;
+    if (isQuizDocumentPath(entry.name)) {
+      documents.push({ path: entry.name, content: await entry.async('string') });
+    } else if (isMediaPath(entry.name)) {
+      assets.push({ path: entry.name, blob: withMimeType(await entry.async('blob'), entry.name) });
+    }
+  }
+  return { documents, assets };
+}
+
+// The CSV a bundle holds, if it holds exactly one: the unread upload, or the text found in a ZIP or folder
+export function csvSourceOf(bundle: QuizBundle): Blob | undefined {
+  if (bundle.csvFile) return bundle.csvFile;
+  const csvDocuments = bundle.documents.filter(doc => isCsvPath(doc.path));
+  return csvDocuments.length === 1 ? new Blob([csvDocuments[0].content], { type: 'text/csv' }) : undefined;
+}
+
+// Collects the quiz documents and their media from a ZIP, several files or a dropped directory
+export async function loadQuizBundle(files: File[]): Promise<QuizBundle> {
+  const documents: QuizDocument[] = [];
+  const assets: QuizAsset[] = [];
+
+  for (const file of files) {
+    const path = relativePathOf(file);
+    if (isZipPath(path)) {
+      const zipContents = await readZip(file);
+      documents.push(...zipContents.documents);
+      assets.push(...zipContents.assets);
+    } else if (isQuizDocumentPath(path)) {
+      documents.push({ path, content: await file.text() });
+    } else if (isMediaPath(path)) {
+      assets.push({ path, blob: withMimeType(file, path) });
+    }
+  }
+
+  if (documents.length === 0) {
+    throw new Error('No quiz file (CSV, QTI, Moodle XML, GIFT, Aiken or Markdown) was found in the upload.');
+  }
+  // A package of several documents is named after the ZIP it came in
+  const name = documents.length === 1 ? basename(documents[0].path) : (files.find(file => isZipPath(file.name)) ?? files[0]).name;
+  return { name, documents, assets };
+}
+
+// Matches CSV references against uploaded paths: exact path, then a shared path suffix, then a unique file name.
+// Brightspace often writes course-absolute paths (/content/enforced/...), so suffix matching matters.
+export function createAssetResolver(assets: QuizAsset[]): AssetResolver {
+  const urls = new Map<string, string>();
+  const byPath = new Map<string, QuizAsset>();
+  const byBasename = new Map<string, QuizAsset[]>();
+  for (const asset of assets) {
+    const normalized = normalizePath(asset.path);
+    byPath.set(normalized, asset);
+    const name = basename(normalized);
+    byBasename.set(name, [...(byBasename.get(name) ?? []), asset]);
+  }
+
+  const match = (reference: string): string | undefined => {
+    if (!reference || isExternalReference(reference)) return undefined;
+    const normalized = normalizePath(reference);
+    const exact = byPath.get(normalized);
+    if (exact) return exact.path;
+    for (const [path, asset] of byPath) {
+      if (path.endsWith(`/${normalized}`) || normalized.endsWith(`/${path}`)) return asset.path;
+    }
+    const sameName = byBasename.get(basename(normalized));
+    return sameName && sameName.length === 1 ? sameName[0].path : undefined;
+  };
+
+  const resolve = (reference: string): string | undefined => {
+    const path = match(reference);
+    if (!path) return undefined;
+    let url = urls.get(path);
+    if (!url) {
+      const asset = assets.find(a => a.path === path);
+      if (!asset) return undefined;
+      url = URL.createObjectURL(asset.blob);
+      urls.set(path, url);
+    }
+    return url;
+  };
+
+  return {
+    hasAssets: assets.length > 0,
+    resolve,
+    match,
+    paths: assets.map(asset => asset.path),
+    dispose: () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    },
+  };
+}
+
+const IMG_SRC_PATTERN = /<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+
+// Every image a question refers to: its Image row plus <img src> in any of its HTML fields
+export function collectImageReferences(question: Question): string[] {
+  const references = new Set<string>();
+  if (question.image) references.add(question.image);
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(IMG_SRC_PATTERN)) {
+        const src = match[1] ?? match[2] ?? match[3];
+        if (src) references.add(src);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  Object.entries(question).forEach(([key, value]) => {
+    if (key !== 'image') visit(value);
+  });
+  return [...references];
+}
+
+export function analyzeAssetReferences(quiz: Quiz, resolver: AssetResolver): AssetReferenceReport {
+  const used = new Set<string>();
+  const missing: AssetReferenceReport['missing'] = [];
+  quiz.questions.forEach((question, questionIndex) => {
+    for (const reference of collectImageReferences(question)) {
+      if (isExternalReference(reference)) continue;
+      const path = resolver.match(reference);
+      if (path) {
+        used.add(path);
+      } else {
+        missing.push({ questionIndex, reference });
+      }
+    }
+  });
+  return { missing, unreferenced: resolver.paths.filter(path => !used.has(path)) };
+}
@@ -0,0 +1,66 @@
+// Presentation attributes copied from the page's computed styles; charts colour themselves through classes
+// and CSS variables, which an SVG drawn on its own does not see
+const INLINED_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility',
+];
+
+const serializeWithStyles = (svg: SVGSVGElement): string => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const targets = [copy, ...Array.from(copy.querySelectorAll('*'))];
+  sources.forEach((source, idx) => {
+    const computed = getComputedStyle(source);
+    const style = INLINED_STYLES.map(name => `${name}:${computed.getPropertyValue(name)}`).join(';');
+    targets[idx].setAttribute('style', `${style};${targets[idx].getAttribute('style') ?? ''}`);
+  });
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const { width, height } = svg.getBoundingClientRect();
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  return new XMLSerializer().serializeToString(copy);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not render the chart as an image.'));
+  image.src = src;
+});
+
+const PADDING = 24;
+const TITLE_HEIGHT = 28;
+const SCALE = 2; // Rendered at twice the on-screen size so the image stays sharp
+
+// Draws titled charts one under another on a white background and returns the picture as a PNG
+export async function chartsToPng(heading: string, charts: { title: string; svg: SVGSVGElement }[]): Promise<Blob> {
+  const images = await Promise.all(charts.map(async chart => ({
+    title: chart.title,
+    image: await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeWithStyles(chart.svg))}`),
+  })));
+  const width = Math.max(400, ...images.map(({ image }) => image.width)) + PADDING * 2;
+  const height = PADDING + TITLE_HEIGHT + images.reduce((total, { image }) => total + TITLE_HEIGHT + image.height + PADDING, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * SCALE;
+  canvas.height = height * SCALE;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create an image of the charts.');
+  context.scale(SCALE, SCALE);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = '#111827';
+  context.textBaseline = 'top';
+
+  context.font = 'bold 18px sans-serif';
+  context.fillText(heading, PADDING, PADDING);
+  let top = PADDING + TITLE_HEIGHT;
+  for (const { title, image } of images) {
+    context.font = 'bold 14px sans-serif';
+    context.fillText(title, PADDING, top);
+    context.drawImage(image, PADDING, top + TITLE_HEIGHT, image.width, image.height);
+    top += TITLE_HEIGHT + image.height + PADDING;
+  }
+
+  return new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create an image of the charts.'))), 'image/png'));
+}
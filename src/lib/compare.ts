@@ -0,0 +1,170 @@
+import type { Question, Quiz } from '@/types/quiz';
+import { questionTokens, similarPairs } from '@/lib/similarity';
+
+export type ComparisonStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+// One field that differs between two versions of a question, addressed like validation issues ('options.0.percent')
+export interface FieldChange {
+  path: string;
+  label: string; // e.g. "Option 1 percent"
+  before?: string; // Undefined when the field is new
+  after?: string; // Undefined when the field was removed
+}
+
+export interface ComparisonEntry {
+  status: ComparisonStatus;
+  beforeIndex?: number;
+  afterIndex?: number;
+  matchedBy?: 'id' | 'similarity';
+  changes: FieldChange[];
+}
+
+export interface QuizComparison {
+  entries: ComparisonEntry[]; // In the newer version's order, with removed questions where they used to be
+  counts: Record<ComparisonStatus, number>;
+}
+
+// Kept for saving the CSV as written, not part of what the question says
+const IGNORED_KEYS = new Set(['rawRows', 'definedLine']);
+
+// Every leaf value of a question by dotted path, as text
+function flattenQuestion(question: Question): Map<string, string> {
+  const fields = new Map<string, string>();
+  const visit = (value: unknown, path: string) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, idx) => visit(item, `${path}.${idx}`));
+    } else if (typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => !IGNORED_KEYS.has(key) && visit(item, path ? `${path}.${key}` : key));
+    } else {
+      fields.set(path, String(value));
+    }
+  };
+  visit(question, '');
+  return fields;
+}
+
+const SINGULAR: Record<string, string> = { options: 'option', pairs: 'pair', items: 'item', parts: 'part', answers: 'answer', variables: 'variable', statements: 'statement', values: 'value' };
+const FIELD_LABELS: Record<string, string> = { id: 'ID', questionText: 'question text', htmlFlag: 'HTML flag', feedbackHtmlFlag: 'feedback HTML flag', questionTextHtmlFlag: 'question text HTML flag', answerKeyHtmlFlag: 'answer key HTML flag' };
+
+const humanize = (key: string): string => FIELD_LABELS[key] ?? key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+// "options.0.percent" reads as "Option 1 percent"
+export function describeFieldPath(path: string): string {
+  const words: string[] = [];
+  path.split('.').forEach((segment, idx, segments) => {
+    if (/^\d+$/.test(segment)) words.push(String(Number(segment) + 1));
+    else words.push(/^\d+$/.test(segments[idx + 1] ?? '') ? SINGULAR[segment] ?? segment : humanize(segment));
+  });
+  const text = words.join(' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Field-level differences between two versions of a question
+export function diffQuestions(before: Question, after: Question): FieldChange[] {
+  const [beforeFields, afterFields] = [flattenQuestion(before), flattenQuestion(after)];
+  const paths = [...new Set([...beforeFields.keys(), ...afterFields.keys()])];
+  return paths
+    .filter(path => beforeFields.get(path) !== afterFields.get(path))
+    .map(path => ({ path, label: describeFieldPath(path), before: beforeFields.get(path), after: afterFields.get(path) }));
+}
+
+const SIMILARITY_THRESHOLD = 0.5;
+
+// Pairs up questions of two versions: by ID first, then by how many words they share
+function matchQuestions(before: Quiz, after: Quiz): Map<number, { afterIndex: number; matchedBy: 'id' | 'similarity' }> {
+  const matches = new Map<number, { afterIndex: number; matchedBy: 'id' | 'similarity' }>();
+  const matchedAfter = new Set<number>();
+
+  const afterById = new Map<string, number>();
+  after.questions.forEach((question, idx) => question.id && !afterById.has(question.id) && afterById.set(question.id, idx));
+  before.questions.forEach((question, idx) => {
+    const afterIndex = question.id ? afterById.get(question.id) : undefined;
+    if (afterIndex === undefined || matchedAfter.has(afterIndex)) return;
+    matches.set(idx, { afterIndex, matchedBy: 'id' });
+    matchedAfter.add(afterIndex);
+  });
+
+  // Unmatched questions of both versions in one list: before's first, then after's
+  const offset = before.questions.length;
+  const questions = [...before.questions, ...after.questions];
+  const isUnmatched = (idx: number) => (idx < offset ? !matches.has(idx) : !matchedAfter.has(idx - offset));
+  const tokens = questions.map((question, idx) => (isUnmatched(idx) ? questionTokens(question) : new Set<string>()));
+  const candidates = similarPairs(tokens, SIMILARITY_THRESHOLD, (a, b) => a < offset && b >= offset && questions[a].type === questions[b].type)
+    .map(({ a, b }) => ({ beforeIndex: a, afterIndex: b - offset }));
+  // Best pairs first, so a question goes to its closest counterpart
+  candidates.forEach(({ beforeIndex, afterIndex }) => {
+    if (matches.has(beforeIndex) || matchedAfter.has(afterIndex)) return;
+    matches.set(beforeIndex, { afterIndex, matchedBy: 'similarity' });
+    matchedAfter.add(afterIndex);
+  });
+  return matches;
+}
+
+export function compareQuizzes(before: Quiz, after: Quiz): QuizComparison {
+  const matches = matchQuestions(before, after);
+  const beforeOf = new Map([...matches.entries()].map(([beforeIndex, match]) => [match.afterIndex, { beforeIndex, matchedBy: match.matchedBy }]));
+
+  const positioned: { position: number; entry: ComparisonEntry }[] = after.questions.map((question, afterIndex) => {
+    const match = beforeOf.get(afterIndex);
+    if (!match) return { position: afterIndex, entry: { status: 'added', afterIndex, changes: [] } };
+    const changes = diffQuestions(before.questions[match.beforeIndex], question);
+    return { position: afterIndex, entry: { status: changes.length > 0 ? 'modified' : 'unchanged', beforeIndex: match.beforeIndex, afterIndex, matchedBy: match.matchedBy, changes } };
+  });
+  // A removed question is listed just after the question that preceded it in the older version
+  let previousAfterIndex = -1;
+  before.questions.forEach((_, beforeIndex) => {
+    const match = matches.get(beforeIndex);
+    if (match) previousAfterIndex = match.afterIndex;
+    else positioned.push({ position: previousAfterIndex + 0.5, entry: { status: 'removed', beforeIndex, changes: [] } });
+  });
+  const entries = positioned
+    .sort((a, b) => a.position - b.position || (a.entry.beforeIndex ?? 0) - (b.entry.beforeIndex ?? 0))
+    .map(({ entry }) => entry);
+
+  const counts: Record<ComparisonStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  entries.forEach(entry => counts[entry.status]++);
+  return { entries, counts };
+}
+
+export interface TextDiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+const MAX_DIFF_CELLS = 4_000_000; // Longer texts are shown as replaced outright
+
+// Word-level differences between two texts, for highlighting what changed
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const [a, b] = [before.split(/(\s+)/), after.split(/(\s+)/)];
+  if (a.length * b.length > MAX_DIFF_CELLS) return [{ text: before, kind: 'removed' }, { text: after, kind: 'added' }];
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j] ? lengths[(i + 1) * width + j + 1] + 1 : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  const parts: TextDiffPart[] = [];
+  const push = (text: string, kind: TextDiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let [i, j] = [0, 0];
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i++], 'same');
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts.filter(part => part.text !== '');
+}
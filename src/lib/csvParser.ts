@@ -14,9 +14,26 @@ import type {
   MSOption,
   OrderingQuestion,
   OrderingItem,
+  FillInTheBlankQuestion,
+  MultiShortAnswerQuestion,
+  FormulaQuestion,
+  SignificantFiguresQuestion,
+  LikertQuestion,
+  RawRow,
+  QuizSection,
+  UnreadQuestion,
   BaseQuestion,
   QuestionType,
+  ParseDiagnostic,
+  ParseResult,
+  DiagnosticSeverity,
+  DiagnosticCode,
 } from '@/types/quiz';
+import { validateQuestion, formatValidationIssue } from '@/lib/validation';
+import { parseLikertScale } from '@/lib/likert';
+
+// Diagnostics meaning the current row was not taken into the model
+const IGNORED_ROW_CODES = new Set<DiagnosticCode>(['unrecognized-row', 'row-type-mismatch', 'invalid-choice-number']);
 
 // Helper function to safely parse integers
 const safeParseInt = (value: string | undefined, defaultValue: number = 0): number => {
@@ -27,13 +44,22 @@ const safeParseInt = (value: string | undefined, defaultValue: number = 0): numb
   return isNaN(parsed) ? defaultValue : parsed;
 };
 
+// Decimal counterpart of safeParseInt; used for Arithmetic variable ranges and tolerances
+const safeParseFloat = (value: string | undefined, defaultValue: number = 0): number => {
+  if (value === undefined || value === null || value.trim() === '') {
+    return defaultValue;
+  }
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? defaultValue : parsed;
+};
+
 // Helper function to get a value or default
 const getValue = <T>(arr: string[], index: number, defaultValue: T): string | T => {
     // Ensure index exists and value is not empty before returning
     return arr && arr[index] !== undefined && arr[index] !== null && arr[index] !== '' ? arr[index] : defaultValue;
 }
 
-// Basic CSV cell splitting function, handles simple quotes but not escaped quotes within quotes.
+// Basic CSV cell splitting function, handles quoted cells and escaped quotes ("") within them.
 const splitCsvRow = (row: string): string[] => {
     const result: string[] = [];
     let currentCell = '';
@@ -51,7 +77,7 @@ const splitCsvRow = (row: string): string[] => {
             }
             inQuotes = !inQuotes;
         } else if (char === ',' && !inQuotes) {
-            result.push(currentCell.trim()); // Push currentCell as is, will remove outer quotes later if necessary
+            result.push(currentCell.trim());
             currentCell = '';
         } else {
             currentCell += char;
@@ -59,62 +85,178 @@ const splitCsvRow = (row: string): string[] => {
     }
     result.push(currentCell.trim()); // Add the last cell
 
-    // Remove surrounding quotes from each cell if they exist
-    return result.map(cell => {
-        if (cell.startsWith('"') && cell.endsWith('"')) {
-            return cell.substring(1, cell.length - 1).replace(/""/g, '"'); // Replace escaped "" with "
-        }
-        return cell;
-    });
+    // Quotes are already consumed above; unquoting again would corrupt values that start and end with '"'.
+    return result;
 };
 
-// Robust CSV record splitter that handles quoted newlines
-function splitCsvToRecords(csvString: string): string[] {
-    const records: string[] = [];
-    let currentRecordStart = 0;
+// A single logical CSV record together with the file line it starts on
+export interface CsvRecord {
+    text: string;
+    line: number;
+}
+
+const isBlankRecord = (record: CsvRecord) => record.text.length === 0;
+
+// Robust CSV record splitter that handles quoted newlines. Text is fed in chunks as it is read; each push
+// returns the records completed so far, and end() returns the last one.
+export function createRecordSplitter() {
+    let buffer = '';
+    let scanFrom = 0; // Where scanning resumes in the buffer; earlier characters are part of the pending record
+    let currentRecordLine = 1;
+    let lineNumber = 1;
     let inQuotes = false;
 
-    for (let i = 0; i < csvString.length; i++) {
-        const char = csvString[i];
+    const scan = (isLast: boolean): CsvRecord[] => {
+        const records: CsvRecord[] = [];
+        let currentRecordStart = 0;
+        let i = scanFrom;
+        for (; i < buffer.length; i++) {
+            const char = buffer[i];
+
+            if (char === '"') {
+                // A quote at the end of a chunk may be the first of an escaped pair; wait for the next chunk
+                if (i + 1 === buffer.length && !isLast) break;
+                // Check for escaped quote ""
+                if (i + 1 < buffer.length && buffer[i+1] === '"') {
+                    i++; // Skip the second quote of an escaped pair
+                    continue;
+                }
+                inQuotes = !inQuotes;
+            }
 
-        if (char === '"') {
-            // Check for escaped quote ""
-            if (i + 1 < csvString.length && csvString[i+1] === '"') {
-                i++; // Skip the second quote of an escaped pair
-                continue;
+            if (char === '\n') {
+                lineNumber++;
+                if (!inQuotes) {
+                    records.push({ text: buffer.substring(currentRecordStart, i).trim(), line: currentRecordLine });
+                    currentRecordStart = i + 1;
+                    currentRecordLine = lineNumber;
+                }
             }
-            inQuotes = !inQuotes;
         }
-
-        if (char === '\n' && !inQuotes) {
-            records.push(csvString.substring(currentRecordStart, i));
-            currentRecordStart = i + 1;
+        buffer = buffer.substring(currentRecordStart);
+        scanFrom = i - currentRecordStart;
+        // Add the last record if any (or the only record if no newlines)
+        if (isLast && buffer.length > 0) {
+            records.push({ text: buffer.trim(), line: currentRecordLine });
+            buffer = '';
+            scanFrom = 0;
         }
-    }
-    // Add the last record if any (or the only record if no newlines)
-    if (currentRecordStart < csvString.length) {
-        records.push(csvString.substring(currentRecordStart));
-    }
-    
-    return records
-        .map(record => record.trim()) // Trim whitespace from each record
-        .filter(record => record.length > 0 && !/^\s*$/.test(record)); // Remove empty/whitespace-only lines
+        return records.filter(record => !isBlankRecord(record)); // Remove empty/whitespace-only lines
+    };
+
+    return {
+        push: (chunk: string): CsvRecord[] => {
+            buffer += chunk;
+            return scan(false);
+        },
+        end: (): CsvRecord[] => scan(true),
+    };
 }
 
+function splitCsvToRecords(csvString: string): CsvRecord[] {
+    const splitter = createRecordSplitter();
+    return [...splitter.push(csvString), ...splitter.end()];
+}
 
-export function parseQuizCsv(csvContent: string): Quiz {
-  // Use the more robust record splitter
-  const records = splitCsvToRecords(csvContent);
+export interface QuizCsvParser {
+  push: (record: CsvRecord) => void;
+  finish: () => ParseResult; // Closes the last question; call once, after the final record
+  questions: readonly Question[]; // Questions closed so far, in order; the open one is added by a later push or finish
+  recordCount: () => number;
+}
 
+// Parses a Brightspace CSV one record at a time, so a large file can be parsed while it is still being read
+export function createQuizCsvParser(): QuizCsvParser {
   const questions: Question[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
   let currentQuestion: Partial<Question> | null = null;
+  let currentQuestionRecord = 0;
+  let currentQuestionLine = 0;
+  // Diagnostics raised while the current question is open; finalized once we know whether it is kept
+  let currentDiagnostics: ParseDiagnostic[] = [];
   let currentLineNumber = 0; // This will now represent record number
+  let currentSourceLine = 0;
+  let currentKey = '';
+  let currentRawRow: RawRow | null = null;
+  const leadingRows: string[][] = [];
+  // Questions of unknown types are kept whole, at their place among the questions that are read
+  const unreadQuestions: UnreadQuestion[] = [];
+  let currentUnreadQuestion: UnreadQuestion | null = null;
+  const sections: QuizSection[] = [];
+  // Sections read since the last question; they start at the next question that is kept
+  let pendingSections: Omit<QuizSection, 'start' | 'count'>[] = [];
+  const startPendingSections = () => {
+      sections.push(...pendingSections.map(section => ({ ...section, start: questions.length, count: 0 })));
+      pendingSections = [];
+  };
+
+  // Records a problem at the current record. Problems inside an open question are held back
+  // so they can be tagged with the question's final title and index.
+  const report = (severity: DiagnosticSeverity, code: DiagnosticCode, message: string, column?: number) => {
+      const diagnostic: ParseDiagnostic = {
+          severity,
+          code,
+          message,
+          record: currentLineNumber,
+          line: currentSourceLine,
+          key: currentKey || undefined,
+          column,
+      };
+      // The row's content didn't make it into the model, so it is written back as read
+      if (currentRawRow && IGNORED_ROW_CODES.has(code)) currentRawRow.recognized = false;
+      if (currentQuestion) {
+          currentDiagnostics.push(diagnostic);
+      } else {
+          diagnostics.push(diagnostic);
+      }
+  };
+
+  // Closes the open question. Every question is kept; validation problems are reported so the UI can flag it.
+  const closeQuestion = () => {
+      if (!currentQuestion) return;
+      const title = currentQuestion.title || undefined;
+      if (currentQuestion.type === 'TF') {
+          // definedLine only matters while resolving Feedback rows; drop it so the model is position-independent
+          delete currentQuestion.trueOption?.definedLine;
+          delete currentQuestion.falseOption?.definedLine;
+      }
+      if (currentQuestion.type === 'FIB' && currentQuestion.questionText === undefined) {
+          currentQuestion.questionText = ''; // The Text rows are the question; a QuestionText row is optional
+      }
+      if ((currentQuestion.type === 'ARITH' || currentQuestion.type === 'SF') && !currentQuestion.variables) {
+          currentQuestion.variables = []; // A formula of constants needs no Variable rows
+      }
+      if (currentQuestion.type === 'LIK' && !currentQuestion.statements) {
+          currentQuestion.statements = []; // The question text is rated when there are no Statement rows
+      }
+      for (const issue of validateQuestion(currentQuestion)) {
+          currentDiagnostics.push({
+              severity: 'error',
+              code: issue.baseField ? 'incomplete-question' : 'invalid-question',
+              message: `Question is ${issue.baseField ? 'incomplete' : 'invalid'}: ${formatValidationIssue(issue)}`,
+              record: currentQuestionRecord,
+              line: currentQuestionLine,
+              key: 'NewQuestion',
+          });
+      }
+      questions.push(currentQuestion as Question);
+      const questionIndex = questions.length - 1;
+      for (const diagnostic of currentDiagnostics) {
+          diagnostics.push({ ...diagnostic, questionTitle: title, questionIndex });
+      }
+      currentQuestion = null;
+      currentDiagnostics = [];
+  };
 
-  for (const rawRecord of records) {
+  // Reads one record into the open question
+  const push = ({ text: rawRecord, line }: CsvRecord): void => {
     currentLineNumber++;
+    currentSourceLine = line;
+    currentRawRow = null;
     // splitCsvRow now processes a single, complete logical record
-    const row = splitCsvRow(rawRecord); 
-    const typeOrKey = getValue(row, 0, '').toLowerCase();
+    const row = splitCsvRow(rawRecord);
+    currentKey = getValue(row, 0, '');
+    const typeOrKey = currentKey.toLowerCase();
     const value = getValue(row, 1, '');
     const value2 = getValue(row, 2, '');
     const value3 = getValue(row, 3, '');
@@ -122,30 +264,49 @@ export function parseQuizCsv(csvContent: string): Quiz {
     const value5 = getValue(row, 5, '');
 
 
+    // //Section,<name>,<description>,<select>: a comment row to Brightspace, which skips rows starting with //.
+    // The questions after it, up to the next //Section row, form the section; a select count makes it a pool.
+    if (typeOrKey === '//section') {
+      const select = safeParseInt(value3, 0);
+      pendingSections.push({
+        name: value || `Section ${sections.length + pendingSections.length + 1}`,
+        ...(value2 ? { description: value2 } : {}),
+        ...(select > 0 ? { select } : {}),
+      });
+      return;
+    }
+
     if (typeOrKey === 'newquestion') {
       if (currentQuestion) {
-          if (currentQuestion.type && currentQuestion.title && currentQuestion.questionText && currentQuestion.points !== undefined) {
-              questions.push(currentQuestion as Question);
-          } else {
-              console.warn(`[Record ${currentLineNumber}] Skipping incomplete question started before this record. Missing type, title, text, or points. Title: ${currentQuestion.title || 'N/A'}`);
-          }
+          closeQuestion();
       }
       const questionTypeCode = value as QuestionType;
-      const knownTypes: QuestionType[] = ['WR', 'SA', 'M', 'MC', 'TF', 'MS', 'O'];
+      const knownTypes: QuestionType[] = ['WR', 'SA', 'M', 'MC', 'TF', 'MS', 'O', 'FIB', 'MSA', 'ARITH', 'SF', 'LIK'];
       if (!knownTypes.includes(questionTypeCode)) {
-          console.warn(`[Record ${currentLineNumber}] Unknown question type '${questionTypeCode}'. Skipping this 'NewQuestion' entry.`);
-          currentQuestion = null; 
-          continue;
+          report('error', 'unknown-question-type', `Unknown question type '${questionTypeCode}'. The question is not shown, but it is kept as written when the quiz is saved.`, 2);
+          currentUnreadQuestion = { start: questions.length, rows: [row] };
+          unreadQuestions.push(currentUnreadQuestion);
+          return;
       }
-      currentQuestion = { type: questionTypeCode, points: 1 }; 
-      continue; 
+      currentUnreadQuestion = null;
+      // Survey questions are not scored, so a Likert question without a Points row is worth nothing
+      startPendingSections();
+      currentRawRow = { cells: row, recognized: true };
+      currentQuestion = { type: questionTypeCode, points: questionTypeCode === 'LIK' ? 0 : 1, rawRows: [currentRawRow] };
+      currentQuestionRecord = currentLineNumber;
+      currentQuestionLine = line;
+      return;
     }
 
     if (!currentQuestion) {
-      continue;
+      if (currentUnreadQuestion) currentUnreadQuestion.rows.push(row);
+      else leadingRows.push(row);
+      return;
     }
+    currentRawRow = { cells: row, recognized: true };
+    currentQuestion.rawRows?.push(currentRawRow);
 
-    try { 
+    try {
         switch (typeOrKey) {
           case 'id':
             currentQuestion.id = value;
@@ -155,6 +316,7 @@ export function parseQuizCsv(csvContent: string): Quiz {
             break;
           case 'questiontext':
             currentQuestion.questionText = value; // `value` is row[1], which should now be the full HTML
+            currentQuestion.questionTextHtmlFlag = value2.toLowerCase() === 'html';
             break;
           case 'points':
             currentQuestion.points = safeParseInt(value, 1);
@@ -170,12 +332,10 @@ export function parseQuizCsv(csvContent: string): Quiz {
             break;
           case 'feedback':
             let feedbackAssigned = false;
-            if (currentQuestion.type === 'MC' && (currentQuestion as Partial<MultipleChoiceQuestion>).options?.length > 0) {
-                 const mc = currentQuestion as Partial<MultipleChoiceQuestion>;
-                 if(mc.options) mc.options[mc.options.length - 1].feedback = value; feedbackAssigned = true;
-            } else if (currentQuestion.type === 'MS' && (currentQuestion as Partial<MultiSelectQuestion>).options?.length > 0) {
-                 const ms = currentQuestion as Partial<MultiSelectQuestion>;
-                 if(ms.options) ms.options[ms.options.length - 1].feedback = value; feedbackAssigned = true;
+            if (currentQuestion.type === 'MC' && currentQuestion.options && currentQuestion.options.length > 0) {
+                 currentQuestion.options[currentQuestion.options.length - 1].feedback = value; feedbackAssigned = true;
+            } else if (currentQuestion.type === 'MS' && currentQuestion.options && currentQuestion.options.length > 0) {
+                 currentQuestion.options[currentQuestion.options.length - 1].feedback = value; feedbackAssigned = true;
             } else if (currentQuestion.type === 'TF') {
                 const tf = currentQuestion as Partial<TrueFalseQuestion>;
                 if(tf.falseOption && (!tf.trueOption || (tf.falseOption.definedLine && tf.trueOption.definedLine && tf.falseOption.definedLine > tf.trueOption.definedLine)) ){
@@ -183,12 +343,12 @@ export function parseQuizCsv(csvContent: string): Quiz {
                 } else if (tf.trueOption) {
                     tf.trueOption.feedback = value; feedbackAssigned = true;
                 }
-            } else if (currentQuestion.type === 'O' && (currentQuestion as Partial<OrderingQuestion>).items?.length > 0) {
-                 const oq = currentQuestion as Partial<OrderingQuestion>;
-                 if(oq.items) oq.items[oq.items.length - 1].feedback = value; feedbackAssigned = true;
+            } else if (currentQuestion.type === 'O' && currentQuestion.items && currentQuestion.items.length > 0) {
+                 currentQuestion.items[currentQuestion.items.length - 1].feedback = value; feedbackAssigned = true;
             }
             if (!feedbackAssigned) {
                 currentQuestion.feedback = value;
+                currentQuestion.feedbackHtmlFlag = value2.toLowerCase() === 'html';
             }
             break;
 
@@ -197,6 +357,7 @@ export function parseQuizCsv(csvContent: string): Quiz {
             break;
           case 'answerkey':
             (currentQuestion as Partial<WrittenResponseQuestion>).answerKey = value;
+            (currentQuestion as Partial<WrittenResponseQuestion>).answerKeyHtmlFlag = value2.toLowerCase() === 'html';
             break;
 
           case 'inputbox':
@@ -205,14 +366,37 @@ export function parseQuizCsv(csvContent: string): Quiz {
               cols: safeParseInt(value2, 40),
             };
             break;
-          case 'answer': 
+          case 'answer':
             if (currentQuestion.type === 'SA') {
                 const sa = currentQuestion as Partial<ShortAnswerQuestion>;
-                sa.bestAnswer = value2; 
+                sa.bestAnswer = value2;
                 const flag = value3.toLowerCase();
                 sa.evaluation = flag === 'regexp' ? 'regexp' : (flag === 'sensitive' ? 'sensitive' : 'insensitive');
+            } else if (currentQuestion.type === 'FIB') {
+                // Answer rows belong to the Blank row above them
+                const blank = (currentQuestion as Partial<FillInTheBlankQuestion>).parts?.slice(-1)[0];
+                if (blank?.type !== 'blank') {
+                    report('warning', 'row-type-mismatch', `'Answer' row is not preceded by a 'Blank' row. Ignoring.`);
+                    break;
+                }
+                const flag = value3.toLowerCase();
+                blank.answers.push({
+                    weight: safeParseInt(value, 100),
+                    text: value2,
+                    evaluation: flag === 'regexp' ? 'regexp' : (flag === 'sensitive' ? 'sensitive' : 'insensitive'),
+                });
+            } else if (currentQuestion.type === 'MSA') {
+                const msa = currentQuestion as Partial<MultiShortAnswerQuestion>;
+                if (!msa.answers) msa.answers = [];
+                // Brightspace writes "Answer,text,evaluation"; the SA layout with a weight first is accepted too
+                const hasWeight = !['regexp', 'sensitive', 'insensitive'].includes(value2.toLowerCase()) && value3 !== '';
+                const flag = (hasWeight ? value3 : value2).toLowerCase();
+                msa.answers.push({
+                    text: hasWeight ? value2 : value,
+                    evaluation: flag === 'regexp' ? 'regexp' : (flag === 'sensitive' ? 'sensitive' : 'insensitive'),
+                });
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'Answer' row encountered for non-SA question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'Answer' row encountered for non-SA/FIB/MSA question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
 
@@ -224,51 +408,51 @@ export function parseQuizCsv(csvContent: string): Quiz {
              } else if (currentQuestion.type === 'O') {
                 (currentQuestion as Partial<OrderingQuestion>).scoring = value as OrderingQuestion['scoring'];
              } else {
-                 console.warn(`[Record ${currentLineNumber}] 'Scoring' row encountered for incompatible question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'Scoring' row encountered for incompatible question type: ${currentQuestion.type}. Ignoring.`);
              }
             break;
 
-          case 'choice': 
+          case 'choice':
             if (currentQuestion.type === 'M') {
               const mq = currentQuestion as Partial<MatchingQuestion>;
               if (!mq.pairs) mq.pairs = [];
               const choiceNo = safeParseInt(value);
               if (choiceNo <= 0) {
-                  console.warn(`[Record ${currentLineNumber}] Invalid Choice number '${value}' for Matching question '${mq.title}'. Skipping choice.`);
-                  continue;
+                  report('warning', 'invalid-choice-number', `Invalid Choice number '${value}' for Matching question '${mq.title}'. Skipping choice.`, 2);
+                  return;
               }
               let pair = mq.pairs.find(p => p.choiceNo === choiceNo);
               if (pair) {
-                  pair.choiceText = value2; 
+                  pair.choiceText = value2;
               } else {
-                  mq.pairs.push({ choiceNo: choiceNo, choiceText: value2, matchText: '' }); 
+                  mq.pairs.push({ choiceNo: choiceNo, choiceText: value2, matchText: '' });
               }
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'Choice' row encountered for non-Matching question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'Choice' row encountered for non-Matching question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
-           case 'match': 
+           case 'match':
              if (currentQuestion.type === 'M') {
                const mq = currentQuestion as Partial<MatchingQuestion>;
                if (!mq.pairs) mq.pairs = [];
                const choiceNo = safeParseInt(value);
                if (choiceNo <= 0) {
-                   console.warn(`[Record ${currentLineNumber}] Invalid Match number '${value}' for Matching question '${mq.title}'. Skipping match.`);
-                   continue;
+                   report('warning', 'invalid-choice-number', `Invalid Match number '${value}' for Matching question '${mq.title}'. Skipping match.`, 2);
+                   return;
                }
                let pair = mq.pairs.find(p => p.choiceNo === choiceNo);
                if (pair) {
-                   pair.matchText = value2; 
+                   pair.matchText = value2;
                } else {
-                   console.warn(`[Record ${currentLineNumber}] Matching question '${mq.title}' has Match row for non-existent Choice number ${choiceNo}. Creating placeholder choice.`);
+                   report('warning', 'orphan-match', `Matching question '${mq.title}' has Match row for non-existent Choice number ${choiceNo}. Creating placeholder choice.`, 2);
                    mq.pairs.push({ choiceNo: choiceNo, choiceText: `[Choice ${choiceNo} Placeholder]`, matchText: value2 });
                }
              } else {
-                  console.warn(`[Record ${currentLineNumber}] 'Match' row encountered for non-Matching question type: ${currentQuestion.type}. Ignoring.`);
+                  report('warning', 'row-type-mismatch', `'Match' row encountered for non-Matching question type: ${currentQuestion.type}. Ignoring.`);
              }
              break;
 
-          case 'option': 
+          case 'option':
             if (currentQuestion.type === 'MC') {
               const mcq = currentQuestion as Partial<MultipleChoiceQuestion>;
               if (!mcq.options) mcq.options = [];
@@ -276,21 +460,21 @@ export function parseQuizCsv(csvContent: string): Quiz {
                 percent: safeParseInt(value),
                 text: value2,
                 htmlFlag: value3.toLowerCase() === 'html',
-                feedback: value4 || undefined, 
-                feedbackHtmlFlag: value5.toLowerCase() === 'html', 
+                feedback: value4 || undefined,
+                feedbackHtmlFlag: value5.toLowerCase() === 'html',
               });
             } else if (currentQuestion.type === 'MS') {
               const msq = currentQuestion as Partial<MultiSelectQuestion>;
               if (!msq.options) msq.options = [];
               msq.options.push({
-                weight: safeParseInt(value, 0), 
-                text: value2, 
-                htmlFlag: value3.toLowerCase() === 'html', 
-                feedback: value4 || undefined, 
-                feedbackHtmlFlag: value5.toLowerCase() === 'html', 
+                weight: safeParseInt(value, 0),
+                text: value2,
+                htmlFlag: value3.toLowerCase() === 'html',
+                feedback: value4 || undefined,
+                feedbackHtmlFlag: value5.toLowerCase() === 'html',
               });
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'Option' row encountered for incompatible question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'Option' row encountered for incompatible question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
 
@@ -299,13 +483,13 @@ export function parseQuizCsv(csvContent: string): Quiz {
               const tfq = (currentQuestion as Partial<TrueFalseQuestion>);
               tfq.trueOption = {
                 isTrue: true,
-                credit: safeParseInt(value), 
-                feedback: value2 || undefined, 
-                htmlFlag: value3.toLowerCase() === 'html', 
-                definedLine: currentLineNumber, 
+                credit: safeParseInt(value),
+                feedback: value2 || undefined,
+                htmlFlag: value3.toLowerCase() === 'html',
+                definedLine: currentLineNumber,
               };
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'True' row encountered for non-TF question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'True' row encountered for non-TF question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
           case 'false':
@@ -313,70 +497,169 @@ export function parseQuizCsv(csvContent: string): Quiz {
               const tfq = (currentQuestion as Partial<TrueFalseQuestion>);
               tfq.falseOption = {
                 isTrue: false,
-                credit: safeParseInt(value), 
-                feedback: value2 || undefined, 
-                htmlFlag: value3.toLowerCase() === 'html', 
-                definedLine: currentLineNumber, 
+                credit: safeParseInt(value),
+                feedback: value2 || undefined,
+                htmlFlag: value3.toLowerCase() === 'html',
+                definedLine: currentLineNumber,
               };
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'False' row encountered for non-TF question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'False' row encountered for non-TF question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
 
-          case 'item': 
+          case 'item':
             if (currentQuestion.type === 'O') {
               const oq = currentQuestion as Partial<OrderingQuestion>;
               if (!oq.items) oq.items = [];
               oq.items.push({
-                text: value, 
-                htmlFlag: value2.toLowerCase() === 'html', 
-                feedback: value3 || undefined, 
-                feedbackHtmlFlag: value5.toLowerCase() === 'html', 
+                text: value,
+                htmlFlag: value2.toLowerCase() === 'html',
+                feedback: value3 || undefined,
+                feedbackHtmlFlag: value5.toLowerCase() === 'html',
               });
             } else {
-                 console.warn(`[Record ${currentLineNumber}] 'Item' row encountered for non-Ordering question type: ${currentQuestion.type}. Ignoring.`);
+                 report('warning', 'row-type-mismatch', `'Item' row encountered for non-Ordering question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+
+          case 'text':
+            if (currentQuestion.type === 'FIB') {
+              const fib = currentQuestion as Partial<FillInTheBlankQuestion>;
+              if (!fib.parts) fib.parts = [];
+              fib.parts.push({ type: 'text', text: value, htmlFlag: value2.toLowerCase() === 'html' });
+            } else {
+                 report('warning', 'row-type-mismatch', `'Text' row encountered for non-FIB question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+          case 'blank':
+            if (currentQuestion.type === 'FIB') {
+              const fib = currentQuestion as Partial<FillInTheBlankQuestion>;
+              if (!fib.parts) fib.parts = [];
+              const size = safeParseInt(value, 0);
+              fib.parts.push({ type: 'blank', ...(size > 0 ? { size } : {}), answers: [] });
+            } else {
+                 report('warning', 'row-type-mismatch', `'Blank' row encountered for non-FIB question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+
+          case 'formula':
+            if (currentQuestion.type === 'ARITH' || currentQuestion.type === 'SF') {
+              (currentQuestion as Partial<FormulaQuestion>).formula = value;
+            } else {
+                 report('warning', 'row-type-mismatch', `'Formula' row encountered for non-Arithmetic/SF question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+          case 'variable':
+            // Variable,<name>,<min>,<max>,<decimal places>,<step>
+            if (currentQuestion.type === 'ARITH' || currentQuestion.type === 'SF') {
+              const arith = currentQuestion as Partial<FormulaQuestion>;
+              if (!arith.variables) arith.variables = [];
+              const step = safeParseFloat(value5);
+              arith.variables.push({
+                name: value,
+                min: parseFloat(value2),
+                max: parseFloat(value3),
+                decimalPlaces: safeParseInt(value4, 0),
+                ...(step > 0 ? { step } : {}),
+              });
+            } else {
+                 report('warning', 'row-type-mismatch', `'Variable' row encountered for non-Arithmetic/SF question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+          case 'enumeration':
+            // Enumeration,<name>,<value>,<value>,... lists the values a variable takes instead of a range
+            if (currentQuestion.type === 'ARITH' || currentQuestion.type === 'SF') {
+              const arith = currentQuestion as Partial<FormulaQuestion>;
+              if (!arith.variables) arith.variables = [];
+              const values = row.slice(2).filter(cell => cell !== '').map(cell => parseFloat(cell));
+              const decimals = (cell: string) => cell.split('.')[1]?.length ?? 0;
+              const variable = {
+                  name: value,
+                  min: Math.min(...values),
+                  max: Math.max(...values),
+                  decimalPlaces: Math.max(0, ...row.slice(2).map(decimals)),
+                  values,
+              };
+              // Replaces a range given by an earlier Variable row, so every reader sees the same variable
+              const existingIdx = arith.variables.findIndex(existing => existing.name === value);
+              if (existingIdx >= 0) arith.variables[existingIdx] = variable;
+              else arith.variables.push(variable);
+            } else {
+                 report('warning', 'row-type-mismatch', `'Enumeration' row encountered for non-Arithmetic/SF question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+          case 'tolerance':
+            // Tolerance,<amount>,<Percent|Absolute>
+            if (currentQuestion.type === 'ARITH' || currentQuestion.type === 'SF') {
+              (currentQuestion as Partial<FormulaQuestion>).tolerance = {
+                amount: safeParseFloat(value),
+                unit: ['percent', '%'].includes(value2.toLowerCase()) ? 'percent' : 'absolute',
+              };
+            } else {
+                 report('warning', 'row-type-mismatch', `'Tolerance' row encountered for non-Arithmetic/SF question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+
+          case 'significantfigures':
+          case 'sigfigs':
+            if (currentQuestion.type === 'SF') {
+              (currentQuestion as Partial<SignificantFiguresQuestion>).significantFigures = safeParseInt(value, 0);
+            } else {
+                 report('warning', 'row-type-mismatch', `'${currentKey}' row encountered for non-SF question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+
+          case 'scale':
+            // Scale,<scale>,<NA> where the third column offers a not-applicable choice
+            if (currentQuestion.type === 'LIK') {
+              const likert = currentQuestion as Partial<LikertQuestion>;
+              // An unknown scale is kept as written so validation can flag it and the serializer writes it back
+              likert.scale = parseLikertScale(value) ?? value as LikertQuestion['scale'];
+              if (['na', 'n/a'].includes(value2.toLowerCase())) likert.notApplicable = true;
+            } else {
+                 report('warning', 'row-type-mismatch', `'Scale' row encountered for non-Likert question type: ${currentQuestion.type}. Ignoring.`);
+            }
+            break;
+          case 'statement':
+            if (currentQuestion.type === 'LIK') {
+              const likert = currentQuestion as Partial<LikertQuestion>;
+              if (!likert.statements) likert.statements = [];
+              likert.statements.push({ text: value, htmlFlag: value2.toLowerCase() === 'html' });
+            } else {
+                 report('warning', 'row-type-mismatch', `'Statement' row encountered for non-Likert question type: ${currentQuestion.type}. Ignoring.`);
             }
             break;
 
           default:
-             if (typeOrKey && typeOrKey.trim() !== '') { 
-                 console.log(`[Record ${currentLineNumber}] Ignoring unrecognized row type or key: '${typeOrKey}'`);
+             if (typeOrKey && typeOrKey.trim() !== '') {
+                 report('info', 'unrecognized-row', `Unrecognized row type or key: '${currentKey}'. It is kept as written when the quiz is saved.`, 1);
              }
             break;
         }
     } catch (e) {
-        console.error(`[Record ${currentLineNumber}] Error processing record: ${rawRecord}. Error: ${e instanceof Error ? e.message : String(e)}`);
+        report('error', 'record-error', `Error processing record: ${rawRecord}. Error: ${e instanceof Error ? e.message : String(e)}`);
     }
-  }
+  };
 
-  if (currentQuestion) {
-    let isValid = true;
-    let skipReason = "";
-
-    if (!(currentQuestion.type && currentQuestion.title && currentQuestion.questionText && currentQuestion.points !== undefined)) {
-        isValid = false;
-        skipReason = "Missing required fields (type, title, text, or points).";
-    } else if (currentQuestion.type === 'M' && (!currentQuestion.pairs || currentQuestion.pairs.length === 0 || currentQuestion.pairs.some(p => !p.choiceText || !p.matchText))) {
-        isValid = false; skipReason = "Matching question has no pairs, or some pairs are incomplete.";
-    } else if (currentQuestion.type === 'MC' && (!currentQuestion.options || currentQuestion.options.length === 0)) {
-        isValid = false; skipReason = "MultipleChoice question has no options.";
-    } else if (currentQuestion.type === 'TF' && (!currentQuestion.trueOption || !currentQuestion.falseOption)) {
-        isValid = false; skipReason = "TrueFalse question lacks true or false options definition.";
-    } else if (currentQuestion.type === 'MS' && (!currentQuestion.options || currentQuestion.options.length === 0)) {
-        isValid = false; skipReason = "MultiSelect question has no options.";
-    } else if (currentQuestion.type === 'O' && (!currentQuestion.items || currentQuestion.items.length === 0)) {
-        isValid = false; skipReason = "Ordering question has no items.";
-    } else if (currentQuestion.type === 'SA' && currentQuestion.bestAnswer === undefined) { 
-        isValid = false; skipReason = "ShortAnswer question lacks a defined best answer.";
-    }
+  const finish = (): ParseResult => {
+    closeQuestion();
+    startPendingSections(); // Sections after the last question are kept, empty
+    sections.forEach((section, idx) => {
+        section.count = (sections[idx + 1]?.start ?? questions.length) - section.start;
+    });
 
-    if (isValid) {
-        questions.push(currentQuestion as Question);
-    } else {
-         console.warn(`Skipping last question (Title: ${currentQuestion.title || 'N/A'}) because it is incomplete or invalid. Reason: ${skipReason}`);
-    }
-  }
+    const quiz: Quiz = { questions };
+    if (sections.length > 0) quiz.sections = sections;
+    if (leadingRows.length > 0) quiz.leadingRows = leadingRows;
+    if (unreadQuestions.length > 0) quiz.unreadQuestions = unreadQuestions;
+    return { quiz, diagnostics };
+  };
 
-  return { questions };
+  return { push, finish, questions, recordCount: () => currentLineNumber };
 }
 
+export function parseQuizCsv(csvContent: string): ParseResult {
+  const parser = createQuizCsvParser();
+  splitCsvToRecords(csvContent).forEach(parser.push);
+  return parser.finish();
+}
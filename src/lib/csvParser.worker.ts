@@ -0,0 +1,60 @@
+import { createQuizCsvParser, createRecordSplitter } from '@/lib/csvParser';
+import type { ParseResult, Question } from '@/types/quiz';
+
+// Parses a Brightspace CSV off the main thread. The file is read as a stream and fed to the parser record by
+// record, so a large bank reports progress and its questions can be shown before the whole file is parsed.
+// Cancel a parse by terminating the worker.
+
+export interface CsvParseRequest {
+  file: Blob;
+}
+
+export interface CsvParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  recordsProcessed: number;
+  questionsFound: number;
+}
+
+export type CsvParseMessage =
+  | { type: 'progress'; progress: CsvParseProgress; questions: Question[] } // Questions completed since the last message
+  | { type: 'done'; result: ParseResult }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: CsvParseMessage) => postMessage(message);
+
+async function parse(file: Blob): Promise<ParseResult> {
+  const splitter = createRecordSplitter();
+  const parser = createQuizCsvParser();
+  const decoder = new TextDecoder('utf-8');
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+  let questionsSent = 0;
+  let lastReport = 0;
+
+  const report = () => {
+    const progress = { bytesRead, totalBytes: file.size, recordsProcessed: parser.recordCount(), questionsFound: parser.questions.length };
+    post({ type: 'progress', progress, questions: parser.questions.slice(questionsSent) });
+    questionsSent = parser.questions.length;
+    lastReport = Date.now();
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    splitter.push(decoder.decode(value, { stream: true })).forEach(parser.push);
+    if (Date.now() - lastReport >= PROGRESS_INTERVAL_MS) report();
+  }
+  [...splitter.push(decoder.decode()), ...splitter.end()].forEach(parser.push);
+  report();
+  return parser.finish();
+}
+
+addEventListener('message', (event: MessageEvent<CsvParseRequest>) => {
+  parse(event.data.file)
+    .then(result => post({ type: 'done', result }))
+    .catch(err => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }));
+});
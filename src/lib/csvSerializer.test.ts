@@ -0,0 +1,440 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult, Quiz } from '@/types/quiz';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { serializeQuizCsv } from '@/lib/csvSerializer';
+
+// rawRows record the rows as written, so they differ wherever the serializer fills in a default (e.g. a Points row)
+const modelOf = (quiz: Quiz) => ({ ...quiz, questions: quiz.questions.map(({ rawRows: _rawRows, ...question }) => question) });
+
+const codesOf = (result: ParseResult) => result.diagnostics.map(diagnostic => diagnostic.code);
+
+// Parses the CSV, writes it back and parses the result, expecting the same model and the same problems
+const expectRoundTrip = (csv: string): Quiz => {
+  const first = parseQuizCsv(csv);
+  const written = serializeQuizCsv(first.quiz);
+  const second = parseQuizCsv(written);
+  expect(modelOf(second.quiz)).toEqual(modelOf(first.quiz));
+  expect(codesOf(second)).toEqual(codesOf(first));
+  // Writing the re-read bank changes nothing further
+  expect(serializeQuizCsv(second.quiz)).toBe(written);
+  return first.quiz;
+};
+
+const csvOf = (...lines: string[]) => lines.join('\n') + '\n';
+
+const ALL_TYPES = csvOf(
+  'NewQuestion,WR',
+  'ID,WR-1',
+  'Title,Essay',
+  'QuestionText,Explain entropy.',
+  'Points,5',
+  'Difficulty,3',
+  'InitialText,Start here',
+  'AnswerKey,Disorder increases,HTML',
+  '',
+  'NewQuestion,SA',
+  'Title,Short',
+  'QuestionText,Name a noble gas.',
+  'Points,1',
+  'Hint,Group 18',
+  'InputBox,2,30',
+  'Answer,100,neon|argon,regexp',
+  '',
+  'NewQuestion,M',
+  'Title,Match',
+  'QuestionText,Match the symbols.',
+  'Points,2',
+  'Scoring,AllOrNothing',
+  'Choice,1,Na',
+  'Choice,2,K',
+  'Match,1,Sodium',
+  'Match,2,Potassium',
+  '',
+  'NewQuestion,MC',
+  'Title,Choice',
+  'QuestionText,Pick the metal.',
+  'Points,1',
+  'Image,images/metal.png',
+  'Option,100,Iron,,Right,',
+  'Option,0,Oxygen,,Wrong,',
+  '',
+  'NewQuestion,TF',
+  'Title,Truth',
+  'QuestionText,Water boils at 100 C at sea level.',
+  'Points,1',
+  'TRUE,100,Yes',
+  'FALSE,0,No',
+  '',
+  'NewQuestion,MS',
+  'Title,Select',
+  'QuestionText,Select the halogens.',
+  'Points,2',
+  'Scoring,RightMinusWrong',
+  'Option,1,Fluorine,,,',
+  'Option,1,Chlorine,,,',
+  'Option,0,Neon,,,',
+  '',
+  'NewQuestion,O',
+  'Title,Order',
+  'QuestionText,Order by mass.',
+  'Points,1',
+  'Scoring,EquallyWeighted',
+  'Item,H,,lightest,,',
+  'Item,He,,,,',
+  'Item,Li,,heaviest,,',
+  '',
+  'NewQuestion,FIB',
+  'Title,Blanks',
+  'Points,2',
+  'Text,The capital of France is,',
+  'Blank,10',
+  'Answer,100,Paris',
+  'Answer,50,paris,sensitive',
+  'Text,.,',
+  '',
+  'NewQuestion,MSA',
+  'Title,Several',
+  'QuestionText,Name two primary colours.',
+  'Points,2',
+  'InputBox,2,20',
+  'Answer,red,insensitive',
+  'Answer,blue,sensitive',
+  '',
+  'NewQuestion,ARITH',
+  'Title,Area',
+  'QuestionText,What is the area of a {w} by {h} rectangle?',
+  'Points,1',
+  'Formula,{w}*{h}',
+  'Variable,w,1,10,0,1',
+  'Enumeration,h,2,4.5,6',
+  'Tolerance,5,Percent',
+  '',
+  'NewQuestion,SF',
+  'Title,Figures',
+  'QuestionText,What is {m} times 9.81?',
+  'Points,1',
+  'Formula,{m}*9.81',
+  'SignificantFigures,3',
+  'Variable,m,1,5,2',
+  'Tolerance,0.01,Absolute',
+  '',
+  'NewQuestion,LIK',
+  'Title,Survey',
+  'QuestionText,How much do you agree?',
+  'Scale,OneToFive,NA',
+  'Statement,The lab was useful,',
+  'Statement,The <b>lecture</b> was clear,HTML',
+);
+
+// Each type's rows with every column QuizView reads filled in, plus a question of a type it doesn't know
+const SOURCE_ROWS: [string, string[]][] = [
+  ['WR', [
+    'NewQuestion,WR',
+    'ID,WR-1',
+    'Title,Essay',
+    'QuestionText,<p>Explain entropy.</p>,HTML',
+    'Points,5',
+    'Difficulty,3',
+    'Image,images/essay.png',
+    'Hint,Think of disorder',
+    'Feedback,See chapter 4',
+    'InitialText,Start here',
+    'AnswerKey,Disorder increases,HTML',
+  ]],
+  ['SA', [
+    'NewQuestion,SA',
+    'Title,Short',
+    'QuestionText,Name a noble gas.',
+    'Points,1',
+    'InputBox,2,30',
+    'Answer,50,neon|argon,regexp',
+  ]],
+  ['M', [
+    'NewQuestion,M',
+    'Title,Match',
+    'QuestionText,Match the symbols.',
+    'Points,2',
+    'Scoring,RightMinusWrong',
+    'Choice,1,Na',
+    'Choice,2,K',
+    'Match,1,Sodium',
+    'Match,2,Potassium',
+  ]],
+  ['MC', [
+    'NewQuestion,MC',
+    'Title,Choice',
+    'QuestionText,Pick the metal.',
+    'Points,1',
+    'Option,100,<b>Iron</b>,HTML,Right',
+    'Option,0,Oxygen,,<i>Wrong</i>,HTML',
+  ]],
+  ['TF', [
+    'NewQuestion,TF',
+    'Title,Truth',
+    'QuestionText,Water boils at 100 C at sea level.',
+    'Points,1',
+    'TRUE,100,Yes',
+    'FALSE,0,<b>No</b>,HTML',
+  ]],
+  ['MS', [
+    'NewQuestion,MS',
+    'Title,Select',
+    'QuestionText,Select the halogens.',
+    'Points,2',
+    'Scoring,RightAnswersLimitedSelections',
+    'Option,1,Fluorine,,Yes',
+    'Option,0,Neon,,<b>Noble</b>,HTML',
+  ]],
+  ['O', [
+    'NewQuestion,O',
+    'Title,Order',
+    'QuestionText,Order by mass.',
+    'Points,1',
+    'Scoring,AllOrNothing',
+    'Item,<b>H</b>,HTML,lightest',
+    'Item,He,,<i>middle</i>,x,HTML',
+  ]],
+  ['FIB', [
+    'NewQuestion,FIB',
+    'Title,Blanks',
+    'Points,2',
+    'Text,The capital of <b>France</b> is,HTML',
+    'Blank,10',
+    'Answer,100,Paris,insensitive',
+    'Answer,50,paris,sensitive',
+    'Text,.',
+  ]],
+  ['MSA', [
+    'NewQuestion,MSA',
+    'Title,Several',
+    'QuestionText,Name two primary colours.',
+    'Points,2',
+    'InputBox,2,20',
+    'Answer,red,insensitive',
+    'Answer,blue,regexp',
+  ]],
+  ['ARITH', [
+    'NewQuestion,ARITH',
+    'Title,Area',
+    'QuestionText,What is the area of a {w} by {h} rectangle?',
+    'Points,1',
+    'Formula,{w}*{h}',
+    'Variable,w,1,10,0,1',
+    'Enumeration,h,2.50,4.00,6.25',
+    'Tolerance,5,Percent',
+  ]],
+  ['SF', [
+    'NewQuestion,SF',
+    'Title,Figures',
+    'QuestionText,What is {m} times 9.81?',
+    'Points,1',
+    'Formula,{m}*9.81',
+    'SignificantFigures,3',
+    'Variable,m,1,5,2',
+    'Tolerance,0.01,Absolute',
+  ]],
+  ['LIK', [
+    'NewQuestion,LIK',
+    'Title,Survey',
+    'QuestionText,How much do you agree?',
+    'Points,0',
+    'Scale,OneToFive,NA',
+    'Statement,The lab was useful',
+    'Statement,The <b>lecture</b> was clear,HTML',
+  ]],
+  ['HS', [
+    'NewQuestion,HS',
+    'Title,Hotspot',
+    'QuestionText,Click the valve.',
+    'Points,2',
+  ]],
+];
+
+describe('serializeQuizCsv', () => {
+  it.each(SOURCE_ROWS)('writes the rows of a %s question back as read', (_, rows) => {
+    const csv = rows.join('\r\n') + '\r\n';
+    expectRoundTrip(csv);
+    expect(serializeQuizCsv(parseQuizCsv(csv).quiz)).toBe(csv);
+  });
+
+  it('writes a bank of every type back as read', () => {
+    const csv = SOURCE_ROWS.map(([, rows]) => rows.join('\r\n')).join('\r\n\r\n') + '\r\n';
+    expect(serializeQuizCsv(expectRoundTrip(csv))).toBe(csv);
+  });
+
+  it('reads the Item feedback flag from column 6 and keeps the column before it', () => {
+    const [ordering] = parseQuizCsv(csvOf(...SOURCE_ROWS.find(([type]) => type === 'O')![1])).quiz.questions;
+    expect(ordering.type === 'O' && ordering.items).toEqual([
+      { text: '<b>H</b>', htmlFlag: true, feedback: 'lightest', feedbackHtmlFlag: false },
+      { text: 'He', htmlFlag: false, feedback: '<i>middle</i>', feedbackHtmlFlag: true },
+    ]);
+  });
+
+  it('reads back every question type', () => {
+    const quiz = expectRoundTrip(ALL_TYPES);
+    expect(quiz.questions.map(question => question.type)).toEqual(['WR', 'SA', 'M', 'MC', 'TF', 'MS', 'O', 'FIB', 'MSA', 'ARITH', 'SF', 'LIK']);
+  });
+
+  it('keeps the precision of Enumeration values', () => {
+    const quiz = expectRoundTrip(csvOf(
+      'NewQuestion,ARITH',
+      'Title,Prices',
+      'QuestionText,What do {n} items at {p} cost?',
+      'Formula,{n}*{p}',
+      'Enumeration,n,1,2,3',
+      'Enumeration,p,2.50,3.00',
+    ));
+    const [arith] = quiz.questions;
+    expect(arith.type === 'ARITH' && arith.variables).toEqual([
+      { name: 'n', min: 1, max: 3, decimalPlaces: 0, values: [1, 2, 3] },
+      { name: 'p', min: 2.5, max: 3, decimalPlaces: 2, values: [2.5, 3] },
+    ]);
+    expect(serializeQuizCsv(quiz)).toContain('Enumeration,p,2.50,3.00');
+  });
+
+  it('keeps per-option feedback and its HTML flags', () => {
+    const quiz = expectRoundTrip(csvOf(
+      'NewQuestion,MC',
+      'Title,Choice',
+      'QuestionText,Pick one.',
+      'Option,100,<b>A</b>,HTML,<i>Well done</i>,HTML',
+      'Option,0,B,,Not quite,',
+      'Option,0,C',
+      'Feedback,Read chapter 2',
+      '',
+      'NewQuestion,MS',
+      'Title,Select',
+      'QuestionText,Pick some.',
+      'Option,1,A,,Yes,',
+      'Option,0,B,,<b>No</b>,HTML',
+      '',
+      'NewQuestion,O',
+      'Title,Order',
+      'QuestionText,Order them.',
+      'Item,first,,<b>Start</b>,,HTML',
+      'Item,second,,Then,,',
+      '',
+      'NewQuestion,TF',
+      'Title,Truth',
+      'QuestionText,True?',
+      'TRUE,100,<b>Yes</b>,HTML',
+      'FALSE,0',
+      'Feedback,No',
+    ));
+    const [mc, ms, ordering, tf] = quiz.questions;
+    // A Feedback row straight after an option belongs to that option
+    expect(mc.type === 'MC' && mc.options.map(option => option.feedback)).toEqual(['<i>Well done</i>', 'Not quite', 'Read chapter 2']);
+    expect(mc.feedback).toBeUndefined();
+    expect(ms.type === 'MS' && ms.options[1]).toMatchObject({ feedback: '<b>No</b>', feedbackHtmlFlag: true });
+    expect(ordering.type === 'O' && ordering.items[0]).toMatchObject({ feedback: '<b>Start</b>', feedbackHtmlFlag: true });
+    expect(tf.type === 'TF' && [tf.trueOption.feedback, tf.falseOption.feedback]).toEqual(['<b>Yes</b>', 'No']);
+  });
+
+  it('writes back the HTML flags as read, not as the text looks', () => {
+    const quiz = expectRoundTrip(csvOf(
+      'NewQuestion,WR',
+      'Title,Flags',
+      'QuestionText,Plain text marked as HTML,HTML',
+      'Points,1',
+      'Feedback,Use <b> for bold,',
+      'AnswerKey,<p>Key</p>,HTML',
+      '',
+      'NewQuestion,FIB',
+      'Title,Blanks',
+      'Text,<i>Fill</i> in,HTML',
+      'Blank',
+      'Answer,100,this',
+    ));
+    const [wr, fib] = quiz.questions;
+    expect(wr).toMatchObject({ questionTextHtmlFlag: true, feedbackHtmlFlag: false, answerKeyHtmlFlag: true });
+    expect(fib.type === 'FIB' && fib.parts[0]).toMatchObject({ type: 'text', htmlFlag: true });
+  });
+
+  it('keeps input box sizes and scoring', () => {
+    const quiz = expectRoundTrip(csvOf(
+      'NewQuestion,SA',
+      'Title,Box',
+      'QuestionText,Answer briefly.',
+      'InputBox,4,60',
+      'Answer,100,yes',
+      '',
+      'NewQuestion,MS',
+      'Title,No scoring row',
+      'QuestionText,Pick some.',
+      'Option,1,A',
+      'Option,0,B',
+      '',
+      'NewQuestion,MS',
+      'Title,Limited',
+      'QuestionText,Pick some.',
+      'Scoring,RightAnswersLimitedSelections',
+      'Option,1,A',
+      'Option,0,B',
+    ));
+    const [sa, unscored, limited] = quiz.questions;
+    expect(sa.type === 'SA' && sa.inputBox).toEqual({ rows: 4, cols: 60 });
+    // A missing Scoring row stays missing rather than becoming a default
+    expect(unscored.type === 'MS' && unscored.scoring).toBeUndefined();
+    expect(limited.type === 'MS' && limited.scoring).toBe('RightAnswersLimitedSelections');
+  });
+
+  it('quotes cells holding commas, quotes and line breaks', () => {
+    const quiz = expectRoundTrip(csvOf(
+      'NewQuestion,MC',
+      'Title,"Commas, quotes"',
+      'QuestionText,"She said ""pick one"", then left.',
+      'Second line"',
+      'Option,100,"""Quoted"""',
+      'Option,0,"a, b",,"Close, but no",',
+    ));
+    const [mc] = quiz.questions;
+    expect(mc.title).toBe('Commas, quotes');
+    expect(mc.questionText).toBe('She said "pick one", then left.\nSecond line');
+    expect(mc.type === 'MC' && mc.options.map(option => option.text)).toEqual(['"Quoted"', 'a, b']);
+    expect(mc.type === 'MC' && mc.options[1].feedback).toBe('Close, but no');
+  });
+
+  it('keeps rows and questions it cannot read where they were', () => {
+    const csv = csvOf(
+      '//Template comment',
+      'NewQuestion,HS',
+      'Title,Hotspot',
+      '',
+      'NewQuestion,MC',
+      'Title,Choice',
+      'QuestionText,Pick one.',
+      'Tag,week1',
+      'Option,100,A',
+      'Option,0,B',
+      'Custom,kept,as,written',
+      '',
+      'NewQuestion,HS',
+      'Title,Another hotspot',
+    );
+    const quiz = expectRoundTrip(csv);
+    expect(quiz.questions).toHaveLength(1);
+    expect(quiz.unreadQuestions).toEqual([
+      { start: 0, rows: [['NewQuestion', 'HS'], ['Title', 'Hotspot']] },
+      { start: 1, rows: [['NewQuestion', 'HS'], ['Title', 'Another hotspot']] },
+    ]);
+    expect(serializeQuizCsv(quiz).split('\r\n')).toEqual([
+      '//Template comment',
+      '',
+      'NewQuestion,HS',
+      'Title,Hotspot',
+      '',
+      'NewQuestion,MC',
+      'Title,Choice',
+      'QuestionText,Pick one.',
+      'Tag,week1',
+      'Points,1',
+      'Option,100,A',
+      'Option,0,B',
+      'Custom,kept,as,written',
+      '',
+      'NewQuestion,HS',
+      'Title,Another hotspot',
+      '',
+    ]);
+  });
+});
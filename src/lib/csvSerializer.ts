@@ -0,0 +1,237 @@
+import type {
+  Quiz,
+  Question,
+  BaseQuestion,
+  RawRow,
+  QuizSection,
+} from '@/types/quiz';
+import { looksLikeHtml } from '@/lib/html';
+
+// A cell the model doesn't hold: written as the source row had it, or as the fallback for a new row
+interface SourceCell {
+    fallback: string | number | undefined;
+}
+
+type CsvCell = string | number | undefined | SourceCell;
+
+const sourceCell = (fallback?: string | number): SourceCell => ({ fallback });
+const isSourceCell = (cell: CsvCell): cell is SourceCell => typeof cell === 'object';
+
+// Brightspace accepts either line ending; CRLF keeps the file friendly to spreadsheet tools
+const RECORD_SEPARATOR = '\r\n';
+
+// Quote a cell only when needed: commas, quotes, newlines or surrounding whitespace
+const escapeCsvCell = (cell: CsvCell): string => {
+    if (isSourceCell(cell)) return escapeCsvCell(cell.fallback);
+    if (cell === undefined) return '';
+    const text = String(cell);
+    if (/[",\r\n]/.test(text) || text !== text.trim()) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+};
+
+// Join cells into a record, dropping trailing empty cells
+const toRecord = (cells: CsvCell[]): string => {
+    const escaped = cells.map(escapeCsvCell);
+    while (escaped.length > 1 && escaped[escaped.length - 1] === '') {
+        escaped.pop();
+    }
+    return escaped.join(',');
+};
+
+const htmlFlag = (isHtml: boolean): string => (isHtml ? 'HTML' : '');
+
+// The flag read from the CSV; text from other sources has none, so it is flagged when it looks like markup
+const storedHtmlFlag = (flag: boolean | undefined, text: string): string =>
+    htmlFlag(flag ?? looksLikeHtml(text));
+
+// Rows shared by every question type. General feedback is written before any
+// type-specific rows, since a Feedback row after an option belongs to that option.
+const serializeBaseRows = (question: BaseQuestion): CsvCell[][] => {
+    const rows: CsvCell[][] = [['NewQuestion', question.type]];
+    if (question.id !== undefined) rows.push(['ID', question.id]);
+    rows.push(['Title', question.title]);
+    // Fill-in-the-blank questions are written as Text rows, so their lead-in is optional
+    if (question.type !== 'FIB' || question.questionText) {
+        rows.push(['QuestionText', question.questionText, storedHtmlFlag(question.questionTextHtmlFlag, question.questionText)]);
+    }
+    rows.push(['Points', question.points]);
+    if (question.difficulty !== undefined) rows.push(['Difficulty', question.difficulty]);
+    if (question.image !== undefined) rows.push(['Image', question.image]);
+    if (question.hint !== undefined) rows.push(['Hint', question.hint]);
+    if (question.feedback !== undefined) rows.push(['Feedback', question.feedback, storedHtmlFlag(question.feedbackHtmlFlag, question.feedback)]);
+    return rows;
+};
+
+const serializeTypeRows = (question: Question): CsvCell[][] => {
+    const rows: CsvCell[][] = [];
+    switch (question.type) {
+        case 'WR':
+            if (question.initialText !== undefined) rows.push(['InitialText', question.initialText]);
+            if (question.answerKey !== undefined) rows.push(['AnswerKey', question.answerKey, storedHtmlFlag(question.answerKeyHtmlFlag, question.answerKey)]);
+            break;
+
+        case 'SA':
+            if (question.inputBox) rows.push(['InputBox', question.inputBox.rows, question.inputBox.cols]);
+            // QuizView reads no weight from the Answer row; a new one gets full credit
+            if (question.bestAnswer !== undefined) rows.push(['Answer', sourceCell(100), question.bestAnswer, question.evaluation]);
+            break;
+
+        case 'M':
+            if (question.scoring !== undefined) rows.push(['Scoring', question.scoring]);
+            question.pairs?.forEach(pair => rows.push(['Choice', pair.choiceNo, pair.choiceText]));
+            question.pairs?.forEach(pair => rows.push(['Match', pair.choiceNo, pair.matchText]));
+            break;
+
+        case 'MC':
+            question.options?.forEach(option => rows.push([
+                'Option', option.percent, option.text, htmlFlag(option.htmlFlag), option.feedback, htmlFlag(option.feedbackHtmlFlag),
+            ]));
+            break;
+
+        case 'TF':
+            if (question.trueOption) rows.push(['TRUE', question.trueOption.credit, question.trueOption.feedback, htmlFlag(question.trueOption.htmlFlag)]);
+            if (question.falseOption) rows.push(['FALSE', question.falseOption.credit, question.falseOption.feedback, htmlFlag(question.falseOption.htmlFlag)]);
+            break;
+
+        case 'MS':
+            if (question.scoring !== undefined) rows.push(['Scoring', question.scoring]);
+            question.options?.forEach(option => rows.push([
+                'Option', option.weight, option.text, htmlFlag(option.htmlFlag), option.feedback, htmlFlag(option.feedbackHtmlFlag),
+            ]));
+            break;
+
+        case 'O':
+            if (question.scoring !== undefined) rows.push(['Scoring', question.scoring]);
+            // Brightspace leaves column 5 of Item rows empty; the feedback HTML flag sits in column 6
+            question.items?.forEach(item => rows.push([
+                'Item', item.text, htmlFlag(item.htmlFlag), item.feedback, sourceCell(), htmlFlag(item.feedbackHtmlFlag),
+            ]));
+            break;
+
+        case 'FIB':
+            // Each Blank row is followed by the Answer rows it accepts
+            question.parts?.forEach(part => {
+                if (part.type === 'text') {
+                    rows.push(['Text', part.text, htmlFlag(part.htmlFlag)]);
+                } else {
+                    rows.push(['Blank', part.size]);
+                    part.answers.forEach(answer => rows.push(['Answer', answer.weight, answer.text, answer.evaluation]));
+                }
+            });
+            break;
+
+        case 'MSA':
+            if (question.inputBox) rows.push(['InputBox', question.inputBox.rows, question.inputBox.cols]);
+            question.answers?.forEach(answer => rows.push(['Answer', answer.text, answer.evaluation]));
+            break;
+
+        case 'ARITH':
+        case 'SF':
+            rows.push(['Formula', question.formula]);
+            if (question.type === 'SF') rows.push(['SignificantFigures', question.significantFigures]);
+            question.variables?.forEach(variable => rows.push(variable.values
+                // The parser reads the decimal places from how the values are written, so they are written to that precision
+                ? ['Enumeration', variable.name, ...variable.values.map(value => value.toFixed(variable.decimalPlaces))]
+                : ['Variable', variable.name, variable.min, variable.max, variable.decimalPlaces, variable.step]));
+            if (question.tolerance) rows.push(['Tolerance', question.tolerance.amount, question.tolerance.unit === 'percent' ? 'Percent' : 'Absolute']);
+            break;
+
+        case 'LIK':
+            rows.push(['Scale', question.scale, question.notApplicable ? 'NA' : undefined]);
+            question.statements?.forEach(statement => rows.push(['Statement', statement.text, htmlFlag(statement.htmlFlag)]));
+            break;
+    }
+    return rows;
+};
+
+// Puts back what the question's source rows held beyond the model: extra columns and source cells on rows
+// QuizView reads, and unrecognized rows right after the row they followed. Each written row is matched to the source row with the
+// same key whose known cells still hold, or failing that (the row was edited) to the source row with the same key
+// at the same position, e.g. the second Option row. Rows whose anchor is gone, such as those that followed a
+// deleted option, are written at the end of the question.
+const restoreRawRows = (rows: CsvCell[][], rawRows: RawRow[] | undefined): CsvCell[][] => {
+    if (!rawRows || rawRows.length === 0) return rows;
+    const keyOf = (cells: CsvCell[]) => String(cells[0] ?? '').toLowerCase();
+    const cellText = (cell: CsvCell) => (cell === undefined || isSourceCell(cell) ? '' : String(cell));
+
+    // Unrecognized rows grouped under the index of the recognized row before them
+    const unrecognizedAfter = new Map<number, string[][]>();
+    let anchor = -1;
+    rawRows.forEach((rawRow, idx) => {
+        if (rawRow.recognized) {
+            anchor = idx;
+        } else {
+            unrecognizedAfter.set(anchor, [...(unrecognizedAfter.get(anchor) ?? []), rawRow.cells]);
+        }
+    });
+
+    const used = new Set<number>();
+    const positionOfKey = new Map<string, number>();
+    const findSource = (row: CsvCell[]): number => {
+        const key = keyOf(row);
+        const position = positionOfKey.get(key) ?? 0;
+        positionOfKey.set(key, position + 1);
+        const sameKey = rawRows
+            .map((rawRow, idx) => ({ cells: rawRow.cells, idx, recognized: rawRow.recognized }))
+            .filter(source => source.recognized && keyOf(source.cells) === key);
+        // A Feedback row read after an option fills that option's feedback, so blank source cells may now hold text
+        const unchanged = sameKey.find(source => !used.has(source.idx)
+            && row.every((cell, col) => col === 0 || isSourceCell(cell) || !source.cells[col] || source.cells[col] === cellText(cell)));
+        const samePosition = sameKey[position];
+        const match = unchanged ?? (samePosition && !used.has(samePosition.idx) ? samePosition : undefined);
+        return match ? match.idx : -1;
+    };
+
+    const restored: CsvCell[][] = [...(unrecognizedAfter.get(-1) ?? [])];
+    unrecognizedAfter.delete(-1);
+    for (const row of rows) {
+        const sourceIdx = findSource(row);
+        if (sourceIdx < 0) {
+            restored.push(row);
+            continue;
+        }
+        used.add(sourceIdx);
+        const source = rawRows[sourceIdx].cells;
+        restored.push([...row.map((cell, col) => (isSourceCell(cell) ? source[col] ?? cell : cell)), ...source.slice(row.length)]);
+        restored.push(...(unrecognizedAfter.get(sourceIdx) ?? []));
+        unrecognizedAfter.delete(sourceIdx);
+    }
+    unrecognizedAfter.forEach(orphans => restored.push(...orphans));
+    return restored;
+};
+
+// Plain rows of cells as CSV text, e.g. for summaries and manifests
+export const serializeCsvRows = (rows: CsvCell[][]): string => rows.map(toRecord).join(RECORD_SEPARATOR) + RECORD_SEPARATOR;
+
+export function serializeQuestionCsv(question: Question): string {
+    return restoreRawRows([...serializeBaseRows(question), ...serializeTypeRows(question)], question.rawRows)
+        .map(toRecord)
+        .join(RECORD_SEPARATOR);
+}
+
+// //Section rows are comments to Brightspace; QuizView reads them back as sections and pools
+const sectionRecord = (section: QuizSection): string => toRecord(['//Section', section.name, section.description, section.select]);
+
+// Writes a Quiz back out as a Brightspace question-library CSV that parseQuizCsv reads back into the same model
+export function serializeQuizCsv(quiz: Quiz): string {
+    // What comes before the question at `questionIndex`: the //Section rows that open there, then the questions of
+    // unknown types read there, then the question itself. The section rows lead the first block.
+    const blocksAt = (questionIndex: number, question?: Question): string[] => {
+        const sectionRows = (quiz.sections ?? []).filter(section => section.start === questionIndex).map(sectionRecord);
+        const texts = [
+            ...(quiz.unreadQuestions ?? []).filter(unread => unread.start === questionIndex).map(unread => unread.rows.map(toRecord).join(RECORD_SEPARATOR)),
+            ...(question ? [serializeQuestionCsv(question)] : []),
+        ];
+        if (texts.length === 0) return sectionRows.length > 0 ? [sectionRows.join(RECORD_SEPARATOR)] : [];
+        return [[...sectionRows, texts[0]].join(RECORD_SEPARATOR), ...texts.slice(1)];
+    };
+    const blocks = [
+        ...(quiz.leadingRows?.length ? [quiz.leadingRows.map(toRecord).join(RECORD_SEPARATOR)] : []),
+        ...quiz.questions.flatMap((question, idx) => blocksAt(idx, question)),
+        ...blocksAt(quiz.questions.length),
+    ];
+    // A blank record between questions mirrors Brightspace's own templates and is skipped by the parser
+    return blocks.join(RECORD_SEPARATOR + RECORD_SEPARATOR) + RECORD_SEPARATOR;
+}
@@ -0,0 +1,15 @@
+// Triggers a browser download for in-memory content (the app is a static export, so there is no server to stream from)
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string = 'text/plain'): void {
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+}
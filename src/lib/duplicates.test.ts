@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { MultipleChoiceQuestion, Quiz } from '@/types/quiz';
+import { findDuplicateClusters } from '@/lib/duplicates';
+
+const mc = (questionText: string, options: string[]): MultipleChoiceQuestion => ({
+  type: 'MC',
+  title: questionText,
+  questionText,
+  points: 1,
+  options: options.map((text, idx) => ({ text, percent: idx === 0 ? 100 : 0, htmlFlag: false, feedbackHtmlFlag: false })),
+});
+
+describe('findDuplicateClusters', () => {
+  it('groups identical and near-duplicate questions of the same type', () => {
+    const quiz: Quiz = {
+      questions: [
+        mc('Which gas do plants take in during photosynthesis?', ['Carbon dioxide', 'Oxygen', 'Nitrogen']),
+        mc('What is the boiling point of water at sea level?', ['100 C', '90 C']),
+        mc('<p>Which gas do plants take in during photosynthesis?</p>', ['Carbon dioxide', 'Oxygen', 'Nitrogen']),
+        mc('Which gas do green plants take in during photosynthesis?', ['Oxygen', 'Carbon dioxide', 'Helium']),
+      ],
+    };
+    expect(findDuplicateClusters(quiz).map(cluster => [cluster.kind, cluster.questionIndexes])).toEqual([
+      ['near-duplicate', [0, 2, 3]],
+    ]);
+  });
+
+  it('keeps to near-duplicates when thousands of questions share a stock stem', () => {
+    const stem = 'Which of the following statements is correct?';
+    const questions = Array.from({ length: 3000 }, (_, idx) => mc(stem, [`Statement ${idx} holds`, `Statement ${idx} fails`, `Claim ${idx}`]));
+    questions.push(mc(stem, ['Statement 7 holds', 'Statement 7 fails', 'Another claim']));
+    const clusters = findDuplicateClusters({ questions });
+    expect(clusters.map(cluster => cluster.questionIndexes)).toEqual([[7, 3000]]);
+  });
+});
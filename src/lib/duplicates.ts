@@ -0,0 +1,111 @@
+import type { Question, Quiz } from '@/types/quiz';
+import { stripHtml } from '@/lib/html';
+import { jaccard, linkedGroups, minHashCandidates, minHashSignature } from '@/lib/similarity';
+
+export type DuplicateKind = 'duplicate' | 'near-duplicate';
+
+// Questions of one bank that say the same thing: word for word, or close enough to be a copy-paste and edit
+export interface DuplicateCluster {
+  key: string;
+  kind: DuplicateKind; // 'duplicate' when every member has the same text and options once formatting is ignored
+  questionIndexes: number[]; // Ascending
+  similarity: number; // Lowest similarity of the matches that joined the cluster, 0 to 1
+}
+
+const STEM_THRESHOLD = 0.6; // Share of word pairs two question texts must have in common
+const OPTION_THRESHOLD = 0.5; // Share of answer options, when both questions have some
+const SHINGLE_SIZE = 2;
+
+// Lower-cased words of HTML-stripped text, so formatting, punctuation and spacing do not count as differences
+const normalizeText = (text: string): string =>
+  stripHtml(text).toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).join(' ');
+
+// What the question asks; fill-in-the-blank questions ask it in their text parts
+const stemOf = (question: Question): string => {
+  const parts = [question.questionText];
+  if (question.type === 'FIB') (question.parts ?? []).forEach(part => part.type === 'text' && parts.push(part.text));
+  return normalizeText(parts.join(' '));
+};
+
+// The answers on offer, compared as a set so reordered options still match
+const optionsOf = (question: Question): Set<string> => {
+  const texts: string[] = [];
+  switch (question.type) {
+    case 'MC':
+    case 'MS': (question.options ?? []).forEach(option => texts.push(option.text)); break;
+    case 'M': (question.pairs ?? []).forEach(pair => texts.push(`${pair.choiceText} = ${pair.matchText}`)); break;
+    case 'O': (question.items ?? []).forEach(item => texts.push(item.text)); break;
+    case 'MSA': (question.answers ?? []).forEach(answer => texts.push(answer.text)); break;
+    case 'LIK': (question.statements ?? []).forEach(statement => texts.push(statement.text)); break;
+    case 'FIB': (question.parts ?? []).forEach(part => part.type === 'blank' && part.answers.forEach(answer => texts.push(answer.text))); break;
+  }
+  return new Set(texts.map(normalizeText).filter(Boolean));
+};
+
+// Overlapping runs of words; texts shorter than a run are one shingle
+const shinglesOf = (text: string): Set<string> => {
+  const words = text.split(' ').filter(Boolean);
+  if (words.length <= SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(' ')] : []);
+  return new Set(words.slice(0, words.length - SHINGLE_SIZE + 1).map((_, idx) => words.slice(idx, idx + SHINGLE_SIZE).join(' ')));
+};
+
+// Groups duplicate and near-duplicate questions of the same type. Identical questions are grouped by fingerprint;
+// the rest are paired through MinHash buckets and confirmed on their exact shingle and option overlap.
+export function findDuplicateClusters(quiz: Quiz): DuplicateCluster[] {
+  const questions = quiz.questions.map(question => {
+    const stem = stemOf(question);
+    const options = optionsOf(question);
+    return { type: question.type, stem, options, fingerprint: JSON.stringify([question.type, stem, [...options].sort()]) };
+  });
+
+  const links: [number, number][] = [];
+  const scores = new Map<string, number>();
+  const representatives: number[] = [];
+  const firstWithFingerprint = new Map<string, number>();
+  questions.forEach((question, idx) => {
+    const first = firstWithFingerprint.get(question.fingerprint);
+    if (first === undefined) {
+      firstWithFingerprint.set(question.fingerprint, idx);
+      representatives.push(idx);
+    } else {
+      links.push([first, idx]);
+      scores.set(`${first},${idx}`, 1);
+    }
+  });
+
+  // Identical questions only need comparing once, through their first occurrence. The options go into the
+  // signatures too, so questions that share a stock stem but offer different answers rarely meet in a bucket.
+  const shingles = representatives.map(idx => shinglesOf(questions[idx].stem));
+  const signatures = shingles.map((set, position) => {
+    const options = [...questions[representatives[position]].options].map(option => `option:${option}`);
+    return set.size > 0 ? minHashSignature(new Set([...set, ...options])) : undefined;
+  });
+  const canPair = (a: number, b: number) => questions[representatives[a]].type === questions[representatives[b]].type;
+  minHashCandidates(signatures, canPair).forEach(([a, b]) => {
+    const [first, second] = [questions[representatives[a]], questions[representatives[b]]];
+    const stemScore = jaccard(shingles[a], shingles[b]);
+    if (stemScore < STEM_THRESHOLD) return;
+    const hasOptions = first.options.size > 0 && second.options.size > 0;
+    const optionScore = hasOptions ? jaccard(first.options, second.options) : undefined;
+    if (optionScore !== undefined && optionScore < OPTION_THRESHOLD) return;
+    const [x, y] = [representatives[a], representatives[b]].sort((p, q) => p - q);
+    links.push([x, y]);
+    scores.set(`${x},${y}`, optionScore === undefined ? stemScore : (stemScore + optionScore) / 2);
+  });
+
+  const groups = linkedGroups(quiz.questions.length, links);
+  const groupOf = new Map<number, number>();
+  groups.forEach((group, groupIndex) => group.forEach(idx => groupOf.set(idx, groupIndex)));
+  const lowestScores = groups.map(() => 1);
+  links.forEach(([a, b]) => {
+    const groupIndex = groupOf.get(a) ?? 0;
+    lowestScores[groupIndex] = Math.min(lowestScores[groupIndex], scores.get(`${a},${b}`) ?? 1);
+  });
+
+  return groups.map((group, groupIndex) => ({
+    key: group.join(','),
+    kind: new Set(group.map(idx => questions[idx].fingerprint)).size === 1 ? 'duplicate' : 'near-duplicate',
+    questionIndexes: group,
+    similarity: lowestScores[groupIndex],
+  }));
+}
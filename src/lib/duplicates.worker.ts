@@ -0,0 +1,24 @@
+import { findDuplicateClusters } from '@/lib/duplicates';
+import type { DuplicateCluster } from '@/lib/duplicates';
+import type { Question } from '@/types/quiz';
+
+// Looks for duplicate questions off the main thread, since a large bank takes a while to compare.
+// Cancel a search by terminating the worker.
+
+export interface DuplicatesRequest {
+  questions: Question[];
+}
+
+export type DuplicatesMessage =
+  | { type: 'done'; clusters: DuplicateCluster[] }
+  | { type: 'error'; message: string };
+
+const post = (message: DuplicatesMessage) => postMessage(message);
+
+addEventListener('message', (event: MessageEvent<DuplicatesRequest>) => {
+  try {
+    post({ type: 'done', clusters: findDuplicateClusters({ questions: event.data.questions }) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,23 @@
+import type { FillInTheBlankQuestion, FIBBlank } from '@/types/quiz';
+
+// Blank rows of a fill-in-the-blank question, in reading order
+export const blanksOf = (question: FillInTheBlankQuestion): FIBBlank[] =>
+  (question.parts ?? []).filter((part): part is FIBBlank => part.type === 'blank');
+
+// Answers worth the blank's full share, falling back to the best-weighted ones
+export const bestAnswersOf = (blank: FIBBlank): FIBBlank['answers'] => {
+  const best = Math.max(0, ...blank.answers.map(answer => answer.weight));
+  return best > 0 ? blank.answers.filter(answer => answer.weight === best) : [];
+};
+
+// The lead-in followed by the Text and Blank rows as one line, with renderBlank writing each blank in the
+// target format. Fragments are separated by a space unless the next one starts with punctuation, as in "is ____."
+export function fillInTheBlankText(question: FillInTheBlankQuestion, renderBlank: (blank: FIBBlank, blankIndex: number) => string): string {
+  let blankIndex = 0;
+  const line = (question.parts ?? []).reduce((text, part) => {
+    const fragment = part.type === 'text' ? part.text.trim() : renderBlank(part, blankIndex++);
+    if (!fragment) return text;
+    return text && !/^[.,;:!?)\]]/.test(fragment) ? `${text} ${fragment}` : `${text}${fragment}`;
+  }, '');
+  return [question.questionText?.trim(), line].filter(Boolean).join('\n');
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportAiken, importAiken, looksLikeAiken } from '@/lib/formats/aiken';
+
+const AIKEN = `What is the smallest unit of matter?
+A. Atom
+B) Molecule
+C. Cell
+ANSWER: A
+
+Which gas do plants take in
+during photosynthesis?
+A. Oxygen
+B. Carbon dioxide
+answer: b
+
+Which planet is largest?
+A. Jupiter
+B. Mars
+ANSWER: D
+`;
+
+describe('importAiken', () => {
+  it('reads lettered options and reports questions whose answer is missing', () => {
+    expect(looksLikeAiken(AIKEN)).toBe(true);
+    const { quiz, diagnostics } = importAiken([{ path: 'review.txt', content: AIKEN }]);
+    expect(quiz.questions.map(question => question.type === 'MC' && [
+      question.questionText,
+      question.options?.map(option => [option.text, option.percent]),
+    ])).toEqual([
+      ['What is the smallest unit of matter?', [['Atom', 100], ['Molecule', 0], ['Cell', 0]]],
+      ['Which gas do plants take in during photosynthesis?', [['Oxygen', 0], ['Carbon dioxide', 100]]],
+    ]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.source, diagnostic.message])).toEqual([
+      ['error', 'review.txt, line 13', 'ANSWER: D does not match any option; the question was skipped.'],
+    ]);
+  });
+});
+
+describe('exportAiken', () => {
+  it('writes multiple choice questions and reports the others', async () => {
+    const { quiz } = parseQuizCsv([
+      'NewQuestion,MC', 'Title,Matter', 'QuestionText,<p>What is the smallest unit of <b>matter</b>?</p>,HTML', 'Points,1',
+      'Option,100,Atom,,Right', 'Option,25,Molecule', '',
+      'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,1', 'TRUE,100', 'FALSE,0', '',
+      'NewQuestion,MC', 'Title,No answer', 'QuestionText,Which is best?', 'Points,1', 'Option,50,This', 'Option,50,That', '',
+    ].join('\n'));
+    const result = await exportAiken(quiz, 'bank');
+    expect(result.fileName).toBe('bank-aiken.txt');
+    expect(await result.blob.text()).toBe('What is the smallest unit of matter?\nA. Atom\nB. Molecule\nANSWER: A\n');
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [0, 'Aiken has a single correct answer; partial credit was left out.'],
+      [0, 'Aiken is plain text; HTML formatting was removed.'],
+      [0, 'Feedback has no Aiken equivalent and was left out.'],
+      [1, 'Aiken only holds multiple choice questions; this question was left out.'],
+      [2, 'No choice is worth full credit, which Aiken requires; the question was left out.'],
+    ]);
+  });
+});
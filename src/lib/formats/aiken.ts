@@ -0,0 +1,114 @@
+import type { Quiz, Question, MultipleChoiceQuestion, ParseResult } from '@/types/quiz';
+import type { QuizDocument } from '@/lib/assets';
+import { looksLikeHtml, stripHtml } from '@/lib/html';
+import { createWarningLog, createImportLog, titleFromText } from '@/lib/formats/conversion';
+import type { ExportResult } from '@/lib/formats/conversion';
+
+// Aiken is a bare-bones multiple choice format: the question on one line, lettered options, then the answer
+//   What is the smallest unit of matter?
+//   A. Atom
+//   B. Molecule
+//   ANSWER: A
+
+const OPTION_PATTERN = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER_PATTERN = /^ANSWER:\s*([A-Z])\s*$/i;
+
+// .txt uploads are Aiken when they have answer lines; GIFT is the other plain-text format
+export const looksLikeAiken = (content: string): boolean => /^ANSWER:\s*[A-Z]\s*$/im.test(content);
+
+// --- Import ---
+
+export function importAiken(documents: QuizDocument[]): ParseResult {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+
+  for (const document of documents) {
+    let question: { text: string[]; options: { letter: string; text: string }[]; line: number } | null = null;
+    const finish = (answer: string | undefined) => {
+      if (!question) return;
+      const source = `${document.path}, line ${question.line}`;
+      const { options } = question;
+      const text = question.text.join(' ');
+      if (options.length < 2) {
+        report('error', 'incomplete-question', 'A question needs at least two lettered options; it was skipped.', source);
+      } else if (!answer) {
+        report('error', 'incomplete-question', 'The question has no ANSWER line; it was skipped.', source);
+      } else if (!options.some(option => option.letter === answer)) {
+        report('error', 'incomplete-question', `ANSWER: ${answer} does not match any option; the question was skipped.`, source);
+      } else {
+        questions.push({
+          type: 'MC',
+          title: titleFromText(text),
+          questionText: text,
+          points: 1,
+          options: options.map(option => ({
+            text: option.text,
+            percent: option.letter === answer ? 100 : 0,
+            htmlFlag: false,
+            feedbackHtmlFlag: false,
+          })),
+        } as MultipleChoiceQuestion);
+      }
+      question = null;
+    };
+
+    document.content.replace(/^﻿/, '').split(/\r?\n/).forEach((rawLine, idx) => {
+      const line = rawLine.trim();
+      if (!line) return;
+      const answer = ANSWER_PATTERN.exec(line);
+      const option = OPTION_PATTERN.exec(line);
+      if (answer) {
+        finish(answer[1].toUpperCase());
+      } else if (option && question) {
+        question.options.push({ letter: option[1], text: option[2] });
+      } else if (question && question.options.length === 0) {
+        question.text.push(line); // Question text wrapped over several lines
+      } else {
+        finish(undefined);
+        question = { text: [line], options: [], line: idx + 1 };
+      }
+    });
+    finish(undefined);
+  }
+
+  return { quiz: { questions }, diagnostics };
+}
+
+// --- Export ---
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const singleLine = (text: string): string => stripHtml(text).replace(/\s+/g, ' ');
+
+export function serializeAikenQuestion(question: Question, warn: (message: string) => void): string | null {
+  if (question.type !== 'MC') {
+    warn('Aiken only holds multiple choice questions; this question was left out.');
+    return null;
+  }
+  const options = (question.options ?? []).slice(0, LETTERS.length);
+  const correct = options.findIndex(option => option.percent >= 100);
+  if (correct < 0) {
+    warn('No choice is worth full credit, which Aiken requires; the question was left out.');
+    return null;
+  }
+  if (options.some((option, idx) => idx !== correct && option.percent > 0)) warn('Aiken has a single correct answer; partial credit was left out.');
+  if ([question.questionText, ...options.map(option => option.text)].some(text => looksLikeHtml(text ?? ''))) warn('Aiken is plain text; HTML formatting was removed.');
+  if (options.some(option => option.feedback) || question.feedback) warn('Feedback has no Aiken equivalent and was left out.');
+  if (question.hint) warn('Hints have no Aiken equivalent and were left out.');
+  if (question.image) warn('Images have no Aiken equivalent and were left out.');
+  if (question.points !== 1) warn(`Aiken has no point values; the ${question.points} points were left out.`);
+
+  return [
+    singleLine(question.questionText ?? ''),
+    ...options.map((option, idx) => `${LETTERS[idx]}. ${singleLine(option.text)}`),
+    `ANSWER: ${LETTERS[correct]}`,
+  ].join('\n');
+}
+
+export async function exportAiken(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const questions = quiz.questions
+    .map((question, idx) => serializeAikenQuestion(question, message => warn(question, idx, message)))
+    .filter((q): q is string => q !== null);
+  return { fileName: `${baseName}-aiken.txt`, blob: new Blob([`${questions.join('\n\n')}\n`], { type: 'text/plain' }), warnings };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportBlackboardPool } from '@/lib/formats/blackboard';
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,1', 'AnswerKey,Disorder', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'Answer,100,neon', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,1',
+  'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'Title,Choice', 'QuestionText,Pick the metal.', 'Points,2', 'Option,100,Iron,,Right', 'Option,50,Mercury', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,"Water is\twet."', 'Points,1', 'TRUE,0', 'FALSE,100', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,1', 'Scoring,AllOrNothing',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Scoring,AllOrNothing', 'Item,H', 'Item,He', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,1', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Answer,50,paris', 'Text,.', '',
+].join('\n')).quiz;
+
+describe('exportBlackboardPool', () => {
+  it('writes one tab-separated line per question and reports what the upload format cannot hold', async () => {
+    const result = await exportBlackboardPool(BANK, 'bank');
+    expect(result.fileName).toBe('bank-blackboard.txt');
+    expect((await result.blob.text()).split('\n')).toEqual([
+      'ESS\tExplain entropy.\tDisorder',
+      'FIB\tName a noble gas.\tneon',
+      'MAT\tMatch the symbols.\tNa\tSodium\tK\tPotassium',
+      'MC\tPick the metal.\tIron\tcorrect\tMercury\tincorrect\tOxygen\tincorrect',
+      'TF\tWater is wet.\tfalse',
+      'MA\tSelect the halogens.\tFluorine\tcorrect\tChlorine\tcorrect\tNeon\tincorrect',
+      'ORD\tOrder by mass.\tH\tHe',
+      'FIB_PLUS\tThe capital of France is [blank1].\tblank1\tParis\tparis',
+      '',
+    ]);
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [2, "EquallyWeighted scoring cannot be set in Blackboard's upload format; the question is scored all-or-nothing."],
+      [3, "Blackboard's upload format has no point values; set the 2 points in the test or pool."],
+      [3, 'Blackboard uploads mark choices only correct or incorrect; partial MC percents were left out.'],
+      [3, "Per-choice feedback can't be included in Blackboard's upload format and was left out."],
+      [7, 'Blackboard blanks accept answers only as right or wrong; partial answer weights were left out.'],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { Quiz, Question } from '@/types/quiz';
+import { looksLikeHtml } from '@/lib/html';
+import { normalizeMultiSelectScoring } from '@/lib/scoring';
+import { blanksOf, fillInTheBlankText } from '@/lib/fillInTheBlank';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+import { createWarningLog, questionTextWithImage, toWrittenResponse } from '@/lib/formats/conversion';
+import type { ExportResult } from '@/lib/formats/conversion';
+
+// Blackboard's question upload format: one question per line, fields separated by tabs, e.g.
+//   MC<TAB>Question text<TAB>Answer 1<TAB>correct<TAB>Answer 2<TAB>incorrect
+
+// Fields can't span lines or contain tabs; HTML keeps its line breaks as <br>
+const field = (text: string): string => {
+  const html = looksLikeHtml(text);
+  return text.replace(/\t/g, ' ').replace(/\r?\n/g, html ? ' ' : '<br>').trim();
+};
+
+const correctness = (correct: boolean): string => (correct ? 'correct' : 'incorrect');
+
+// Uploaded questions are scored all-or-nothing; partial credit can only be switched on in Blackboard afterwards
+const warnScoring = (scoring: string, warn: (message: string) => void) => {
+  if (scoring !== 'AllOrNothing') warn(`${scoring} scoring cannot be set in Blackboard's upload format; the question is scored all-or-nothing.`);
+};
+
+export function serializeBlackboardQuestion(question: Question, warn: (message: string) => void): string {
+  question = toWrittenResponse(question, 'Blackboard', warn);
+  if (question.points !== 1) warn(`Blackboard's upload format has no point values; set the ${question.points} points in the test or pool.`);
+  if (question.image) warn(`The image ${question.image} is linked by path, not embedded; upload it to Blackboard and fix the link.`);
+  if (question.hint) warn('Hints have no Blackboard equivalent and were left out.');
+  if (question.difficulty !== undefined) warn('Difficulty has no Blackboard equivalent and was left out.');
+  if (question.feedback) warn("General feedback can't be included in Blackboard's upload format and was left out.");
+
+  const text = field(questionTextWithImage(question));
+  const optionFeedbackLost = (items: { feedback?: string }[] | undefined, what: string) => {
+    if (items?.some(item => item.feedback)) warn(`${what} feedback can't be included in Blackboard's upload format and was left out.`);
+  };
+
+  let fields: string[];
+  switch (question.type) {
+    case 'MC': {
+      const options = question.options ?? [];
+      if (options.some(option => option.percent > 0 && option.percent < 100)) {
+        warn('Blackboard uploads mark choices only correct or incorrect; partial MC percents were left out.');
+      }
+      optionFeedbackLost(options, 'Per-choice');
+      fields = ['MC', text, ...options.flatMap(option => [field(option.text), correctness(option.percent >= 100)])];
+      break;
+    }
+
+    case 'MS': {
+      warnScoring(normalizeMultiSelectScoring(question.scoring), warn);
+      optionFeedbackLost(question.options, 'Per-choice');
+      fields = ['MA', text, ...(question.options ?? []).flatMap(option => [field(option.text), correctness(option.weight > 0)])];
+      break;
+    }
+
+    case 'TF': {
+      const trueIsCorrect = (question.trueOption?.credit ?? 0) >= (question.falseOption?.credit ?? 0);
+      if ([question.trueOption?.credit, question.falseOption?.credit].some(credit => credit !== undefined && credit !== 0 && credit !== 100)) {
+        warn('Blackboard true/false questions are all-or-nothing; partial credit was left out.');
+      }
+      optionFeedbackLost([question.trueOption ?? {}, question.falseOption ?? {}], 'True/False');
+      fields = ['TF', text, trueIsCorrect ? 'true' : 'false'];
+      break;
+    }
+
+    case 'M': {
+      warnScoring(matchingScoringOf(question), warn);
+      fields = ['MAT', text, ...(question.pairs ?? []).flatMap(pair => [field(pair.choiceText), field(pair.matchText ?? '')])];
+      break;
+    }
+
+    case 'O': {
+      warnScoring(matchingScoringOf(question), warn);
+      optionFeedbackLost(question.items, 'Per-item Ordering');
+      fields = ['ORD', text, ...(question.items ?? []).map(item => field(item.text))];
+      break;
+    }
+
+    case 'SA': {
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no Blackboard upload equivalent; the expression is exported as a literal answer.');
+      } else if (question.evaluation === 'sensitive') {
+        warn("Case-sensitive answers can't be set in Blackboard's upload format; the answer will match in any case.");
+      }
+      fields = ['FIB', text, ...(question.bestAnswer !== undefined ? [field(question.bestAnswer)] : [])];
+      break;
+    }
+
+    case 'FIB': {
+      // FIB_PLUS names each blank in the text, e.g. [blank1], then lists each name followed by the answers it accepts
+      const blanks = blanksOf(question);
+      const answers = blanks.flatMap(blank => blank.answers);
+      if (answers.some(a => a.weight > 0 && a.weight < 100)) warn('Blackboard blanks accept answers only as right or wrong; partial answer weights were left out.');
+      if (answers.some(a => a.evaluation === 'regexp')) {
+        warn('Regular expression answers have no Blackboard upload equivalent; the expressions are exported as literal answers.');
+      }
+      const blankText = fillInTheBlankText(question, (_, idx) => `[blank${idx + 1}]`);
+      fields = [
+        'FIB_PLUS',
+        field(questionTextWithImage({ ...question, questionText: blankText })),
+        // An empty field separates one blank's answers from the next blank's name
+        ...blanks.flatMap((blank, idx) => [...(idx > 0 ? [''] : []), `blank${idx + 1}`, ...blank.answers.filter(a => a.weight > 0).map(a => field(a.text))]),
+      ];
+      break;
+    }
+
+    case 'WR':
+    default: {
+      if (question.initialText) warn('Initial text for written responses has no Blackboard equivalent and was left out.');
+      // The answer key becomes the essay's example answer
+      fields = ['ESS', text, ...(question.answerKey ? [field(question.answerKey)] : [])];
+      break;
+    }
+  }
+  return fields.join('\t');
+}
+
+// A tab-delimited file for Blackboard's "Upload Questions" into a pool or test
+export async function exportBlackboardPool(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const lines = quiz.questions.map((question, idx) => serializeBlackboardQuestion(question, message => warn(question, idx, message)));
+  return { fileName: `${baseName}-blackboard.txt`, blob: new Blob([`${lines.join('\n')}\n`], { type: 'text/plain' }), warnings };
+}
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import type { QuizDocument } from '@/lib/assets';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportCanvasPackage } from '@/lib/formats/canvas';
+import { importQtiDocuments } from '@/lib/formats/qtiPackage';
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,3', 'AnswerKey,Disorder', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'Answer,100,neon', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,1',
+  'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'Title,Choice', 'QuestionText,Pick the metal.', 'Points,2', 'Option,100,Iron,,Right', 'Option,50,Mercury', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,1', 'TRUE,100', 'FALSE,0', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,1', 'Scoring,AllOrNothing',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Item,H', 'Item,He', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,1', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Text,.', '',
+].join('\n')).quiz;
+
+const unzip = async (blob: Blob): Promise<QuizDocument[]> => {
+  const zip = await JSZip.loadAsync(blob);
+  return Promise.all(Object.values(zip.files).filter(file => !file.dir).map(async file => ({ path: file.name, content: await file.async('string') })));
+};
+
+describe('exportCanvasPackage', () => {
+  it('writes a Canvas quiz export and reports what Canvas cannot hold', async () => {
+    const result = await exportCanvasPackage(BANK, 'bank');
+    expect(result.fileName).toBe('bank-canvas.zip');
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [0, 'Canvas essays have no answer key; it was left out.'],
+      [3, 'Canvas multiple choice has a single correct answer; partial credit on other choices was left out.'],
+      [5, 'AllOrNothing scoring cannot be set in Canvas; multiple answers questions give credit per correct choice and deduct for wrong ones.'],
+      [6, 'Canvas has no ordering questions; exported as Matching, with each item matched to its position.'],
+    ]);
+
+    const documents = await unzip(result.blob);
+    expect(documents.map(doc => doc.path).sort()).toEqual(['QUIZ_1/QUIZ_1.xml', 'QUIZ_1/assessment_meta.xml', 'imsmanifest.xml']);
+    expect(documents.find(doc => doc.path === 'QUIZ_1/assessment_meta.xml')?.content).toContain('<points_possible>11</points_possible>');
+  });
+
+  it('is read back as QTI 1.2 with each question type Canvas has', async () => {
+    const { quiz, diagnostics, version } = importQtiDocuments(await unzip((await exportCanvasPackage(BANK, 'bank')).blob));
+    expect(version).toBe('1.2');
+    expect(diagnostics).toEqual([]);
+    expect(quiz.questions.map(question => [question.type, question.title, question.points])).toEqual([
+      ['WR', 'Essay', 3],
+      ['SA', 'Short', 1],
+      ['M', 'Match', 1],
+      ['MC', 'Choice', 2],
+      ['TF', 'Truth', 1],
+      ['MS', 'Select', 1],
+      ['M', 'Order', 1],
+      ['FIB', 'Blanks', 1],
+    ]);
+    expect(quiz.questions[3]).toMatchObject({
+      options: [
+        expect.objectContaining({ text: 'Iron', percent: 100, feedback: 'Right' }),
+        expect.objectContaining({ text: 'Mercury', percent: 0 }),
+        expect.objectContaining({ text: 'Oxygen', percent: 0 }),
+      ],
+    });
+    expect(quiz.questions[6]).toMatchObject({
+      pairs: [
+        { choiceNo: 1, choiceText: 'H', matchText: 'Position 1' },
+        { choiceNo: 2, choiceText: 'He', matchText: 'Position 2' },
+      ],
+    });
+  });
+});
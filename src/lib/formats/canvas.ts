@@ -0,0 +1,263 @@
+import JSZip from 'jszip';
+import type { Quiz, Question } from '@/types/quiz';
+import { normalizeMultiSelectScoring } from '@/lib/scoring';
+import { blanksOf, fillInTheBlankText } from '@/lib/fillInTheBlank';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+import { XML_DECLARATION, xmlElement, xmlTextElement } from '@/lib/formats/xml';
+import { createWarningLog, roundScore, questionTextWithImage, toWrittenResponse } from '@/lib/formats/conversion';
+import type { ExportResult, ExportableQuestion } from '@/lib/formats/conversion';
+import { material, metadataField } from '@/lib/formats/qti12';
+
+// Canvas's question_type for each question type; Canvas classic quizzes have no Ordering, so it becomes Matching
+const CANVAS_QUESTION_TYPES: Record<ExportableQuestion['type'], string> = {
+  MC: 'multiple_choice_question',
+  TF: 'true_false_question',
+  MS: 'multiple_answers_question',
+  M: 'matching_question',
+  O: 'matching_question',
+  SA: 'short_answer_question',
+  WR: 'essay_question',
+  FIB: 'fill_in_multiple_blanks_question',
+};
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/ims_qtiasiv1p2';
+const CANVAS_NAMESPACE = 'http://canvas.instructure.com/xsd/cccv1p0';
+const RESPONSE_ID = 'response1';
+const FULL_SCORE = 100;
+
+interface CanvasCondition {
+  tests: string[]; // Serialized <varequal>, <not> or <other/> tests, all of which must hold
+  score?: number;
+  action?: 'Set' | 'Add';
+  feedbackId?: string;
+}
+
+const varequal = (respident: string, value: string | number): string => xmlTextElement('varequal', { respident }, String(value));
+
+const respcondition = ({ tests, score, action, feedbackId }: CanvasCondition): string =>
+  xmlElement('respcondition', { continue: score === undefined || action === 'Add' ? 'Yes' : 'No' }, [
+    xmlElement('conditionvar', {}, tests.length > 1 ? [xmlElement('and', {}, tests)] : tests),
+    score !== undefined ? xmlTextElement('setvar', { action: action ?? 'Set', varname: 'SCORE' }, String(roundScore(score))) : '',
+    feedbackId ? xmlElement('displayfeedback', { feedbacktype: 'Response', linkrefid: feedbackId }) : '',
+  ]);
+
+const responseLabel = (ident: string | number, text: string): string => xmlElement('response_label', { ident }, [material(text)]);
+
+const choiceResponse = (ident: string, cardinality: 'Single' | 'Multiple', labels: string[], prompt?: string): string =>
+  xmlElement('response_lid', { ident, rcardinality: cardinality }, [
+    prompt !== undefined ? material(prompt) : '',
+    xmlElement('render_choice', {}, labels),
+  ]);
+
+const textResponse = (): string =>
+  xmlElement('response_str', { ident: RESPONSE_ID, rcardinality: 'Single' }, [
+    xmlElement('render_fib', {}, [xmlElement('response_label', { ident: 'answer1', rshuffle: 'No' })]),
+  ]);
+
+// Serializes one question as an <item> the way Canvas exports it. Features Canvas cannot represent are passed to warn.
+export function serializeCanvasItem(question: Question, questionIndex: number, warn: (message: string) => void): string {
+  question = toWrittenResponse(question, 'Canvas', warn);
+  const ident = `ITEM_${questionIndex + 1}`;
+  // Canvas identifies answers by number; keep them unique across the quiz
+  const answerId = (n: number): number => (questionIndex + 1) * 1000 + n + 1;
+  const questionText = question.type === 'FIB'
+    ? fillInTheBlankText(question, (_, idx) => `[blank${idx + 1}]`) // Canvas names each blank in the text
+    : question.questionText;
+  const presentation: string[] = [material(questionTextWithImage({ ...question, questionText }))];
+  const conditions: CanvasCondition[] = [];
+  const feedback: string[] = [];
+
+  const addFeedback = (id: string, text: string | undefined): string | undefined => {
+    if (!text) return undefined;
+    feedback.push(xmlElement('itemfeedback', { ident: id }, [xmlElement('flow_mat', {}, [material(text)])]));
+    return id;
+  };
+
+  if (question.image) warn(`The image ${question.image} is linked by path, not embedded; upload it to Canvas and fix the link.`);
+  if (question.hint) warn('Hints have no Canvas equivalent and were left out.');
+  if (question.difficulty !== undefined) warn('Difficulty has no Canvas equivalent and was left out.');
+
+  const generalFeedbackId = addFeedback('general_fb', question.feedback);
+  if (generalFeedbackId) conditions.push({ tests: ['<other/>'], feedbackId: generalFeedbackId });
+
+  switch (question.type) {
+    case 'MC': {
+      // Canvas multiple choice has exactly one correct answer and no partial credit
+      const options = question.options ?? [];
+      const best = options.reduce((bestIdx, option, idx) => (option.percent > (options[bestIdx]?.percent ?? -1) ? idx : bestIdx), 0);
+      if (options.some((option, idx) => idx !== best && option.percent > 0)) {
+        warn('Canvas multiple choice has a single correct answer; partial credit on other choices was left out.');
+      }
+      presentation.push(choiceResponse(RESPONSE_ID, 'Single', options.map((option, idx) => responseLabel(answerId(idx), option.text))));
+      options.forEach((option, idx) => {
+        const feedbackId = addFeedback(`${answerId(idx)}_fb`, option.feedback);
+        if (feedbackId) conditions.push({ tests: [varequal(RESPONSE_ID, answerId(idx))], feedbackId });
+      });
+      if (options.length > 0) conditions.push({ tests: [varequal(RESPONSE_ID, answerId(best))], score: FULL_SCORE });
+      break;
+    }
+
+    case 'TF': {
+      const trueIsCorrect = (question.trueOption?.credit ?? 0) >= (question.falseOption?.credit ?? 0);
+      if ([question.trueOption?.credit, question.falseOption?.credit].some(credit => credit !== undefined && credit !== 0 && credit !== 100)) {
+        warn('Canvas true/false questions are all-or-nothing; partial credit was left out.');
+      }
+      const sides = [
+        { text: 'True', option: question.trueOption },
+        { text: 'False', option: question.falseOption },
+      ];
+      presentation.push(choiceResponse(RESPONSE_ID, 'Single', sides.map((side, idx) => responseLabel(answerId(idx), side.text))));
+      sides.forEach((side, idx) => {
+        const feedbackId = addFeedback(`${answerId(idx)}_fb`, side.option?.feedback);
+        if (feedbackId) conditions.push({ tests: [varequal(RESPONSE_ID, answerId(idx))], feedbackId });
+      });
+      conditions.push({ tests: [varequal(RESPONSE_ID, answerId(trueIsCorrect ? 0 : 1))], score: FULL_SCORE });
+      break;
+    }
+
+    case 'MS': {
+      // The key is written as one condition on every choice; Canvas then grades with its own partial credit
+      const options = question.options ?? [];
+      const scoring = normalizeMultiSelectScoring(question.scoring);
+      warn(`${scoring} scoring cannot be set in Canvas; multiple answers questions give credit per correct choice and deduct for wrong ones.`);
+      presentation.push(choiceResponse(RESPONSE_ID, 'Multiple', options.map((option, idx) => responseLabel(answerId(idx), option.text))));
+      options.forEach((option, idx) => {
+        const feedbackId = addFeedback(`${answerId(idx)}_fb`, option.feedback);
+        if (feedbackId) conditions.push({ tests: [varequal(RESPONSE_ID, answerId(idx))], feedbackId });
+      });
+      const tests = options.map((option, idx) => {
+        const test = varequal(RESPONSE_ID, answerId(idx));
+        return option.weight > 0 ? test : xmlElement('not', {}, [test]);
+      });
+      if (tests.length > 0) conditions.push({ tests, score: FULL_SCORE });
+      break;
+    }
+
+    case 'M':
+    case 'O': {
+      // Ordering is offered as Matching: each item is matched with its position
+      const pairs = question.type === 'M'
+        ? (question.pairs ?? []).map(pair => ({ choice: pair.choiceText, match: pair.matchText ?? '' }))
+        : (question.items ?? []).map((item, idx) => ({ choice: item.text, match: `Position ${idx + 1}` }));
+      if (question.type === 'O') {
+        warn('Canvas has no ordering questions; exported as Matching, with each item matched to its position.');
+        if (question.items?.some(item => item.feedback)) warn('Per-item Ordering feedback has no Canvas equivalent and was left out.');
+      }
+      const scoring = matchingScoringOf(question);
+      if (scoring !== 'EquallyWeighted') warn(`${scoring} scoring has no Canvas equivalent; each match is worth an equal share.`);
+      const matchLabels = pairs.map((pair, idx) => responseLabel(answerId(idx), pair.match));
+      pairs.forEach((pair, idx) => {
+        const respident = `response_${idx + 1}`;
+        presentation.push(choiceResponse(respident, 'Single', matchLabels, pair.choice));
+        conditions.push({ tests: [varequal(respident, answerId(idx))], score: FULL_SCORE / pairs.length, action: 'Add' });
+      });
+      break;
+    }
+
+    case 'SA': {
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no Canvas equivalent; the expression is exported as a literal answer.');
+      } else if (question.evaluation === 'sensitive') {
+        warn('Canvas fill-in-the-blank answers are not case-sensitive; the answer will match in any case.');
+      }
+      presentation.push(textResponse());
+      if (question.bestAnswer !== undefined) conditions.push({ tests: [varequal(RESPONSE_ID, question.bestAnswer)], score: FULL_SCORE });
+      break;
+    }
+
+    case 'FIB': {
+      // Canvas lists the answers each blank accepts as the labels of a response named after it; each blank is worth an equal share
+      const blanks = blanksOf(question);
+      const answers = blanks.flatMap(blank => blank.answers);
+      if (answers.some(a => a.weight > 0 && a.weight < 100)) warn('Canvas blanks accept answers only as right or wrong; partial answer weights were left out.');
+      if (answers.some(a => a.evaluation === 'regexp')) {
+        warn('Regular expression answers have no Canvas equivalent; the expressions are exported as literal answers.');
+      } else if (answers.some(a => a.evaluation === 'sensitive')) {
+        warn('Canvas fill-in-the-blank answers are not case-sensitive; the answers will match in any case.');
+      }
+      let answerCount = 0;
+      blanks.forEach((blank, idx) => {
+        const respident = `response_blank${idx + 1}`;
+        const accepted = blank.answers.filter(a => a.weight > 0).map(a => ({ id: answerId(answerCount++), text: a.text }));
+        presentation.push(choiceResponse(respident, 'Single', accepted.map(a => responseLabel(a.id, a.text)), `blank${idx + 1}`));
+        accepted.forEach(a => conditions.push({ tests: [varequal(respident, a.id)], score: FULL_SCORE / blanks.length, action: 'Add' }));
+      });
+      break;
+    }
+
+    case 'WR': {
+      if (question.answerKey) warn('Canvas essays have no answer key; it was left out.');
+      if (question.initialText) warn('Initial text for written responses has no Canvas equivalent and was left out.');
+      presentation.push(textResponse());
+      break;
+    }
+  }
+
+  const metadata = [
+    metadataField('question_type', CANVAS_QUESTION_TYPES[question.type]),
+    metadataField('points_possible', question.points),
+  ];
+
+  return xmlElement('item', { ident, title: question.title }, [
+    xmlElement('itemmetadata', {}, [xmlElement('qtimetadata', {}, metadata)]),
+    xmlElement('presentation', {}, presentation),
+    xmlElement('resprocessing', {}, [
+      xmlElement('outcomes', {}, [xmlElement('decvar', { maxvalue: FULL_SCORE, minvalue: 0, varname: 'SCORE', vartype: 'Decimal' })]),
+      ...conditions.map(respcondition),
+    ]),
+    ...feedback,
+  ]);
+}
+
+// Quiz settings Canvas reads alongside the questions; everything but the title and points is left at Canvas's defaults
+const assessmentMeta = (identifier: string, title: string, pointsPossible: number): string =>
+  `${XML_DECLARATION}\n${xmlElement('quiz', { identifier, xmlns: CANVAS_NAMESPACE }, [
+    xmlTextElement('title', {}, title),
+    xmlTextElement('description', {}, ''),
+    xmlTextElement('shuffle_answers', {}, 'false'),
+    xmlTextElement('scoring_policy', {}, 'keep_highest'),
+    xmlTextElement('quiz_type', {}, 'assignment'),
+    xmlTextElement('points_possible', {}, String(roundScore(pointsPossible))),
+    xmlTextElement('allowed_attempts', {}, '1'),
+    xmlTextElement('one_question_at_a_time', {}, 'false'),
+    xmlTextElement('cant_go_back', {}, 'false'),
+    xmlTextElement('available', {}, 'false'),
+  ])}\n`;
+
+// A Canvas quiz export: the QTI assessment and assessment_meta.xml in a folder named after the quiz, plus the manifest
+export async function exportCanvasPackage(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const identifier = 'QUIZ_1';
+  const metaIdentifier = `${identifier}_META`;
+  const items = quiz.questions.map((question, idx) => serializeCanvasItem(question, idx, message => warn(question, idx, message)));
+
+  const assessment = xmlElement('questestinterop', { xmlns: QTI_NAMESPACE }, [
+    xmlElement('assessment', { ident: identifier, title: baseName }, [
+      xmlElement('qtimetadata', {}, [metadataField('cc_maxattempts', 1)]),
+      xmlElement('section', { ident: 'root_section' }, items),
+    ]),
+  ]);
+
+  const assessmentPath = `${identifier}/${identifier}.xml`;
+  const metaPath = `${identifier}/assessment_meta.xml`;
+  const manifest = xmlElement('manifest', { identifier: 'MANIFEST_1', xmlns: 'http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1' }, [
+    xmlElement('metadata', {}, [xmlTextElement('schema', {}, 'IMS Content'), xmlTextElement('schemaversion', {}, '1.1.3')]),
+    xmlElement('organizations'),
+    xmlElement('resources', {}, [
+      xmlElement('resource', { identifier, type: 'imsqti_xmlv1p2' }, [
+        xmlElement('file', { href: assessmentPath }),
+        xmlElement('dependency', { identifierref: metaIdentifier }),
+      ]),
+      xmlElement('resource', { identifier: metaIdentifier, type: 'associatedcontent/imscc_xmlv1p1/learning-application-resource', href: metaPath }, [
+        xmlElement('file', { href: metaPath }),
+      ]),
+    ]),
+  ]);
+
+  const zip = new JSZip();
+  zip.file(assessmentPath, `${XML_DECLARATION}\n${assessment}\n`);
+  zip.file(metaPath, assessmentMeta(identifier, baseName, quiz.questions.reduce((sum, q) => sum + (q.points || 0), 0)));
+  zip.file('imsmanifest.xml', `${XML_DECLARATION}\n${manifest}\n`);
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  return { fileName: `${baseName}-canvas.zip`, blob, warnings };
+}
@@ -0,0 +1,111 @@
+import type {
+  Question,
+  MultiShortAnswerQuestion,
+  ArithmeticQuestion,
+  SignificantFiguresQuestion,
+  LikertQuestion,
+  ParseDiagnostic,
+  DiagnosticSeverity,
+  DiagnosticCode,
+} from '@/types/quiz';
+import { stripHtml, looksLikeHtml, decodeHtmlEntities } from '@/lib/html';
+import { QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { describeVariable, describeTolerance } from '@/lib/arithmetic';
+import { LIKERT_SCALES, likertChoices } from '@/lib/likert';
+import { escapeXml } from '@/lib/formats/xml';
+
+// A question feature an exporter could not represent in the target format
+export interface ConversionWarning {
+  questionIndex: number;
+  questionTitle?: string;
+  message: string;
+}
+
+export interface ExportResult {
+  fileName: string;
+  blob: Blob;
+  warnings: ConversionWarning[];
+}
+
+export function createWarningLog() {
+  const warnings: ConversionWarning[] = [];
+  const warn = (question: Question, questionIndex: number, message: string) => {
+    warnings.push({ questionIndex, questionTitle: question.title, message });
+  };
+  return { warnings, warn };
+}
+
+// Collects diagnostics for importers of non-CSV formats, located by file and item instead of line
+export function createImportLog() {
+  const diagnostics: ParseDiagnostic[] = [];
+  const report = (severity: DiagnosticSeverity, code: DiagnosticCode, message: string, source: string, questionIndex?: number) => {
+    diagnostics.push({ severity, code, message, source, questionIndex });
+  };
+  return { diagnostics, report };
+}
+
+// Imported items often have no title; Brightspace requires one, so derive it from the question text
+export const titleFromText = (text: string): string => {
+  const plain = stripHtml(text);
+  return plain.length > 60 ? `${plain.slice(0, 57)}...` : plain;
+};
+
+// Rounds imported scores and weights the way Brightspace displays them
+export const roundScore = (value: number): number => Math.round(value * 100) / 100;
+
+// For formats without a separate image field (Moodle, Canvas, Blackboard) the image is appended to the question text
+export const questionTextWithImage = (question: Question): string => {
+  const text = question.questionText ?? '';
+  if (!question.image) return text;
+  return `${looksLikeHtml(text) ? text : `<p>${escapeXml(text)}</p>`}<p><img src="${escapeXml(question.image)}" alt=""></p>`;
+};
+
+// The reverse on import: a trailing paragraph holding only a local image becomes the question's image
+export function splitQuestionImage(text: string): { questionText: string; image?: string } {
+  const match = /<p>\s*<img\s+src="(?![a-z][a-z0-9+.-]*:|\/\/)([^"]+)"[^>]*>\s*<\/p>\s*$/i.exec(text);
+  if (!match) return { questionText: text };
+  const rest = text.slice(0, match.index).trim();
+  const plain = /^<p>([^<]*)<\/p>$/.exec(rest);
+  return { questionText: plain ? decodeHtmlEntities(plain[1]) : rest, image: decodeHtmlEntities(match[1]) };
+}
+
+// Questions every export format can represent in some form
+export type ExportableQuestion = Exclude<Question, MultiShortAnswerQuestion | ArithmeticQuestion | SignificantFiguresQuestion | LikertQuestion>;
+
+// What the answer key of a converted question holds, for the warning
+const ANSWER_KEY_CONTENTS: Record<Exclude<Question['type'], ExportableQuestion['type']>, string> = {
+  MSA: 'accepted answers',
+  ARITH: 'formula',
+  SF: 'formula',
+  LIK: 'scale',
+};
+
+// Multi-Short Answer, Arithmetic, Significant Figures and Likert questions have no equivalent in the exchange
+// formats. They are exported as written responses whose answer key holds the accepted answers, the formula or
+// the scale, so graders still have them.
+export function toWrittenResponse(question: Question, format: string, warn: (message: string) => void): ExportableQuestion {
+  let answerKey: string;
+  switch (question.type) {
+    case 'MSA':
+      answerKey = `Accepted answers, one per box (${question.inputBox?.rows ?? 1} boxes): ${(question.answers ?? []).map(answer => answer.text).join(' / ')}`;
+      break;
+    case 'ARITH':
+    case 'SF':
+      answerKey = [
+        `Answer: ${question.formula} (${question.type === 'SF' ? `${question.significantFigures} significant figures, ` : ''}${describeTolerance(question.tolerance)})`,
+        ...(question.variables ?? []).map(variable => `{${variable.name}}: ${describeVariable(variable)}`),
+      ].join('\n');
+      break;
+    case 'LIK':
+      answerKey = [
+        `Survey question rated on the ${LIKERT_SCALES[question.scale]?.label ?? question.scale} scale: ${likertChoices(question).join(' / ')}`,
+        ...(question.statements ?? []).map(statement => `- ${statement.text}`),
+      ].join('\n');
+      break;
+    default:
+      return question;
+  }
+  warn(`${QUESTION_TYPE_LABELS[question.type]} questions have no ${format} equivalent; exported as a written response with the ${ANSWER_KEY_CONTENTS[question.type]} in the answer key.`);
+  const { id, title, questionText, points, difficulty, image, hint, feedback } = question;
+  return { id, title, questionText, points, difficulty, image, hint, feedback, type: 'WR', answerKey };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Question } from '@/types/quiz';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportGift, importGift } from '@/lib/formats/gift';
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,1', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'Answer,100,neon', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,1', 'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'ID,MC-1', 'Title,Choice', 'QuestionText,Pick the metal: iron or 2+2=4?', 'Points,2',
+  'Option,100,Iron,,Right', 'Option,50,Mercury', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,1', 'TRUE,100,Yes', 'FALSE,0,No', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,1', 'Scoring,RightMinusWrong',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Item,H', 'Item,He', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,1', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Text,.', '',
+].join('\n')).quiz;
+
+const GIFT = `$CATEGORY: $course$/top/bank
+
+::Essay::Explain entropy.{}
+
+::Short::Name a noble gas.{
+\t=neon
+}
+
+::Match::Match the symbols.{
+\t=Na -> Sodium
+\t=K -> Potassium
+}
+
+::Choice::Pick the metal\\: iron or 2+2\\=4?{
+\t=Iron#Right
+\t~%50%Mercury
+\t~Oxygen
+}
+
+::Truth::Water is wet.{
+\tTRUE#No#Yes
+}
+
+::Select::Select the halogens.{
+\t~%50%Fluorine
+\t~%50%Chlorine
+\t~%-100%Neon
+}
+
+::Blanks::The capital of France is {
+\t=Paris
+}.
+`;
+
+// The model without the CSV bookkeeping and unset fields, to compare with what an importer builds
+const modelOf = ({ rawRows: _rawRows, questionTextHtmlFlag: _flag, ...question }: Question) => JSON.parse(JSON.stringify(question));
+
+describe('exportGift', () => {
+  it('writes each question it can represent and reports the rest', async () => {
+    const result = await exportGift(BANK, 'bank');
+    expect(result.fileName).toBe('bank-gift.txt');
+    expect(await result.blob.text()).toBe(GIFT);
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [3, 'GIFT has no point values; Moodle will grade the question out of 1 instead of 2.'],
+      [3, 'Question IDs have no GIFT equivalent and were left out.'],
+      [6, 'Ordering questions have no GIFT equivalent and were left out.'],
+    ]);
+  });
+});
+
+describe('importGift', () => {
+  it('reads back what exportGift writes', () => {
+    const { quiz, diagnostics } = importGift([{ path: 'bank-gift.txt', content: GIFT }]);
+    expect(diagnostics).toEqual([]);
+    const kept = BANK.questions.filter(question => question.type !== 'O').map(modelOf);
+    // Points, IDs, box sizes and blank sizes aren't written, so they come back as the importer's defaults
+    expect(quiz.questions.map(modelOf)).toEqual(kept.map(question => {
+      const { id: _id, ...expected } = { ...question, points: 1 };
+      if (expected.type === 'SA') expected.inputBox = { rows: 1, cols: 40 };
+      if (expected.type === 'M') expected.scoring = 'EquallyWeighted';
+      if (expected.type === 'FIB') delete expected.parts[1].size;
+      return expected;
+    }));
+  });
+
+  it('reads a hand-written file with comments and reports what it skips', () => {
+    const { quiz, diagnostics } = importGift([{
+      path: 'week1.gift',
+      content: [
+        '// Week 1 review',
+        '::Q1:: Who is buried in Grant\'s tomb?{~Grant ~Jefferson =no one#Nobody is buried there}',
+        '',
+        'Grant is {~buried =entombed ~living} in Grant\'s tomb.',
+        '',
+        '::Q3:: Grant was buried in a tomb in New York City.{T}',
+        '',
+        '::Q4:: What is the value of pi to two places?{#3.14:0.005}',
+        '',
+        '::Q5:: Two plus two equals {=four =4}',
+      ].join('\n'),
+    }]);
+    expect(quiz.questions.map(question => [question.type, question.title])).toEqual([
+      ['MC', 'Q1'],
+      ['MC', 'Grant is _____ in Grant\'s tomb.'],
+      ['TF', 'Q3'],
+      ['SA', 'Q5'],
+    ]);
+    expect(quiz.questions[0]).toMatchObject({
+      options: [
+        expect.objectContaining({ text: 'Grant', percent: 0 }),
+        expect.objectContaining({ text: 'Jefferson', percent: 0 }),
+        expect.objectContaining({ text: 'no one', percent: 100, feedback: 'Nobody is buried there' }),
+      ],
+    });
+    expect(quiz.questions[2]).toMatchObject({ trueOption: { credit: 100 }, falseOption: { credit: 0 } });
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.source, diagnostic.message])).toEqual([
+      ['error', 'week1.gift, question Q4', 'Numerical questions are not supported and were skipped.'],
+    ]);
+  });
+});
@@ -0,0 +1,365 @@
+import type {
+  Quiz,
+  Question,
+  WrittenResponseQuestion,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  FillInTheBlankQuestion,
+  FIBText,
+  FIBBlank,
+  ParseResult,
+} from '@/types/quiz';
+import type { QuizDocument } from '@/lib/assets';
+import { looksLikeHtml, stripHtml } from '@/lib/html';
+import { createWarningLog, createImportLog, titleFromText, roundScore, questionTextWithImage, splitQuestionImage, toWrittenResponse } from '@/lib/formats/conversion';
+import type { ExportResult } from '@/lib/formats/conversion';
+import { toMoodleFraction, moodleShortAnswer, moodleMultiSelectFractions } from '@/lib/formats/moodleXml';
+import { blanksOf, fillInTheBlankText } from '@/lib/fillInTheBlank';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+
+// GIFT is Moodle's plain-text format: one question per paragraph, answers in braces, e.g.
+//   ::Title::Question text{=right#feedback ~wrong ~%50%half right}
+
+// --- Export ---
+
+const escapeGift = (text: string): string => text.replace(/[~=#{}:\\]/g, '\\$&').replace(/\r?\n/g, '\\n');
+
+const feedbackSuffix = (feedback: string | undefined): string => (feedback ? `#${escapeGift(feedback)}` : '');
+
+const weightPrefix = (fraction: number): string => (fraction === 0 ? '' : `%${fraction}%`);
+
+export function serializeGiftQuestion(question: Question, warn: (message: string) => void): string | null {
+  question = toWrittenResponse(question, 'GIFT', warn);
+  if (question.type === 'O') {
+    warn('Ordering questions have no GIFT equivalent and were left out.');
+    return null;
+  }
+  if (question.points !== 1) warn(`GIFT has no point values; Moodle will grade the question out of 1 instead of ${question.points}.`);
+  if (question.id) warn('Question IDs have no GIFT equivalent and were left out.');
+  if (question.hint) warn('Hints have no GIFT equivalent and were left out.');
+  if (question.difficulty !== undefined) warn('Difficulty has no GIFT equivalent and was left out.');
+  if (question.image) warn(`The image ${question.image} is linked by path, not embedded; upload it to Moodle and fix the link.`);
+
+  const answers: string[] = [];
+  let text = questionTextWithImage(question);
+  let textAfter = ''; // Text after the answers, for a missing-word question
+  switch (question.type) {
+    case 'MC':
+      (question.options ?? []).forEach(option => {
+        const fraction = toMoodleFraction(option.percent, warn);
+        const marker = fraction === 100 ? '=' : `~${weightPrefix(fraction)}`;
+        answers.push(`${marker}${escapeGift(option.text)}${feedbackSuffix(option.feedback)}`);
+      });
+      break;
+
+    case 'MS': {
+      const fractions = moodleMultiSelectFractions(question, warn);
+      (question.options ?? []).forEach((option, idx) => {
+        answers.push(`~${weightPrefix(fractions[idx])}${escapeGift(option.text)}${feedbackSuffix(option.feedback)}`);
+      });
+      break;
+    }
+
+    case 'TF': {
+      const trueIsCorrect = (question.trueOption?.credit ?? 0) >= (question.falseOption?.credit ?? 0);
+      if ([question.trueOption?.credit, question.falseOption?.credit].some(credit => credit !== undefined && credit !== 0 && credit !== 100)) {
+        warn('GIFT True/False questions are all-or-nothing; partial credit was left out.');
+      }
+      // GIFT writes the feedback for a wrong answer first, then for the right one
+      const right = trueIsCorrect ? question.trueOption : question.falseOption;
+      const wrong = trueIsCorrect ? question.falseOption : question.trueOption;
+      const feedback = wrong?.feedback || right?.feedback ? `#${escapeGift(wrong?.feedback ?? '')}#${escapeGift(right?.feedback ?? '')}` : '';
+      answers.push(`${trueIsCorrect ? 'TRUE' : 'FALSE'}${feedback}`);
+      break;
+    }
+
+    case 'SA':
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no GIFT equivalent; the expression is exported as a literal answer.');
+      } else if (question.evaluation === 'sensitive') {
+        warn('GIFT short answers are not case-sensitive; the answer will match in any case.');
+      }
+      if (question.bestAnswer !== undefined) answers.push(`=${escapeGift(question.bestAnswer)}`);
+      break;
+
+    case 'M': {
+      const scoring = matchingScoringOf(question);
+      if (scoring !== 'EquallyWeighted') warn(`${scoring} scoring has no GIFT equivalent; each match is worth an equal share.`);
+      const pairs = question.pairs ?? [];
+      if (pairs.some(pair => looksLikeHtml(pair.matchText ?? ''))) warn('Moodle shows matches as plain text; their HTML formatting was removed.');
+      pairs.forEach(pair => answers.push(`=${escapeGift(pair.choiceText)} -> ${escapeGift(stripHtml(pair.matchText ?? ''))}`));
+      break;
+    }
+
+    case 'WR':
+      if (question.answerKey) warn('The answer key has no GIFT equivalent and was left out.');
+      if (question.initialText) warn('Initial text for written responses has no GIFT equivalent and was left out.');
+      break;
+
+    case 'FIB': {
+      // GIFT's missing-word form places the answers where the blank is, but allows only one blank
+      const blanks = blanksOf(question);
+      if (blanks.length !== 1) {
+        warn(`GIFT allows one blank per question and this question has ${blanks.length}; it was left out. Export to Moodle XML to keep it as a Cloze question.`);
+        return null;
+      }
+      const answerList = blanks[0].answers.filter(a => a.weight > 0);
+      if (answerList.some(a => a.evaluation === 'regexp')) {
+        warn('Regular expression answers have no GIFT equivalent; the expression is exported as a literal answer.');
+      } else if (answerList.some(a => a.evaluation === 'sensitive')) {
+        warn('GIFT short answers are not case-sensitive; the answer will match in any case.');
+      }
+      answerList.forEach(a => {
+        const fraction = toMoodleFraction(a.weight, warn);
+        answers.push(`=${weightPrefix(fraction === 100 ? 0 : fraction)}${escapeGift(a.text)}`);
+      });
+      [text, textAfter] = questionTextWithImage({ ...question, questionText: fillInTheBlankText(question, () => '\u0000') }).split('\u0000');
+      break;
+    }
+  }
+  if (question.feedback) answers.push(`####${escapeGift(question.feedback)}`);
+
+  const title = question.title ? `::${escapeGift(question.title)}::` : '';
+  const format = looksLikeHtml(text + textAfter) ? '[html]' : '';
+  const block = answers.length ? `{\n${answers.map(line => `\t${line}`).join('\n')}\n}` : '{}';
+  return `${title}${format}${escapeGift(text)}${block}${escapeGift(textAfter)}`;
+}
+
+export async function exportGift(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const questions = quiz.questions
+    .map((question, idx) => serializeGiftQuestion(question, message => warn(question, idx, message)))
+    .filter((q): q is string => q !== null);
+  const text = `$CATEGORY: $course$/top/${baseName}\n\n${questions.join('\n\n')}\n`;
+  return { fileName: `${baseName}-gift.txt`, blob: new Blob([text], { type: 'text/plain' }), warnings };
+}
+
+// --- Import ---
+
+// Position of the first occurrence of any of the characters that isn't escaped with a backslash
+const indexOfUnescaped = (text: string, chars: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (chars.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+const indexOfUnescapedString = (text: string, search: string, from = 0): number => {
+  for (let i = from; i <= text.length - search.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text.startsWith(search, i)) return i;
+  }
+  return -1;
+};
+
+const unescapeGift = (text: string): string => text.replace(/\\(.)/g, (_, ch: string) => (ch === 'n' ? '\n' : ch)).trim();
+
+const splitUnescaped = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let end = indexOfUnescaped(text, separator); end >= 0; end = indexOfUnescaped(text, separator, start)) {
+    parts.push(text.slice(start, end));
+    start = end + 1;
+  }
+  return [...parts, text.slice(start)];
+};
+
+// Splits "text#feedback" at the first unescaped #
+const splitFeedback = (text: string): { text: string; feedback?: string } => {
+  const hash = indexOfUnescaped(text, '#');
+  if (hash < 0) return { text: unescapeGift(text) };
+  const feedback = unescapeGift(text.slice(hash + 1));
+  return { text: unescapeGift(text.slice(0, hash)), ...(feedback ? { feedback } : {}) };
+};
+
+interface GiftAnswer {
+  correct: boolean; // Written with = rather than ~
+  weight?: number; // From a %n% prefix
+  text: string;
+  feedback?: string;
+}
+
+const parseAnswers = (block: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let start = indexOfUnescaped(block, '=~');
+  while (start >= 0) {
+    const next = indexOfUnescaped(block, '=~', start + 1);
+    let body = block.slice(start + 1, next < 0 ? undefined : next).trim();
+    const weightMatch = /^%(-?\d+(?:\.\d+)?)%/.exec(body);
+    if (weightMatch) body = body.slice(weightMatch[0].length);
+    answers.push({
+      correct: block[start] === '=',
+      ...(weightMatch ? { weight: parseFloat(weightMatch[1]) } : {}),
+      ...splitFeedback(body),
+    });
+    start = next;
+  }
+  return answers;
+};
+
+const creditOf = (answer: GiftAnswer): number => answer.weight ?? (answer.correct ? 100 : 0);
+
+const TRUE_FALSE_PATTERN = /^(T|TRUE|F|FALSE)\b/i;
+
+// Reads the questions of GIFT files. Numerical and description questions are reported and skipped.
+export function importGift(documents: QuizDocument[]): ParseResult {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+  let itemNumber = 0;
+
+  for (const document of documents) {
+    // Comment lines are dropped first; questions are then separated by blank lines
+    const paragraphs = document.content
+      .replace(/^﻿/, '')
+      .split(/\r?\n/)
+      .filter(line => !line.trim().startsWith('//'))
+      .join('\n')
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean);
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.startsWith('$CATEGORY:')) continue;
+      itemNumber++;
+
+      let rest = paragraph;
+      let title = '';
+      if (rest.startsWith('::')) {
+        const end = indexOfUnescapedString(rest, '::', 2);
+        if (end > 0) {
+          title = unescapeGift(rest.slice(2, end));
+          rest = rest.slice(end + 2).trim();
+        }
+      }
+      const source = `${document.path}, question ${title || itemNumber}`;
+      const questionIndex = questions.length;
+      const lossy = (message: string) => report('warning', 'lossy-import', message, source, questionIndex);
+
+      const formatMatch = /^\[(html|moodle|plain|markdown)\]/i.exec(rest);
+      if (formatMatch) rest = rest.slice(formatMatch[0].length);
+
+      const open = indexOfUnescaped(rest, '{');
+      const close = open < 0 ? -1 : indexOfUnescaped(rest, '}', open + 1);
+      if (open < 0) {
+        report('info', 'unsupported-item', 'Text without an answer block is a description and was skipped.', source);
+        continue;
+      }
+      if (close < 0) {
+        report('error', 'record-error', 'The answer block has no closing brace; the question was skipped.', source);
+        continue;
+      }
+
+      // Text after the answers makes a "missing word" question; the blank marks where the answer goes
+      const before = unescapeGift(rest.slice(0, open));
+      const after = unescapeGift(rest.slice(close + 1));
+      const { questionText, image } = splitQuestionImage(after ? `${before} _____ ${after}` : before);
+
+      let block = rest.slice(open + 1, close).trim();
+      let generalFeedback: string | undefined;
+      const feedbackStart = indexOfUnescapedString(block, '####');
+      if (feedbackStart >= 0) {
+        generalFeedback = unescapeGift(block.slice(feedbackStart + 4)) || undefined;
+        block = block.slice(0, feedbackStart).trim();
+      }
+
+      const base = {
+        title: title || titleFromText(questionText),
+        questionText,
+        points: 1,
+        ...(image ? { image } : {}),
+        ...(generalFeedback ? { feedback: generalFeedback } : {}),
+      };
+
+      let question: Question;
+      if (!block) {
+        question = { ...base, type: 'WR' } as WrittenResponseQuestion;
+      } else if (block.startsWith('#')) {
+        report('error', 'unsupported-item', 'Numerical questions are not supported and were skipped.', source);
+        continue;
+      } else if (TRUE_FALSE_PATTERN.test(block)) {
+        const isTrue = block[0].toUpperCase() === 'T';
+        // Feedback for a wrong answer comes first, then for the right one: {T#wrong#right}
+        const [, wrongFeedback, rightFeedback] = splitUnescaped(block, '#').map(unescapeGift);
+        const optionFor = (side: boolean) => {
+          const feedback = side === isTrue ? rightFeedback : wrongFeedback;
+          return {
+            isTrue: side,
+            credit: side === isTrue ? 100 : 0,
+            htmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        };
+        question = { ...base, type: 'TF', trueOption: optionFor(true), falseOption: optionFor(false) } as TrueFalseQuestion;
+      } else {
+        const answers = parseAnswers(block);
+        const isMatching = answers.length > 0 && answers.every(a => a.correct && a.text.includes('->'));
+        if (isMatching) {
+          const parts = answers.map(a => {
+            const arrow = a.text.indexOf('->');
+            return { choice: a.text.slice(0, arrow).trim(), match: a.text.slice(arrow + 2).trim() };
+          });
+          const distractors = parts.filter(part => !part.choice);
+          if (distractors.length > 0) lossy(`${distractors.length} extra match${distractors.length !== 1 ? 'es' : ''} without a choice could not be kept.`);
+          const pairs = parts
+            .filter(part => part.choice)
+            .map((part, idx) => ({ choiceNo: idx + 1, choiceText: part.choice, matchText: part.match }));
+          question = { ...base, type: 'M', pairs, scoring: 'EquallyWeighted' } as MatchingQuestion;
+        } else if (answers.length > 0 && answers.every(a => a.correct) && after) {
+          // A short answer in the middle of the text is a single blank, e.g. "Ottawa is the capital of {=Canada}."
+          if (answers.some(a => a.feedback)) lossy('Per-answer feedback has no Fill in the Blanks equivalent and was left out.');
+          const blankAnswers = answers
+            .filter(a => creditOf(a) > 0)
+            .map(a => ({ text: a.text, weight: Math.min(100, creditOf(a)), evaluation: 'insensitive' as const }));
+          const parts: (FIBText | FIBBlank)[] = [];
+          const textBefore = splitQuestionImage(before).questionText.trim();
+          if (textBefore) parts.push({ type: 'text', text: textBefore, htmlFlag: looksLikeHtml(textBefore) });
+          parts.push({ type: 'blank', answers: blankAnswers });
+          if (after.trim()) parts.push({ type: 'text', text: after.trim(), htmlFlag: looksLikeHtml(after) });
+          question = { ...base, type: 'FIB', questionText: '', parts } as FillInTheBlankQuestion;
+        } else if (answers.length > 0 && answers.every(a => a.correct)) {
+          const accepted = answers.filter(a => creditOf(a) >= 100).map(a => a.text);
+          const partial = answers.length - accepted.length;
+          if (partial > 0) lossy(`${partial} partial-credit answer${partial !== 1 ? 's were' : ' was'} left out.`);
+          if (answers.some(a => a.feedback)) lossy('Per-answer feedback has no Short Answer equivalent and was left out.');
+          question = {
+            ...base,
+            type: 'SA',
+            ...(accepted.length ? moodleShortAnswer(accepted, false) : { bestAnswer: '', evaluation: 'insensitive' }),
+            inputBox: { rows: 1, cols: 40 },
+          } as ShortAnswerQuestion;
+        } else if (!answers.some(a => creditOf(a) >= 100) && answers.filter(a => creditOf(a) > 0).length > 1) {
+          // Several partly right answers and none fully right: Moodle treats this as "multiple answers"
+          const options = answers.map(a => ({
+            text: a.text,
+            weight: creditOf(a) > 0 ? 1 : 0,
+            htmlFlag: looksLikeHtml(a.text),
+            feedbackHtmlFlag: !!a.feedback && looksLikeHtml(a.feedback),
+            ...(a.feedback ? { feedback: a.feedback } : {}),
+          }));
+          const scoring = answers.some(a => creditOf(a) < 0) ? 'RightMinusWrong' : 'RightAnswers';
+          question = { ...base, type: 'MS', options, scoring } as MultiSelectQuestion;
+        } else {
+          if (answers.some(a => creditOf(a) < 0)) lossy('Negative grades for wrong choices were dropped; Multiple Choice credit starts at 0%.');
+          const options = answers.map(a => ({
+            text: a.text,
+            percent: roundScore(Math.max(0, creditOf(a))),
+            htmlFlag: looksLikeHtml(a.text),
+            feedbackHtmlFlag: !!a.feedback && looksLikeHtml(a.feedback),
+            ...(a.feedback ? { feedback: a.feedback } : {}),
+          }));
+          question = { ...base, type: 'MC', options } as MultipleChoiceQuestion;
+        }
+      }
+      questions.push(question);
+    }
+  }
+
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.questionIndex !== undefined) diagnostic.questionTitle = questions[diagnostic.questionIndex]?.title;
+  });
+  return { quiz: { questions }, diagnostics };
+}
@@ -0,0 +1,143 @@
+import type { Quiz, ParseResult } from '@/types/quiz';
+import type { QuizAsset, QuizBundle } from '@/lib/assets';
+import { isCsvPath, isXmlPath, isTextQuizPath, isMarkdownPath, basename } from '@/lib/assets';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { serializeQuizCsv } from '@/lib/csvSerializer';
+import type { ExportResult } from '@/lib/formats/conversion';
+import { xmlRootName } from '@/lib/formats/xml';
+import { importQtiDocuments, exportQti12Package, exportQti21Package } from '@/lib/formats/qtiPackage';
+import { importMoodleXml, exportMoodleXml } from '@/lib/formats/moodleXml';
+import { importGift, exportGift } from '@/lib/formats/gift';
+import { exportCanvasPackage } from '@/lib/formats/canvas';
+import { exportBlackboardPool } from '@/lib/formats/blackboard';
+import { importMarkdown, exportMarkdown } from '@/lib/formats/markdown';
+import { importAiken, exportAiken, looksLikeAiken } from '@/lib/formats/aiken';
+
+export type { ExportResult, ConversionWarning } from '@/lib/formats/conversion';
+
+// Canvas and Blackboard are export-only; Canvas packages are read back as QTI 1.2
+export type QuizFormat = 'csv' | 'qti12' | 'qti21' | 'moodle' | 'gift' | 'canvas' | 'blackboard' | 'markdown' | 'aiken';
+
+export const QUIZ_FORMAT_LABELS: Record<QuizFormat, string> = {
+  csv: 'Brightspace CSV',
+  qti12: 'QTI 1.2',
+  qti21: 'QTI 2.1',
+  moodle: 'Moodle XML',
+  gift: 'GIFT',
+  canvas: 'Canvas QTI',
+  blackboard: 'Blackboard pool',
+  markdown: 'Markdown',
+  aiken: 'Aiken',
+};
+
+export interface ImportResult extends ParseResult {
+  format: QuizFormat;
+  assets?: QuizAsset[]; // Media embedded in the imported file itself (Moodle XML)
+}
+
+export interface QuizExporter {
+  format: QuizFormat;
+  label: string;
+  description: string;
+  export: (quiz: Quiz, baseName: string) => Promise<ExportResult>;
+}
+
+export const QUIZ_EXPORTERS: QuizExporter[] = [
+  {
+    format: 'csv',
+    label: 'Brightspace CSV',
+    description: 'Question library CSV for Brightspace import',
+    export: async (quiz, baseName) => ({
+      fileName: `${baseName}.csv`,
+      blob: new Blob([serializeQuizCsv(quiz)], { type: 'text/csv' }),
+      warnings: [],
+    }),
+  },
+  {
+    format: 'qti12',
+    label: 'QTI 1.2 package',
+    description: 'IMS QTI 1.2 question bank, as Brightspace exports it',
+    export: exportQti12Package,
+  },
+  {
+    format: 'qti21',
+    label: 'QTI 2.1 package',
+    description: 'IMS QTI 2.1 content package with one file per item',
+    export: exportQti21Package,
+  },
+  {
+    format: 'moodle',
+    label: 'Moodle XML',
+    description: 'Moodle XML file for a Moodle question bank',
+    export: exportMoodleXml,
+  },
+  {
+    format: 'gift',
+    label: 'GIFT',
+    description: "Moodle's plain-text question format",
+    export: exportGift,
+  },
+  {
+    format: 'canvas',
+    label: 'Canvas QTI package',
+    description: 'Canvas quiz export ZIP with assessment_meta.xml',
+    export: exportCanvasPackage,
+  },
+  {
+    format: 'blackboard',
+    label: 'Blackboard pool',
+    description: 'Tab-delimited file for Blackboard question upload',
+    export: exportBlackboardPool,
+  },
+  {
+    format: 'markdown',
+    label: 'Markdown',
+    description: 'QuizView Markdown, for editing by hand or in the editor',
+    export: exportMarkdown,
+  },
+  {
+    format: 'aiken',
+    label: 'Aiken',
+    description: 'Plain-text multiple choice questions',
+    export: exportAiken,
+  },
+];
+
+// File name without its extension, used to name exports after the uploaded bank
+export const baseNameOf = (fileName: string): string => basename(fileName).replace(/\.[^.]+$/, '') || 'quiz';
+
+// Picks the importer for an upload: a Brightspace CSV, Moodle XML, a plain-text format (Markdown, Aiken, GIFT),
+// or QTI XML (single files or a package)
+export function importQuizBundle(bundle: QuizBundle): ImportResult {
+  const csvDocuments = bundle.documents.filter(doc => isCsvPath(doc.path));
+  if (csvDocuments.length > 1) {
+    throw new Error(`Found ${csvDocuments.length} CSV files (${csvDocuments.map(doc => basename(doc.path)).join(', ')}); upload one quiz at a time.`);
+  }
+  if (csvDocuments.length === 1) {
+    return { ...parseQuizCsv(csvDocuments[0].content), format: 'csv' };
+  }
+  // Canvas packages carry a <quiz> too (assessment_meta.xml), but without any <question>
+  const moodleDocuments = bundle.documents.filter(doc => isXmlPath(doc.path) && xmlRootName(doc.content) === 'quiz' && /<question[\s>]/.test(doc.content));
+  if (moodleDocuments.length > 0) {
+    return { ...importMoodleXml(moodleDocuments), format: 'moodle' };
+  }
+  // Text files inside a QTI package are readmes, not questions
+  const textDocuments = bundle.documents.filter(doc => isTextQuizPath(doc.path));
+  if (textDocuments.length > 0 && !bundle.documents.some(doc => isXmlPath(doc.path))) {
+    if (textDocuments.some(doc => isMarkdownPath(doc.path))) {
+      return { ...importMarkdown(textDocuments.filter(doc => isMarkdownPath(doc.path))), format: 'markdown' };
+    }
+    if (textDocuments.every(doc => looksLikeAiken(doc.content))) {
+      return { ...importAiken(textDocuments), format: 'aiken' };
+    }
+    return { ...importGift(textDocuments), format: 'gift' };
+  }
+  const { version, ...result } = importQtiDocuments(bundle.documents.filter(doc => isXmlPath(doc.path)));
+  return { ...result, format: version === '1.2' ? 'qti12' : 'qti21' };
+}
+
+// Like importQuizBundle, for callers that need the whole quiz at once: a CSV the upload left unread is read first
+export async function readQuizBundle(bundle: QuizBundle): Promise<ImportResult> {
+  if (bundle.csvFile) return { ...parseQuizCsv(await bundle.csvFile.text()), format: 'csv' };
+  return importQuizBundle(bundle);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Question } from '@/types/quiz';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportMarkdown, importMarkdown } from '@/lib/formats/markdown';
+
+const read = (content: string) => importMarkdown([{ path: 'quiz.md', content }]);
+
+describe('importMarkdown', () => {
+  it('rejects a declared type the format cannot describe and says so', () => {
+    const { quiz, diagnostics } = read([
+      '# Survey',
+      'type: LIK',
+      '',
+      'How useful was the lab?',
+      '',
+      '# Mixture',
+      'type: ARITH',
+      '',
+      'What is 2 + 2?',
+      '',
+      '- [x] 4',
+      '- [ ] 5',
+    ].join('\n'));
+    expect(quiz.questions.map(question => question.type)).toEqual(['WR', 'MC']);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.questionIndex, diagnostic.message])).toEqual([
+      ['warning', 0, 'Likert questions cannot be written in Markdown; the type was inferred as WR.'],
+      ['warning', 1, 'Arithmetic questions cannot be written in Markdown; the type was inferred as MC.'],
+    ]);
+  });
+
+  it('keeps a declared type it can build', () => {
+    const { quiz, diagnostics } = read('# Essay\ntype: wr\n\nDescribe a cell.\n\n- [x] Not an option here\n');
+    expect(quiz.questions[0].type).toBe('WR');
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'ID,WR-1', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,3', 'Hint,Think of disorder',
+  'Feedback,See chapter 4', 'InitialText,Start here', 'AnswerKey,Disorder increases', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'InputBox,1,40', 'Answer,100,neon,sensitive', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,1', 'Scoring,AllOrNothing',
+  'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'Title,Choice', 'QuestionText,<p>Pick the <b>metal</b>.</p>,HTML', 'Points,2', 'Difficulty,2',
+  'Option,100,Iron,,Right', 'Option,50,Mercury', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,1', 'TRUE,100,Yes', 'FALSE,0', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,1', 'Scoring,AllOrNothing',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Scoring,EquallyWeighted', 'Item,H,,lightest', 'Item,He', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,1', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Text,.', '',
+].join('\n')).quiz;
+
+// The model without the CSV bookkeeping, the question-level HTML flags and unset fields, to compare with what an
+// importer builds
+const modelOf = (question: Question) => {
+  const { rawRows: _rawRows, questionTextHtmlFlag: _text, feedbackHtmlFlag: _feedback, answerKeyHtmlFlag: _answerKey, ...model } =
+    question as Question & { answerKeyHtmlFlag?: boolean };
+  return JSON.parse(JSON.stringify(model));
+};
+
+describe('exportMarkdown', () => {
+  it('writes every type the format has so importMarkdown reads it back', async () => {
+    const result = await exportMarkdown(BANK, 'bank');
+    expect(result.fileName).toBe('bank.md');
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [7, 'Fill-in-the-blank questions have no Markdown equivalent; exported as a Written Response with the accepted answers as its answer key.'],
+    ]);
+
+    const markdown = await result.blob.text();
+    expect(markdown).toContain('# Choice\ntype: MC\npoints: 2\ndifficulty: 2\n\n<p>Pick the <b>metal</b>.</p>\n\n- [x] Iron\n  > Right\n- [50%] Mercury\n- [ ] Oxygen\n');
+    const { quiz, diagnostics } = read(markdown);
+    expect(diagnostics).toEqual([]);
+    expect(quiz.questions.slice(0, 7).map(modelOf)).toEqual(BANK.questions.slice(0, 7).map(modelOf));
+    expect(quiz.questions[7]).toMatchObject({ type: 'WR', questionText: 'The capital of France is [blank 1].', answerKey: '[blank 1] Paris' });
+  });
+});
@@ -0,0 +1,364 @@
+import type {
+  Quiz,
+  Question,
+  QuestionType,
+  WrittenResponseQuestion,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  OrderingQuestion,
+  ParseResult,
+} from '@/types/quiz';
+import type { QuizDocument } from '@/lib/assets';
+import { looksLikeHtml } from '@/lib/html';
+import { markdownToHtml, inlineMarkdown } from '@/lib/markdown';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { blanksOf, fillInTheBlankText } from '@/lib/fillInTheBlank';
+import { createWarningLog, createImportLog, titleFromText, toWrittenResponse } from '@/lib/formats/conversion';
+import type { ExportResult } from '@/lib/formats/conversion';
+
+// QuizView's Markdown authoring format. A heading starts each question; "key: value" lines right below it
+// set its properties, the paragraphs that follow are the question text, and lists hold the answers:
+//
+//   # Atoms
+//   points: 2
+//   hint: Think small
+//
+//   What is the **smallest** unit of matter?
+//
+//   - [x] Atom
+//     > Correct!
+//   - [ ] Molecule
+//   - [50%] Nucleus
+//
+// "- [x]" marks a correct option (several make a Multi-Select), "- A -> B" lines make a Matching question,
+// a numbered list an Ordering question, and "answer:" a Short Answer (or True/False for true/false).
+// Without answers the question is a Written Response. "type:" overrides the inferred type with one of these.
+
+const PROPERTY_KEYS = ['type', 'id', 'points', 'difficulty', 'image', 'hint', 'feedback', 'scoring', 'answer', 'evaluation', 'key', 'initial'] as const;
+type PropertyKey = typeof PROPERTY_KEYS[number];
+
+// --- Import ---
+
+const HEADING_PATTERN = /^#{1,3}\s+(.*?)\s*#*\s*$/;
+const PROPERTY_PATTERN = /^([a-z]+)\s*:\s*(.*)$/i;
+const OPTION_PATTERN = /^\s*[-*+]\s+\[\s*(x|X|-?\d+(?:\.\d+)?%?|)\s*\]\s+(.*)$/;
+const PAIR_PATTERN = /^\s*[-*+]\s+(.+?)\s+->\s+(.+)$/;
+const ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const FEEDBACK_PATTERN = /^\s+>\s?(.*)$/;
+
+interface AnswerLine {
+  kind: 'option' | 'pair' | 'item';
+  mark?: string; // Checkbox content of an option: 'x', '' or a percentage
+  text: string;
+  match?: string;
+  feedback?: string;
+}
+
+interface Block {
+  title: string;
+  line: number; // 1-based line of the heading
+  properties: Partial<Record<PropertyKey, string>>;
+  // Body lines in order; answer and feedback lines point at the answer they belong to
+  lines: { text: string; answer?: AnswerLine }[];
+  answers: AnswerLine[];
+}
+
+// Rich text for option and feedback lines: HTML only when the Markdown actually produced some
+const inlineText = (text: string): string => inlineMarkdown(text.trim());
+
+const optionPercent = (mark: string): number => (mark.toLowerCase() === 'x' ? 100 : parseFloat(mark) || 0);
+
+// The types the format can describe; the others (e.g. Likert or Arithmetic) have no syntax for their parts
+const MARKDOWN_TYPES: QuestionType[] = ['WR', 'SA', 'M', 'MC', 'TF', 'MS', 'O'];
+
+const inferType = (block: Block): QuestionType => {
+  const { answers, properties } = block;
+  const declared = properties.type?.toUpperCase();
+  if (declared && (MARKDOWN_TYPES as string[]).includes(declared)) return declared as QuestionType;
+  if (answers.some(a => a.kind === 'pair')) return 'M';
+  const options = answers.filter(a => a.kind === 'option');
+  if (options.length > 0) {
+    const texts = options.map(o => o.text.trim().toLowerCase());
+    if (texts.length === 2 && texts.includes('true') && texts.includes('false')) return 'TF';
+    return options.filter(o => o.mark?.toLowerCase() === 'x').length > 1 ? 'MS' : 'MC';
+  }
+  if (answers.some(a => a.kind === 'item')) return 'O';
+  if (properties.answer !== undefined) return /^(true|false)$/i.test(properties.answer) ? 'TF' : 'SA';
+  return 'WR';
+};
+
+const ANSWER_KINDS: Partial<Record<QuestionType, AnswerLine['kind']>> = { MC: 'option', MS: 'option', TF: 'option', M: 'pair', O: 'item' };
+
+// Splits the document into question blocks at headings, leaving code fences intact
+const readBlocks = (content: string): { blocks: Block[]; preamble: boolean } => {
+  const blocks: Block[] = [];
+  let preamble = false;
+  let current: Block | null = null;
+  let inProperties = false;
+  let inFence = false;
+
+  content.replace(/^﻿/, '').split(/\r?\n/).forEach((line, idx) => {
+    const heading = inFence ? null : HEADING_PATTERN.exec(line);
+    if (heading) {
+      current = { title: heading[1], line: idx + 1, properties: {}, lines: [], answers: [] };
+      blocks.push(current);
+      inProperties = true;
+      return;
+    }
+    if (!current) {
+      if (line.trim()) preamble = true;
+      return;
+    }
+    if (line.trim().startsWith('```')) inFence = !inFence;
+
+    const property = inProperties && !inFence ? PROPERTY_PATTERN.exec(line) : null;
+    if (property && (PROPERTY_KEYS as readonly string[]).includes(property[1].toLowerCase())) {
+      current.properties[property[1].toLowerCase() as PropertyKey] = property[2].trim();
+      return;
+    }
+    inProperties = false;
+
+    const option = inFence ? null : OPTION_PATTERN.exec(line);
+    const pair = inFence || option ? null : PAIR_PATTERN.exec(line);
+    const item = inFence || option || pair ? null : ITEM_PATTERN.exec(line);
+    const feedback = inFence ? null : FEEDBACK_PATTERN.exec(line);
+    let answer: AnswerLine | undefined;
+    if (option) answer = { kind: 'option', mark: option[1], text: option[2] };
+    else if (pair) answer = { kind: 'pair', text: pair[1], match: pair[2] };
+    else if (item) answer = { kind: 'item', text: item[1] };
+    if (answer) {
+      current.answers.push(answer);
+      current.lines.push({ text: line, answer });
+      return;
+    }
+    const lastAnswer = current.lines[current.lines.length - 1]?.answer;
+    if (feedback && lastAnswer) {
+      lastAnswer.feedback = lastAnswer.feedback ? `${lastAnswer.feedback}\n${feedback[1]}` : feedback[1];
+      current.lines.push({ text: line, answer: lastAnswer });
+    } else {
+      current.lines.push({ text: line });
+    }
+  });
+  return { blocks, preamble };
+};
+
+// Reads questions written in the Markdown authoring format
+export function importMarkdown(documents: QuizDocument[]): ParseResult {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+
+  for (const document of documents) {
+    const { blocks, preamble } = readBlocks(document.content);
+    if (preamble) report('info', 'unrecognized-row', 'Text before the first heading was ignored; each question starts with a heading.', document.path);
+
+    for (const block of blocks) {
+      const source = `${document.path}, line ${block.line}`;
+      const questionIndex = questions.length;
+      const { properties } = block;
+      const warn = (message: string) => report('warning', 'record-error', message, source, questionIndex);
+
+      const type = inferType(block);
+      const declared = properties.type?.toUpperCase();
+      if (declared && declared !== type) {
+        warn((QUESTION_TYPES as string[]).includes(declared)
+          ? `${QUESTION_TYPE_LABELS[declared as QuestionType]} questions cannot be written in Markdown; the type was inferred as ${type}.`
+          : `Unknown type "${properties.type}"; the type was inferred as ${type}.`);
+      }
+      // List lines that don't hold this type's answers (e.g. a numbered list in an MC question) stay in the question text
+      const answerKind = ANSWER_KINDS[type];
+      const answers = block.answers.filter(a => a.kind === answerKind);
+      const textLines = block.lines.filter(line => !line.answer || line.answer.kind !== answerKind).map(line => line.text);
+
+      const questionText = markdownToHtml(textLines.join('\n'));
+      const points = properties.points !== undefined ? parseFloat(properties.points) : 1;
+      const difficulty = properties.difficulty !== undefined ? parseInt(properties.difficulty, 10) : undefined;
+      if (Number.isNaN(points)) warn(`Points "${properties.points}" is not a number; 1 point was used.`);
+
+      const base = {
+        title: block.title || titleFromText(questionText),
+        questionText,
+        points: Number.isNaN(points) ? 1 : points,
+        ...(properties.id ? { id: properties.id } : {}),
+        ...(difficulty !== undefined && !Number.isNaN(difficulty) ? { difficulty } : {}),
+        ...(properties.image ? { image: properties.image } : {}),
+        ...(properties.hint ? { hint: inlineText(properties.hint) } : {}),
+        ...(properties.feedback ? { feedback: inlineText(properties.feedback) } : {}),
+      };
+      const optionFeedback = (answer: AnswerLine) => {
+        const feedback = answer.feedback ? inlineText(answer.feedback) : undefined;
+        return { feedbackHtmlFlag: !!feedback && looksLikeHtml(feedback), ...(feedback ? { feedback } : {}) };
+      };
+
+      let question: Question;
+      switch (type) {
+        case 'MC': {
+          const options = answers.map(a => {
+            const text = inlineText(a.text);
+            return { text, percent: optionPercent(a.mark ?? ''), htmlFlag: looksLikeHtml(text), ...optionFeedback(a) };
+          });
+          question = { ...base, type: 'MC', options } as MultipleChoiceQuestion;
+          break;
+        }
+
+        case 'MS': {
+          const options = answers.map(a => {
+            const text = inlineText(a.text);
+            return { text, weight: optionPercent(a.mark ?? '') > 0 ? 1 : 0, htmlFlag: looksLikeHtml(text), ...optionFeedback(a) };
+          });
+          question = { ...base, type: 'MS', options, scoring: properties.scoring ?? 'RightAnswers' } as MultiSelectQuestion;
+          break;
+        }
+
+        case 'TF': {
+          const optionFor = (isTrue: boolean) => {
+            const line = answers.find(a => a.text.trim().toLowerCase() === String(isTrue));
+            const correct = line ? optionPercent(line.mark ?? '') : (properties.answer?.toLowerCase() === String(isTrue) ? 100 : 0);
+            const feedback = line?.feedback ? inlineText(line.feedback) : undefined;
+            return { isTrue, credit: correct, htmlFlag: !!feedback && looksLikeHtml(feedback), ...(feedback ? { feedback } : {}) };
+          };
+          question = { ...base, type: 'TF', trueOption: optionFor(true), falseOption: optionFor(false) } as TrueFalseQuestion;
+          break;
+        }
+
+        case 'M': {
+          const pairs = answers.map((a, idx) => ({ choiceNo: idx + 1, choiceText: inlineText(a.text), matchText: inlineText(a.match ?? '') }));
+          question = { ...base, type: 'M', pairs, scoring: properties.scoring ?? 'EquallyWeighted' } as MatchingQuestion;
+          break;
+        }
+
+        case 'O': {
+          const items = answers.map(a => {
+            const text = inlineText(a.text);
+            return { text, htmlFlag: looksLikeHtml(text), ...optionFeedback(a) };
+          });
+          question = { ...base, type: 'O', items, scoring: properties.scoring ?? 'EquallyWeighted' } as OrderingQuestion;
+          break;
+        }
+
+        case 'SA':
+          question = {
+            ...base,
+            type: 'SA',
+            bestAnswer: properties.answer ?? '',
+            evaluation: properties.evaluation ?? 'insensitive',
+            inputBox: { rows: 1, cols: 40 },
+          } as ShortAnswerQuestion;
+          break;
+
+        case 'WR':
+        default:
+          question = {
+            ...base,
+            type: 'WR',
+            ...(properties.key ? { answerKey: inlineText(properties.key) } : {}),
+            ...(properties.initial ? { initialText: properties.initial } : {}),
+          } as WrittenResponseQuestion;
+          break;
+      }
+      questions.push(question);
+    }
+  }
+
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.questionIndex !== undefined) diagnostic.questionTitle = questions[diagnostic.questionIndex]?.title;
+  });
+  return { quiz: { questions }, diagnostics };
+}
+
+// --- Export ---
+
+// Property values live on one line
+const propertyValue = (text: string): string => text.replace(/\s*\r?\n\s*/g, ' ').trim();
+
+const feedbackLines = (feedback: string | undefined): string[] =>
+  feedback ? feedback.split(/\r?\n/).map(line => `  > ${line}`) : [];
+
+// Writes a question in the Markdown authoring format. HTML is kept as is, which Markdown allows.
+export function serializeMarkdownQuestion(question: Question, questionIndex: number, warn: (message: string) => void): string {
+  question = toWrittenResponse(question, 'Markdown', warn);
+  const singleLine = (text: string): string => {
+    if (/\n/.test(text.trim())) warn('Line breaks in answers and properties were replaced with spaces.');
+    return propertyValue(text);
+  };
+  if (/^#{1,3}\s/m.test(question.questionText ?? '')) {
+    warn('A line of the question text starts like a heading and will start a new question when the file is read back.');
+  }
+
+  const properties: [PropertyKey, string | number | undefined][] = [
+    ['type', question.type],
+    ['id', question.id],
+    ['points', question.points],
+    ['difficulty', question.difficulty],
+    ['image', question.image],
+    ['hint', question.hint],
+    ['feedback', question.feedback],
+  ];
+  const answers: string[] = [];
+  let text = question.questionText ?? '';
+
+  switch (question.type) {
+    case 'MC':
+      (question.options ?? []).forEach(option => {
+        const mark = option.percent >= 100 ? 'x' : option.percent > 0 ? `${option.percent}%` : ' ';
+        answers.push(`- [${mark}] ${singleLine(option.text)}`, ...feedbackLines(option.feedback));
+      });
+      break;
+    case 'MS':
+      properties.push(['scoring', question.scoring]);
+      (question.options ?? []).forEach(option => {
+        answers.push(`- [${option.weight > 0 ? 'x' : ' '}] ${singleLine(option.text)}`, ...feedbackLines(option.feedback));
+      });
+      break;
+    case 'TF':
+      [question.trueOption, question.falseOption].forEach((option, idx) => {
+        const mark = (option?.credit ?? 0) >= 100 ? 'x' : (option?.credit ?? 0) > 0 ? `${option?.credit}%` : ' ';
+        answers.push(`- [${mark}] ${idx === 0 ? 'True' : 'False'}`, ...feedbackLines(option?.feedback));
+      });
+      break;
+    case 'M':
+      properties.push(['scoring', question.scoring]);
+      (question.pairs ?? []).forEach(pair => answers.push(`- ${singleLine(pair.choiceText)} -> ${singleLine(pair.matchText ?? '')}`));
+      break;
+    case 'O':
+      properties.push(['scoring', question.scoring]);
+      (question.items ?? []).forEach((item, idx) => answers.push(`${idx + 1}. ${singleLine(item.text)}`, ...feedbackLines(item.feedback)));
+      break;
+    case 'SA':
+      properties.push(['answer', question.bestAnswer], ['evaluation', question.evaluation]);
+      if (question.inputBox && (question.inputBox.rows !== 1 || question.inputBox.cols !== 40)) {
+        warn('The input box size has no Markdown equivalent; the default 1 × 40 box will be used.');
+      }
+      break;
+    case 'WR':
+      properties.push(['key', question.answerKey], ['initial', question.initialText]);
+      break;
+    case 'FIB':
+      // Markdown has no blanks, so the question is kept readable as a Written Response keyed with the answers
+      properties[0] = ['type', 'WR'];
+      properties.push(['key', blanksOf(question).map((blank, idx) => `[blank ${idx + 1}] ${blank.answers.map(answer => answer.text).join(' / ')}`).join('; ')]);
+      text = fillInTheBlankText(question, (_, idx) => `[blank ${idx + 1}]`);
+      warn('Fill-in-the-blank questions have no Markdown equivalent; exported as a Written Response with the accepted answers as its answer key.');
+      break;
+  }
+
+  return [
+    `# ${propertyValue(question.title || `Question ${questionIndex + 1}`)}`,
+    ...properties.filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => `${key}: ${propertyValue(String(value))}`),
+    '',
+    text,
+    ...(answers.length ? ['', ...answers] : []),
+  ].join('\n');
+}
+
+export function serializeQuizMarkdown(quiz: Quiz, warn: (question: Question, questionIndex: number, message: string) => void = () => {}): string {
+  const questions = quiz.questions.map((question, idx) => serializeMarkdownQuestion(question, idx, message => warn(question, idx, message)));
+  return `${questions.join('\n\n')}\n`;
+}
+
+export async function exportMarkdown(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  return { fileName: `${baseName}.md`, blob: new Blob([serializeQuizMarkdown(quiz, warn)], { type: 'text/markdown' }), warnings };
+}
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { Question } from '@/types/quiz';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportMoodleXml, importMoodleXml } from '@/lib/formats/moodleXml';
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,3', 'InitialText,Start here', 'AnswerKey,Disorder', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'Answer,100,neon,sensitive', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,1', 'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'ID,MC-1', 'Title,Choice', 'QuestionText,Pick the metal.', 'Points,2', 'Image,images/iron.png',
+  'Option,100,Iron,,Right', 'Option,50,Mercury', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,1', 'TRUE,100,Yes', 'FALSE,0,No', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,1', 'Scoring,RightMinusWrong',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Item,H', 'Item,He', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,1', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Text,.', '',
+].join('\n')).quiz;
+
+// jsdom's Blob has no text()
+const textOf = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+// The model without the CSV bookkeeping, the question-level HTML flags and unset fields, to compare with what an
+// importer builds
+const modelOf = (question: Question) => {
+  const { rawRows: _rawRows, questionTextHtmlFlag: _text, answerKeyHtmlFlag: _answerKey, ...model } = question as Question & { answerKeyHtmlFlag?: boolean };
+  return JSON.parse(JSON.stringify(model));
+};
+
+describe('Moodle XML', () => {
+  it('reads back an exported bank and reports what it left out', async () => {
+    const result = await exportMoodleXml(BANK, 'bank');
+    expect(result.fileName).toBe('bank-moodle.xml');
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual([
+      [3, 'The image images/iron.png is linked by path, not embedded; upload it to Moodle and fix the link.'],
+      [6, 'Ordering questions have no core Moodle question type and were left out.'],
+    ]);
+
+    const xml = await textOf(result.blob);
+    expect(xml).toContain('<text>The capital of France is {1:SHORTANSWER:=Paris}.</text>');
+    const { quiz, diagnostics, assets } = importMoodleXml([{ path: 'bank-moodle.xml', content: xml }]);
+    expect([diagnostics, assets]).toEqual([[], []]);
+    // Box and blank sizes aren't written, so they come back as the importer's defaults
+    expect(quiz.questions.map(modelOf)).toEqual(BANK.questions.filter(question => question.type !== 'O').map(modelOf).map(expected => {
+      if (expected.type === 'SA') expected.inputBox = { rows: 1, cols: 40 };
+      if (expected.type === 'M') expected.scoring = 'EquallyWeighted';
+      if (expected.type === 'FIB') delete expected.parts[1].size;
+      return expected;
+    }));
+  });
+
+  it('turns embedded files into assets and skips items it cannot read', () => {
+    const { quiz, diagnostics, assets } = importMoodleXml([{
+      path: 'questions-week1.xml',
+      content: `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category"><category><text>$course$/top/Week 1</text></category></question>
+  <question type="description">
+    <name><text>Read this first</text></name>
+    <questiontext format="html"><text>Answer every question.</text></questiontext>
+  </question>
+  <question type="multichoice">
+    <name><text>Red planet</text></name>
+    <questiontext format="html">
+      <text><![CDATA[<p>Which planet is shown?</p><p><img src="@@PLUGINFILE@@/mars.png" alt="planet"></p>]]></text>
+      <file name="mars.png" path="/" encoding="base64">iVBORw0KGgo=</file>
+    </questiontext>
+    <defaultgrade>2.0000000</defaultgrade>
+    <single>true</single>
+    <answer fraction="100" format="html"><text>Mars</text><feedback format="html"><text>Yes</text></feedback></answer>
+    <answer fraction="0" format="html"><text>Venus</text></answer>
+  </question>
+</quiz>`,
+    }]);
+    expect(quiz.questions).toEqual([expect.objectContaining({
+      type: 'MC',
+      title: 'Red planet',
+      questionText: 'Which planet is shown?',
+      image: 'mars.png',
+      points: 2,
+      options: [expect.objectContaining({ text: 'Mars', percent: 100, feedback: 'Yes' }), expect.objectContaining({ text: 'Venus', percent: 0 })],
+    })]);
+    expect(assets.map(asset => [asset.path, asset.blob.size])).toEqual([['mars.png', 8]]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.source, diagnostic.message])).toEqual([
+      ['info', 'questions-week1.xml, question Read this first', 'Description items hold no question and were skipped.'],
+    ]);
+  });
+});
@@ -0,0 +1,450 @@
+import type {
+  Quiz,
+  Question,
+  WrittenResponseQuestion,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  FillInTheBlankQuestion,
+  FIBText,
+  FIBBlank,
+  ParseResult,
+} from '@/types/quiz';
+import type { QuizAsset, QuizDocument } from '@/lib/assets';
+import { withMimeType } from '@/lib/assets';
+import { looksLikeHtml, stripHtml } from '@/lib/html';
+import { normalizeMultiSelectScoring } from '@/lib/scoring';
+import { blanksOf, fillInTheBlankText } from '@/lib/fillInTheBlank';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+import { XML_DECLARATION, xmlElement, xmlTextElement, parseXml, childElements, childElement, descendants, textOf } from '@/lib/formats/xml';
+import { createWarningLog, createImportLog, titleFromText, roundScore, questionTextWithImage, splitQuestionImage, toWrittenResponse } from '@/lib/formats/conversion';
+import type { ExportResult, ExportableQuestion } from '@/lib/formats/conversion';
+
+// --- Shared with GIFT ---
+
+// Moodle only accepts these answer grades (and their negatives); anything else fails its import
+const MOODLE_FRACTIONS = [100, 90, 83.33333, 80, 75, 70, 66.66667, 60, 50, 40, 33.33333, 30, 25, 20, 16.66667, 14.28571, 12.5, 11.11111, 10, 5, 0];
+
+export function toMoodleFraction(percent: number, warn: (message: string) => void): number {
+  const magnitude = Math.min(Math.abs(percent), 100);
+  const nearest = MOODLE_FRACTIONS.reduce((best, fraction) => (Math.abs(fraction - magnitude) < Math.abs(best - magnitude) ? fraction : best));
+  const fraction = percent < 0 && nearest !== 0 ? -nearest : nearest;
+  if (Math.abs(fraction - percent) > 0.01) warn(`A credit of ${roundScore(percent)}% is not a Moodle grade; exported as ${fraction}%.`);
+  return fraction;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// Moodle short answers accept several answers, with * as a wildcard. One answer without wildcards maps
+// directly; anything else becomes an anchored regular expression (letters spelled out when case doesn't matter).
+export function moodleShortAnswer(answers: string[], caseSensitive: boolean): Pick<ShortAnswerQuestion, 'bestAnswer' | 'evaluation'> {
+  if (answers.length === 1 && !answers[0].includes('*')) {
+    return { bestAnswer: answers[0], evaluation: caseSensitive ? 'sensitive' : 'insensitive' };
+  }
+  const patterns = answers.map(answer => escapeRegExp(answer)
+    .replace(/\*/g, '.*')
+    .replace(/\p{L}/gu, letter => {
+      const other = letter === letter.toLowerCase() ? letter.toUpperCase() : letter.toLowerCase();
+      return caseSensitive || other === letter || other.length !== 1 ? letter : `[${letter}${other}]`;
+    }));
+  return { bestAnswer: `^(?:${patterns.join('|')})$`, evaluation: 'regexp' };
+}
+
+// Moodle adds up the grades of the selected choices: correct ones share 100%, wrong ones take an equal share away
+export function moodleMultiSelectFractions(question: MultiSelectQuestion, warn: (message: string) => void): number[] {
+  const options = question.options ?? [];
+  const scoring = normalizeMultiSelectScoring(question.scoring);
+  if (scoring !== 'RightMinusWrong') {
+    warn(`${scoring} scoring has no Moodle equivalent; correct choices share the credit and wrong choices subtract it.`);
+  }
+  const correctCount = options.filter(option => option.weight > 0).length;
+  const wrongCount = options.length - correctCount;
+  return options.map(option => toMoodleFraction(option.weight > 0 ? 100 / correctCount : -100 / wrongCount, warn));
+}
+
+// --- Export ---
+
+const textFormat = (text: string): string => (looksLikeHtml(text) ? 'html' : 'plain_text');
+
+// A <text> wrapped in the element Moodle expects (questiontext, feedback, ...)
+const formattedText = (name: string, text: string): string =>
+  xmlElement(name, { format: textFormat(text) }, [xmlTextElement('text', {}, text)]);
+
+const answer = (fraction: number, text: string, feedback?: string): string =>
+  xmlElement('answer', { fraction, format: textFormat(text) }, [
+    xmlTextElement('text', {}, text),
+    feedback ? formattedText('feedback', feedback) : '',
+  ]);
+
+const MOODLE_TYPES: Record<Exclude<ExportableQuestion['type'], 'O'>, string> = {
+  MC: 'multichoice',
+  MS: 'multichoice',
+  TF: 'truefalse',
+  SA: 'shortanswer',
+  M: 'matching',
+  WR: 'essay',
+  FIB: 'cloze',
+};
+
+// Characters with a meaning inside a Cloze {...} answer are escaped with a backslash
+const escapeCloze = (text: string): string => text.replace(/[\\}#~/"]/g, '\\$&');
+
+const CLOZE_PATTERN = /\{(\d*):([A-Z_]+):((?:\\.|[^\\}])*)\}/g;
+const CLOZE_SHORT_ANSWER = new Set(['SHORTANSWER', 'SA', 'MW']);
+const CLOZE_SHORT_ANSWER_CASE = new Set(['SHORTANSWER_C', 'SAC', 'MWC']);
+
+// Splits a Cloze question text into Text and Blank parts. Sub-questions other than short answers keep
+// their credited answers as accepted text, which is reported as lossy.
+const parseClozeParts = (text: string, lossy: (message: string) => void): (FIBText | FIBBlank)[] => {
+  const parts: (FIBText | FIBBlank)[] = [];
+  const pushText = (fragment: string) => {
+    const trimmed = fragment.trim();
+    if (trimmed) parts.push({ type: 'text', text: trimmed, htmlFlag: looksLikeHtml(trimmed) });
+  };
+  const otherTypes = new Set<string>();
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    pushText(text.slice(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+    const clozeType = match[2].toUpperCase();
+    if (!CLOZE_SHORT_ANSWER.has(clozeType) && !CLOZE_SHORT_ANSWER_CASE.has(clozeType)) otherTypes.add(clozeType);
+    const answers = match[3].split(/(?<!\\)~/).map(answer => {
+      const [, mark, rest] = /^(=|%-?[\d.]+%)?([^]*)$/.exec(answer) ?? [];
+      const weight = mark === '=' ? 100 : parseFloat(mark?.slice(1, -1) ?? '0') || 0;
+      const answerText = (rest ?? '').split(/(?<!\\)#/)[0].replace(/\\(.)/g, '$1').trim();
+      return { text: answerText, weight: Math.min(100, roundScore(weight)), evaluation: CLOZE_SHORT_ANSWER_CASE.has(clozeType) ? 'sensitive' as const : 'insensitive' as const };
+    });
+    parts.push({ type: 'blank', answers: answers.filter(answer => answer.weight > 0 && answer.text) });
+  }
+  pushText(text.slice(last));
+  if (otherTypes.size > 0) lossy(`Cloze ${[...otherTypes].join(', ')} sub-questions were imported as blanks that accept their credited answers.`);
+  return parts;
+};
+
+export function serializeMoodleQuestion(question: Question, warn: (message: string) => void): string | null {
+  question = toWrittenResponse(question, 'Moodle XML', warn);
+  if (question.type === 'O') {
+    warn('Ordering questions have no core Moodle question type and were left out.');
+    return null;
+  }
+  if (question.image) warn(`The image ${question.image} is linked by path, not embedded; upload it to Moodle and fix the link.`);
+  if (question.difficulty !== undefined) warn('Difficulty has no Moodle equivalent and was left out.');
+
+  const body: string[] = [];
+  let questionText = questionTextWithImage(question);
+  switch (question.type) {
+    case 'MC': {
+      const options = question.options ?? [];
+      if (!options.some(option => option.percent >= 100)) warn('No choice is worth full credit, which Moodle rejects for single-answer questions.');
+      body.push(
+        xmlTextElement('single', {}, 'true'),
+        xmlTextElement('shuffleanswers', {}, 'true'),
+        xmlTextElement('answernumbering', {}, 'abc'),
+        ...options.map(option => answer(toMoodleFraction(option.percent, warn), option.text, option.feedback)),
+      );
+      break;
+    }
+
+    case 'MS': {
+      const fractions = moodleMultiSelectFractions(question, warn);
+      body.push(
+        xmlTextElement('single', {}, 'false'),
+        xmlTextElement('shuffleanswers', {}, 'true'),
+        xmlTextElement('answernumbering', {}, 'abc'),
+        ...(question.options ?? []).map((option, idx) => answer(fractions[idx], option.text, option.feedback)),
+      );
+      break;
+    }
+
+    case 'TF': {
+      const trueIsCorrect = (question.trueOption?.credit ?? 0) >= (question.falseOption?.credit ?? 0);
+      if ([question.trueOption?.credit, question.falseOption?.credit].some(credit => credit !== undefined && credit !== 0 && credit !== 100)) {
+        warn('Moodle True/False questions are all-or-nothing; partial credit was left out.');
+      }
+      body.push(
+        answer(trueIsCorrect ? 100 : 0, 'true', question.trueOption?.feedback),
+        answer(trueIsCorrect ? 0 : 100, 'false', question.falseOption?.feedback),
+      );
+      break;
+    }
+
+    case 'SA': {
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no Moodle short answer equivalent; the expression is exported as a literal answer.');
+      }
+      body.push(xmlTextElement('usecase', {}, question.evaluation === 'sensitive' ? '1' : '0'));
+      if (question.bestAnswer !== undefined) body.push(answer(100, question.bestAnswer));
+      break;
+    }
+
+    case 'M': {
+      const scoring = matchingScoringOf(question);
+      if (scoring !== 'EquallyWeighted') warn(`${scoring} scoring has no Moodle equivalent; each match is worth an equal share.`);
+      const pairs = question.pairs ?? [];
+      if (pairs.some(pair => looksLikeHtml(pair.matchText ?? ''))) warn('Moodle shows matches as plain text; their HTML formatting was removed.');
+      body.push(
+        xmlTextElement('shuffleanswers', {}, 'true'),
+        ...pairs.map(pair => xmlElement('subquestion', { format: textFormat(pair.choiceText) }, [
+          xmlTextElement('text', {}, pair.choiceText),
+          xmlElement('answer', {}, [xmlTextElement('text', {}, stripHtml(pair.matchText ?? ''))]),
+        ])),
+      );
+      break;
+    }
+
+    case 'WR': {
+      body.push(
+        xmlTextElement('responseformat', {}, 'editor'),
+        xmlTextElement('responserequired', {}, '1'),
+        xmlTextElement('responsefieldlines', {}, '15'),
+        xmlTextElement('attachments', {}, '0'),
+        formattedText('graderinfo', question.answerKey ?? ''),
+        formattedText('responsetemplate', question.initialText ?? ''),
+      );
+      break;
+    }
+
+    case 'FIB': {
+      // A Cloze question carries its blanks in the text, e.g. {1:SHORTANSWER:=Ottawa~%50%Toronto}
+      if (blanksOf(question).some(blank => blank.answers.some(a => a.evaluation === 'regexp'))) {
+        warn('Regular expression answers have no Moodle Cloze equivalent; the expressions are exported as literal answers.');
+      }
+      const text = fillInTheBlankText(question, blank => {
+        const sensitive = blank.answers.some(a => a.evaluation === 'sensitive');
+        const answers = blank.answers
+          .filter(a => a.weight > 0)
+          .map(a => {
+            const fraction = toMoodleFraction(a.weight, warn);
+            return `${fraction === 100 ? '=' : `%${fraction}%`}${escapeCloze(a.text)}`;
+          });
+        return `{1:SHORTANSWER${sensitive ? '_C' : ''}:${answers.join('~')}}`;
+      });
+      questionText = questionTextWithImage({ ...question, questionText: text });
+      break;
+    }
+  }
+
+  return xmlElement('question', { type: MOODLE_TYPES[question.type] }, [
+    xmlElement('name', {}, [xmlTextElement('text', {}, question.title || titleFromText(question.questionText ?? ''))]),
+    formattedText('questiontext', questionText),
+    formattedText('generalfeedback', question.feedback ?? ''),
+    xmlTextElement('defaultgrade', {}, String(question.points)),
+    question.id ? xmlTextElement('idnumber', {}, question.id) : '',
+    ...body,
+    question.hint ? formattedText('hint', question.hint) : '',
+  ]);
+}
+
+// A Moodle XML file with every question in a category named after the bank
+export async function exportMoodleXml(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const questions = quiz.questions.map((question, idx) => serializeMoodleQuestion(question, message => warn(question, idx, message)));
+  const category = xmlElement('question', { type: 'category' }, [
+    xmlElement('category', {}, [xmlTextElement('text', {}, `$course$/top/${baseName}`)]),
+  ]);
+  const xml = `${XML_DECLARATION}\n${xmlElement('quiz', {}, [category, ...questions.filter((q): q is string => q !== null)])}\n`;
+  return { fileName: `${baseName}-moodle.xml`, blob: new Blob([xml], { type: 'application/xml' }), warnings };
+}
+
+// --- Import ---
+
+const PLUGINFILE_PATTERN = /@@PLUGINFILE@@\/([^"'\s)<>]+)/g;
+
+const decodeBase64 = (data: string): Uint8Array => Uint8Array.from(atob(data.replace(/\s+/g, '')), ch => ch.charCodeAt(0));
+
+const safeDecode = (reference: string): string => {
+  try {
+    return decodeURIComponent(reference);
+  } catch {
+    return reference;
+  }
+};
+
+const IMPORTED_TYPES = new Set(['multichoice', 'truefalse', 'shortanswer', 'matching', 'essay', 'cloze']);
+
+const UNSUPPORTED_NOTES: Record<string, string> = {
+  description: 'Description items hold no question and were skipped.',
+};
+
+// Reads every <question> of Moodle XML files. Images embedded as base64 <file> elements are returned as assets,
+// and @@PLUGINFILE@@ links to them become plain relative paths.
+export function importMoodleXml(documents: QuizDocument[]): ParseResult & { assets: QuizAsset[] } {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+  const assets: QuizAsset[] = [];
+  const assetData = new Map<string, string>();
+  let itemNumber = 0;
+
+  for (const document of documents) {
+    let doc: Document;
+    try {
+      doc = parseXml(document.content);
+    } catch (e) {
+      report('error', 'record-error', e instanceof Error ? e.message : String(e), document.path);
+      continue;
+    }
+
+    for (const element of childElements(doc.documentElement, 'question')) {
+      const moodleType = element.getAttribute('type') ?? '';
+      if (moodleType === 'category') continue;
+      itemNumber++;
+      const name = textOf(childElement(childElement(element, 'name') ?? element, 'text'));
+      const source = `${document.path}, question ${name || itemNumber}`;
+      const questionIndex = questions.length;
+      const lossy = (message: string) => report('warning', 'lossy-import', message, source, questionIndex);
+
+      // Files are scoped to their question in Moodle; a name reused with other content is moved into its own folder
+      const renamed = new Map<string, string>();
+      descendants(element, 'file').forEach(file => {
+        const original = `${file.getAttribute('path') ?? '/'}${file.getAttribute('name') ?? ''}`.replace(/^\/+/, '');
+        const data = file.textContent ?? '';
+        let path = original;
+        if (assetData.has(path) && assetData.get(path) !== data) path = `question-${itemNumber}/${original}`;
+        renamed.set(original, path);
+        if (assetData.has(path)) return;
+        assetData.set(path, data);
+        try {
+          assets.push({ path, blob: withMimeType(new Blob([decodeBase64(data)]), path) });
+        } catch {
+          lossy(`The embedded file ${original} could not be decoded.`);
+        }
+      });
+      const resolveLinks = (text: string): string =>
+        text.replace(PLUGINFILE_PATTERN, (_, reference: string) => renamed.get(safeDecode(reference)) ?? reference);
+      const textIn = (parent: Element | undefined): string => (parent ? resolveLinks(textOf(childElement(parent, 'text'))) : '');
+
+      if (!IMPORTED_TYPES.has(moodleType)) {
+        report(moodleType === 'description' ? 'info' : 'error', 'unsupported-item',
+          UNSUPPORTED_NOTES[moodleType] ?? `Moodle ${moodleType || 'untyped'} questions are not supported and were skipped.`, source);
+        continue;
+      }
+
+      const { questionText, image } = splitQuestionImage(textIn(childElement(element, 'questiontext')));
+      const generalFeedback = textIn(childElement(element, 'generalfeedback'));
+      const points = parseFloat(textOf(childElement(element, 'defaultgrade')));
+      const hints = childElements(element, 'hint').map(textIn).filter(Boolean);
+      if (hints.length > 1) lossy(`Only the first of ${hints.length} hints was kept.`);
+      if (['correctfeedback', 'partiallycorrectfeedback', 'incorrectfeedback'].some(tag => textIn(childElement(element, tag)))) {
+        lossy('Combined feedback (correct, partially correct, incorrect) has no QuizView equivalent and was left out.');
+      }
+
+      const base = {
+        id: textOf(childElement(element, 'idnumber')) || undefined,
+        title: name || titleFromText(questionText),
+        questionText,
+        points: Number.isNaN(points) ? 1 : roundScore(points),
+        ...(image ? { image } : {}),
+        ...(hints.length ? { hint: hints[0] } : {}),
+        ...(generalFeedback ? { feedback: generalFeedback } : {}),
+      };
+      const answers = childElements(element, 'answer').map(el => ({
+        text: textIn(el),
+        fraction: parseFloat(el.getAttribute('fraction') ?? '') || 0,
+        feedback: textIn(childElement(el, 'feedback')) || undefined,
+      }));
+
+      let question: Question;
+      switch (moodleType) {
+        case 'multichoice': {
+          const single = ['true', '1'].includes(textOf(childElement(element, 'single')).toLowerCase());
+          if (single) {
+            if (answers.some(a => a.fraction < 0)) lossy('Negative grades for wrong choices were dropped; Multiple Choice credit starts at 0%.');
+            const options = answers.map(a => ({
+              text: a.text,
+              percent: roundScore(Math.max(0, a.fraction)),
+              htmlFlag: looksLikeHtml(a.text),
+              feedbackHtmlFlag: !!a.feedback && looksLikeHtml(a.feedback),
+              ...(a.feedback ? { feedback: a.feedback } : {}),
+            }));
+            question = { ...base, type: 'MC', options } as MultipleChoiceQuestion;
+          } else {
+            const options = answers.map(a => ({
+              text: a.text,
+              weight: a.fraction > 0 ? 1 : 0,
+              htmlFlag: looksLikeHtml(a.text),
+              feedbackHtmlFlag: !!a.feedback && looksLikeHtml(a.feedback),
+              ...(a.feedback ? { feedback: a.feedback } : {}),
+            }));
+            const scoring = answers.some(a => a.fraction < 0) ? 'RightMinusWrong' : 'RightAnswers';
+            question = { ...base, type: 'MS', options, scoring } as MultiSelectQuestion;
+          }
+          break;
+        }
+
+        case 'truefalse': {
+          const optionFor = (isTrue: boolean) => {
+            const match = answers.find(a => stripHtml(a.text).toLowerCase() === String(isTrue));
+            return {
+              isTrue,
+              credit: roundScore(Math.max(0, match?.fraction ?? 0)),
+              htmlFlag: !!match?.feedback && looksLikeHtml(match.feedback),
+              ...(match?.feedback ? { feedback: match.feedback } : {}),
+            };
+          };
+          question = { ...base, type: 'TF', trueOption: optionFor(true), falseOption: optionFor(false) } as TrueFalseQuestion;
+          break;
+        }
+
+        case 'shortanswer': {
+          const accepted = answers.filter(a => a.fraction >= 100).map(a => stripHtml(a.text));
+          const partial = answers.filter(a => a.fraction > 0 && a.fraction < 100);
+          if (partial.length > 0) lossy(`${partial.length} partial-credit answer${partial.length !== 1 ? 's were' : ' was'} left out.`);
+          if (answers.some(a => a.feedback)) lossy('Per-answer feedback has no Short Answer equivalent and was left out.');
+          const caseSensitive = textOf(childElement(element, 'usecase')) === '1';
+          question = {
+            ...base,
+            type: 'SA',
+            ...(accepted.length ? moodleShortAnswer(accepted, caseSensitive) : { bestAnswer: '', evaluation: 'insensitive' }),
+            inputBox: { rows: 1, cols: 40 },
+          } as ShortAnswerQuestion;
+          break;
+        }
+
+        case 'matching': {
+          const subquestions = childElements(element, 'subquestion').map(sub => ({ text: textIn(sub), match: textIn(childElement(sub, 'answer')) }));
+          // Subquestions without text only add a wrong match to the list
+          const distractors = subquestions.filter(sub => !stripHtml(sub.text));
+          if (distractors.length > 0) lossy(`${distractors.length} extra match${distractors.length !== 1 ? 'es' : ''} without a choice could not be kept.`);
+          const pairs = subquestions
+            .filter(sub => stripHtml(sub.text))
+            .map((sub, idx) => ({ choiceNo: idx + 1, choiceText: sub.text, matchText: sub.match }));
+          question = { ...base, type: 'M', pairs, scoring: 'EquallyWeighted' } as MatchingQuestion;
+          break;
+        }
+
+        case 'cloze': {
+          // The blanks live in the question text, so it is read into parts and the lead-in left empty
+          const parts = parseClozeParts(questionText, lossy);
+          if (!parts.some(part => part.type === 'blank')) {
+            report('error', 'unsupported-item', 'The Cloze question has no blanks and was skipped.', source);
+            continue;
+          }
+          question = { ...base, type: 'FIB', questionText: '', parts } as FillInTheBlankQuestion;
+          break;
+        }
+
+        case 'essay':
+        default: {
+          const answerKey = textIn(childElement(element, 'graderinfo'));
+          const initialText = textIn(childElement(element, 'responsetemplate'));
+          if (textOf(childElement(element, 'responseformat')) === 'noinline') lossy('The question only accepts attachments; it was imported as a written response.');
+          question = {
+            ...base,
+            type: 'WR',
+            ...(answerKey ? { answerKey } : {}),
+            ...(initialText ? { initialText } : {}),
+          } as WrittenResponseQuestion;
+          break;
+        }
+      }
+      questions.push(question);
+    }
+  }
+
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.questionIndex !== undefined) diagnostic.questionTitle = questions[diagnostic.questionIndex]?.title;
+  });
+  return { quiz: { questions }, diagnostics, assets };
+}
@@ -0,0 +1,636 @@
+import type {
+  Question,
+  QuestionType,
+  WrittenResponseQuestion,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  OrderingQuestion,
+  FillInTheBlankQuestion,
+  FIBText,
+  FIBBlank,
+  ParseDiagnostic,
+} from '@/types/quiz';
+import { looksLikeHtml } from '@/lib/html';
+import { normalizeMultiSelectScoring } from '@/lib/scoring';
+import { blanksOf } from '@/lib/fillInTheBlank';
+import { xmlElement, xmlTextElement, childElements, childElement, descendants, textOf } from '@/lib/formats/xml';
+import { createImportLog, titleFromText, roundScore, splitQuestionImage, toWrittenResponse } from '@/lib/formats/conversion';
+
+// Brightspace's qmd_questiontype names for each question type
+export const QTI12_QUESTION_TYPES: Record<QuestionType, string> = {
+  WR: 'Long Answer',
+  SA: 'Short Answer',
+  M: 'Matching',
+  MC: 'Multiple Choice',
+  TF: 'True/False',
+  MS: 'Multi-Select',
+  O: 'Ordering',
+  FIB: 'Fill in the Blanks',
+  MSA: 'Multi-Short Answer',
+  ARITH: 'Arithmetic',
+  SF: 'Significant Figures',
+  LIK: 'Likert',
+};
+
+// Type names read on import: Brightspace's, plus the question_type values other LMSs write
+const IMPORTED_TYPE_NAMES: Record<string, QuestionType> = {
+  ...Object.fromEntries(Object.entries(QTI12_QUESTION_TYPES).map(([type, name]) => [name.toLowerCase(), type as QuestionType])),
+  'multiple_choice_question': 'MC',
+  'true_false_question': 'TF',
+  'multiple_answers_question': 'MS',
+  'matching_question': 'M',
+  'short_answer_question': 'SA',
+  'essay_question': 'WR',
+  'fill_in_multiple_blanks_question': 'FIB',
+};
+
+// Scores are written as a percentage of the question's points; qmd_weighting carries the points
+const SCORE_VARIABLE = 'SCORE';
+const FULL_SCORE = 100;
+
+// --- Export ---
+
+interface Equality {
+  respident: string;
+  value: string;
+  index?: number; // Position, for ordered responses
+  negate?: boolean;
+  caseSensitive?: boolean;
+}
+
+interface ExportCondition {
+  equals: Equality[];
+  other?: boolean;
+  score?: number;
+  action?: 'Set' | 'Add';
+  feedbackId?: string;
+}
+
+export const material = (text: string): string =>
+  xmlElement('material', {}, [xmlTextElement('mattext', { texttype: looksLikeHtml(text) ? 'text/html' : 'text/plain' }, text)]);
+
+export const metadataField = (label: string, entry: string | number): string =>
+  xmlElement('qtimetadatafield', {}, [xmlTextElement('fieldlabel', {}, label), xmlTextElement('fieldentry', {}, String(entry))]);
+
+const responseLabel = (ident: string, text: string): string =>
+  xmlElement('response_label', { ident }, [xmlElement('flow_mat', {}, [material(text)])]);
+
+const renderChoice = (labels: string[]): string =>
+  xmlElement('render_choice', { shuffle: 'Yes' }, [xmlElement('flow_label', {}, labels)]);
+
+const equality = ({ respident, value, index, negate, caseSensitive }: Equality): string => {
+  const varequal = xmlTextElement('varequal', {
+    respident,
+    index,
+    case: caseSensitive === undefined ? undefined : (caseSensitive ? 'Yes' : 'No'),
+  }, value);
+  return negate ? xmlElement('not', {}, [varequal]) : varequal;
+};
+
+const respcondition = (condition: ExportCondition): string => {
+  const tests = condition.other ? ['<other/>'] : condition.equals.map(equality);
+  return xmlElement('respcondition', { continue: 'Yes' }, [
+    xmlElement('conditionvar', {}, condition.equals.length > 1 ? [xmlElement('and', {}, tests)] : tests),
+    condition.score !== undefined
+      ? xmlTextElement('setvar', { action: condition.action ?? 'Set', varname: SCORE_VARIABLE }, String(roundScore(condition.score)))
+      : '',
+    condition.feedbackId ? xmlElement('displayfeedback', { feedbacktype: 'Response', linkrefid: condition.feedbackId }) : '',
+  ]);
+};
+
+const wrappedFeedback = (ident: string, wrapper: 'hint' | 'solution', text: string): string =>
+  xmlElement('itemfeedback', { ident }, [
+    xmlElement(wrapper, {}, [xmlElement(`${wrapper}material`, {}, [xmlElement('flow_mat', {}, [material(text)])])]),
+  ]);
+
+// Matching and Ordering: a share per right part, or one all-or-nothing condition
+const partConditions = (equals: Equality[], scoring: MatchingQuestion['scoring'] | undefined, warn: (message: string) => void): ExportCondition[] => {
+  if (equals.length === 0) return [];
+  if (scoring === 'AllOrNothing') return [{ equals, score: FULL_SCORE }];
+  if (scoring === 'RightMinusWrong') warn('RightMinusWrong scoring has no QTI 1.2 equivalent; exported as EquallyWeighted.');
+  return equals.map(part => ({ equals: [part], score: FULL_SCORE / equals.length, action: 'Add' as const }));
+};
+
+// Serializes one question as a QTI 1.2 <item>. Features QTI 1.2 cannot express are passed to warn.
+export function serializeQti12Item(question: Question, questionIndex: number, warn: (message: string) => void): string {
+  question = toWrittenResponse(question, 'QTI 1.2', warn);
+  const ident = `QUES_${questionIndex + 1}`;
+  const responseId = `${ident}_RESP`;
+  // Fill-in-the-blank questions interleave their text with the blanks, so an empty lead-in is left out
+  const presentation: string[] = question.type === 'FIB' && !question.questionText ? [] : [material(question.questionText ?? '')];
+  if (question.image) presentation.push(xmlElement('material', {}, [xmlElement('matimage', { uri: question.image })]));
+  const conditions: ExportCondition[] = [];
+  const feedback: string[] = [];
+  let computerScored = true;
+
+  const addFeedback = (id: string, text: string | undefined): string | undefined => {
+    if (!text) return undefined;
+    feedback.push(xmlElement('itemfeedback', { ident: id }, [material(text)]));
+    return id;
+  };
+
+  switch (question.type) {
+    case 'MC': {
+      const options = question.options ?? [];
+      const labels = options.map((_, idx) => `${ident}_A${idx + 1}`);
+      presentation.push(xmlElement('response_lid', { ident: responseId, rcardinality: 'Single' }, [
+        renderChoice(options.map((option, idx) => responseLabel(labels[idx], option.text))),
+      ]));
+      options.forEach((option, idx) => {
+        const feedbackId = addFeedback(`${labels[idx]}_FB`, option.feedback);
+        if (option.percent !== 0 || feedbackId) {
+          conditions.push({ equals: [{ respident: responseId, value: labels[idx] }], score: option.percent, feedbackId });
+        }
+      });
+      break;
+    }
+
+    case 'TF': {
+      const sides = [
+        { label: `${ident}_TRUE`, text: 'True', option: question.trueOption },
+        { label: `${ident}_FALSE`, text: 'False', option: question.falseOption },
+      ];
+      presentation.push(xmlElement('response_lid', { ident: responseId, rcardinality: 'Single' }, [
+        xmlElement('render_choice', { shuffle: 'No' }, [xmlElement('flow_label', {}, sides.map(side => responseLabel(side.label, side.text)))]),
+      ]));
+      sides.forEach(({ label, option }) => {
+        const feedbackId = addFeedback(`${label}_FB`, option?.feedback);
+        conditions.push({ equals: [{ respident: responseId, value: label }], score: option?.credit ?? 0, feedbackId });
+      });
+      break;
+    }
+
+    case 'MS': {
+      const options = question.options ?? [];
+      const labels = options.map((_, idx) => `${ident}_A${idx + 1}`);
+      presentation.push(xmlElement('response_lid', { ident: responseId, rcardinality: 'Multiple' }, [
+        renderChoice(options.map((option, idx) => responseLabel(labels[idx], option.text))),
+      ]));
+      const scoring = normalizeMultiSelectScoring(question.scoring);
+      if (scoring === 'RightAnswersLimitedSelections') {
+        warn('RightAnswersLimitedSelections scoring has no QTI 1.2 equivalent; exported as RightAnswers.');
+      }
+      const share = options.length ? FULL_SCORE / options.length : 0;
+      const feedbackIds = options.map((option, idx) => addFeedback(`${labels[idx]}_FB`, option.feedback));
+      if (scoring === 'AllOrNothing') {
+        conditions.push({
+          equals: options.map((option, idx) => ({ respident: responseId, value: labels[idx], negate: option.weight <= 0 })),
+          score: FULL_SCORE,
+        });
+        options.forEach((_, idx) => {
+          if (feedbackIds[idx]) conditions.push({ equals: [{ respident: responseId, value: labels[idx] }], feedbackId: feedbackIds[idx] });
+        });
+      } else {
+        // Each option answered right (selected when correct, left blank when not) earns an equal share;
+        // RightMinusWrong also takes a share away for each option answered wrong
+        const penalty = scoring === 'RightMinusWrong' ? -share : undefined;
+        options.forEach((option, idx) => {
+          const correct = option.weight > 0;
+          const selected: Equality = { respident: responseId, value: labels[idx] };
+          conditions.push({ equals: [selected], score: correct ? share : penalty, action: 'Add', feedbackId: feedbackIds[idx] });
+          const blankScore = correct ? penalty : share;
+          if (blankScore !== undefined) conditions.push({ equals: [{ ...selected, negate: true }], score: blankScore, action: 'Add' });
+        });
+      }
+      break;
+    }
+
+    case 'M': {
+      const pairs = question.pairs ?? [];
+      const matchLabels = pairs.map(pair => `${ident}_M${pair.choiceNo}`);
+      pairs.forEach(pair => {
+        presentation.push(xmlElement('response_grp', { ident: `${ident}_C${pair.choiceNo}`, rcardinality: 'Single' }, [
+          material(pair.choiceText),
+          renderChoice(pairs.map((match, idx) => responseLabel(matchLabels[idx], match.matchText))),
+        ]));
+      });
+      const equals = pairs.map((pair, idx) => ({ respident: `${ident}_C${pair.choiceNo}`, value: matchLabels[idx] }));
+      conditions.push(...partConditions(equals, question.scoring, warn));
+      break;
+    }
+
+    case 'O': {
+      const items = question.items ?? [];
+      const labels = items.map((_, idx) => `${ident}_I${idx + 1}`);
+      presentation.push(xmlElement('response_lid', { ident: responseId, rcardinality: 'Ordered' }, [
+        renderChoice(items.map((item, idx) => responseLabel(labels[idx], item.text))),
+      ]));
+      const equals = labels.map((label, idx) => ({ respident: responseId, value: label, index: idx + 1 }));
+      conditions.push(...partConditions(equals, question.scoring, warn));
+      if (items.some(item => item.feedback)) warn('Per-item Ordering feedback has no QTI 1.2 equivalent and was left out.');
+      break;
+    }
+
+    case 'SA': {
+      presentation.push(xmlElement('response_str', { ident: responseId, rcardinality: 'Single' }, [
+        xmlElement('render_fib', { fibtype: 'String', prompt: 'Box', rows: question.inputBox?.rows ?? 1, columns: question.inputBox?.cols ?? 40 }, [
+          xmlElement('response_label', { ident: `${ident}_ANS` }),
+        ]),
+      ]));
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no QTI 1.2 equivalent; the expression is exported as a literal answer.');
+      }
+      if (question.bestAnswer !== undefined) {
+        conditions.push({
+          equals: [{ respident: responseId, value: question.bestAnswer, caseSensitive: question.evaluation === 'sensitive' }],
+          score: FULL_SCORE,
+        });
+      }
+      break;
+    }
+
+    case 'FIB': {
+      // Each blank is its own response; every accepted answer adds its share of the blank's credit
+      const blankCount = blanksOf(question).length;
+      let blankNo = 0;
+      question.parts?.forEach(part => {
+        if (part.type === 'text') {
+          presentation.push(material(part.text));
+          return;
+        }
+        const respident = `${ident}_B${++blankNo}`;
+        presentation.push(xmlElement('response_str', { ident: respident, rcardinality: 'Single' }, [
+          xmlElement('render_fib', { fibtype: 'String', prompt: 'Box', rows: 1, columns: part.size }, [
+            xmlElement('response_label', { ident: `${respident}_ANS` }),
+          ]),
+        ]));
+        part.answers.filter(answer => answer.weight > 0).forEach(answer => conditions.push({
+          equals: [{ respident, value: answer.text, caseSensitive: answer.evaluation === 'sensitive' }],
+          score: FULL_SCORE / blankCount * answer.weight / 100,
+          action: 'Add',
+        }));
+      });
+      if (blanksOf(question).some(blank => blank.answers.some(answer => answer.evaluation === 'regexp'))) {
+        warn('Regular expression answers have no QTI 1.2 equivalent; the expressions are exported as literal answers.');
+      }
+      break;
+    }
+
+    case 'WR': {
+      computerScored = false;
+      presentation.push(xmlElement('response_str', { ident: responseId, rcardinality: 'Single' }, [
+        xmlElement('render_fib', { fibtype: 'String', prompt: 'Box', rows: 15, columns: 80 }, [
+          xmlElement('response_label', { ident: `${ident}_ANS` }),
+        ]),
+      ]));
+      if (question.initialText) warn('Initial text for written responses has no QTI 1.2 equivalent and was left out.');
+      if (question.answerKey) feedback.push(wrappedFeedback(`${ident}_KEY`, 'solution', question.answerKey));
+      break;
+    }
+  }
+
+  const generalFeedbackId = addFeedback(`${ident}_GF`, question.feedback);
+  if (generalFeedbackId) conditions.push({ equals: [], other: true, feedbackId: generalFeedbackId });
+  if (question.hint) feedback.push(wrappedFeedback(`${ident}_HINT`, 'hint', question.hint));
+
+  const metadata = [
+    metadataField('qmd_questiontype', QTI12_QUESTION_TYPES[question.type]),
+    metadataField('qmd_computerscored', computerScored ? 'yes' : 'no'),
+    metadataField('qmd_weighting', question.points),
+    question.difficulty !== undefined ? metadataField('qmd_difficulty', question.difficulty) : '',
+  ];
+
+  return xmlElement('item', { ident, label: question.id, title: question.title }, [
+    xmlElement('itemmetadata', {}, [xmlElement('qtimetadata', {}, metadata)]),
+    xmlElement('presentation', {}, [xmlElement('flow', {}, presentation)]),
+    xmlElement('resprocessing', {}, [
+      xmlElement('outcomes', {}, [
+        xmlElement('decvar', { varname: SCORE_VARIABLE, vartype: 'Decimal', defaultval: 0, minvalue: 0, maxvalue: FULL_SCORE }),
+      ]),
+      ...conditions.map(respcondition),
+    ]),
+    ...feedback,
+  ]);
+}
+
+// Wraps items in a question library (<objectbank>), the layout Brightspace imports from a package
+export function serializeQti12Items(items: string[], bankTitle: string): string {
+  return xmlElement('questestinterop', {}, [
+    xmlElement('objectbank', { ident: 'QLIB_1', title: bankTitle }, items),
+  ]);
+}
+
+// --- Import ---
+
+interface ImportCondition {
+  equals: Equality[];
+  other: boolean;
+  score?: number;
+  action: string;
+  feedbackIds: string[];
+}
+
+const hasAncestor = (element: Element, name: string, stop: Element): boolean => {
+  for (let node = element.parentElement; node && node !== stop; node = node.parentElement) {
+    if (node.localName === name) return true;
+  }
+  return false;
+};
+
+const readConditions = (item: Element): ImportCondition[] =>
+  descendants(item, 'respcondition').map(condition => {
+    const conditionvar = childElement(condition, 'conditionvar');
+    const setvar = childElement(condition, 'setvar');
+    const score = setvar ? parseFloat(textOf(setvar)) : undefined;
+    return {
+      equals: conditionvar
+        ? descendants(conditionvar, 'varequal').map(varequal => ({
+          respident: varequal.getAttribute('respident') ?? '',
+          value: textOf(varequal),
+          index: varequal.hasAttribute('index') ? parseInt(varequal.getAttribute('index') ?? '', 10) : undefined,
+          negate: hasAncestor(varequal, 'not', conditionvar),
+          caseSensitive: varequal.getAttribute('case')?.toLowerCase() === 'yes',
+        }))
+        : [],
+      other: !!conditionvar && descendants(conditionvar, 'other').length > 0,
+      score: score === undefined || Number.isNaN(score) ? undefined : score,
+      action: setvar?.getAttribute('action') ?? 'Set',
+      feedbackIds: childElements(condition, 'displayfeedback').map(display => display.getAttribute('linkrefid') ?? ''),
+    };
+  });
+
+// Text of the materials that belong to an element itself, not to its nested responses
+const ownMaterials = (container: Element): Element[] => {
+  const found: Element[] = [];
+  const visit = (element: Element) => {
+    for (const child of childElements(element)) {
+      if (child.localName === 'material') found.push(child);
+      else if (!child.localName.startsWith('response_') && !child.localName.startsWith('render_')) visit(child);
+    }
+  };
+  visit(container);
+  return found;
+};
+
+const materialText = (materials: Element[]): string =>
+  materials.flatMap(m => [...descendants(m, 'mattext'), ...descendants(m, 'matemtext')]).map(textOf).filter(Boolean).join('\n');
+
+const labelText = (label: Element): string => materialText(descendants(label, 'material'));
+
+const metadataValue = (item: Element, ...labels: string[]): string | undefined => {
+  for (const field of descendants(item, 'qtimetadatafield')) {
+    if (labels.includes(textOf(childElement(field, 'fieldlabel')).toLowerCase())) return textOf(childElement(field, 'fieldentry'));
+  }
+  return undefined;
+};
+
+const isPositive = (condition: ImportCondition): boolean => (condition.score ?? 0) > 0;
+
+// Reads every <item> in a QTI 1.2 document. Items QuizView cannot represent are skipped with a diagnostic.
+export function parseQti12Document(doc: Document, documentPath: string, firstQuestionIndex = 0): { questions: Question[]; diagnostics: ParseDiagnostic[] } {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+
+  for (const item of descendants(doc, 'item')) {
+    const itemIdent = item.getAttribute('ident') ?? `item ${questions.length + 1}`;
+    const source = `${documentPath}, item ${itemIdent}`;
+    const questionIndex = firstQuestionIndex + questions.length;
+    const lossy = (message: string) => report('warning', 'lossy-import', message, source, questionIndex);
+
+    const presentation = descendants(item, 'presentation')[0];
+    if (!presentation) {
+      report('error', 'unsupported-item', 'Item has no <presentation> and was skipped.', source);
+      continue;
+    }
+
+    const conditions = readConditions(item);
+    const itemFeedback = new Map(descendants(item, 'itemfeedback').map(fb => [fb.getAttribute('ident') ?? '', fb]));
+    const feedbackText = (ids: string[]): string | undefined => {
+      for (const id of ids) {
+        const fb = itemFeedback.get(id);
+        // Hints and solutions are read separately below
+        if (fb && !childElement(fb, 'hint') && !childElement(fb, 'solution')) return materialText(descendants(fb, 'material')) || undefined;
+      }
+      return undefined;
+    };
+    const conditionsFor = (respident: string, value: string) =>
+      conditions.filter(c => c.equals.length === 1 && !c.equals[0].negate && c.equals[0].respident === respident && c.equals[0].value === value);
+    const maxScore = parseFloat(descendants(item, 'decvar')[0]?.getAttribute('maxvalue') ?? '') || FULL_SCORE;
+    const toPercent = (score: number) => roundScore(score / maxScore * 100);
+
+    const lids = descendants(presentation, 'response_lid');
+    const groups = descendants(presentation, 'response_grp');
+    const strs = descendants(presentation, 'response_str');
+    const declaredType = IMPORTED_TYPE_NAMES[(metadataValue(item, 'qmd_questiontype', 'question_type') ?? '').toLowerCase()];
+
+    const labelsOf = (response: Element) => descendants(response, 'response_label').map(label => ({ ident: label.getAttribute('ident') ?? '', text: labelText(label) }));
+
+    let type: QuestionType | undefined;
+    if (strs.length > 1 || (declaredType === 'FIB' && strs.length + lids.length > 0)) type = 'FIB';
+    else if (groups.length > 0 || lids.length > 1 || declaredType === 'M') type = 'M';
+    else if (lids.length === 1) {
+      const cardinality = lids[0].getAttribute('rcardinality')?.toLowerCase();
+      const labels = labelsOf(lids[0]).map(label => label.text.trim().toLowerCase());
+      if (cardinality === 'ordered' || declaredType === 'O') type = 'O';
+      else if (cardinality === 'multiple' || declaredType === 'MS') type = 'MS';
+      else if (declaredType === 'TF' || (labels.length === 2 && labels.includes('true') && labels.includes('false'))) type = 'TF';
+      else type = 'MC';
+    } else if (strs.length === 1) {
+      const scoredAnswers = conditions.some(c => c.equals.some(eq => eq.respident === strs[0].getAttribute('ident')));
+      type = declaredType === 'WR' || declaredType === 'SA' ? declaredType : (scoredAnswers ? 'SA' : 'WR');
+    }
+    if (!type) {
+      const found = childElements(descendants(presentation, 'flow')[0] ?? presentation).map(el => el.localName).filter(name => name.startsWith('response_'));
+      report('error', 'unsupported-item', `Item type is not supported${found.length ? ` (${[...new Set(found)].join(', ')})` : ''} and was skipped.`, source);
+      continue;
+    }
+
+    // Canvas has no image field, so its exports carry the image inside the question text
+    const { questionText, image: inlineImage } = splitQuestionImage(materialText(ownMaterials(presentation)));
+    const image = descendants(presentation, 'matimage').find(img => !hasAncestor(img, 'response_label', presentation))?.getAttribute('uri') ?? inlineImage;
+    const points = parseFloat(metadataValue(item, 'qmd_weighting', 'points_possible') ?? '');
+    const difficulty = parseInt(metadataValue(item, 'qmd_difficulty') ?? '', 10);
+    const hintFeedback = [...itemFeedback.values()].find(fb => childElement(fb, 'hint'));
+    const solutionFeedback = [...itemFeedback.values()].find(fb => childElement(fb, 'solution'));
+    const generalFeedback = feedbackText(conditions.filter(c => c.other).flatMap(c => c.feedbackIds));
+
+    const base = {
+      id: item.getAttribute('label') || undefined,
+      title: item.getAttribute('title') || titleFromText(questionText),
+      questionText,
+      points: Number.isNaN(points) ? 1 : points,
+      ...(Number.isNaN(difficulty) ? {} : { difficulty }),
+      ...(image ? { image } : {}),
+      ...(hintFeedback ? { hint: materialText(descendants(hintFeedback, 'material')) } : {}),
+      ...(generalFeedback ? { feedback: generalFeedback } : {}),
+    };
+
+    // Scoring for Matching and Ordering: a single condition on every part is all-or-nothing
+    const partScoring = (): MatchingQuestion['scoring'] =>
+      conditions.some(c => isPositive(c) && c.action.toLowerCase() === 'set' && c.equals.length > 1) ? 'AllOrNothing' : 'EquallyWeighted';
+
+    let question: Question;
+    switch (type) {
+      case 'MC': {
+        const options = labelsOf(lids[0]).map(label => {
+          const matching = conditionsFor(lids[0].getAttribute('ident') ?? '', label.ident);
+          const feedback = feedbackText(matching.flatMap(c => c.feedbackIds));
+          return {
+            text: label.text,
+            percent: toPercent(Math.max(0, ...matching.map(c => c.score ?? 0))),
+            htmlFlag: looksLikeHtml(label.text),
+            feedbackHtmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        });
+        question = { ...base, type: 'MC', options } as MultipleChoiceQuestion;
+        break;
+      }
+
+      case 'TF': {
+        const respident = lids[0].getAttribute('ident') ?? '';
+        const optionFor = (isTrue: boolean) => {
+          const label = labelsOf(lids[0]).find(l => l.text.trim().toLowerCase() === String(isTrue));
+          const matching = label ? conditionsFor(respident, label.ident) : [];
+          const feedback = feedbackText(matching.flatMap(c => c.feedbackIds));
+          return {
+            isTrue,
+            credit: toPercent(Math.max(0, ...matching.map(c => c.score ?? 0))),
+            htmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        };
+        question = { ...base, type: 'TF', trueOption: optionFor(true), falseOption: optionFor(false) } as TrueFalseQuestion;
+        break;
+      }
+
+      case 'MS': {
+        const respident = lids[0].getAttribute('ident') ?? '';
+        // An option is correct when selecting it scores, alone or as part of an all-or-nothing condition
+        const correct = new Set(conditions.filter(isPositive).flatMap(c => c.equals.filter(eq => eq.respident === respident && !eq.negate).map(eq => eq.value)));
+        const options = labelsOf(lids[0]).map(label => {
+          const feedback = feedbackText(conditionsFor(respident, label.ident).flatMap(c => c.feedbackIds));
+          return {
+            text: label.text,
+            weight: correct.has(label.ident) ? 1 : 0,
+            htmlFlag: looksLikeHtml(label.text),
+            feedbackHtmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        });
+        let scoring = 'RightAnswers';
+        if (conditions.some(c => isPositive(c) && c.action.toLowerCase() === 'set' && c.equals.length > 1)) scoring = 'AllOrNothing';
+        else if (conditions.some(c => (c.score ?? 0) < 0)) scoring = 'RightMinusWrong';
+        question = { ...base, type: 'MS', options, scoring } as MultiSelectQuestion;
+        break;
+      }
+
+      case 'M': {
+        const responses = groups.length > 0 ? groups : lids;
+        const usedMatches = new Set<string>();
+        const pairs = responses.map((response, idx) => {
+          const respident = response.getAttribute('ident') ?? '';
+          const labels = labelsOf(response);
+          const correctIdent = conditions.filter(isPositive).flatMap(c => c.equals).find(eq => eq.respident === respident && !eq.negate)?.value;
+          if (correctIdent) usedMatches.add(correctIdent);
+          return {
+            choiceNo: idx + 1,
+            choiceText: materialText(ownMaterials(response)),
+            matchText: labels.find(label => label.ident === correctIdent)?.text ?? '',
+          };
+        });
+        const distractors = new Set(responses.flatMap(labelsOf).map(label => label.ident).filter(ident => !usedMatches.has(ident)));
+        if (distractors.size > 0) lossy(`${distractors.size} extra match${distractors.size !== 1 ? 'es' : ''} without a choice could not be kept.`);
+        question = { ...base, type: 'M', pairs, scoring: partScoring() } as MatchingQuestion;
+        break;
+      }
+
+      case 'O': {
+        const respident = lids[0].getAttribute('ident') ?? '';
+        const labels = labelsOf(lids[0]);
+        // Correct positions come from index attributes, or from the order of an all-or-nothing condition
+        const positions = new Map<string, number>();
+        conditions.filter(isPositive).forEach(c => c.equals.forEach((eq, idx) => {
+          if (eq.respident === respident && !eq.negate && !positions.has(eq.value)) positions.set(eq.value, eq.index ?? idx + 1);
+        }));
+        const ordered = positions.size > 0
+          ? [...labels].sort((a, b) => (positions.get(a.ident) ?? Infinity) - (positions.get(b.ident) ?? Infinity))
+          : labels;
+        const items = ordered.map(label => ({ text: label.text, htmlFlag: looksLikeHtml(label.text), feedbackHtmlFlag: false }));
+        question = { ...base, type: 'O', items, scoring: partScoring() } as OrderingQuestion;
+        break;
+      }
+
+      case 'SA': {
+        const respident = strs[0].getAttribute('ident') ?? '';
+        const answers = conditions.filter(isPositive).flatMap(c => c.equals).filter(eq => eq.respident === respident && !eq.negate);
+        if (answers.length > 1) lossy(`Only the first of ${answers.length} accepted answers was kept.`);
+        const fib = descendants(strs[0], 'render_fib')[0];
+        question = {
+          ...base,
+          type: 'SA',
+          bestAnswer: answers[0]?.value ?? '',
+          evaluation: answers[0]?.caseSensitive ? 'sensitive' : 'insensitive',
+          inputBox: {
+            rows: parseInt(fib?.getAttribute('rows') ?? '', 10) || 1,
+            cols: parseInt(fib?.getAttribute('columns') ?? '', 10) || 40,
+          },
+        } as ShortAnswerQuestion;
+        break;
+      }
+
+      case 'FIB': {
+        const blankShare = maxScore / Math.max(1, strs.length || lids.length);
+        const weightOf = (score: number | undefined) => Math.min(100, roundScore((score ?? 0) / blankShare * 100));
+        if (strs.length === 0) {
+          // Canvas marks each blank as [name] in the question text and lists its accepted answers as labels of a response_lid
+          const blanks = new Map(lids.map(lid => [materialText(childElements(lid, 'material')), lid]));
+          const parts = questionText.split(/\[([^\[\]\s]+)\]/).flatMap((fragment, idx): (FIBText | FIBBlank)[] => {
+            const lid = idx % 2 === 1 ? blanks.get(fragment) : undefined;
+            if (!lid) {
+              const text = (idx % 2 === 1 ? `[${fragment}]` : fragment).trim();
+              return text ? [{ type: 'text', text, htmlFlag: looksLikeHtml(text) }] : [];
+            }
+            const answers = labelsOf(lid).map(label => ({
+              text: label.text,
+              weight: weightOf(Math.max(0, ...conditionsFor(lid.getAttribute('ident') ?? '', label.ident).map(c => c.score ?? 0))),
+              evaluation: 'insensitive' as const,
+            })).filter(answer => answer.weight > 0);
+            return [{ type: 'blank', answers }];
+          });
+          question = { ...base, type: 'FIB', questionText: '', parts } as FillInTheBlankQuestion;
+          break;
+        }
+        // Materials and blanks in document order; the text is carried by the Text parts rather than a lead-in
+        const parts: (FIBText | FIBBlank)[] = [];
+        const visit = (element: Element) => {
+          for (const child of childElements(element)) {
+            if (child.localName === 'material') {
+              const text = materialText([child]);
+              if (text) parts.push({ type: 'text', text, htmlFlag: looksLikeHtml(text) });
+            } else if (child.localName === 'response_str') {
+              const respident = child.getAttribute('ident') ?? '';
+              const size = parseInt(descendants(child, 'render_fib')[0]?.getAttribute('columns') ?? '', 10);
+              const answers = conditions.filter(isPositive).flatMap(c => c.equals
+                .filter(eq => eq.respident === respident && !eq.negate)
+                .map(eq => ({
+                  text: eq.value,
+                  weight: weightOf(c.score),
+                  evaluation: eq.caseSensitive ? 'sensitive' as const : 'insensitive' as const,
+                })));
+              parts.push({ type: 'blank', ...(Number.isNaN(size) ? {} : { size }), answers });
+            } else if (!child.localName.startsWith('response_') && !child.localName.startsWith('render_')) {
+              visit(child);
+            }
+          }
+        };
+        visit(presentation);
+        question = { ...base, type: 'FIB', questionText: '', parts } as FillInTheBlankQuestion;
+        break;
+      }
+
+      case 'WR':
+      default: {
+        const answerKey = solutionFeedback ? materialText(descendants(solutionFeedback, 'material')) : undefined;
+        question = { ...base, type: 'WR', ...(answerKey ? { answerKey } : {}) } as WrittenResponseQuestion;
+        break;
+      }
+    }
+    questions.push(question);
+  }
+
+  return { questions, diagnostics };
+}
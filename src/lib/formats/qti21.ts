@@ -0,0 +1,591 @@
+import type {
+  Question,
+  WrittenResponseQuestion,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  OrderingQuestion,
+  FillInTheBlankQuestion,
+  FIBText,
+  FIBBlank,
+  ParseDiagnostic,
+} from '@/types/quiz';
+import { looksLikeHtml, stripHtml } from '@/lib/html';
+import { normalizeMultiSelectScoring } from '@/lib/scoring';
+import { blanksOf, bestAnswersOf } from '@/lib/fillInTheBlank';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+import {
+  XML_DECLARATION,
+  escapeXml,
+  xmlElement,
+  xmlTextElement,
+  childElements,
+  childElement,
+  descendants,
+  textOf,
+  innerXml,
+  toXhtml,
+} from '@/lib/formats/xml';
+import { createImportLog, titleFromText, roundScore, toWrittenResponse } from '@/lib/formats/conversion';
+
+export const QTI21_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI21_SCHEMA_LOCATION = `${QTI21_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+const RESPONSE = 'RESPONSE';
+const GENERAL_FEEDBACK = 'GENERAL_FEEDBACK';
+
+// --- Export ---
+
+// Item body content must be XHTML; plain text is escaped
+const bodyContent = (text: string): string => (looksLikeHtml(text) ? toXhtml(text) : escapeXml(text));
+
+const baseValue = (baseType: string, value: string | number): string => xmlTextElement('baseValue', { baseType }, String(value));
+
+const setScore = (expression: string): string => xmlElement('setOutcomeValue', { identifier: 'SCORE' }, [expression]);
+
+// SCORE from the response mapping, or MAXSCORE when the response matches the correct response.
+// Several responses, one per blank, are scored by summing their mappings.
+const scoreProcessing = (mode: 'map' | 'match' | 'none', withFeedback: boolean, identifiers: string[] = [RESPONSE]): string => {
+  const rules: string[] = [];
+  if (mode === 'map' && identifiers.length > 1) {
+    rules.push(setScore(xmlElement('sum', {}, identifiers.map(identifier => xmlElement('mapResponse', { identifier })))));
+  } else if (mode === 'map') {
+    rules.push(xmlElement('responseCondition', {}, [
+      xmlElement('responseIf', {}, [
+        xmlElement('isNull', {}, [xmlElement('variable', { identifier: RESPONSE })]),
+        setScore(baseValue('float', 0)),
+      ]),
+      xmlElement('responseElse', {}, [setScore(xmlElement('mapResponse', { identifier: RESPONSE }))]),
+    ]));
+  } else if (mode === 'match') {
+    rules.push(xmlElement('responseCondition', {}, [
+      xmlElement('responseIf', {}, [
+        xmlElement('match', {}, [xmlElement('variable', { identifier: RESPONSE }), xmlElement('correct', { identifier: RESPONSE })]),
+        setScore(xmlElement('variable', { identifier: 'MAXSCORE' })),
+      ]),
+      xmlElement('responseElse', {}, [setScore(baseValue('float', 0))]),
+    ]));
+  }
+  if (withFeedback) {
+    rules.push(xmlElement('setOutcomeValue', { identifier: 'FEEDBACK' }, [xmlElement('variable', { identifier: RESPONSE })]));
+  }
+  return xmlElement('responseProcessing', {}, rules);
+};
+
+interface ResponseSpec {
+  identifier?: string;
+  cardinality: 'single' | 'multiple' | 'ordered';
+  baseType: 'identifier' | 'directedPair' | 'string';
+  correct: string[];
+  mapping?: { key: string; value: number; caseSensitive?: boolean }[];
+  upperBound?: number;
+}
+
+const responseDeclaration = ({ identifier = RESPONSE, cardinality, baseType, correct, mapping, upperBound }: ResponseSpec): string =>
+  xmlElement('responseDeclaration', { identifier, cardinality, baseType }, [
+    correct.length ? xmlElement('correctResponse', {}, correct.map(value => xmlTextElement('value', {}, value))) : '',
+    mapping
+      ? xmlElement('mapping', { defaultValue: 0, lowerBound: 0, upperBound }, mapping.map(entry =>
+        xmlElement('mapEntry', {
+          mapKey: entry.key,
+          mappedValue: roundScore(entry.value),
+          caseSensitive: entry.caseSensitive === undefined ? undefined : String(entry.caseSensitive),
+        })))
+      : '',
+  ]);
+
+const outcomeDeclaration = (identifier: string, cardinality: string, baseType: string, defaultValue?: number): string =>
+  xmlElement('outcomeDeclaration', { identifier, cardinality, baseType }, [
+    defaultValue !== undefined ? xmlElement('defaultValue', {}, [xmlTextElement('value', {}, String(defaultValue))]) : '',
+  ]);
+
+const simpleChoice = (identifier: string, text: string, tag = 'simpleChoice', attributes: Record<string, string | number> = {}): string =>
+  xmlElement(tag, { identifier, ...attributes }, bodyContent(text));
+
+const modalFeedback = (identifier: string, text: string, showHide: 'show' | 'hide' = 'show'): string =>
+  xmlElement('modalFeedback', { outcomeIdentifier: 'FEEDBACK', identifier, showHide }, bodyContent(text));
+
+// Serializes one question as a standalone QTI 2.1 assessmentItem. Features QTI 2.1 cannot express are passed to warn.
+export function serializeQti21Item(question: Question, questionIndex: number, warn: (message: string) => void): { identifier: string; xml: string } {
+  question = toWrittenResponse(question, 'QTI 2.1', warn);
+  const identifier = `ITEM_${questionIndex + 1}`;
+  const points = question.points;
+  const body: string[] = [];
+  const feedback: string[] = [];
+  let response: ResponseSpec | undefined;
+  let blankResponses: ResponseSpec[] = [];
+  let interaction = '';
+  let scoreMode: 'map' | 'match' | 'none' = 'map';
+  let feedbackCardinality: 'single' | 'multiple' = 'single';
+
+  const choiceFeedback = (choiceIdentifier: string, text: string | undefined) => {
+    if (text) feedback.push(modalFeedback(choiceIdentifier, text));
+  };
+
+  switch (question.type) {
+    case 'MC': {
+      const options = question.options ?? [];
+      const best = Math.max(0, ...options.map(option => option.percent));
+      const bestIndex = best > 0 ? options.findIndex(option => option.percent === best) : -1;
+      response = {
+        cardinality: 'single',
+        baseType: 'identifier',
+        correct: bestIndex >= 0 ? [`CHOICE_${bestIndex + 1}`] : [],
+        mapping: options.map((option, idx) => ({ key: `CHOICE_${idx + 1}`, value: points * option.percent / 100 })).filter(entry => entry.value !== 0),
+      };
+      interaction = xmlElement('choiceInteraction', { responseIdentifier: RESPONSE, shuffle: 'true', maxChoices: 1 },
+        options.map((option, idx) => simpleChoice(`CHOICE_${idx + 1}`, option.text)));
+      options.forEach((option, idx) => choiceFeedback(`CHOICE_${idx + 1}`, option.feedback));
+      break;
+    }
+
+    case 'TF': {
+      const sides = [
+        { id: 'TRUE', text: 'True', option: question.trueOption },
+        { id: 'FALSE', text: 'False', option: question.falseOption },
+      ];
+      response = {
+        cardinality: 'single',
+        baseType: 'identifier',
+        correct: sides.filter(side => (side.option?.credit ?? 0) === 100).map(side => side.id).slice(0, 1),
+        mapping: sides.map(side => ({ key: side.id, value: points * (side.option?.credit ?? 0) / 100 })).filter(entry => entry.value !== 0),
+      };
+      interaction = xmlElement('choiceInteraction', { responseIdentifier: RESPONSE, shuffle: 'false', maxChoices: 1 },
+        sides.map(side => simpleChoice(side.id, side.text)));
+      sides.forEach(side => choiceFeedback(side.id, side.option?.feedback));
+      break;
+    }
+
+    case 'MS': {
+      const options = question.options ?? [];
+      const correctCount = options.filter(option => option.weight > 0).length;
+      const scoring = normalizeMultiSelectScoring(question.scoring);
+      const share = correctCount ? points / correctCount : 0;
+      response = {
+        cardinality: 'multiple',
+        baseType: 'identifier',
+        correct: options.map((option, idx) => (option.weight > 0 ? `CHOICE_${idx + 1}` : '')).filter(Boolean),
+        mapping: options.map((option, idx) => ({ key: `CHOICE_${idx + 1}`, value: option.weight > 0 ? share : -share })),
+        upperBound: points,
+      };
+      if (scoring === 'AllOrNothing') {
+        scoreMode = 'match';
+      } else {
+        warn(`${scoring} scoring has no exact QTI 2.1 equivalent; exported as a mapping where correct options add and incorrect options subtract an equal share.`);
+      }
+      interaction = xmlElement('choiceInteraction', { responseIdentifier: RESPONSE, shuffle: 'true', maxChoices: 0 },
+        options.map((option, idx) => simpleChoice(`CHOICE_${idx + 1}`, option.text)));
+      options.forEach((option, idx) => choiceFeedback(`CHOICE_${idx + 1}`, option.feedback));
+      feedbackCardinality = 'multiple';
+      break;
+    }
+
+    case 'M': {
+      const pairs = question.pairs ?? [];
+      const correct = pairs.map(pair => `C${pair.choiceNo} M${pair.choiceNo}`);
+      response = {
+        cardinality: 'multiple',
+        baseType: 'directedPair',
+        correct,
+        mapping: correct.map(key => ({ key, value: pairs.length ? points / pairs.length : 0 })),
+        upperBound: points,
+      };
+      if (question.scoring === 'AllOrNothing') scoreMode = 'match';
+      if (question.scoring === 'RightMinusWrong') warn('RightMinusWrong scoring has no QTI 2.1 equivalent; exported as EquallyWeighted.');
+      interaction = xmlElement('matchInteraction', { responseIdentifier: RESPONSE, shuffle: 'true', maxAssociations: pairs.length }, [
+        xmlElement('simpleMatchSet', {}, pairs.map(pair => simpleChoice(`C${pair.choiceNo}`, pair.choiceText, 'simpleAssociableChoice', { matchMax: 1 }))),
+        xmlElement('simpleMatchSet', {}, pairs.map(pair => simpleChoice(`M${pair.choiceNo}`, pair.matchText, 'simpleAssociableChoice', { matchMax: 1 }))),
+      ]);
+      break;
+    }
+
+    case 'O': {
+      const items = question.items ?? [];
+      response = { cardinality: 'ordered', baseType: 'identifier', correct: items.map((_, idx) => `ITEM_${idx + 1}`) };
+      scoreMode = 'match';
+      // Mappings cannot score ordered responses, so only the complete order can earn points
+      const scoring = matchingScoringOf(question);
+      if (scoring !== 'AllOrNothing') warn(`${scoring} scoring has no QTI 2.1 equivalent; exported as AllOrNothing.`);
+      if (items.some(item => item.feedback)) warn('Per-item Ordering feedback has no QTI 2.1 equivalent and was left out.');
+      interaction = xmlElement('orderInteraction', { responseIdentifier: RESPONSE, shuffle: 'true' },
+        items.map((item, idx) => simpleChoice(`ITEM_${idx + 1}`, item.text)));
+      break;
+    }
+
+    case 'SA': {
+      if (question.evaluation === 'regexp') {
+        warn('Regular expression answers have no QTI 2.1 equivalent; the expression is exported as a literal answer.');
+      }
+      response = {
+        cardinality: 'single',
+        baseType: 'string',
+        correct: question.bestAnswer !== undefined ? [question.bestAnswer] : [],
+        mapping: question.bestAnswer !== undefined
+          ? [{ key: question.bestAnswer, value: points, caseSensitive: question.evaluation === 'sensitive' }]
+          : [],
+      };
+      interaction = xmlElement('p', {}, [
+        xmlElement('textEntryInteraction', { responseIdentifier: RESPONSE, expectedLength: question.inputBox?.cols ?? 40 }),
+      ]);
+      break;
+    }
+
+    case 'FIB': {
+      const blanks = blanksOf(question);
+      const share = blanks.length ? points / blanks.length : 0;
+      blankResponses = blanks.map((blank, idx) => ({
+        identifier: `${RESPONSE}_${idx + 1}`,
+        cardinality: 'single',
+        baseType: 'string',
+        correct: bestAnswersOf(blank).slice(0, 1).map(answer => answer.text),
+        mapping: blank.answers.filter(answer => answer.weight > 0).map(answer => ({
+          key: answer.text, value: share * answer.weight / 100, caseSensitive: answer.evaluation === 'sensitive',
+        })),
+        upperBound: share,
+      }));
+      if (blanks.some(blank => blank.answers.some(answer => answer.evaluation === 'regexp'))) {
+        warn('Regular expression answers have no QTI 2.1 equivalent; the expressions are exported as literal answers.');
+      }
+      let blankNo = 0;
+      interaction = xmlElement('p', {}, (question.parts ?? []).map(part => (part.type === 'text'
+        ? bodyContent(part.text)
+        : xmlElement('textEntryInteraction', { responseIdentifier: `${RESPONSE}_${++blankNo}`, expectedLength: part.size }))).join(' '));
+      break;
+    }
+
+    case 'WR': {
+      response = { cardinality: 'single', baseType: 'string', correct: [] };
+      scoreMode = 'none';
+      if (question.initialText) warn('Initial text for written responses has no QTI 2.1 equivalent and was left out.');
+      if (question.answerKey) body.push(xmlElement('rubricBlock', { view: 'scorer' }, [xmlElement('div', {}, bodyContent(question.answerKey))]));
+      interaction = xmlElement('extendedTextInteraction', { responseIdentifier: RESPONSE, expectedLines: 15 });
+      break;
+    }
+  }
+
+  body.push(xmlElement('div', {}, bodyContent(question.questionText ?? '')));
+  if (question.image) body.push(xmlElement('p', {}, [xmlElement('img', { src: question.image, alt: question.title ?? '' })]));
+  body.push(interaction);
+
+  // Hidden feedback is shown whenever FEEDBACK does not hold its identifier, i.e. always
+  if (question.feedback) feedback.push(modalFeedback(GENERAL_FEEDBACK, question.feedback, 'hide'));
+  if (question.hint) warn('Hints have no QTI 2.1 equivalent and were left out.');
+  if (question.difficulty !== undefined) warn('Difficulty has no QTI 2.1 equivalent and was left out.');
+
+  const xml = xmlElement('assessmentItem', {
+    xmlns: QTI21_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': QTI21_SCHEMA_LOCATION,
+    identifier,
+    label: question.id,
+    title: question.title ?? '',
+    adaptive: 'false',
+    timeDependent: 'false',
+  }, [
+    response ? responseDeclaration(response) : '',
+    ...blankResponses.map(responseDeclaration),
+    outcomeDeclaration('SCORE', 'single', 'float', 0),
+    outcomeDeclaration('MAXSCORE', 'single', 'float', points),
+    feedback.length ? outcomeDeclaration('FEEDBACK', feedbackCardinality, 'identifier') : '',
+    xmlElement('itemBody', {}, body),
+    scoreProcessing(scoreMode, feedback.length > 0, blankResponses.length ? blankResponses.map(spec => spec.identifier ?? RESPONSE) : undefined),
+    ...feedback,
+  ]);
+  return { identifier, xml: `${XML_DECLARATION}\n${xml}\n` };
+}
+
+// --- Import ---
+
+const INTERACTION_NAMES: Record<string, Question['type']> = {
+  choiceInteraction: 'MC',
+  matchInteraction: 'M',
+  orderInteraction: 'O',
+  textEntryInteraction: 'SA',
+  extendedTextInteraction: 'WR',
+};
+
+// Content of a choice without any inline feedback it carries
+const choiceContent = (choice: Element): string => {
+  const clone = choice.cloneNode(true) as Element;
+  descendants(clone, 'feedbackInline').forEach(el => el.remove());
+  return innerXml(clone);
+};
+
+// Content of an element, unwrapping the single <div> our own exporter puts text in
+const contentOf = (element: Element): string => {
+  const children = childElements(element);
+  const [wrapper] = children;
+  if (children.length === 1 && wrapper.localName === 'div' && wrapper.attributes.length === 0 && element.textContent?.trim() === wrapper.textContent?.trim()) {
+    return innerXml(wrapper);
+  }
+  return innerXml(element);
+};
+
+// Question text is the item body minus its interactions and scorer-only rubrics.
+// A paragraph holding nothing but an image becomes the question's image.
+// With withoutBlanks, the blocks holding text entries are left out as well, since they become Text and Blank parts.
+const questionContentOf = (itemBody: Element, withoutBlanks = false): { text: string; image?: string } => {
+  const clone = itemBody.cloneNode(true) as Element;
+  if (withoutBlanks) descendants(clone, 'textEntryInteraction').forEach(entry => entry.parentElement?.remove());
+  for (const el of Array.from(clone.getElementsByTagNameNS('*', '*'))) {
+    if (el.localName.endsWith('Interaction') || el.localName === 'rubricBlock') el.remove();
+  }
+  let image: string | undefined;
+  for (const el of childElements(clone, 'p')) {
+    const [img] = el.children;
+    if (!image && el.children.length === 1 && img.localName === 'img' && !el.textContent?.trim()) {
+      image = img.getAttribute('src') ?? undefined;
+      el.remove();
+    } else if (!el.textContent?.trim() && el.children.length === 0) {
+      // Left empty once an inline interaction is removed
+      el.remove();
+    }
+  }
+  return { text: contentOf(clone), image };
+};
+
+// Text and blank parts of the blocks holding several text entries, in reading order
+const blankPartsOf = (interactions: Element[], declarations: Element[]): (FIBText | FIBBlank)[] => {
+  const parts: (FIBText | FIBBlank)[] = [];
+  const blocks = Array.from(new Set(interactions.map(entry => entry.parentNode).filter((block): block is Element => block instanceof Element)));
+  for (const block of blocks) {
+    const pending = block.cloneNode(false) as Element;
+    const flushText = () => {
+      const text = innerXml(pending);
+      if (text) parts.push({ type: 'text', text, htmlFlag: looksLikeHtml(text) });
+      pending.replaceChildren();
+    };
+    for (const node of Array.from(block.childNodes)) {
+      if (!(node instanceof Element) || node.localName !== 'textEntryInteraction') {
+        pending.appendChild(node.cloneNode(true));
+        continue;
+      }
+      flushText();
+      const declaration = declarations.find(decl => decl.getAttribute('identifier') === node.getAttribute('responseIdentifier'));
+      const mappingElement = declaration ? childElement(declaration, 'mapping') : undefined;
+      const entries = mappingElement ? childElements(mappingElement, 'mapEntry') : [];
+      const best = Math.max(0, ...entries.map(entry => parseFloat(entry.getAttribute('mappedValue') ?? '0') || 0));
+      const correctResponse = declaration ? childElement(declaration, 'correctResponse') : undefined;
+      // Without a mapping, the correct responses are accepted for full credit, compared case-sensitively as QTI does
+      const answers = entries.length > 0
+        ? entries.map(entry => ({
+          text: entry.getAttribute('mapKey') ?? '',
+          weight: best > 0 ? roundScore(Math.max(0, parseFloat(entry.getAttribute('mappedValue') ?? '0') || 0) / best * 100) : 0,
+          evaluation: entry.getAttribute('caseSensitive') === 'false' ? 'insensitive' as const : 'sensitive' as const,
+        })).filter(answer => answer.weight > 0)
+        : (correctResponse ? childElements(correctResponse, 'value').map(textOf) : []).map(text => ({ text, weight: 100, evaluation: 'sensitive' as const }));
+      const size = parseInt(node.getAttribute('expectedLength') ?? '', 10);
+      parts.push({ type: 'blank', ...(Number.isNaN(size) ? {} : { size }), answers });
+    }
+    flushText();
+  }
+  return parts;
+};
+
+// Reads a QTI 2.1 assessmentItem. Returns no question for interactions QuizView cannot represent.
+export function parseQti21Item(doc: Document, source: string, questionIndex: number): { question?: Question; diagnostics: ParseDiagnostic[] } {
+  const { diagnostics, report } = createImportLog();
+  const lossy = (message: string) => report('warning', 'lossy-import', message, source, questionIndex);
+  const item = doc.documentElement;
+  const itemBody = childElement(item, 'itemBody');
+  if (item.localName !== 'assessmentItem' || !itemBody) {
+    report('error', 'unsupported-item', 'File is not a QTI 2.1 assessmentItem and was skipped.', source);
+    return { diagnostics };
+  }
+
+  const interactions = Array.from(itemBody.getElementsByTagNameNS('*', '*')).filter(el => el.localName.endsWith('Interaction'));
+  // Several text entries, or one with text after it in the same block, make a fill-in-the-blank question
+  const textAfter = (el: Element) => {
+    for (let node = el.nextSibling; node; node = node.nextSibling) if (node.textContent?.trim()) return true;
+    return false;
+  };
+  const isFillInTheBlank = interactions.length > 0 && interactions.every(el => el.localName === 'textEntryInteraction')
+    && (interactions.length > 1 || textAfter(interactions[0]));
+  if (interactions.length !== 1 && !isFillInTheBlank) {
+    report('error', 'unsupported-item', `Items with ${interactions.length === 0 ? 'no' : 'several'} interactions are not supported; the item was skipped.`, source);
+    return { diagnostics };
+  }
+  const interaction = interactions[0];
+  let type = isFillInTheBlank ? 'FIB' : INTERACTION_NAMES[interaction.localName];
+  if (!type) {
+    report('error', 'unsupported-item', `${interaction.localName} has no QuizView equivalent; the item was skipped.`, source);
+    return { diagnostics };
+  }
+
+  const responseId = interaction.getAttribute('responseIdentifier') ?? RESPONSE;
+  const declaration = childElements(item, 'responseDeclaration').find(decl => decl.getAttribute('identifier') === responseId);
+  const correctResponse = declaration ? childElement(declaration, 'correctResponse') : undefined;
+  const correct = correctResponse ? childElements(correctResponse, 'value').map(textOf) : [];
+  const mappingElement = declaration ? childElement(declaration, 'mapping') : undefined;
+  const mapping = (mappingElement ? childElements(mappingElement, 'mapEntry') : []).map(entry => ({
+    key: entry.getAttribute('mapKey') ?? '',
+    value: parseFloat(entry.getAttribute('mappedValue') ?? '0') || 0,
+    caseSensitive: entry.getAttribute('caseSensitive'),
+  }));
+  const mappedValue = (key: string) => mapping.find(entry => entry.key === key)?.value;
+
+  const maxScoreDecl = childElements(item, 'outcomeDeclaration').find(decl => decl.getAttribute('identifier') === 'MAXSCORE');
+  const declaredMax = parseFloat(textOf(maxScoreDecl ? descendants(maxScoreDecl, 'value')[0] : undefined));
+  const upperBound = parseFloat(mappingElement?.getAttribute('upperBound') ?? '');
+  const mappedTotal = mapping.reduce((sum, entry) => sum + Math.max(0, entry.value), 0);
+  const points = !Number.isNaN(declaredMax) ? declaredMax : !Number.isNaN(upperBound) ? upperBound : mappedTotal || 1;
+
+  const processing = childElement(item, 'responseProcessing');
+  const template = processing?.getAttribute('template') ?? '';
+  const scoredByMatch = template.endsWith('match_correct') || (!!processing && descendants(processing, 'match').length > 0 && descendants(processing, 'mapResponse').length === 0);
+
+  // Feedback keyed by the response identifier that triggers it; anything else is general feedback
+  const modal = childElements(item, 'modalFeedback').map(fb => ({ identifier: fb.getAttribute('identifier') ?? '', showHide: fb.getAttribute('showHide'), text: innerXml(fb) }));
+  const choiceIds = new Set(descendants(interaction, 'simpleChoice').map(choice => choice.getAttribute('identifier') ?? ''));
+  const feedbackFor = (choice: Element): string | undefined => {
+    const id = choice.getAttribute('identifier') ?? '';
+    const inline = descendants(choice, 'feedbackInline').map(innerXml).join(' ');
+    return modal.find(fb => fb.identifier === id && fb.showHide !== 'hide')?.text || inline || undefined;
+  };
+  const generalFeedback = modal.filter(fb => !choiceIds.has(fb.identifier) || fb.showHide === 'hide').map(fb => fb.text).join('\n');
+
+  const content = questionContentOf(itemBody, isFillInTheBlank);
+  let questionText = content.text;
+  const prompt = childElement(interaction, 'prompt');
+  if (prompt) questionText = [questionText, innerXml(prompt)].filter(Boolean).join('\n');
+  const rubric = descendants(itemBody, 'rubricBlock').find(block => (block.getAttribute('view') ?? '').includes('scorer'));
+
+  const base = {
+    id: item.getAttribute('label') || undefined,
+    title: item.getAttribute('title') || titleFromText(questionText),
+    questionText,
+    points,
+    ...(content.image ? { image: content.image } : {}),
+    ...(generalFeedback ? { feedback: generalFeedback } : {}),
+  };
+  const toPercent = (value: number | undefined) => roundScore(Math.max(0, value ?? 0) / (points || 1) * 100);
+
+  let question: Question;
+  const choices = childElements(interaction, 'simpleChoice');
+  const texts = choices.map(choice => choiceContent(choice));
+  const plainTexts = texts.map(text => stripHtml(text).toLowerCase());
+  const isTrueFalse = plainTexts.length === 2 && [...plainTexts].sort().join() === 'false,true';
+  if (type === 'MC') {
+    const single = interaction.getAttribute('maxChoices') === '1' || declaration?.getAttribute('cardinality') === 'single';
+    type = !single ? 'MS' : (isTrueFalse ? 'TF' : 'MC');
+  }
+
+  // Without a mapping, the correct response earns full credit
+  const credit = (id: string) => (mapping.length > 0 && !scoredByMatch ? toPercent(mappedValue(id)) : (correct.includes(id) ? 100 : 0));
+
+  switch (type) {
+    case 'MC':
+      question = {
+        ...base,
+        type: 'MC',
+        options: choices.map((choice, idx) => {
+          const feedback = feedbackFor(choice);
+          return {
+            text: texts[idx],
+            percent: credit(choice.getAttribute('identifier') ?? ''),
+            htmlFlag: looksLikeHtml(texts[idx]),
+            feedbackHtmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        }),
+      } as MultipleChoiceQuestion;
+      break;
+
+    case 'TF': {
+      const optionFor = (isTrue: boolean) => {
+        const idx = plainTexts.indexOf(String(isTrue));
+        const feedback = feedbackFor(choices[idx]);
+        return {
+          isTrue,
+          credit: credit(choices[idx].getAttribute('identifier') ?? ''),
+          htmlFlag: !!feedback && looksLikeHtml(feedback),
+          ...(feedback ? { feedback } : {}),
+        };
+      };
+      question = { ...base, type: 'TF', trueOption: optionFor(true), falseOption: optionFor(false) } as TrueFalseQuestion;
+      break;
+    }
+
+    case 'MS': {
+      const isCorrect = (id: string) => (correct.length > 0 ? correct.includes(id) : (mappedValue(id) ?? 0) > 0);
+      let scoring = 'RightAnswers';
+      if (scoredByMatch) scoring = 'AllOrNothing';
+      else if (mapping.some(entry => entry.value < 0)) scoring = 'RightMinusWrong';
+      question = {
+        ...base,
+        type: 'MS',
+        scoring,
+        options: choices.map((choice, idx) => {
+          const feedback = feedbackFor(choice);
+          return {
+            text: texts[idx],
+            weight: isCorrect(choice.getAttribute('identifier') ?? '') ? 1 : 0,
+            htmlFlag: looksLikeHtml(texts[idx]),
+            feedbackHtmlFlag: !!feedback && looksLikeHtml(feedback),
+            ...(feedback ? { feedback } : {}),
+          };
+        }),
+      } as MultiSelectQuestion;
+      break;
+    }
+
+    case 'M': {
+      const [sources, targets] = childElements(interaction, 'simpleMatchSet').map(set => childElements(set, 'simpleAssociableChoice'));
+      const pairsByKey = (correct.length > 0 ? correct : mapping.filter(entry => entry.value > 0).map(entry => entry.key)).map(key => key.trim().split(/\s+/));
+      const used = new Set<string>();
+      const pairs = (sources ?? []).map((choice, idx) => {
+        const targetId = pairsByKey.find(([source]) => source === choice.getAttribute('identifier'))?.[1];
+        const target = (targets ?? []).find(t => t.getAttribute('identifier') === targetId);
+        if (targetId) used.add(targetId);
+        return { choiceNo: idx + 1, choiceText: choiceContent(choice), matchText: target ? choiceContent(target) : '' };
+      });
+      const extra = (targets ?? []).filter(t => !used.has(t.getAttribute('identifier') ?? '')).length;
+      if (extra > 0) lossy(`${extra} extra match${extra !== 1 ? 'es' : ''} without a choice could not be kept.`);
+      question = { ...base, type: 'M', pairs, scoring: scoredByMatch ? 'AllOrNothing' : 'EquallyWeighted' } as MatchingQuestion;
+      break;
+    }
+
+    case 'O': {
+      const byId = new Map(choices.map((choice, idx) => [choice.getAttribute('identifier') ?? '', idx]));
+      const order = correct.length === choices.length ? correct.map(id => byId.get(id) ?? -1).filter(idx => idx >= 0) : choices.map((_, idx) => idx);
+      question = {
+        ...base,
+        type: 'O',
+        scoring: 'AllOrNothing',
+        items: order.map(idx => ({ text: texts[idx], htmlFlag: looksLikeHtml(texts[idx]), feedbackHtmlFlag: false })),
+      } as OrderingQuestion;
+      break;
+    }
+
+    case 'SA': {
+      const answers = correct.length > 0 ? correct : mapping.filter(entry => entry.value > 0).map(entry => entry.key);
+      if (answers.length > 1) lossy(`Only the first of ${answers.length} accepted answers was kept.`);
+      // QTI compares strings case-sensitively unless the mapping says otherwise
+      const caseSensitive = mapping.find(entry => entry.key === answers[0])?.caseSensitive !== 'false';
+      question = {
+        ...base,
+        type: 'SA',
+        bestAnswer: answers[0] ?? '',
+        evaluation: caseSensitive ? 'sensitive' : 'insensitive',
+        inputBox: { rows: 1, cols: parseInt(interaction.getAttribute('expectedLength') ?? '', 10) || 40 },
+      } as ShortAnswerQuestion;
+      break;
+    }
+
+    case 'FIB': {
+      const parts = blankPartsOf(interactions, childElements(item, 'responseDeclaration'));
+      question = { ...base, type: 'FIB', parts } as FillInTheBlankQuestion;
+      break;
+    }
+
+    case 'WR':
+    default: {
+      const answerKey = rubric ? contentOf(rubric) : undefined;
+      question = { ...base, type: 'WR', ...(answerKey ? { answerKey } : {}) } as WrittenResponseQuestion;
+      break;
+    }
+  }
+  return { question, diagnostics };
+}
@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import type { Question } from '@/types/quiz';
+import type { QuizDocument } from '@/lib/assets';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { exportQti12Package, exportQti21Package, importQtiDocuments } from '@/lib/formats/qtiPackage';
+
+const BANK = parseQuizCsv([
+  'NewQuestion,WR', 'ID,WR-1', 'Title,Essay', 'QuestionText,<p>Explain entropy.</p>,HTML', 'Points,5', 'Hint,Think of disorder',
+  'InitialText,Start here', 'AnswerKey,Disorder increases', '',
+  'NewQuestion,SA', 'Title,Short', 'QuestionText,Name a noble gas.', 'Points,1', 'Answer,100,neon', '',
+  'NewQuestion,M', 'Title,Match', 'QuestionText,Match the symbols.', 'Points,2', 'Scoring,RightMinusWrong',
+  'Choice,1,Na', 'Choice,2,K', 'Match,1,Sodium', 'Match,2,Potassium', '',
+  'NewQuestion,MC', 'Title,Choice', 'QuestionText,Pick the metal.', 'Points,1', 'Option,100,<b>Iron</b>,HTML,Right', 'Option,0,Oxygen', '',
+  'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water boils at 100 C at sea level.', 'Points,1', 'TRUE,100,Yes', 'FALSE,0,No', '',
+  'NewQuestion,MS', 'Title,Select', 'QuestionText,Select the halogens.', 'Points,2', 'Scoring,AllOrNothing',
+  'Option,1,Fluorine', 'Option,1,Chlorine', 'Option,0,Neon', '',
+  'NewQuestion,O', 'Title,Order', 'QuestionText,Order by mass.', 'Points,1', 'Item,H', 'Item,He', 'Item,Li', '',
+  'NewQuestion,FIB', 'Title,Blanks', 'Points,2', 'Text,The capital of France is', 'Blank,10', 'Answer,100,Paris', 'Text,.', '',
+  'NewQuestion,ARITH', 'Title,Area', 'QuestionText,What is {w} times 2?', 'Points,1', 'Formula,{w}*2', 'Variable,w,1,10,0,1',
+  'Tolerance,0,Absolute', '',
+].join('\n')).quiz;
+
+const unzip = async (blob: Blob): Promise<QuizDocument[]> => {
+  const zip = await JSZip.loadAsync(blob);
+  return Promise.all(Object.values(zip.files).filter(file => !file.dir).map(async file => ({ path: file.name, content: await file.async('string') })));
+};
+
+// The parts of each question every QTI version keeps
+const answersOf = (question: Question) => {
+  switch (question.type) {
+    case 'SA': return question.bestAnswer;
+    case 'M': return question.pairs;
+    case 'MC': return question.options;
+    case 'TF': return [question.trueOption, question.falseOption];
+    case 'MS': return question.options?.map(option => [option.text, option.weight]);
+    case 'O': return question.items?.map(item => item.text);
+    case 'FIB': return question.parts;
+    case 'WR': return question.answerKey;
+    default: return undefined;
+  }
+};
+
+describe('QTI packages', () => {
+  it.each([
+    ['1.2', exportQti12Package, 'bank-qti12.zip', ['questiondb.xml', 'imsmanifest.xml'], [
+      [0, 'Initial text for written responses has no QTI 1.2 equivalent and was left out.'],
+      [2, 'RightMinusWrong scoring has no QTI 1.2 equivalent; exported as EquallyWeighted.'],
+      [8, 'Arithmetic questions have no QTI 1.2 equivalent; exported as a written response with the formula in the answer key.'],
+    ]],
+    ['2.1', exportQti21Package, 'bank-qti21.zip', ['assessment.xml', 'imsmanifest.xml'], [
+      [0, 'Initial text for written responses has no QTI 2.1 equivalent and was left out.'],
+      [0, 'Hints have no QTI 2.1 equivalent and were left out.'],
+      [2, 'RightMinusWrong scoring has no QTI 2.1 equivalent; exported as EquallyWeighted.'],
+      [6, 'EquallyWeighted scoring has no QTI 2.1 equivalent; exported as AllOrNothing.'],
+      [8, 'Arithmetic questions have no QTI 2.1 equivalent; exported as a written response with the formula in the answer key.'],
+    ]],
+  ] as const)('reads back a bank exported as QTI %s and reports what it left out', async (version, exportPackage, fileName, files, warnings) => {
+    const result = await exportPackage(BANK, 'bank');
+    expect(result.fileName).toBe(fileName);
+    expect(result.warnings.map(warning => [warning.questionIndex, warning.message])).toEqual(warnings);
+
+    const documents = await unzip(result.blob);
+    expect(documents.map(doc => doc.path)).toEqual(expect.arrayContaining([...files]));
+    const back = importQtiDocuments(documents);
+    expect(back.version).toBe(version);
+    expect(back.diagnostics).toEqual([]);
+    expect(back.quiz.questions.map(question => [question.type, question.title, question.points])).toEqual(
+      BANK.questions.map(question => [question.type === 'ARITH' ? 'WR' : question.type, question.title, question.points]),
+    );
+    back.quiz.questions.slice(0, 8).forEach((question, idx) => {
+      expect(answersOf(question)).toEqual(answersOf(BANK.questions[idx]));
+    });
+    expect(back.quiz.questions[8]).toMatchObject({ answerKey: 'Answer: {w}*2 (± 0)\n{w}: 1 to 10 in steps of 1' });
+  });
+
+  it('reads a Brightspace question library in manifest order', () => {
+    const { quiz, diagnostics, version } = importQtiDocuments([
+      {
+        path: 'export/questiondb.xml',
+        content: `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop>
+  <objectbank ident="QLIB_1" title="Chemistry">
+    <item ident="QUES_1" title="Metals">
+      <itemmetadata><qtimetadata>
+        <qtimetadatafield><fieldlabel>qmd_questiontype</fieldlabel><fieldentry>Multiple Choice</fieldentry></qtimetadatafield>
+        <qtimetadatafield><fieldlabel>qmd_weighting</fieldlabel><fieldentry>2</fieldentry></qtimetadatafield>
+      </qtimetadata></itemmetadata>
+      <presentation><flow>
+        <material><mattext texttype="text/html">&lt;p&gt;Which is a &lt;b&gt;metal&lt;/b&gt;?&lt;/p&gt;</mattext></material>
+        <response_lid ident="QUES_1_RESP" rcardinality="Single"><render_choice shuffle="Yes"><flow_label>
+          <response_label ident="QUES_1_A1"><flow_mat><material><mattext texttype="text/plain">Iron</mattext></material></flow_mat></response_label>
+          <response_label ident="QUES_1_A2"><flow_mat><material><mattext texttype="text/plain">Neon</mattext></material></flow_mat></response_label>
+        </flow_label></render_choice></response_lid>
+      </flow></presentation>
+      <resprocessing>
+        <respcondition continue="Yes">
+          <conditionvar><varequal respident="QUES_1_RESP">QUES_1_A1</varequal></conditionvar>
+          <setvar action="Set" varname="SCORE">100</setvar>
+        </respcondition>
+      </resprocessing>
+    </item>
+  </objectbank>
+</questestinterop>`,
+      },
+      {
+        path: 'export/imsmanifest.xml',
+        content: `<manifest identifier="M1" xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"><resources>
+  <resource identifier="RES_1" type="imsqti_xmlv1p2" href="questiondb.xml"/>
+  <resource identifier="RES_2" type="imsqti_xmlv1p2" href="extra.xml"/>
+</resources></manifest>`,
+      },
+    ]);
+    expect(version).toBe('1.2');
+    expect(quiz.questions).toEqual([expect.objectContaining({
+      type: 'MC',
+      title: 'Metals',
+      questionText: '<p>Which is a <b>metal</b>?</p>',
+      points: 2,
+      options: [
+        expect.objectContaining({ text: 'Iron', percent: 100 }),
+        expect.objectContaining({ text: 'Neon', percent: 0 }),
+      ],
+    })]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.message])).toEqual([
+      ['warning', 'The manifest lists extra.xml, but the package does not contain it.'],
+    ]);
+  });
+
+  it('reports a document that is not well-formed and keeps reading the others', () => {
+    const { quiz, diagnostics } = importQtiDocuments([
+      { path: 'broken.xml', content: '<assessmentItem identifier="A"><itemBody>' },
+      {
+        path: 'choice.xml',
+        content: `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="ITEM_7" title="Gas">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>B</value></correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>3</value></defaultValue></outcomeDeclaration>
+  <itemBody>
+    <p>Which is a noble gas?</p>
+    <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+      <simpleChoice identifier="A">Oxygen</simpleChoice>
+      <simpleChoice identifier="B">Argon</simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+</assessmentItem>`,
+      },
+    ]);
+    expect(quiz.questions).toEqual([expect.objectContaining({
+      type: 'MC',
+      title: 'Gas',
+      points: 3,
+      options: [expect.objectContaining({ text: 'Oxygen', percent: 0 }), expect.objectContaining({ text: 'Argon', percent: 100 })],
+    })]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.source])).toEqual([['error', 'broken.xml']]);
+  });
+});
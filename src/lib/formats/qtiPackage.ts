@@ -0,0 +1,133 @@
+import JSZip from 'jszip';
+import type { Quiz, Question, ParseResult } from '@/types/quiz';
+import type { QuizDocument } from '@/lib/assets';
+import { basename } from '@/lib/assets';
+import { XML_DECLARATION, xmlElement, xmlTextElement, parseXml, childElement, descendants } from '@/lib/formats/xml';
+import { createWarningLog, createImportLog } from '@/lib/formats/conversion';
+import type { ExportResult } from '@/lib/formats/conversion';
+import { serializeQti12Item, serializeQti12Items, parseQti12Document } from '@/lib/formats/qti12';
+import { serializeQti21Item, parseQti21Item, QTI21_NAMESPACE } from '@/lib/formats/qti21';
+
+const MANIFEST_FILE = 'imsmanifest.xml';
+const QTI12_BANK_FILE = 'questiondb.xml';
+const QTI21_TEST_FILE = 'assessment.xml';
+
+const resource = (identifier: string, type: string, href: string, dependencies: string[] = []): string =>
+  xmlElement('resource', { identifier, type, href }, [
+    xmlElement('file', { href }),
+    ...dependencies.map(id => xmlElement('dependency', { identifierref: id })),
+  ]);
+
+const manifest = (resources: string[], metadata: string[] = []): string =>
+  `${XML_DECLARATION}\n${xmlElement('manifest', { identifier: 'MANIFEST_1', xmlns: 'http://www.imsglobal.org/xsd/imscp_v1p1' }, [
+    metadata.length ? xmlElement('metadata', {}, metadata) : '',
+    xmlElement('organizations'),
+    xmlElement('resources', {}, resources),
+  ])}\n`;
+
+const zipBlob = (zip: JSZip): Promise<Blob> => zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+
+// A Brightspace question library package: the manifest plus every item in one questiondb.xml
+export async function exportQti12Package(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const items = quiz.questions.map((question, idx) => serializeQti12Item(question, idx, message => warn(question, idx, message)));
+  const zip = new JSZip();
+  zip.file(QTI12_BANK_FILE, `${XML_DECLARATION}\n${serializeQti12Items(items, baseName)}\n`);
+  zip.file(MANIFEST_FILE, manifest([resource('RES_QLIB', 'imsqti_xmlv1p2', QTI12_BANK_FILE)]));
+  return { fileName: `${baseName}-qti12.zip`, blob: await zipBlob(zip), warnings };
+}
+
+// A QTI 2.1 content package: one file per item and an assessmentTest listing them in order
+export async function exportQti21Package(quiz: Quiz, baseName: string): Promise<ExportResult> {
+  const { warnings, warn } = createWarningLog();
+  const zip = new JSZip();
+  const items = quiz.questions.map((question: Question, idx) => {
+    const { identifier, xml } = serializeQti21Item(question, idx, message => warn(question, idx, message));
+    const href = `items/${identifier}.xml`;
+    zip.file(href, xml);
+    return { identifier, href };
+  });
+
+  const test = xmlElement('assessmentTest', { xmlns: QTI21_NAMESPACE, identifier: 'TEST_1', title: baseName }, [
+    xmlElement('testPart', { identifier: 'PART_1', navigationMode: 'nonlinear', submissionMode: 'simultaneous' }, [
+      xmlElement('assessmentSection', { identifier: 'SECTION_1', title: baseName, visible: 'true' },
+        items.map(item => xmlElement('assessmentItemRef', { identifier: item.identifier, href: item.href }))),
+    ]),
+  ]);
+  zip.file(QTI21_TEST_FILE, `${XML_DECLARATION}\n${test}\n`);
+
+  zip.file(MANIFEST_FILE, manifest([
+    resource('RES_TEST', 'imsqti_test_xmlv2p1', QTI21_TEST_FILE, items.map(item => `RES_${item.identifier}`)),
+    ...items.map(item => resource(`RES_${item.identifier}`, 'imsqti_item_xmlv2p1', item.href)),
+  ], [xmlTextElement('schema', {}, 'QTIv2.1 Package'), xmlTextElement('schemaversion', {}, '2.1.0')]));
+  return { fileName: `${baseName}-qti21.zip`, blob: await zipBlob(zip), warnings };
+}
+
+const normalizeHref = (path: string): string => {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/').toLowerCase();
+};
+
+// Documents in the order the manifest lists them, or by path when there is no manifest
+const orderDocuments = (documents: QuizDocument[], report: ReturnType<typeof createImportLog>['report']): QuizDocument[] => {
+  const manifestDocument = documents.find(doc => basename(doc.path).toLowerCase() === MANIFEST_FILE);
+  const others = documents.filter(doc => doc !== manifestDocument);
+  if (!manifestDocument) return [...others].sort((a, b) => a.path.localeCompare(b.path));
+
+  const root = manifestDocument.path.slice(0, manifestDocument.path.length - basename(manifestDocument.path).length);
+  const byPath = new Map(others.map(doc => [normalizeHref(doc.path), doc]));
+  const ordered: QuizDocument[] = [];
+  for (const res of descendants(parseXml(manifestDocument.content), 'resource')) {
+    // Canvas lists the file only in a <file> child
+    const href = res.getAttribute('href') ?? childElement(res, 'file')?.getAttribute('href');
+    if (!href || !(res.getAttribute('type') ?? '').includes('imsqti')) continue;
+    const doc = byPath.get(normalizeHref(`${root}${decodeURIComponent(href)}`));
+    if (doc) {
+      if (!ordered.includes(doc)) ordered.push(doc);
+    } else {
+      report('warning', 'unsupported-item', `The manifest lists ${href}, but the package does not contain it.`, MANIFEST_FILE);
+    }
+  }
+  return ordered;
+};
+
+// Reads the questions out of a QTI 1.2 document, a QTI 2.1 item, or a package of either
+export function importQtiDocuments(documents: QuizDocument[]): ParseResult & { version: '1.2' | '2.1' } {
+  const { diagnostics, report } = createImportLog();
+  const questions: Question[] = [];
+  let version: '1.2' | '2.1' = '2.1';
+
+  for (const document of orderDocuments(documents, report)) {
+    let doc: Document;
+    try {
+      doc = parseXml(document.content);
+    } catch (e) {
+      report('error', 'record-error', e instanceof Error ? e.message : String(e), document.path);
+      continue;
+    }
+    const rootName = doc.documentElement.localName;
+    if (rootName === 'questestinterop') {
+      version = '1.2';
+      const result = parseQti12Document(doc, document.path, questions.length);
+      questions.push(...result.questions);
+      diagnostics.push(...result.diagnostics);
+    } else if (rootName === 'assessmentItem') {
+      const identifier = doc.documentElement.getAttribute('identifier');
+      const result = parseQti21Item(doc, identifier ? `${document.path}, item ${identifier}` : document.path, questions.length);
+      if (result.question) questions.push(result.question);
+      diagnostics.push(...result.diagnostics);
+    } else if (rootName !== 'assessmentTest') {
+      report('info', 'unsupported-item', `<${rootName}> is not a QTI item or question bank and was ignored.`, document.path);
+    }
+  }
+
+  // Diagnostics from the item parsers don't know the final titles yet
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.questionIndex !== undefined) diagnostic.questionTitle = questions[diagnostic.questionIndex]?.title;
+  });
+  return { quiz: { questions }, diagnostics, version };
+}
@@ -0,0 +1,66 @@
+// Small helpers over the browser's XML APIs, shared by the XML-based converters
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+export const escapeXml = (text: string): string => text.replace(/[&<>"']/g, ch => XML_ESCAPES[ch]);
+
+export type XmlAttributes = Record<string, string | number | boolean | undefined>;
+
+// Builds an element from already-serialized children; attributes set to undefined are left out
+export function xmlElement(name: string, attributes: XmlAttributes = {}, children: string | string[] = []): string {
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+  const content = Array.isArray(children) ? children.filter(Boolean).join('\n') : children;
+  return content ? `<${name}${attrs}>${Array.isArray(children) ? `\n${content}\n` : content}</${name}>` : `<${name}${attrs}/>`;
+}
+
+export const xmlTextElement = (name: string, attributes: XmlAttributes, text: string): string =>
+  xmlElement(name, attributes, escapeXml(text));
+
+export function parseXml(content: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`The file is not well-formed XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`);
+  }
+  return doc;
+}
+
+// Local name of the root element, read without parsing the document; used to tell XML formats apart
+export function xmlRootName(content: string): string | undefined {
+  const prologFree = content.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '');
+  return /<(?:[\w.-]+:)?([A-Za-z_][\w.-]*)[\s/>]/.exec(prologFree)?.[1];
+}
+
+// Lookups match on local names, since packages appear both with and without namespaces
+export const childElements = (parent: Element, name?: string): Element[] =>
+  Array.from(parent.children).filter(child => !name || child.localName === name);
+
+export const childElement = (parent: Element, name: string): Element | undefined => childElements(parent, name)[0];
+
+export const descendants = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+export const descendant = (parent: Element | Document, name: string): Element | undefined => descendants(parent, name)[0];
+
+export const textOf = (element: Element | undefined): string => element?.textContent?.trim() ?? '';
+
+// Serialized children of an element, for (X)HTML embedded in an XML document
+export function innerXml(element: Element): string {
+  const serializer = new XMLSerializer();
+  return Array.from(element.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .replace(/\s+xmlns(?::[\w-]+)?="[^"]*"/g, '')
+    .trim();
+}
+
+// Rewrites an HTML fragment as well-formed XHTML (closed void tags, no named entities)
+export function toXhtml(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return innerXml(doc.body);
+}
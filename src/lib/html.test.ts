@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHtmlEntities, stripHtml } from '@/lib/html';
+
+describe('decodeHtmlEntities', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeHtmlEntities('&lt;b&gt; &amp; &#233;t&#xE9; &#x1F600;')).toBe('<b> & été \u{1F600}');
+  });
+
+  it('leaves references to code points that are not characters as written', () => {
+    expect(decodeHtmlEntities('&#99999999; &#x110000; &#xD800; &#0; &bogus;')).toBe('&#99999999; &#x110000; &#xD800; &#0; &bogus;');
+  });
+});
+
+describe('stripHtml', () => {
+  it('returns the text of a fragment with out-of-range references', () => {
+    expect(stripHtml('<p>Pick &#99999999; one</p><p>of&nbsp;these</p>')).toBe('Pick &#99999999; one of these');
+  });
+});
@@ -0,0 +1,37 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Code points a numeric reference may name: not NUL, not a lone surrogate half, and within Unicode
+const isCharacterCodePoint = (value: number): boolean => value > 0 && value <= 0x10ffff && (value < 0xd800 || value > 0xdfff);
+
+// Decodes the common named entities and numeric character references. References to code points that are not
+// characters, such as &#99999999;, are left as written.
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isCharacterCodePoint(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Plain-text view of an HTML fragment: tags removed, entities decoded, whitespace collapsed.
+// Regex-based so it also works outside the browser (e.g. in workers and converters).
+export function stripHtml(html: string): string {
+  const withoutTags = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr)>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+  return decodeHtmlEntities(withoutTags).replace(/\s+/g, ' ').trim();
+}
+
+// Free-text fields carry no explicit HTML flag in the model, so detect markup
+export const looksLikeHtml = (text: string): boolean => /<\/?[a-z][^>]*>/i.test(text);
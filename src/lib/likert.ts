@@ -0,0 +1,43 @@
+import type { LikertQuestion, LikertScale, LikertStatement } from '@/types/quiz';
+
+const numbered = (count: number): string[] => Array.from({ length: count }, (_, idx) => String(idx + 1));
+
+// Choices of each scale, from lowest to highest, as Brightspace shows them to respondents
+export const LIKERT_SCALES: Record<LikertScale, { label: string; choices: string[] }> = {
+  OneToThree: { label: '1 to 3', choices: numbered(3) },
+  OneToFour: { label: '1 to 4', choices: numbered(4) },
+  OneToFive: { label: '1 to 5', choices: numbered(5) },
+  OneToSix: { label: '1 to 6', choices: numbered(6) },
+  OneToSeven: { label: '1 to 7', choices: numbered(7) },
+  OneToEight: { label: '1 to 8', choices: numbered(8) },
+  OneToNine: { label: '1 to 9', choices: numbered(9) },
+  OneToTen: { label: '1 to 10', choices: numbered(10) },
+  Agreement: { label: 'Agreement', choices: ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'] },
+  Satisfaction: { label: 'Satisfaction', choices: ['Very dissatisfied', 'Dissatisfied', 'Neutral', 'Satisfied', 'Very satisfied'] },
+  Frequency: { label: 'Frequency', choices: ['Never', 'Rarely', 'Sometimes', 'Often', 'Always'] },
+  Importance: { label: 'Importance', choices: ['Not important', 'Slightly important', 'Moderately important', 'Important', 'Very important'] },
+};
+
+export const LIKERT_SCALE_OPTIONS = Object.keys(LIKERT_SCALES) as LikertScale[];
+
+const NOT_APPLICABLE = 'N/A';
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Reads a Scale cell written as the scale's name ("OneToFive", "Agreement") or its range ("1 to 5", "1-5")
+export function parseLikertScale(text: string): LikertScale | undefined {
+  const wanted = normalize(text);
+  const range = /^1(?:to)?(\d+)$/.exec(wanted);
+  return LIKERT_SCALE_OPTIONS.find(scale =>
+    normalize(scale) === wanted || (range !== null && LIKERT_SCALES[scale].label === `1 to ${range[1]}`));
+}
+
+// The choices a respondent picks from, with N/A last when the scale offers it
+export const likertChoices = (question: LikertQuestion): string[] => [
+  ...(LIKERT_SCALES[question.scale]?.choices ?? []),
+  ...(question.notApplicable ? [NOT_APPLICABLE] : []),
+];
+
+// The rows a respondent rates; a question without Statement rows rates its own text
+export const likertStatements = (question: LikertQuestion): LikertStatement[] =>
+  question.statements?.length ? question.statements : [{ text: question.questionText ?? '', htmlFlag: true }];
@@ -0,0 +1,233 @@
+import type { Quiz, Question } from '@/types/quiz';
+import { stripHtml } from '@/lib/html';
+import { blanksOf } from '@/lib/fillInTheBlank';
+import { referencedVariables } from '@/lib/arithmetic';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  questionIndex: number;
+}
+
+export interface LintRule {
+  id: string;
+  label: string; // Short name shown on badges and in the report
+  description: string;
+  severity: LintSeverity;
+  // Returns one message per problem found in the question; quiz-level context is available for cross-question rules
+  check: (question: Question, questionIndex: number, context: LintContext) => string[];
+}
+
+// Precomputed quiz-wide lookups so cross-question rules stay linear on large banks
+export interface LintContext {
+  quiz: Quiz;
+  questionIndexesById: Map<string, number[]>;
+}
+
+export function createLintContext(quiz: Quiz): LintContext {
+  const questionIndexesById = new Map<string, number[]>();
+  quiz.questions.forEach((question, idx) => {
+    if (!question.id) return;
+    const indexes = questionIndexesById.get(question.id) ?? [];
+    indexes.push(idx);
+    questionIndexesById.set(question.id, indexes);
+  });
+  return { quiz, questionIndexesById };
+}
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Returns a description of the first tag nesting problem in an HTML fragment, or null if it is balanced
+export function findUnbalancedHtml(html: string): string | null {
+  const stack: string[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    const [, closing, rawName, selfClosing] = match;
+    if (!rawName) continue; // Comment
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+    if (!closing) {
+      stack.push(name);
+      continue;
+    }
+    if (stack.length === 0) return `Closing </${name}> has no matching opening tag.`;
+    const open = stack.pop();
+    if (open !== name) return `<${open}> is closed by </${name}>.`;
+  }
+  return stack.length > 0 ? `<${stack[stack.length - 1]}> is never closed.` : null;
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'mc-no-correct-option',
+    label: 'MC: no correct option',
+    description: 'Multiple choice question has no option worth 100%.',
+    severity: 'error',
+    check: question =>
+      question.type === 'MC' && question.options?.length && !question.options.some(option => option.percent === 100)
+        ? ['No option gives 100% credit, so the question cannot be answered fully correctly.']
+        : [],
+  },
+  {
+    id: 'mc-multiple-correct-options',
+    label: 'Multiple correct options',
+    description: 'Multiple choice question has more than one option worth 100%.',
+    severity: 'warning',
+    check: question => {
+      if (question.type !== 'MC') return [];
+      const fullCredit = (question.options ?? []).filter(option => option.percent === 100).length;
+      return fullCredit > 1 ? [`${fullCredit} options give 100% credit; consider a Multi-Select question instead.`] : [];
+    },
+  },
+  {
+    id: 'ms-no-correct-option',
+    label: 'MS: no correct option',
+    description: 'Multi-select question where every option weight is 0 or negative.',
+    severity: 'error',
+    check: question =>
+      question.type === 'MS' && question.options?.length && question.options.every(option => option.weight <= 0)
+        ? ['Every option has a weight of 0 or less, so no selection is ever correct.']
+        : [],
+  },
+  {
+    id: 'tf-both-correct',
+    label: 'Both answers correct',
+    description: 'True/false question where both True and False give 100% credit.',
+    severity: 'error',
+    check: question =>
+      question.type === 'TF' && question.trueOption?.credit === 100 && question.falseOption?.credit === 100
+        ? ['Both True and False give 100% credit.']
+        : [],
+  },
+  {
+    id: 'matching-duplicate-match',
+    label: 'Duplicate matches',
+    description: 'Matching question with identical match texts, which learners cannot tell apart.',
+    severity: 'warning',
+    check: question => {
+      if (question.type !== 'M') return [];
+      const seen = new Set<string>();
+      const duplicates = new Set<string>();
+      for (const pair of question.pairs ?? []) {
+        const text = stripHtml(pair.matchText ?? '').trim().toLowerCase();
+        if (seen.has(text)) duplicates.add(text);
+        seen.add(text);
+      }
+      return [...duplicates].map(text => `Match text '${text}' appears more than once.`);
+    },
+  },
+  {
+    id: 'sa-invalid-regexp',
+    label: 'Invalid regexp',
+    description: 'Short answer, multi-short answer or fill-in-the-blank answer evaluated by regular expression where the expression does not compile.',
+    severity: 'error',
+    check: question => {
+      let expressions: string[] = [];
+      if (question.type === 'SA' && question.evaluation === 'regexp' && question.bestAnswer !== undefined) {
+        expressions = [question.bestAnswer];
+      } else if (question.type === 'FIB') {
+        expressions = blanksOf(question).flatMap(blank => blank.answers).filter(answer => answer.evaluation === 'regexp').map(answer => answer.text);
+      } else if (question.type === 'MSA') {
+        expressions = (question.answers ?? []).filter(answer => answer.evaluation === 'regexp').map(answer => answer.text);
+      }
+      return expressions.flatMap(expression => {
+        try {
+          new RegExp(expression);
+          return [];
+        } catch (e) {
+          return [`'${expression}' is not a valid regular expression: ${e instanceof Error ? e.message : String(e)}`];
+        }
+      });
+    },
+  },
+  {
+    id: 'arith-undefined-variable',
+    label: 'Undefined variable',
+    description: 'Arithmetic or significant figures question whose formula or text refers to a {variable} that has no Variable row.',
+    severity: 'error',
+    check: question => {
+      if (question.type !== 'ARITH' && question.type !== 'SF') return [];
+      const defined = new Set((question.variables ?? []).map(variable => variable.name));
+      const missing = referencedVariables(`${question.formula ?? ''} ${question.questionText ?? ''}`).filter(name => !defined.has(name));
+      return missing.map(name => `{${name}} is used but not defined as a variable.`);
+    },
+  },
+  {
+    id: 'duplicate-id',
+    label: 'Duplicate ID',
+    description: 'Two or more questions share the same ID.',
+    severity: 'error',
+    check: (question, questionIndex, context) => {
+      if (!question.id) return [];
+      const others = (context.questionIndexesById.get(question.id) ?? [])
+        .filter(idx => idx !== questionIndex)
+        .map(idx => idx + 1);
+      return others.length > 0 ? [`ID '${question.id}' is also used by question ${others.join(', ')}.`] : [];
+    },
+  },
+  {
+    id: 'wrong-option-without-feedback',
+    label: 'Missing feedback',
+    description: 'Incorrect options without feedback explaining why they are wrong.',
+    severity: 'info',
+    check: question => {
+      const missing: string[] = [];
+      if (question.type === 'MC') {
+        question.options?.forEach((option, idx) => {
+          if (option.percent < 100 && !option.feedback) missing.push(`Option ${idx + 1}`);
+        });
+      } else if (question.type === 'MS') {
+        question.options?.forEach((option, idx) => {
+          if (option.weight <= 0 && !option.feedback) missing.push(`Option ${idx + 1}`);
+        });
+      } else if (question.type === 'TF') {
+        if (question.trueOption && question.trueOption.credit < 100 && !question.trueOption.feedback) missing.push('True');
+        if (question.falseOption && question.falseOption.credit < 100 && !question.falseOption.feedback) missing.push('False');
+      }
+      return missing.length > 0 ? [`No feedback on incorrect answer${missing.length !== 1 ? 's' : ''}: ${missing.join(', ')}.`] : [];
+    },
+  },
+  {
+    id: 'zero-points',
+    label: 'Zero points',
+    description: 'Question is worth 0 points. Likert questions are exempt, since surveys are never scored.',
+    severity: 'warning',
+    check: question => (question.points === 0 && question.type !== 'LIK' ? ['The question is worth 0 points and will not affect the grade.'] : []),
+  },
+  {
+    id: 'unbalanced-html',
+    label: 'Unbalanced HTML',
+    description: 'Question text has unclosed or mismatched HTML tags.',
+    severity: 'warning',
+    check: question => {
+      const problem = question.questionText ? findUnbalancedHtml(question.questionText) : null;
+      return problem ? [`Question text: ${problem}`] : [];
+    },
+  },
+];
+
+export const DEFAULT_ENABLED_LINT_RULES: Record<string, boolean> = Object.fromEntries(LINT_RULES.map(rule => [rule.id, true]));
+
+export function lintQuestion(question: Question, questionIndex: number, context: LintContext, enabledRules: Record<string, boolean> = DEFAULT_ENABLED_LINT_RULES): LintFinding[] {
+  return LINT_RULES
+    .filter(rule => enabledRules[rule.id] !== false)
+    .flatMap(rule => rule.check(question, questionIndex, context).map(message => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      message,
+      questionIndex,
+    })));
+}
+
+// Findings for every question, indexed like quiz.questions
+export function lintQuiz(quiz: Quiz, enabledRules: Record<string, boolean> = DEFAULT_ENABLED_LINT_RULES): LintFinding[][] {
+  const context = createLintContext(quiz);
+  return quiz.questions.map((question, idx) => lintQuestion(question, idx, context, enabledRules));
+}
+
+export const getLintRule = (ruleId: string): LintRule | undefined => LINT_RULES.find(rule => rule.id === ruleId);
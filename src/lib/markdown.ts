@@ -0,0 +1,73 @@
+// A small Markdown-to-HTML converter for question text written in the Markdown authoring format.
+// It covers what quiz text needs (paragraphs, emphasis, code, links, images, lists) and passes raw HTML
+// and LaTeX through untouched; the result goes through sanitizeHtml like any other question HTML.
+
+const escapeHtml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Spans that must not be touched by the emphasis rules: code, math and raw tags
+const PROTECTED_PATTERN = /`[^`]+`|\$\$[\s\S]+?\$\$|\$[^$\n]+\$|\\\([\s\S]+?\\\)|\\\[[\s\S]+?\\\]|<[^>]+>/g;
+
+export function inlineMarkdown(text: string): string {
+  const protectedSpans: string[] = [];
+  const placeholder = (html: string) => `\u0000${protectedSpans.push(html) - 1}\u0000`;
+
+  const converted = text
+    .replace(PROTECTED_PATTERN, span => placeholder(span.startsWith('`') ? `<code>${escapeHtml(span.slice(1, -1))}</code>` : span))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, src: string) => placeholder(`<img src="${src}" alt="${alt}">`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => `<a href="${href}">${label}</a>`)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?=\S)([^*]*?\S)\*|\b_(?=\S)([^_]*?\S)_\b/g, (_, a?: string, b?: string) => `<em>${a ?? b}</em>`);
+
+  return converted.replace(/\u0000(\d+)\u0000/g, (_, idx: string) => protectedSpans[Number(idx)]);
+}
+
+// Converts Markdown blocks to HTML. Text without any Markdown syntax is returned unchanged,
+// so plain questions stay plain text (and export without an HTML flag).
+export function markdownToHtml(markdown: string): string {
+  const text = markdown.trim();
+  const blocks: string[] = [];
+  const lines = text.split(/\r?\n/);
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push(`<p>${inlineMarkdown(paragraph.join('\n'))}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) blocks.push(`<${list.ordered ? 'ol' : 'ul'}>${list.items.map(item => `<li>${inlineMarkdown(item)}</li>`).join('')}</${list.ordered ? 'ol' : 'ul'}>`);
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+    const listItem = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const ordered = !listItem[1];
+      if (list && list.ordered !== ordered) flushList();
+      list = list ?? { ordered, items: [] };
+      list.items.push(listItem[2]);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  // A single paragraph whose inline conversion changed nothing had no Markdown in it
+  const plain = blocks.length === 1 && blocks[0] === `<p>${text}</p>`;
+  return plain ? text : blocks.join('\n');
+}
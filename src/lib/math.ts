@@ -0,0 +1,52 @@
+import katex from 'katex';
+
+// \( inline \), \[ display \] and $$ display $$ — single dollars are left alone since banks use them for prices
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/g;
+
+// Text inside these elements is shown verbatim
+const SKIP_ELEMENTS = new Set(['CODE', 'PRE', 'KBD', 'SAMP', 'SCRIPT', 'STYLE', 'TEXTAREA', 'MATH']);
+
+export const containsMath = (text: string): boolean => {
+  MATH_PATTERN.lastIndex = 0;
+  return MATH_PATTERN.test(text);
+};
+
+const renderTex = (tex: string, displayMode: boolean): HTMLElement => {
+  // Always a span: display math often sits inside a <p>, which cannot contain a <div>
+  const element = document.createElement('span');
+  element.className = displayMode ? 'math-display' : 'math-inline';
+  // KaTeX escapes its input and reports errors inline, so its output is safe to insert
+  element.innerHTML = katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+  return element;
+};
+
+// Replaces LaTeX delimiters found in text nodes with rendered KaTeX, in place
+export function typesetMath(root: Node): void {
+  const textNodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+        if (SKIP_ELEMENTS.has(parent.tagName.toUpperCase())) return NodeFilter.FILTER_REJECT;
+      }
+      return containsMath(node.nodeValue ?? '') ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+    },
+  });
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  for (const textNode of textNodes) {
+    const text = textNode.nodeValue ?? '';
+    const replacement = document.createDocumentFragment();
+    let lastIndex = 0;
+    MATH_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = MATH_PATTERN.exec(text)) !== null) {
+      replacement.appendChild(document.createTextNode(text.slice(lastIndex, match.index)));
+      const [, dollarDisplay, bracketDisplay, inline] = match;
+      const displayMode = inline === undefined;
+      replacement.appendChild(renderTex((dollarDisplay ?? bracketDisplay ?? inline).trim(), displayMode));
+      lastIndex = match.index + match[0].length;
+    }
+    replacement.appendChild(document.createTextNode(text.slice(lastIndex)));
+    textNode.replaceWith(replacement);
+  }
+}
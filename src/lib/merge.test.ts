@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { defaultResolution, findMergeConflicts, mergeQuizzes } from '@/lib/merge';
+import type { MergeSource } from '@/lib/merge';
+
+const bank = (...lines: string[]) => parseQuizCsv(lines.join('\n')).quiz;
+
+const FIRST = bank(
+  'NewQuestion,MC', 'ID,Q1', 'Title,Gas', 'QuestionText,Which element is a noble gas?', 'Option,100,Neon', 'Option,0,Iron',
+  'NewQuestion,HS', 'Title,Hotspot', 'QuestionText,Click the valve.',
+  'NewQuestion,TF', 'ID,Q2', 'Title,Water', 'QuestionText,Water boils at 100 C at sea level.', 'TRUE,100', 'FALSE,0',
+);
+const SECOND = bank(
+  'NewQuestion,MC', 'ID,Q1', 'Title,Gas', 'QuestionText,Which element is a noble gas?', 'Option,100,Neon', 'Option,0,Iron',
+  'NewQuestion,TF', 'ID,Q2', 'Title,Metal', 'QuestionText,Mercury is liquid at room temperature.', 'TRUE,100', 'FALSE,0',
+);
+
+const SOURCES: MergeSource[] = [{ name: 'first.csv', quiz: FIRST }, { name: 'second.csv', quiz: SECOND }];
+
+describe('findMergeConflicts', () => {
+  it('links shared IDs across banks and keeps both versions when their texts differ', () => {
+    const conflicts = findMergeConflicts(SOURCES);
+    expect(conflicts.map(conflict => [conflict.sharedIds, conflict.textsMatch, defaultResolution(conflict)])).toEqual([
+      [['Q1'], true, 0],
+      [['Q2'], false, 'keep-all'],
+    ]);
+  });
+});
+
+describe('mergeQuizzes', () => {
+  it('drops the losing versions and keeps questions of unknown types in place', () => {
+    const merged = mergeQuizzes(SOURCES, findMergeConflicts(SOURCES), {});
+    expect(merged.questions.map(question => question.title)).toEqual(['Gas', 'Water', 'Metal']);
+    expect(merged.unreadQuestions?.map(unread => [unread.start, unread.rows[1]])).toEqual([[1, ['Title', 'Hotspot']]]);
+  });
+});
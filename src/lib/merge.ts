@@ -0,0 +1,136 @@
+import type { Question, Quiz, QuizSection, UnreadQuestion } from '@/types/quiz';
+import { groupBySection } from '@/lib/sections';
+import { jaccard, linkedGroups, questionTokens, similarPairs } from '@/lib/similarity';
+
+// One of the banks being merged; its questions' IDs get `idPrefix` in front when it is set
+export interface MergeSource {
+  name: string;
+  quiz: Quiz;
+  idPrefix?: string;
+}
+
+export interface MergeMember {
+  sourceIndex: number;
+  questionIndex: number;
+}
+
+// Questions from different banks that are probably the same: they share an ID, or say nearly the same thing
+export interface MergeConflict {
+  key: string; // Stable while the sources and prefixes stay the same, for remembering the user's choice
+  members: MergeMember[]; // In merge order
+  sharedIds: string[]; // IDs used by members from more than one bank, after prefixing
+  textsMatch: boolean; // False when questions sharing an ID say different things
+  similarity?: number; // Highest word overlap between two members, when they were matched by text
+}
+
+// Which member of a conflict is kept, by its index in `members`, or 'keep-all' to keep every version
+export type MergeResolution = number | 'keep-all';
+
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+export const mergedIdOf = (source: MergeSource, question: Question): string | undefined =>
+  question.id && source.idPrefix ? `${source.idPrefix}${question.id}` : question.id;
+
+// Groups questions from different banks that share an ID or nearly all their words. Only questions of the same
+// type are compared by text; repeats within one bank are that bank's own business.
+export function findMergeConflicts(sources: MergeSource[]): MergeConflict[] {
+  const members: MergeMember[] = sources.flatMap((source, sourceIndex) => source.quiz.questions.map((_, questionIndex) => ({ sourceIndex, questionIndex })));
+  const questionOf = (member: MergeMember) => sources[member.sourceIndex].quiz.questions[member.questionIndex];
+  const idOf = (member: MergeMember) => mergedIdOf(sources[member.sourceIndex], questionOf(member));
+  const tokens = members.map(member => questionTokens(questionOf(member)));
+
+  const links: [number, number][] = [];
+  const differingTexts = new Set<number>(); // Members linked by ID to a question that says something else
+  const sharedIds = new Set<string>();
+  // First question with each ID in each bank, so every bank's copy is linked to the earlier banks' copies
+  const firstWithId = new Map<string, Map<number, number>>();
+  members.forEach((member, idx) => {
+    const id = idOf(member);
+    if (!id) return;
+    const bySource = firstWithId.get(id) ?? new Map<number, number>();
+    firstWithId.set(id, bySource);
+    if (bySource.has(member.sourceIndex)) return;
+    bySource.forEach(other => {
+      links.push([other, idx]);
+      sharedIds.add(id);
+      if (jaccard(tokens[other], tokens[idx]) < NEAR_DUPLICATE_THRESHOLD) differingTexts.add(idx);
+    });
+    bySource.set(member.sourceIndex, idx);
+  });
+
+  const similarity = new Map<number, number>();
+  const canPair = (a: number, b: number) => members[a].sourceIndex !== members[b].sourceIndex && questionOf(members[a]).type === questionOf(members[b]).type;
+  similarPairs(tokens, NEAR_DUPLICATE_THRESHOLD, canPair).forEach(({ a, b, score }) => {
+    links.push([a, b]);
+    similarity.set(a, Math.max(similarity.get(a) ?? 0, score));
+  });
+
+  // Chains of matches end up in one conflict
+  return linkedGroups(members.length, links).map(group => {
+    const scores = group.map(idx => similarity.get(idx)).filter((score): score is number => score !== undefined);
+    return {
+      key: group.map(idx => `${members[idx].sourceIndex}.${members[idx].questionIndex}`).join(','),
+      members: group.map(idx => members[idx]),
+      sharedIds: [...new Set(group.map(idx => idOf(members[idx])).filter((id): id is string => !!id && sharedIds.has(id)))],
+      textsMatch: !group.some(idx => differingTexts.has(idx)),
+      similarity: scores.length > 0 ? Math.max(...scores) : undefined,
+    };
+  });
+}
+
+// A shared ID keeps the first bank's version only when the questions also say the same thing; anything else is kept
+// until the user decides, so banks that both number their questions Q1, Q2, ... lose nothing
+export const defaultResolution = (conflict: MergeConflict): MergeResolution =>
+  (conflict.sharedIds.length > 0 && conflict.textsMatch ? 0 : 'keep-all');
+
+// The banks one after another, minus the versions that lost a conflict, with prefixed IDs and sections carried over
+export function mergeQuizzes(sources: MergeSource[], conflicts: MergeConflict[], resolutions: Record<string, MergeResolution> = {}): Quiz {
+  const dropped = new Set<string>();
+  conflicts.forEach(conflict => {
+    const resolution = resolutions[conflict.key] ?? defaultResolution(conflict);
+    if (resolution === 'keep-all') return;
+    conflict.members.forEach((member, idx) => idx !== resolution && dropped.add(`${member.sourceIndex}.${member.questionIndex}`));
+  });
+
+  const questions: Question[] = [];
+  const sections: QuizSection[] = [];
+  const seenLeadingRows = new Set<string>();
+  const leadingRows: string[][] = [];
+  const unreadQuestions: UnreadQuestion[] = [];
+
+  sources.forEach((source, sourceIndex) => {
+    // Merged position of each of the bank's questions, dropped or not, so its unread questions keep their place
+    const positions: number[] = [];
+    (source.quiz.leadingRows ?? []).forEach(row => {
+      const key = JSON.stringify(row);
+      if (!seenLeadingRows.has(key)) leadingRows.push(row);
+      seenLeadingRows.add(key);
+    });
+
+    groupBySection(source.quiz).forEach(group => {
+      const start = questions.length;
+      group.questionIndexes.forEach(questionIndex => {
+        positions[questionIndex] = questions.length;
+        if (dropped.has(`${sourceIndex}.${questionIndex}`)) return;
+        const question = source.quiz.questions[questionIndex];
+        const id = mergedIdOf(source, question);
+        questions.push(id === question.id ? question : { ...question, id });
+      });
+      const count = questions.length - start;
+      if (group.section) {
+        sections.push({ ...group.section, start, count });
+      } else if (sections.length > 0 && count > 0) {
+        // Would otherwise fall into the previous bank's last section, so they get one named after their bank
+        sections.push({ name: source.name, start, count });
+      }
+    });
+    (source.quiz.unreadQuestions ?? []).forEach(unread => unreadQuestions.push({ ...unread, start: positions[unread.start] ?? questions.length }));
+  });
+
+  return {
+    questions,
+    ...(sections.length > 0 ? { sections } : {}),
+    ...(leadingRows.length > 0 ? { leadingRows } : {}),
+    ...(unreadQuestions.length > 0 ? { unreadQuestions } : {}),
+  };
+}
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import type { Question, LikertScale, MatchingQuestion, OrderingQuestion } from '@/types/quiz';
+import { formulaError } from '@/lib/arithmetic';
+import { LIKERT_SCALE_OPTIONS } from '@/lib/likert';
+
+// Scoring values Brightspace understands for each question type
+export const MATCHING_SCORING_OPTIONS = ['EquallyWeighted', 'AllOrNothing', 'RightMinusWrong'] as const;
+export const ORDERING_SCORING_OPTIONS = MATCHING_SCORING_OPTIONS;
+
+// Without a Scoring row Brightspace weights the matches or positions equally
+export const matchingScoringOf = (question: MatchingQuestion | OrderingQuestion): MatchingQuestion['scoring'] =>
+  question.scoring ?? 'EquallyWeighted';
+export const MULTI_SELECT_SCORING_OPTIONS = ['RightAnswers', 'RightAnswersLimitedSelections', 'RightMinusWrong', 'AllOrNothing'] as const;
+export const SHORT_ANSWER_EVALUATION_OPTIONS = ['insensitive', 'sensitive', 'regexp'] as const;
+
+// Form inputs hand us strings; treat an empty field as "not set" rather than 0 or ''
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const optionalText = z.preprocess(emptyToUndefined, z.string().optional());
+const optionalInt = z.preprocess(emptyToUndefined, z.coerce.number().int().optional());
+const requiredText = (label: string) => z.string({ required_error: `${label} is required.` }).trim().min(1, `${label} is required.`);
+
+const baseQuestionSchema = z.object({
+  id: optionalText,
+  title: requiredText('Title'),
+  questionText: requiredText('Question text'),
+  questionTextHtmlFlag: z.boolean().optional(),
+  points: z.coerce.number().int('Points must be a whole number.').min(0, 'Points cannot be negative.'),
+  difficulty: optionalInt,
+  image: optionalText,
+  hint: optionalText,
+  feedback: optionalText,
+  feedbackHtmlFlag: z.boolean().optional(),
+  // Not edited in the form, but carried through so saving keeps the rows QuizView doesn't understand
+  rawRows: z.array(z.object({ cells: z.array(z.string()), recognized: z.boolean() })).optional(),
+});
+
+export const writtenResponseSchema = baseQuestionSchema.extend({
+  type: z.literal('WR'),
+  initialText: optionalText,
+  answerKey: optionalText,
+  answerKeyHtmlFlag: z.boolean().optional(),
+});
+
+export const shortAnswerSchema = baseQuestionSchema.extend({
+  type: z.literal('SA'),
+  bestAnswer: requiredText('Answer'),
+  evaluation: z.enum(SHORT_ANSWER_EVALUATION_OPTIONS),
+  inputBox: z.object({
+    rows: z.coerce.number().int().min(1, 'Rows must be at least 1.'),
+    cols: z.coerce.number().int().min(1, 'Columns must be at least 1.'),
+  }),
+});
+
+export const matchingPairSchema = z.object({
+  choiceNo: z.coerce.number().int().min(1),
+  choiceText: requiredText('Choice'),
+  matchText: requiredText('Match'),
+});
+
+export const matchingSchema = baseQuestionSchema.extend({
+  type: z.literal('M'),
+  pairs: z.array(matchingPairSchema, { required_error: 'Add at least one pair.' }).min(1, 'Add at least one pair.'),
+  scoring: z.enum(MATCHING_SCORING_OPTIONS),
+});
+
+export const mcOptionSchema = z.object({
+  text: requiredText('Option text'),
+  percent: z.coerce.number().int().min(-100, 'Percent must be between -100 and 100.').max(100, 'Percent must be between -100 and 100.'),
+  feedback: optionalText,
+  htmlFlag: z.boolean(),
+  feedbackHtmlFlag: z.boolean(),
+});
+
+export const multipleChoiceSchema = baseQuestionSchema.extend({
+  type: z.literal('MC'),
+  options: z.array(mcOptionSchema, { required_error: 'Add at least one option.' }).min(1, 'Add at least one option.'),
+});
+
+export const tfOptionSchema = z.object({
+  isTrue: z.boolean(),
+  credit: z.coerce.number().int().min(-100, 'Credit must be between -100 and 100.').max(100, 'Credit must be between -100 and 100.'),
+  feedback: optionalText,
+  htmlFlag: z.boolean(),
+});
+
+export const trueFalseSchema = baseQuestionSchema.extend({
+  type: z.literal('TF'),
+  trueOption: tfOptionSchema.optional().refine(option => option !== undefined, 'The True option is missing.'),
+  falseOption: tfOptionSchema.optional().refine(option => option !== undefined, 'The False option is missing.'),
+});
+
+export const msOptionSchema = z.object({
+  text: requiredText('Option text'),
+  weight: z.coerce.number().int(),
+  feedback: optionalText,
+  htmlFlag: z.boolean(),
+  feedbackHtmlFlag: z.boolean(),
+});
+
+export const multiSelectSchema = baseQuestionSchema.extend({
+  type: z.literal('MS'),
+  options: z.array(msOptionSchema, { required_error: 'Add at least one option.' }).min(1, 'Add at least one option.'),
+  // Kept as a free string so scoring modes QuizView doesn't know about survive editing
+  scoring: z.string(),
+});
+
+export const orderingItemSchema = z.object({
+  text: requiredText('Item text'),
+  feedback: optionalText,
+  htmlFlag: z.boolean(),
+  feedbackHtmlFlag: z.boolean(),
+});
+
+export const orderingSchema = baseQuestionSchema.extend({
+  type: z.literal('O'),
+  items: z.array(orderingItemSchema, { required_error: 'Add at least one item.' }).min(1, 'Add at least one item.'),
+  scoring: z.enum(ORDERING_SCORING_OPTIONS),
+});
+
+export const fibAnswerSchema = z.object({
+  text: requiredText('Answer'),
+  weight: z.coerce.number().int().min(0, 'Weight must be between 0 and 100.').max(100, 'Weight must be between 0 and 100.'),
+  evaluation: z.enum(SHORT_ANSWER_EVALUATION_OPTIONS),
+});
+
+export const fibPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: requiredText('Text'),
+    htmlFlag: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('blank'),
+    size: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1, 'Size must be at least 1.').optional()),
+    answers: z.array(fibAnswerSchema, { required_error: 'Add at least one answer.' }).min(1, 'Add at least one answer.'),
+  }),
+]);
+
+export const fillInTheBlankSchema = baseQuestionSchema.extend({
+  type: z.literal('FIB'),
+  // The Text and Blank rows carry the question, so the question text is only an optional lead-in
+  questionText: z.string().default(''),
+  parts: z.array(fibPartSchema, { required_error: 'Add at least one blank.' })
+    .refine(parts => parts.some(part => part.type === 'blank'), 'Add at least one blank.'),
+});
+
+export const msaAnswerSchema = z.object({
+  text: requiredText('Answer'),
+  evaluation: z.enum(SHORT_ANSWER_EVALUATION_OPTIONS),
+});
+
+export const multiShortAnswerSchema = baseQuestionSchema.extend({
+  type: z.literal('MSA'),
+  answers: z.array(msaAnswerSchema, { required_error: 'Add at least one answer.' }).min(1, 'Add at least one answer.'),
+  inputBox: z.object({
+    rows: z.coerce.number().int().min(1, 'Add at least one answer box.'),
+    cols: z.coerce.number().int().min(1, 'Columns must be at least 1.'),
+  }),
+});
+
+// The editor shows enumerated values as comma-separated text
+const numberList = z.preprocess(
+  value => (typeof value === 'string' ? (value.trim() ? value.split(',').map(item => Number(item.trim())) : undefined) : value),
+  z.array(z.number({ invalid_type_error: 'Values must be numbers separated by commas.' }).finite('Values must be numbers separated by commas.')).optional(),
+);
+
+export const arithmeticVariableSchema = z.object({
+  name: requiredText('Name').regex(/^[A-Za-z_]\w*$/, 'Names start with a letter and use only letters, digits and _.'),
+  min: z.coerce.number({ invalid_type_error: 'Min must be a number.' }),
+  max: z.coerce.number({ invalid_type_error: 'Max must be a number.' }),
+  decimalPlaces: z.coerce.number().int().min(0, 'Decimal places cannot be negative.'),
+  step: z.preprocess(emptyToUndefined, z.coerce.number().positive('Step must be greater than 0.').optional()),
+  values: numberList,
+});
+
+export const arithmeticSchema = baseQuestionSchema.extend({
+  type: z.literal('ARITH'),
+  formula: requiredText('Formula').superRefine((formula, ctx) => {
+    const message = formulaError(formula);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }),
+  variables: z.array(arithmeticVariableSchema, { required_error: 'Add at least one variable.' }),
+  // Clearing the amount in the editor removes the Tolerance row, so answers must match exactly
+  tolerance: z.preprocess(
+    value => (value && typeof value === 'object' && emptyToUndefined((value as { amount?: unknown }).amount) === undefined ? undefined : value),
+    z.object({
+      amount: z.coerce.number().min(0, 'Tolerance cannot be negative.'),
+      unit: z.enum(['absolute', 'percent']).default('absolute'),
+    }).optional(),
+  ),
+});
+
+export const significantFiguresSchema = arithmeticSchema.extend({
+  type: z.literal('SF'),
+  significantFigures: z.coerce.number({ invalid_type_error: 'Significant figures must be a number.' })
+    .int('Significant figures must be a whole number.')
+    .min(1, 'Answers need at least 1 significant figure.'),
+});
+
+export const likertStatementSchema = z.object({
+  text: requiredText('Statement'),
+  htmlFlag: z.boolean(),
+});
+
+export const likertSchema = baseQuestionSchema.extend({
+  type: z.literal('LIK'),
+  scale: z.enum(LIKERT_SCALE_OPTIONS as [LikertScale, ...LikertScale[]], { errorMap: () => ({ message: 'Choose one of the Brightspace Likert scales.' }) }),
+  notApplicable: z.boolean().optional(),
+  statements: z.array(likertStatementSchema),
+});
+
+export const questionSchema = z.discriminatedUnion('type', [
+  writtenResponseSchema,
+  shortAnswerSchema,
+  matchingSchema,
+  multipleChoiceSchema,
+  trueFalseSchema,
+  multiSelectSchema,
+  orderingSchema,
+  fillInTheBlankSchema,
+  multiShortAnswerSchema,
+  arithmeticSchema,
+  significantFiguresSchema,
+  likertSchema,
+]);
+
+export type QuestionFormValues = z.infer<typeof questionSchema>;
+
+// Compile-time check that the schemas stay in step with the Question model
+type AssertAssignable<T extends Question> = T;
+export type QuestionSchemaMatchesModel = AssertAssignable<QuestionFormValues>;
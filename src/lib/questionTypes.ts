@@ -0,0 +1,19 @@
+import type { QuestionType } from '@/types/quiz';
+
+// Human-readable names for the Brightspace question type codes
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  WR: 'Written Response',
+  SA: 'Short Answer',
+  M: 'Matching',
+  MC: 'Multiple Choice',
+  TF: 'True/False',
+  MS: 'Multi-Select',
+  O: 'Ordering',
+  FIB: 'Fill in the Blanks',
+  MSA: 'Multi-Short Answer',
+  ARITH: 'Arithmetic',
+  SF: 'Significant Figures',
+  LIK: 'Likert',
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
@@ -0,0 +1,9 @@
+// Fisher-Yates shuffle returning a new array; pass a seeded generator for reproducible orderings
+export function shuffle<T>(items: readonly T[], random: () => number = Math.random): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
@@ -0,0 +1,82 @@
+import DOMPurify from 'dompurify';
+
+// Markup Brightspace's HTML editor produces and accepts in question content
+const ALLOWED_TAGS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li',
+  'mark', 'ol', 'p', 'pre', 'q', 's', 'samp', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul', 'var',
+  'audio', 'video', 'source', 'track',
+];
+
+// MathML that STEM banks paste in from equation editors
+const MATHML_TAGS = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup', 'msub', 'msubsup',
+  'mfrac', 'msqrt', 'mroot', 'mover', 'munder', 'munderover', 'mtable', 'mtr', 'mtd', 'mstyle', 'mpadded', 'mphantom',
+  'menclose', 'merror', 'mfenced',
+];
+
+const ALLOWED_ATTR = [
+  'href', 'target', 'rel', 'src', 'alt', 'title', 'width', 'height', 'style', 'class', 'lang', 'dir',
+  'colspan', 'rowspan', 'scope', 'headers', 'align', 'valign', 'border', 'cellpadding', 'cellspacing',
+  'color', 'face', 'size', 'controls', 'type', 'kind', 'srclang', 'label',
+  // MathML presentation attributes
+  'display', 'mathvariant', 'mathsize', 'mathcolor', 'stretchy', 'fence', 'separator', 'accent', 'linethickness',
+  'encoding', 'xmlns', 'columnalign', 'rowalign', 'open', 'close', 'separators', 'notation',
+];
+
+// Inline styles that only change how text and tables look, with their longhands (margin-top, border-left-color, ...).
+// Anything that could place content over the app, such as position, z-index or transforms, is dropped.
+const ALLOWED_STYLES = [
+  'color', 'background-color', 'font', 'text-align', 'text-decoration', 'text-indent', 'vertical-align', 'white-space',
+  'line-height', 'list-style', 'width', 'height', 'max-width', 'margin', 'padding', 'border',
+];
+
+const isAllowedStyle = (property: string): boolean =>
+  ALLOWED_STYLES.some(allowed => property === allowed || property.startsWith(`${allowed}-`));
+
+const filterStyle = (node: Element) => {
+  const style = (node as HTMLElement).style;
+  if (!style) return;
+  const kept = Array.from(style)
+    .filter(property => isAllowedStyle(property) && !/url\(|expression\(/i.test(style.getPropertyValue(property)))
+    .map(property => `${property}: ${style.getPropertyValue(property)}`);
+  if (kept.length > 0) node.setAttribute('style', kept.join('; '));
+  else node.removeAttribute('style');
+};
+
+let hooksInstalled = false;
+
+// Links in previews open in a new tab without giving the target page access to QuizView, and inline styles are
+// cut down to the allowed properties
+const installHooks = () => {
+  if (hooksInstalled) return;
+  DOMPurify.addHook('afterSanitizeAttributes', node => {
+    if (node.hasAttribute('style')) filterStyle(node);
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+  hooksInstalled = true;
+};
+
+// DOMPurify needs a DOM; it is unavailable while Next.js prerenders the static export
+export const canSanitizeHtml = (): boolean => typeof window !== 'undefined' && DOMPurify.isSupported;
+
+// Sanitizes untrusted CSV content against the Brightspace allow-list and returns a fragment ready for further processing
+export function sanitizeHtmlToFragment(html: string): DocumentFragment {
+  installHooks();
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: [...ALLOWED_TAGS, ...MATHML_TAGS],
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false,
+    RETURN_DOM_FRAGMENT: true,
+  });
+}
+
+export function sanitizeHtml(html: string): string {
+  const container = document.createElement('div');
+  container.appendChild(sanitizeHtmlToFragment(html));
+  return container.innerHTML;
+}
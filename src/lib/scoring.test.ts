@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import type { Question } from '@/types/quiz';
+import type { QuestionResponse } from '@/types/practice';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { gradeQuestion, gradeQuiz, matchesShortAnswer, normalizeMultiSelectScoring } from '@/lib/scoring';
+
+// Parses one question from its rows after NewQuestion, giving it the Title every question needs
+const questionOf = (newQuestion: string, ...lines: string[]): Question => {
+  const { quiz, diagnostics } = parseQuizCsv([newQuestion, 'Title,Sample', ...lines].join('\n') + '\n');
+  expect(diagnostics.filter(diagnostic => diagnostic.severity === 'error')).toEqual([]);
+  return quiz.questions[0];
+};
+
+const scoreOf = (question: Question, response: QuestionResponse) => {
+  const { score, status } = gradeQuestion(question, response);
+  return [score, status];
+};
+
+const multiSelect = (scoring: string) => questionOf(
+  'NewQuestion,MS',
+  'QuestionText,Select the halogens.',
+  'Points,4',
+  `Scoring,${scoring}`,
+  'Option,1,Fluorine,,Yes',
+  'Option,1,Chlorine',
+  'Option,0,Neon,,Noble',
+  'Option,0,Argon',
+);
+
+const matching = (scoring: string) => questionOf(
+  'NewQuestion,M',
+  'QuestionText,Match the symbols.',
+  'Points,3',
+  ...(scoring ? [`Scoring,${scoring}`] : []),
+  'Choice,1,Na',
+  'Choice,2,K',
+  'Choice,3,Fe',
+  'Match,1,Sodium',
+  'Match,2,Potassium',
+  'Match,3,Iron',
+);
+
+describe('gradeQuestion', () => {
+  it('awards the credit of the chosen Multiple Choice option with its feedback', () => {
+    const question = questionOf(
+      'NewQuestion,MC',
+      'QuestionText,Pick the metal.',
+      'Points,2',
+      'Option,100,Iron,,Right',
+      'Option,50,Mercury,,Liquid at room temperature',
+      'Option,0,Oxygen',
+    );
+    expect(gradeQuestion(question, { type: 'MC', selected: 1 })).toMatchObject({
+      score: 1, maxScore: 2, status: 'partial', feedback: ['Liquid at room temperature'],
+    });
+    expect(scoreOf(question, { type: 'MC', selected: 0 })).toEqual([2, 'correct']);
+    expect(scoreOf(question, { type: 'MC', selected: null })).toEqual([0, 'unanswered']);
+  });
+
+  it('awards the credit of the chosen True or False answer', () => {
+    const question = questionOf(
+      'NewQuestion,TF',
+      'QuestionText,Water boils at 100 C at sea level.',
+      'Points,1',
+      'TRUE,100',
+      'FALSE,0',
+    );
+    expect(scoreOf(question, { type: 'TF', selected: true })).toEqual([1, 'correct']);
+    expect(scoreOf(question, { type: 'TF', selected: false })).toEqual([0, 'incorrect']);
+  });
+
+  it('grades Short Answer responses by the stored evaluation', () => {
+    const question = questionOf(
+      'NewQuestion,SA',
+      'QuestionText,Name a noble gas.',
+      'Points,1',
+      'Answer,100,ne(on)?|argon,regexp',
+    );
+    expect(scoreOf(question, { type: 'SA', text: ' neon ' })).toEqual([1, 'correct']);
+    expect(scoreOf(question, { type: 'SA', text: 'oxygen' })).toEqual([0, 'incorrect']);
+    expect(scoreOf(question, { type: 'SA', text: '  ' })).toEqual([0, 'unanswered']);
+  });
+
+  it('scores Multi-Select responses under each scoring method', () => {
+    // Fluorine and Neon checked: Fluorine and Argon are right, Chlorine and Neon wrong
+    const response: QuestionResponse = { type: 'MS', selected: [0, 2] };
+    expect(scoreOf(multiSelect('RightAnswers'), response)).toEqual([2, 'partial']);
+    expect(scoreOf(multiSelect('RightMinusWrong'), response)).toEqual([0, 'incorrect']);
+    expect(scoreOf(multiSelect('AllOrNothing'), response)).toEqual([0, 'incorrect']);
+    expect(scoreOf(multiSelect('AllOrNothing'), { type: 'MS', selected: [0, 1] })).toEqual([4, 'correct']);
+    expect(scoreOf(multiSelect('RightAnswersLimitedSelections'), { type: 'MS', selected: [0, 1, 2] })).toEqual([0, 'incorrect']);
+    expect(scoreOf(multiSelect('RightAnswersLimitedSelections'), { type: 'MS', selected: [0] })).toEqual([3, 'partial']);
+  });
+
+  it('credits the boxes left blank when no Multi-Select box is checked', () => {
+    expect(scoreOf(multiSelect('RightAnswers'), { type: 'MS', selected: [] })).toEqual([2, 'partial']);
+  });
+
+  it('scores Matching pairs, weighting them equally without a Scoring row', () => {
+    const response: QuestionResponse = { type: 'M', matches: { 1: 1, 2: 3, 3: 2 } };
+    expect(scoreOf(matching(''), response)).toEqual([1, 'partial']);
+    expect(scoreOf(matching('EquallyWeighted'), response)).toEqual([1, 'partial']);
+    expect(scoreOf(matching('RightMinusWrong'), response)).toEqual([0, 'incorrect']);
+    expect(scoreOf(matching('AllOrNothing'), { type: 'M', matches: { 1: 1, 2: 2, 3: 3 } })).toEqual([3, 'correct']);
+    expect(scoreOf(matching(''), { type: 'M', matches: {} })).toEqual([0, 'unanswered']);
+  });
+
+  it('scores Ordering positions and shows the feedback of misplaced items', () => {
+    const question = questionOf(
+      'NewQuestion,O',
+      'QuestionText,Order by mass.',
+      'Points,2',
+      'Item,H,,lightest',
+      'Item,He,,second',
+      'Item,Li,,third',
+      'Item,Be,,heaviest',
+    );
+    expect(gradeQuestion(question, { type: 'O', order: [0, 2, 1, 3] })).toMatchObject({
+      score: 1, status: 'partial', feedback: ['second', 'third'],
+    });
+  });
+
+  it('gives each Fill in the Blank blank an equal share scaled by the matching answer weight', () => {
+    const question = questionOf(
+      'NewQuestion,FIB',
+      'Points,2',
+      'Text,The capital of France is',
+      'Blank,10',
+      'Answer,100,Paris,insensitive',
+      'Text,and of Italy is',
+      'Blank,10',
+      'Answer,100,Rome,sensitive',
+      'Answer,50,rome,sensitive',
+      'Text,.',
+    );
+    expect(scoreOf(question, { type: 'FIB', answers: ['paris', 'rome'] })).toEqual([1.5, 'partial']);
+    expect(scoreOf(question, { type: 'FIB', answers: ['PARIS', 'Rome'] })).toEqual([2, 'correct']);
+  });
+
+  it('counts each accepted Multi-Short Answer once', () => {
+    const question = questionOf(
+      'NewQuestion,MSA',
+      'QuestionText,Name two primary colours.',
+      'Points,2',
+      'InputBox,2,20',
+      'Answer,red,insensitive',
+      'Answer,blue,insensitive',
+      'Answer,yellow,insensitive',
+    );
+    expect(scoreOf(question, { type: 'MSA', answers: ['Red', 'red'] })).toEqual([1, 'partial']);
+    expect(scoreOf(question, { type: 'MSA', answers: ['red', 'Yellow'] })).toEqual([2, 'correct']);
+  });
+
+  it('compares Arithmetic answers with the formula within the tolerance', () => {
+    const question = questionOf(
+      'NewQuestion,ARITH',
+      'QuestionText,What is the area of a {w} by {h} rectangle?',
+      'Points,1',
+      'Formula,{w}*{h}',
+      'Variable,w,1,10,0,1',
+      'Enumeration,h,2.50,4.00',
+      'Tolerance,5,Percent',
+    );
+    const values = { w: 4, h: 2.5 };
+    expect(scoreOf(question, { type: 'ARITH', values, text: '10.4' })).toEqual([1, 'correct']);
+    expect(scoreOf(question, { type: 'ARITH', values, text: '11' })).toEqual([0, 'incorrect']);
+    expect(gradeQuestion(question, { type: 'ARITH', values, text: 'ten' }).note).toBe("'ten' is not a number; the answer is 10.");
+  });
+
+  it('requires Significant Figures answers to be written with the required figures', () => {
+    const question = questionOf(
+      'NewQuestion,SF',
+      'QuestionText,What is {m} times 9.81?',
+      'Points,1',
+      'Formula,{m}*9.81',
+      'SignificantFigures,3',
+      'Variable,m,1,5,0',
+      'Tolerance,0.01,Absolute',
+    );
+    const values = { m: 2 };
+    expect(scoreOf(question, { type: 'SF', values, text: '19.6' })).toEqual([1, 'correct']);
+    expect(scoreOf(question, { type: 'SF', values, text: '1.96e1' })).toEqual([1, 'correct']);
+    expect(gradeQuestion(question, { type: 'SF', values, text: '19.62' })).toMatchObject({ score: 0, status: 'incorrect' });
+  });
+
+  it('leaves Written Response to manual grading and does not score Likert questions', () => {
+    const essay = questionOf('NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,5', 'AnswerKey,Disorder increases');
+    expect(gradeQuestion(essay, { type: 'WR', text: 'Things spread out' })).toMatchObject({
+      score: 0, maxScore: 5, status: 'manual', feedback: ['Disorder increases'],
+    });
+    const survey = questionOf('NewQuestion,LIK', 'QuestionText,How much do you agree?', 'Scale,OneToFive', 'Statement,The lab was useful');
+    expect(scoreOf(survey, { type: 'LIK', ratings: [3] })).toEqual([0, 'survey']);
+  });
+});
+
+describe('gradeQuiz', () => {
+  it('totals auto-graded points and keeps written responses pending', () => {
+    const { quiz } = parseQuizCsv([
+      'NewQuestion,WR', 'Title,Essay', 'QuestionText,Explain entropy.', 'Points,5', '',
+      'NewQuestion,TF', 'Title,Truth', 'QuestionText,Water is wet.', 'Points,2', 'TRUE,100', 'FALSE,0', '',
+      'NewQuestion,MC', 'Title,Choice', 'QuestionText,Pick the metal.', 'Points,1', 'Option,100,Iron', 'Option,0,Oxygen', '',
+    ].join('\n'));
+    const grade = gradeQuiz(quiz, [{ type: 'WR', text: 'Disorder' }, { type: 'TF', selected: true }, undefined]);
+    expect([grade.score, grade.maxScore, grade.pendingManualPoints]).toEqual([2, 3, 5]);
+  });
+});
+
+describe('matchesShortAnswer', () => {
+  it('treats an invalid regular expression as no match', () => {
+    expect(matchesShortAnswer('neon', '(ne', 'regexp')).toBe(false);
+  });
+});
+
+describe('normalizeMultiSelectScoring', () => {
+  it('reads the D2L display names as well as the CSV values', () => {
+    expect(normalizeMultiSelectScoring('Correct Minus Incorrect')).toBe('RightMinusWrong');
+    expect(normalizeMultiSelectScoring('Correct Answers Limited Selections')).toBe('RightAnswersLimitedSelections');
+    expect(normalizeMultiSelectScoring('all_or_nothing')).toBe('AllOrNothing');
+    expect(normalizeMultiSelectScoring(undefined)).toBe('RightAnswers');
+  });
+});
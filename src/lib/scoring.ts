@@ -0,0 +1,295 @@
+import type {
+  Quiz,
+  Question,
+  ShortAnswerQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  OrderingQuestion,
+  FillInTheBlankQuestion,
+  MultiShortAnswerQuestion,
+  ArithmeticQuestion,
+  SignificantFiguresQuestion,
+} from '@/types/quiz';
+import { blanksOf } from '@/lib/fillInTheBlank';
+import {
+    solveArithmetic,
+    withinTolerance,
+    formatNumber,
+    describeTolerance,
+    toSignificantFigures,
+    parseScientific,
+    significantFigureRange,
+} from '@/lib/arithmetic';
+import { matchingScoringOf } from '@/lib/questionSchemas';
+import type { QuestionResponse, QuestionGrade, QuizGrade, GradeStatus } from '@/types/practice';
+
+type PartScoring = MatchingQuestion['scoring'];
+
+// Scores are shown with at most two decimals; Brightspace never awards less than zero for a question
+const roundScore = (value: number): number => Math.round(value * 100) / 100;
+const clampScore = (value: number, max: number): number => roundScore(Math.min(Math.max(value, 0), max));
+
+const statusFor = (score: number, maxScore: number): GradeStatus => {
+    if (maxScore > 0 && score >= maxScore) return 'correct';
+    return score > 0 ? 'partial' : 'incorrect';
+};
+
+const makeGrade = (question: Question, score: number, feedback: (string | undefined)[], note?: string): QuestionGrade => {
+    const clamped = clampScore(score, question.points);
+    return {
+        type: question.type,
+        score: clamped,
+        maxScore: question.points,
+        status: statusFor(clamped, question.points),
+        feedback: [...feedback, question.feedback].filter((text): text is string => !!text),
+        note,
+    };
+};
+
+const unanswered = (question: Question): QuestionGrade => ({
+    type: question.type,
+    score: 0,
+    maxScore: question.points,
+    status: 'unanswered',
+    feedback: [],
+});
+
+// Shared by Matching and Ordering: each part (pair or position) is either right, wrong or left blank
+const scoreParts = (points: number, total: number, right: number, wrong: number, scoring: PartScoring | undefined): number => {
+    if (total === 0) return 0;
+    switch (scoring) {
+        case 'AllOrNothing':
+            return right === total ? points : 0;
+        case 'RightMinusWrong':
+            return points * (right - wrong) / total;
+        case 'EquallyWeighted':
+        default:
+            return points * right / total;
+    }
+};
+
+// Brightspace short answer evaluation: regular expression, case-sensitive or case-insensitive exact match
+export function matchesShortAnswer(answer: string, bestAnswer: string, evaluation: ShortAnswerQuestion['evaluation']): boolean {
+    const response = answer.trim();
+    switch (evaluation) {
+        case 'regexp':
+            try {
+                return new RegExp(bestAnswer).test(response);
+            } catch {
+                return false;
+            }
+        case 'sensitive':
+            return response === bestAnswer.trim();
+        case 'insensitive':
+        default:
+            return response.toLowerCase() === bestAnswer.trim().toLowerCase();
+    }
+}
+
+const gradeShortAnswer = (question: ShortAnswerQuestion, text: string): QuestionGrade => {
+    if (!text.trim()) return unanswered(question);
+    if (question.evaluation === 'regexp') {
+        try {
+            new RegExp(question.bestAnswer);
+        } catch {
+            return makeGrade(question, 0, [], `The stored regular expression '${question.bestAnswer}' is invalid.`);
+        }
+    }
+    const correct = matchesShortAnswer(text, question.bestAnswer ?? '', question.evaluation);
+    return makeGrade(question, correct ? question.points : 0, []);
+};
+
+const gradeMultipleChoice = (question: MultipleChoiceQuestion, selected: number | null): QuestionGrade => {
+    const option = selected === null ? undefined : question.options?.[selected];
+    if (!option) return unanswered(question);
+    return makeGrade(question, question.points * option.percent / 100, [option.feedback], `${option.percent}% credit`);
+};
+
+const gradeTrueFalse = (question: TrueFalseQuestion, selected: boolean | null): QuestionGrade => {
+    const option = selected === null ? undefined : (selected ? question.trueOption : question.falseOption);
+    if (!option) return unanswered(question);
+    return makeGrade(question, question.points * option.credit / 100, [option.feedback], `${option.credit}% credit`);
+};
+
+// Normalizes the D2L scoring strings (and their "Correct..." display names) for Multi-Select
+export const normalizeMultiSelectScoring = (scoring: string | undefined): 'RightAnswers' | 'RightAnswersLimitedSelections' | 'RightMinusWrong' | 'AllOrNothing' => {
+    const key = (scoring ?? '').replace(/[\s_-]/g, '').toLowerCase();
+    if (key === 'allornothing') return 'AllOrNothing';
+    if (key === 'rightminuswrong' || key === 'correctminusincorrect') return 'RightMinusWrong';
+    if (key.startsWith('rightanswerslimited') || key.startsWith('correctanswerslimited')) return 'RightAnswersLimitedSelections';
+    return 'RightAnswers';
+};
+
+const gradeMultiSelect = (question: MultiSelectQuestion, selected: number[]): QuestionGrade => {
+    const options = question.options ?? [];
+
+    // Checking no box is an answer too: it earns credit for every option that should be left blank.
+    // An option is correct to select when its weight is positive, and correct to leave blank otherwise
+    const isSelected = (idx: number) => selected.includes(idx);
+    const rightCount = options.filter((option, idx) => (option.weight > 0) === isSelected(idx)).length;
+    const wrongCount = options.length - rightCount;
+    const correctOptionCount = options.filter(option => option.weight > 0).length;
+    const scoring = normalizeMultiSelectScoring(question.scoring);
+
+    let score: number;
+    switch (scoring) {
+        case 'AllOrNothing':
+            score = wrongCount === 0 ? question.points : 0;
+            break;
+        case 'RightMinusWrong':
+            score = options.length ? question.points * (rightCount - wrongCount) / options.length : 0;
+            break;
+        case 'RightAnswersLimitedSelections':
+            score = selected.length > correctOptionCount ? 0 : (options.length ? question.points * rightCount / options.length : 0);
+            break;
+        case 'RightAnswers':
+        default:
+            score = options.length ? question.points * rightCount / options.length : 0;
+            break;
+    }
+    const feedback = selected.map(idx => options[idx]?.feedback);
+    return makeGrade(question, score, feedback, `${rightCount} of ${options.length} options answered correctly (${scoring})`);
+};
+
+const gradeMatching = (question: MatchingQuestion, matches: Record<number, number | undefined>): QuestionGrade => {
+    const pairs = question.pairs ?? [];
+    const answered = pairs.filter(pair => matches[pair.choiceNo] !== undefined);
+    if (answered.length === 0) return unanswered(question);
+    const right = answered.filter(pair => matches[pair.choiceNo] === pair.choiceNo).length;
+    const wrong = answered.length - right;
+    const score = scoreParts(question.points, pairs.length, right, wrong, matchingScoringOf(question));
+    return makeGrade(question, score, [], `${right} of ${pairs.length} pairs matched correctly (${matchingScoringOf(question)})`);
+};
+
+const gradeOrdering = (question: OrderingQuestion, order: number[]): QuestionGrade => {
+    const items = question.items ?? [];
+    if (order.length === 0) return unanswered(question);
+    const right = items.filter((_, position) => order[position] === position).length;
+    const wrong = items.length - right;
+    const score = scoreParts(question.points, items.length, right, wrong, matchingScoringOf(question));
+    // Item feedback explains misplaced items, so surface it for every item out of position
+    const feedback = items.filter((_, position) => order[position] !== position).map(item => item.feedback);
+    return makeGrade(question, score, feedback, `${right} of ${items.length} items in the correct position (${matchingScoringOf(question)})`);
+};
+
+// Each blank is worth an equal share of the points, scaled by the weight of the best answer it matches
+const gradeFillInTheBlank = (question: FillInTheBlankQuestion, answers: string[]): QuestionGrade => {
+    const blanks = blanksOf(question);
+    if (!answers.some(answer => answer?.trim())) return unanswered(question);
+    const credits = blanks.map((blank, idx) => {
+        const response = answers[idx] ?? '';
+        if (!response.trim()) return 0;
+        return Math.max(0, ...blank.answers.filter(answer => matchesShortAnswer(response, answer.text, answer.evaluation)).map(answer => answer.weight));
+    });
+    const right = credits.filter(credit => credit >= 100).length;
+    const score = blanks.length ? question.points * credits.reduce((sum, credit) => sum + credit, 0) / 100 / blanks.length : 0;
+    return makeGrade(question, score, [], `${right} of ${blanks.length} blanks filled in correctly`);
+};
+
+// Number of answer boxes a Multi-Short Answer question shows: one per InputBox row, or one per answer without that row
+export const answerBoxCount = (question: MultiShortAnswerQuestion): number =>
+    Math.max(1, question.inputBox?.rows ?? question.answers?.length ?? 1);
+
+// Each box is worth an equal share; an accepted answer only counts once, however many boxes repeat it
+const gradeMultiShortAnswer = (question: MultiShortAnswerQuestion, responses: string[]): QuestionGrade => {
+    if (!responses.some(response => response?.trim())) return unanswered(question);
+    const boxes = answerBoxCount(question);
+    const used = new Set<number>();
+    let right = 0;
+    responses.slice(0, boxes).forEach(response => {
+        if (!response?.trim()) return;
+        const match = (question.answers ?? []).findIndex((answer, idx) => !used.has(idx) && matchesShortAnswer(response, answer.text, answer.evaluation));
+        if (match < 0) return;
+        used.add(match);
+        right++;
+    });
+    return makeGrade(question, question.points * right / boxes, [], `${right} of ${boxes} answers accepted`);
+};
+
+// The learner's number is compared with the formula evaluated for the values they were shown
+const gradeArithmetic = (question: ArithmeticQuestion, values: Record<string, number>, text: string): QuestionGrade => {
+    if (!text.trim()) return unanswered(question);
+    const { answer, error } = solveArithmetic(question, values);
+    if (answer === undefined) return makeGrade(question, 0, [], error);
+    const response = Number(text.trim());
+    if (Number.isNaN(response)) return makeGrade(question, 0, [], `'${text.trim()}' is not a number; the answer is ${formatNumber(answer)}.`);
+    const correct = withinTolerance(response, answer, question.tolerance);
+    return makeGrade(question, correct ? question.points : 0, [], `The answer for these values is ${formatNumber(answer)} (${describeTolerance(question.tolerance)}).`);
+};
+
+// The value must match the answer rounded to the required figures, and be written with that many figures
+const gradeSignificantFigures = (question: SignificantFiguresQuestion, values: Record<string, number>, text: string): QuestionGrade => {
+    if (!text.trim()) return unanswered(question);
+    const { answer, error } = solveArithmetic(question, values);
+    if (answer === undefined) return makeGrade(question, 0, [], error);
+    const expected = toSignificantFigures(answer, question.significantFigures);
+    const response = parseScientific(text);
+    if (!response) return makeGrade(question, 0, [], `'${text.trim()}' is not a number; the answer is ${expected}.`);
+    if (!withinTolerance(response.value, Number(expected), question.tolerance)) {
+        return makeGrade(question, 0, [], `The answer for these values is ${expected} (${describeTolerance(question.tolerance)}).`);
+    }
+    const { min, max } = significantFigureRange(response.mantissa);
+    if (question.significantFigures < min || question.significantFigures > max) {
+        const shown = min === max ? `${min}` : `${min} to ${max}`;
+        return makeGrade(question, 0, [], `The value is right but is written with ${shown} significant figures instead of ${question.significantFigures}; the answer is ${expected}.`);
+    }
+    return makeGrade(question, question.points, [], `The answer for these values is ${expected}.`);
+};
+
+export function gradeQuestion(question: Question, response: QuestionResponse | undefined): QuestionGrade {
+    if (question.type === 'WR') {
+        return {
+            type: 'WR',
+            score: 0,
+            maxScore: question.points,
+            status: response && response.type === 'WR' && response.text.trim() ? 'manual' : 'unanswered',
+            feedback: [question.answerKey, question.feedback].filter((text): text is string => !!text),
+            note: 'Written responses are graded manually.',
+        };
+    }
+    if (question.type === 'LIK') {
+        const answered = response?.type === 'LIK' && response.ratings.some(rating => rating !== null);
+        return {
+            type: 'LIK',
+            score: 0,
+            maxScore: 0,
+            status: answered ? 'survey' : 'unanswered',
+            feedback: [question.feedback].filter((text): text is string => !!text),
+            note: 'Survey questions are not scored.',
+        };
+    }
+    if (!response || response.type !== question.type) return unanswered(question);
+
+    switch (response.type) {
+        case 'SA': return gradeShortAnswer(question as ShortAnswerQuestion, response.text);
+        case 'MC': return gradeMultipleChoice(question as MultipleChoiceQuestion, response.selected);
+        case 'TF': return gradeTrueFalse(question as TrueFalseQuestion, response.selected);
+        case 'MS': return gradeMultiSelect(question as MultiSelectQuestion, response.selected);
+        case 'M': return gradeMatching(question as MatchingQuestion, response.matches);
+        case 'O': return gradeOrdering(question as OrderingQuestion, response.order);
+        case 'FIB': return gradeFillInTheBlank(question as FillInTheBlankQuestion, response.answers);
+        case 'MSA': return gradeMultiShortAnswer(question as MultiShortAnswerQuestion, response.answers);
+        case 'ARITH': return gradeArithmetic(question as ArithmeticQuestion, response.values, response.text);
+        case 'SF': return gradeSignificantFigures(question as SignificantFiguresQuestion, response.values, response.text);
+        default: return unanswered(question);
+    }
+}
+
+// Grades every question; responses are indexed like quiz.questions
+export function gradeQuiz(quiz: Quiz, responses: (QuestionResponse | undefined)[]): QuizGrade {
+    const grades = quiz.questions.map((question, idx) => gradeQuestion(question, responses[idx]));
+    let score = 0;
+    let maxScore = 0;
+    let pendingManualPoints = 0;
+    grades.forEach(grade => {
+        if (grade.type === 'WR') {
+            pendingManualPoints += grade.maxScore;
+        } else {
+            score += grade.score;
+            maxScore += grade.maxScore;
+        }
+    });
+    return { grades, score: roundScore(score), maxScore, pendingManualPoints };
+}
@@ -0,0 +1,173 @@
+import type { Question, QuestionType, Quiz } from '@/types/quiz';
+import type { LintFinding } from '@/lib/lint';
+import type { QuizValidation } from '@/lib/validation';
+import { stripHtml } from '@/lib/html';
+import { collectImageReferences } from '@/lib/assets';
+import { QUESTION_TYPES } from '@/lib/questionTypes';
+
+export type QuestionFeature = 'image' | 'hint' | 'feedback';
+export type LintStatusFilter = 'any' | 'clean' | 'problems' | 'invalid';
+export type QuestionSortKey = 'original' | 'points' | 'difficulty' | 'title';
+
+// What the question list shows: questions matching every criterion, in the chosen order
+export interface QuestionFilter {
+  query: string; // Words that must all appear in the question's text
+  types: QuestionType[]; // Empty for every type
+  minPoints?: number;
+  maxPoints?: number;
+  minDifficulty?: number;
+  maxDifficulty?: number;
+  features: QuestionFeature[]; // The question must have all of these
+  lint: LintStatusFilter;
+  sort: QuestionSortKey;
+  descending: boolean;
+}
+
+export const EMPTY_QUESTION_FILTER: QuestionFilter = { query: '', types: [], features: [], lint: 'any', sort: 'original', descending: false };
+
+export const QUESTION_FEATURE_LABELS: Record<QuestionFeature, string> = { image: 'Image', hint: 'Hint', feedback: 'Feedback' };
+export const LINT_STATUS_FILTER_LABELS: Record<LintStatusFilter, string> = {
+  any: 'Any status',
+  clean: 'No problems',
+  problems: 'Has problems',
+  invalid: 'Invalid',
+};
+export const QUESTION_SORT_LABELS: Record<QuestionSortKey, string> = {
+  original: 'Original order',
+  points: 'Points',
+  difficulty: 'Difficulty',
+  title: 'Title',
+};
+
+// Whether the list shows anything other than every question in quiz order
+export const isFilterActive = (filter: QuestionFilter): boolean =>
+  filter.query.trim() !== '' || filter.types.length > 0 || filter.features.length > 0 || filter.lint !== 'any' || filter.sort !== 'original'
+  || [filter.minPoints, filter.maxPoints, filter.minDifficulty, filter.maxDifficulty].some(bound => bound !== undefined);
+
+// Every piece of text in a question: title, text, options, feedback and answer keys, as written
+export function questionTextParts(question: Question): string[] {
+  const parts: (string | undefined)[] = [question.id, question.title, question.questionText, question.hint, question.feedback];
+  switch (question.type) {
+    case 'WR': parts.push(question.initialText, question.answerKey); break;
+    case 'SA': parts.push(question.bestAnswer); break;
+    case 'M': (question.pairs ?? []).forEach(pair => parts.push(pair.choiceText, pair.matchText)); break;
+    case 'MC':
+    case 'MS': (question.options ?? []).forEach(option => parts.push(option.text, option.feedback)); break;
+    case 'TF': parts.push(question.trueOption?.feedback, question.falseOption?.feedback); break;
+    case 'O': (question.items ?? []).forEach(item => parts.push(item.text, item.feedback)); break;
+    case 'FIB':
+      (question.parts ?? []).forEach(part => (part.type === 'text' ? parts.push(part.text) : part.answers.forEach(answer => parts.push(answer.text))));
+      break;
+    case 'MSA': (question.answers ?? []).forEach(answer => parts.push(answer.text)); break;
+    case 'ARITH':
+    case 'SF': parts.push(question.formula); break;
+    case 'LIK': (question.statements ?? []).forEach(statement => parts.push(statement.text)); break;
+  }
+  return parts.filter((part): part is string => !!part);
+}
+
+// Lower-cased plain text of each question, computed once per quiz so typing in the search box stays fast
+export const buildSearchIndex = (quiz: Quiz): string[] =>
+  quiz.questions.map(question => questionTextParts(question).map(stripHtml).join('\n').toLowerCase());
+
+const hasFeedback = (question: Question): boolean => {
+  if (question.feedback) return true;
+  switch (question.type) {
+    case 'MC':
+    case 'MS': return (question.options ?? []).some(option => !!option.feedback);
+    case 'TF': return !!(question.trueOption?.feedback || question.falseOption?.feedback);
+    case 'O': return (question.items ?? []).some(item => !!item.feedback);
+    default: return false;
+  }
+};
+
+const FEATURE_TESTS: Record<QuestionFeature, (question: Question) => boolean> = {
+  image: question => collectImageReferences(question).length > 0,
+  hint: question => !!question.hint,
+  feedback: hasFeedback,
+};
+
+export const hasQuestionFeature = (question: Question, feature: QuestionFeature): boolean => FEATURE_TESTS[feature](question);
+
+const within = (value: number | undefined, min?: number, max?: number): boolean =>
+  (min === undefined && max === undefined) || (value !== undefined && (min === undefined || value >= min) && (max === undefined || value <= max));
+
+// Indexes of the questions the filter keeps, in its sort order. Lint status criteria need the quiz's
+// validation and lint findings; without them every question passes.
+export function filterQuestions(
+  quiz: Quiz,
+  filter: QuestionFilter,
+  searchIndex: string[],
+  validation: QuizValidation | null,
+  lintFindings: LintFinding[][] | null
+): number[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const hasProblems = (idx: number) => (validation?.issuesByQuestion[idx]?.length ?? 0) > 0 || (lintFindings?.[idx]?.length ?? 0) > 0;
+  const matches = quiz.questions.flatMap((question, idx) => {
+    if (filter.types.length > 0 && !filter.types.includes(question.type)) return [];
+    if (!within(question.points, filter.minPoints, filter.maxPoints)) return [];
+    if (!within(question.difficulty, filter.minDifficulty, filter.maxDifficulty)) return [];
+    if (!filter.features.every(feature => hasQuestionFeature(question, feature))) return [];
+    if (validation && lintFindings) {
+      if (filter.lint === 'clean' && hasProblems(idx)) return [];
+      if (filter.lint === 'problems' && !hasProblems(idx)) return [];
+      if (filter.lint === 'invalid' && !validation.issuesByQuestion[idx]?.length) return [];
+    }
+    if (!terms.every(term => searchIndex[idx]?.includes(term))) return [];
+    return [idx];
+  });
+  if (filter.sort === 'original') return filter.descending ? matches.reverse() : matches;
+
+  const direction = filter.descending ? -1 : 1;
+  const compare = (a: number, b: number): number => {
+    const [qa, qb] = [quiz.questions[a], quiz.questions[b]];
+    if (filter.sort === 'title') return qa.title.localeCompare(qb.title, undefined, { numeric: true, sensitivity: 'base' }) * direction;
+    const [va, vb] = filter.sort === 'points' ? [qa.points, qb.points] : [qa.difficulty, qb.difficulty];
+    // Questions without a difficulty go last in either direction
+    if (va === undefined || vb === undefined) return va === vb ? 0 : va === undefined ? 1 : -1;
+    return (va - vb) * direction;
+  };
+  // Ties keep quiz order
+  return matches.sort((a, b) => compare(a, b) || a - b);
+}
+
+const parseBound = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const parseList = <T extends string>(value: string | null, allowed: readonly T[]): T[] =>
+  (value ?? '').split(',').filter((item): item is T => (allowed as readonly string[]).includes(item));
+
+// Reads a filter from the page URL, ignoring anything it does not recognize
+export function filterFromSearchParams(params: URLSearchParams): QuestionFilter {
+  const [lint] = parseList(params.get('lint'), Object.keys(LINT_STATUS_FILTER_LABELS) as LintStatusFilter[]);
+  const [sort] = parseList(params.get('sort'), Object.keys(QUESTION_SORT_LABELS) as QuestionSortKey[]);
+  return {
+    query: params.get('q') ?? '',
+    types: parseList(params.get('type'), QUESTION_TYPES),
+    minPoints: parseBound(params.get('minPoints')),
+    maxPoints: parseBound(params.get('maxPoints')),
+    minDifficulty: parseBound(params.get('minDifficulty')),
+    maxDifficulty: parseBound(params.get('maxDifficulty')),
+    features: parseList(params.get('has'), Object.keys(QUESTION_FEATURE_LABELS) as QuestionFeature[]),
+    lint: lint ?? 'any',
+    sort: sort ?? 'original',
+    descending: params.get('desc') === '1',
+  };
+}
+
+// The filter as URL parameters; criteria left at their defaults are omitted
+export function filterToSearchParams(filter: QuestionFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.query.trim()) params.set('q', filter.query);
+  if (filter.types.length > 0) params.set('type', filter.types.join(','));
+  const bounds = { minPoints: filter.minPoints, maxPoints: filter.maxPoints, minDifficulty: filter.minDifficulty, maxDifficulty: filter.maxDifficulty };
+  Object.entries(bounds).forEach(([name, bound]) => bound !== undefined && params.set(name, String(bound)));
+  if (filter.features.length > 0) params.set('has', filter.features.join(','));
+  if (filter.lint !== 'any') params.set('lint', filter.lint);
+  if (filter.sort !== 'original') params.set('sort', filter.sort);
+  if (filter.descending) params.set('desc', '1');
+  return params;
+}
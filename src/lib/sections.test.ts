@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { serializeQuizCsv } from '@/lib/csvSerializer';
+import { removeQuestions } from '@/lib/sections';
+
+const BANK = [
+  '//Section,Part A',
+  'NewQuestion,MC', 'Title,First', 'QuestionText,One?', 'Option,100,Yes', 'Option,0,No',
+  'NewQuestion,HS', 'Title,Hotspot', 'QuestionText,Click the valve.',
+  'NewQuestion,MC', 'Title,Second', 'QuestionText,Two?', 'Option,100,Yes', 'Option,0,No',
+  '//Section,Part B',
+  'NewQuestion,TF', 'Title,Third', 'QuestionText,Three?', 'TRUE,100', 'FALSE,0',
+].join('\n');
+
+describe('removeQuestions', () => {
+  it('shrinks sections and keeps their place', () => {
+    const { quiz } = parseQuizCsv(BANK);
+    const removed = removeQuestions(quiz, new Set([1]));
+    expect(removed.questions.map(question => question.title)).toEqual(['First', 'Third']);
+    expect(removed.sections).toEqual([
+      { name: 'Part A', start: 0, count: 1 },
+      { name: 'Part B', start: 1, count: 1 },
+    ]);
+  });
+
+  it('keeps a question of an unknown type when the question before it is removed', () => {
+    const { quiz } = parseQuizCsv(BANK);
+    const removed = removeQuestions(quiz, new Set([0]));
+    expect(removed.unreadQuestions?.map(unread => unread.start)).toEqual([0]);
+    const written = serializeQuizCsv(removed);
+    expect(written).toContain('NewQuestion,HS\r\nTitle,Hotspot\r\nQuestionText,Click the valve.\r\n');
+    expect(written.indexOf('Title,Hotspot')).toBeLessThan(written.indexOf('Title,Second'));
+  });
+});
@@ -0,0 +1,92 @@
+import type { Quiz, QuizSection } from '@/types/quiz';
+import { shuffle } from '@/lib/random';
+
+// A section and the questions in it; `section` is undefined for questions before the first section
+export interface SectionGroup {
+  section?: QuizSection;
+  sectionIndex?: number;
+  questionIndexes: number[];
+}
+
+const indexesOf = (section: QuizSection): number[] => Array.from({ length: section.count }, (_, idx) => section.start + idx);
+
+// Questions grouped by section in quiz order, for rendering
+export function groupBySection(quiz: Quiz): SectionGroup[] {
+  const sections = quiz.sections ?? [];
+  const firstStart = sections.length > 0 ? sections[0].start : quiz.questions.length;
+  const groups: SectionGroup[] = [];
+  if (firstStart > 0) groups.push({ questionIndexes: Array.from({ length: firstStart }, (_, idx) => idx) });
+  sections.forEach((section, sectionIndex) => groups.push({ section, sectionIndex, questionIndexes: indexesOf(section) }));
+  return groups;
+}
+
+// Index into quiz.sections of the section holding a question, if any
+export const sectionIndexOf = (quiz: Quiz, questionIndex: number): number | undefined => {
+  const idx = (quiz.sections ?? []).findIndex(section => questionIndex >= section.start && questionIndex < section.start + section.count);
+  return idx >= 0 ? idx : undefined;
+};
+
+// How many questions an attempt takes from the section: all of them, or the pool's select count when it has enough
+export const drawCount = (section: QuizSection): number => (section.select !== undefined ? Math.min(section.select, section.count) : section.count);
+
+// Points the section contributes to an attempt. Pools of questions with different points give a range,
+// from the lowest-scoring draw to the highest.
+export function sectionPoints(quiz: Quiz, section: QuizSection): { min: number; max: number } {
+  const points = indexesOf(section).map(idx => quiz.questions[idx]?.points ?? 0).sort((a, b) => a - b);
+  const count = drawCount(section);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return { min: sum(points.slice(0, count)), max: sum(points.slice(points.length - count)) };
+}
+
+// The questions of one practice attempt, in quiz order: every question outside pools, plus a random
+// draw of each pool's select count
+export function drawPracticeQuestions(quiz: Quiz, random: () => number = Math.random): number[] {
+  const drawn = new Set<number>();
+  for (const group of groupBySection(quiz)) {
+    const count = group.section ? drawCount(group.section) : group.questionIndexes.length;
+    shuffle(group.questionIndexes, random).slice(0, count).forEach(idx => drawn.add(idx));
+  }
+  return [...drawn].sort((a, b) => a - b);
+}
+
+// One line of the quiz listing: a section heading or a question
+export type QuizRow =
+  | { kind: 'section'; section: QuizSection; sectionIndex: number }
+  | { kind: 'question'; questionIndex: number };
+
+// The quiz as a flat list of rows, for virtualized rendering. Questions of sections that are not
+// expanded are left out; their headings stay.
+export function quizRows(quiz: Quiz, isExpanded: (sectionIndex: number) => boolean = () => true): QuizRow[] {
+  return groupBySection(quiz).flatMap((group): QuizRow[] => {
+    const questions = group.questionIndexes.map((questionIndex): QuizRow => ({ kind: 'question', questionIndex }));
+    if (!group.section || group.sectionIndex === undefined) return questions;
+    const heading: QuizRow = { kind: 'section', section: group.section, sectionIndex: group.sectionIndex };
+    return isExpanded(group.sectionIndex) ? [heading, ...questions] : [heading];
+  });
+}
+
+// New position of every question once `removed` are taken out of the quiz; undefined for the removed ones
+export function indexesAfterRemoval(count: number, removed: Set<number>): (number | undefined)[] {
+  let next = 0;
+  return Array.from({ length: count }, (_, idx) => (removed.has(idx) ? undefined : next++));
+}
+
+// The quiz without the given questions; each section keeps its place and shrinks by the questions it lost, and
+// questions of unknown types stay before the question that followed them
+export function removeQuestions(quiz: Quiz, removed: Set<number>): Quiz {
+  const newIndexes = indexesAfterRemoval(quiz.questions.length, removed);
+  const keptBefore = (idx: number) => newIndexes.slice(0, idx).filter(index => index !== undefined).length;
+  return {
+    ...quiz,
+    questions: quiz.questions.filter((_, idx) => !removed.has(idx)),
+    ...(quiz.sections ? {
+      sections: quiz.sections.map(section => {
+        const start = keptBefore(section.start);
+        return { ...section, start, count: keptBefore(section.start + section.count) - start };
+      }),
+    } : {}),
+    ...(quiz.unreadQuestions ? {
+      unreadQuestions: quiz.unreadQuestions.map(unread => ({ ...unread, start: keptBefore(unread.start) })),
+    } : {}),
+  };
+}
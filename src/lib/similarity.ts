@@ -0,0 +1,123 @@
+import type { Question } from '@/types/quiz';
+import { stripHtml } from '@/lib/html';
+import { questionTextParts } from '@/lib/search';
+
+// Lower-cased words of everything a question says (title, text, options, feedback), but not its ID
+export const questionTokens = (question: Question): Set<string> =>
+  new Set(questionTextParts({ ...question, id: undefined }).map(stripHtml).join(' ').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(token => b.has(token) && intersection++);
+  return intersection / (a.size + b.size - intersection);
+};
+
+export interface SimilarPair {
+  a: number;
+  b: number; // Always greater than a
+  score: number; // Jaccard similarity of the two word sets, 0 to 1
+}
+
+const MAX_TOKEN_FREQUENCY = 50; // Words shared by more questions than this say little about which ones match
+
+// Pairs of word sets that overlap by at least `threshold`, most similar first. Candidates must share a
+// distinctive word, found through an index rather than by comparing every pair; `canPair` narrows them further.
+export function similarPairs(tokenSets: Set<string>[], threshold: number, canPair: (a: number, b: number) => boolean = () => true): SimilarPair[] {
+  const postings = new Map<string, number[]>();
+  tokenSets.forEach((tokens, idx) => tokens.forEach(token => {
+    const posting = postings.get(token);
+    if (posting) posting.push(idx);
+    else postings.set(token, [idx]);
+  }));
+
+  const pairs: SimilarPair[] = [];
+  tokenSets.forEach((tokens, a) => {
+    const candidates = new Set<number>();
+    tokens.forEach(token => {
+      const posting = postings.get(token) ?? [];
+      if (posting.length <= MAX_TOKEN_FREQUENCY) posting.forEach(b => b > a && candidates.add(b));
+    });
+    candidates.forEach(b => {
+      if (!canPair(a, b)) return;
+      const score = jaccard(tokens, tokenSets[b]);
+      if (score >= threshold) pairs.push({ a, b, score });
+    });
+  });
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// Groups of indexes connected by any chain of links, each in ascending order; singletons are left out
+export function linkedGroups(count: number, links: [number, number][]): number[][] {
+  const parent = Array.from({ length: count }, (_, idx) => idx);
+  const find = (idx: number): number => {
+    while (parent[idx] !== idx) idx = parent[idx] = parent[parent[idx]];
+    return idx;
+  };
+  links.forEach(([a, b]) => { parent[find(b)] = find(a); });
+
+  const groups = new Map<number, number[]>();
+  parent.forEach((_, idx) => {
+    const root = find(idx);
+    const group = groups.get(root);
+    if (group) group.push(idx);
+    else groups.set(root, [idx]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4; // 16 bands of 4 make sets that share about half their shingles likely to meet in a bucket
+
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+const mix = (value: number, seed: number): number => {
+  let hash = Math.imul(value ^ seed, 0x9e3779b1);
+  hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b);
+  return (hash ^ (hash >>> 13)) >>> 0;
+};
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, (_, idx) => mix(idx + 1, 0x5bd1e995));
+
+// MinHash signature of a set: the smallest hash of its members under each seeded hash function.
+// Two signatures agree in about as many places as the sets' Jaccard similarity.
+export function minHashSignature(shingles: Set<string>): number[] {
+  const signature = MINHASH_SEEDS.map(() => 0xffffffff);
+  shingles.forEach(shingle => {
+    const hash = hashString(shingle);
+    MINHASH_SEEDS.forEach((seed, idx) => { signature[idx] = Math.min(signature[idx], mix(hash, seed)); });
+  });
+  return signature;
+}
+
+// A bucket holding more signatures than this is boilerplate many questions share; pairing all of its members
+// grows with the square of its size, so such buckets are left out
+const MAX_BUCKET_SIZE = 50;
+
+// Pairs whose signatures agree on a whole band (locality-sensitive hashing), as candidates to check exactly.
+// Empty sets have no meaningful signature and are never paired.
+export function minHashCandidates(signatures: (number[] | undefined)[], canPair: (a: number, b: number) => boolean = () => true): [number, number][] {
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  for (let band = 0; band < MINHASH_BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    signatures.forEach((signature, idx) => {
+      if (!signature) return;
+      const key = signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(idx);
+      else buckets.set(key, [idx]);
+    });
+    buckets.forEach(bucket => bucket.length <= MAX_BUCKET_SIZE && bucket.forEach((a, position) => bucket.slice(position + 1).forEach(b => {
+      const key = a * signatures.length + b;
+      if (seen.has(key) || !canPair(a, b)) return;
+      seen.add(key);
+      pairs.push([a, b]);
+    })));
+  }
+  return pairs;
+}
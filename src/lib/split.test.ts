@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuizCsv } from '@/lib/csvParser';
+import { DEFAULT_SPLIT_OPTIONS, splitQuiz } from '@/lib/split';
+
+const QUIZ = parseQuizCsv([
+  'NewQuestion,MC', 'Title,One', 'QuestionText,One?', 'Tag,week1', 'Option,100,Yes', 'Option,0,No',
+  'NewQuestion,HS', 'Title,Hotspot', 'QuestionText,Click the valve.',
+  'NewQuestion,TF', 'Title,Two', 'QuestionText,Two?', 'Tag,week2', 'TRUE,100', 'FALSE,0',
+  'NewQuestion,MC', 'Title,Three', 'QuestionText,Three?', 'Tag,week1;week2', 'Option,100,Yes', 'Option,0,No',
+].join('\n')).quiz;
+
+describe('splitQuiz', () => {
+  it('puts each question in the part for its type, in order', () => {
+    const parts = splitQuiz(QUIZ, 'bank', DEFAULT_SPLIT_OPTIONS);
+    expect(parts.map(part => [part.fileName, part.questionIndexes])).toEqual([
+      ['bank-multiple-choice.csv', [0, 2]],
+      ['bank-true-false.csv', [1]],
+    ]);
+  });
+
+  it('puts a question in every tag it has', () => {
+    const parts = splitQuiz(QUIZ, 'bank', { ...DEFAULT_SPLIT_OPTIONS, rule: 'tag' });
+    expect(parts.map(part => [part.label, part.questionIndexes])).toEqual([['week1', [0, 2]], ['week2', [1, 2]]]);
+  });
+
+  it('writes a question of an unknown type once, with the question after it', () => {
+    const parts = splitQuiz(QUIZ, 'bank', DEFAULT_SPLIT_OPTIONS);
+    expect(parts.map(part => part.quiz.unreadQuestions?.map(unread => unread.start))).toEqual([undefined, [0]]);
+  });
+});
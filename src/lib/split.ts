@@ -0,0 +1,147 @@
+import JSZip from 'jszip';
+import type { Question, Quiz } from '@/types/quiz';
+import { QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { groupBySection, removeQuestions } from '@/lib/sections';
+import { serializeCsvRows, serializeQuizCsv } from '@/lib/csvSerializer';
+
+export type SplitRule = 'type' | 'difficulty' | 'section' | 'idPrefix' | 'tag' | 'chunk';
+
+export const SPLIT_RULE_LABELS: Record<SplitRule, string> = {
+  type: 'Question type',
+  difficulty: 'Difficulty band',
+  section: 'Section',
+  idPrefix: 'ID prefix',
+  tag: 'Tag',
+  chunk: 'Fixed number of questions',
+};
+
+export interface SplitOptions {
+  rule: SplitRule;
+  chunkSize: number; // Questions per file for the 'chunk' rule
+  idSeparator: string; // The ID prefix is everything before the first occurrence, e.g. 'W01' in 'W01-CHEM-3'
+}
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = { rule: 'type', chunkSize: 20, idSeparator: '-' };
+
+// One CSV of the split, holding some of the bank's questions in their original order
+export interface SplitPart {
+  label: string; // e.g. "Multiple Choice" or "Week 1"
+  fileName: string;
+  questionIndexes: number[];
+  quiz: Quiz;
+}
+
+// Rows keyed 'Tag' or 'Tags' are not Brightspace rows; the parser keeps them as written, so banks can carry their own labels
+const TAG_ROW_KEYS = new Set(['tag', 'tags']);
+
+export const questionTags = (question: Question): string[] =>
+  (question.rawRows ?? [])
+    .filter(row => !row.recognized && TAG_ROW_KEYS.has(row.cells[0]?.trim().toLowerCase() ?? ''))
+    .flatMap(row => row.cells.slice(1).flatMap(cell => cell.split(/[,;]/)))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+const DIFFICULTY_BANDS: { label: string; min: number; max: number }[] = [
+  { label: 'Easy (1-2)', min: 1, max: 2 },
+  { label: 'Medium (3)', min: 3, max: 3 },
+  { label: 'Hard (4-5)', min: 4, max: 5 },
+];
+
+const difficultyBandOf = (question: Question): string =>
+  DIFFICULTY_BANDS.find(band => question.difficulty !== undefined && question.difficulty >= band.min && question.difficulty <= band.max)?.label ?? 'No difficulty';
+
+// Groups of question indexes by label, in order of first appearance. A question with several tags is in every tag's group.
+function groupQuestions(quiz: Quiz, options: SplitOptions): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  const add = (label: string, questionIndex: number) => {
+    const group = groups.get(label);
+    if (group) group.push(questionIndex);
+    else groups.set(label, [questionIndex]);
+  };
+
+  switch (options.rule) {
+    case 'type':
+      quiz.questions.forEach((question, idx) => add(QUESTION_TYPE_LABELS[question.type], idx));
+      break;
+    case 'difficulty':
+      quiz.questions.forEach((question, idx) => add(difficultyBandOf(question), idx));
+      break;
+    case 'section':
+      groupBySection(quiz).forEach(group => group.questionIndexes.forEach(idx => add(group.section?.name || 'No section', idx)));
+      break;
+    case 'idPrefix':
+      quiz.questions.forEach((question, idx) => {
+        const separatorAt = options.idSeparator && question.id ? question.id.indexOf(options.idSeparator) : -1;
+        add(question.id && separatorAt > 0 ? question.id.slice(0, separatorAt) : 'No prefix', idx);
+      });
+      break;
+    case 'tag':
+      quiz.questions.forEach((question, idx) => {
+        const tags = questionTags(question);
+        if (tags.length === 0) add('Untagged', idx);
+        else new Set(tags).forEach(tag => add(tag, idx));
+      });
+      break;
+    case 'chunk': {
+      const size = Math.max(1, Math.floor(options.chunkSize));
+      quiz.questions.forEach((_, idx) => {
+        const [first, last] = [Math.floor(idx / size) * size + 1, Math.min(Math.floor(idx / size) * size + size, quiz.questions.length)];
+        add(first === last ? `Question ${first}` : `Questions ${first}-${last}`, idx);
+      });
+      break;
+    }
+  }
+  return groups;
+}
+
+const slugOf = (label: string): string => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'part';
+
+// Splits the bank into several banks by the chosen rule. Each keeps the template rows and the sections
+// (with their pool settings) of the questions it holds. A question of an unknown type goes with the question
+// after it, or with the last question when it ends the bank, into the first part that holds that question.
+export function splitQuiz(quiz: Quiz, baseName: string, options: SplitOptions): SplitPart[] {
+  const usedFileNames = new Set<string>();
+  const groups = [...groupQuestions(quiz, options).entries()];
+  const unreadPartOf = (quiz.unreadQuestions ?? []).map(unread => {
+    const anchor = Math.min(unread.start, quiz.questions.length - 1);
+    return Math.max(0, groups.findIndex(([, questionIndexes]) => questionIndexes.includes(anchor)));
+  });
+  return groups.map(([label, questionIndexes], partIndex) => {
+    const kept = new Set(questionIndexes);
+    const part = removeQuestions(quiz, new Set(quiz.questions.map((_, idx) => idx).filter(idx => !kept.has(idx))));
+    const sections = part.sections?.filter(section => section.count > 0);
+    const unreadQuestions = part.unreadQuestions?.filter((_, idx) => unreadPartOf[idx] === partIndex);
+
+    let fileName = `${baseName}-${slugOf(label)}.csv`;
+    for (let n = 2; usedFileNames.has(fileName); n++) fileName = `${baseName}-${slugOf(label)}-${n}.csv`;
+    usedFileNames.add(fileName);
+
+    return {
+      label,
+      fileName,
+      questionIndexes,
+      quiz: { ...part, sections: sections?.length ? sections : undefined, unreadQuestions: unreadQuestions?.length ? unreadQuestions : undefined },
+    };
+  });
+}
+
+const formatPoints = (points: number): string => String(Number(points.toFixed(2)));
+
+// A ZIP with one Brightspace CSV per part and manifest.csv listing what went where
+export async function exportSplitZip(parts: SplitPart[], rule: SplitRule): Promise<Blob> {
+  const zip = new JSZip();
+  const manifest = [
+    ['File', SPLIT_RULE_LABELS[rule], 'Questions', 'Points', 'Question numbers', 'Question IDs'],
+    ...parts.map(part => [
+      part.fileName,
+      part.label,
+      String(part.quiz.questions.length),
+      formatPoints(part.quiz.questions.reduce((total, question) => total + (question.points || 0), 0)),
+      part.questionIndexes.map(idx => idx + 1).join(' '),
+      part.quiz.questions.map(question => question.id ?? '').filter(Boolean).join(' '),
+    ]),
+  ];
+  zip.file('manifest.csv', serializeCsvRows(manifest));
+  parts.forEach(part => zip.file(part.fileName, serializeQuizCsv(part.quiz)));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
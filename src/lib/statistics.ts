@@ -0,0 +1,127 @@
+import type { Question, QuestionType, Quiz } from '@/types/quiz';
+import type { QuestionFeature } from '@/lib/search';
+import { hasQuestionFeature, QUESTION_FEATURE_LABELS } from '@/lib/search';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { serializeCsvRows } from '@/lib/csvSerializer';
+
+export interface TypeStatistic {
+  type: QuestionType;
+  label: string;
+  count: number;
+  points: number;
+}
+
+export interface FeatureShare {
+  feature: QuestionFeature;
+  label: string;
+  count: number;
+  share: number; // Fraction of all questions, 0 to 1
+}
+
+export interface QuizStatistics {
+  questionCount: number;
+  totalPoints: number;
+  averagePoints: number;
+  byType: TypeStatistic[]; // Only types the quiz uses, in the usual type order
+  difficulty: { difficulty: string; count: number }[]; // Ascending, with questions without a difficulty last
+  features: FeatureShare[];
+  optionCounts: { options: number; MC: number; MS: number }[]; // How many MC and MS questions have each number of options
+  // Where the full-credit option sits in MC questions, against what an even spread across positions would give
+  correctPositions: { position: number; count: number; expected: number }[];
+}
+
+const NO_DIFFICULTY = 'None';
+
+// The options of an MC question that earn the most credit; empty when none earns any
+const correctPositionsOf = (question: Question): number[] => {
+  if (question.type !== 'MC') return [];
+  const options = question.options ?? [];
+  const best = Math.max(0, ...options.map(option => option.percent));
+  return best > 0 ? options.flatMap((option, idx) => (option.percent === best ? [idx + 1] : [])) : [];
+};
+
+export function computeQuizStatistics(quiz: Quiz): QuizStatistics {
+  const questions = quiz.questions;
+  const totalPoints = questions.reduce((total, question) => total + (question.points || 0), 0);
+
+  const byType = QUESTION_TYPES.map(type => {
+    const ofType = questions.filter(question => question.type === type);
+    return { type, label: QUESTION_TYPE_LABELS[type], count: ofType.length, points: ofType.reduce((total, question) => total + (question.points || 0), 0) };
+  }).filter(stat => stat.count > 0);
+
+  const difficultyCounts = new Map<number, number>();
+  let withoutDifficulty = 0;
+  questions.forEach(question => {
+    if (question.difficulty === undefined) withoutDifficulty++;
+    else difficultyCounts.set(question.difficulty, (difficultyCounts.get(question.difficulty) ?? 0) + 1);
+  });
+  const difficulty = [...difficultyCounts.entries()].sort(([a], [b]) => a - b).map(([value, count]) => ({ difficulty: String(value), count }));
+  if (withoutDifficulty > 0) difficulty.push({ difficulty: NO_DIFFICULTY, count: withoutDifficulty });
+
+  const features = (Object.keys(QUESTION_FEATURE_LABELS) as QuestionFeature[]).map(feature => {
+    const count = questions.filter(question => hasQuestionFeature(question, feature)).length;
+    return { feature, label: QUESTION_FEATURE_LABELS[feature], count, share: questions.length > 0 ? count / questions.length : 0 };
+  });
+
+  const optionCounts = new Map<number, { options: number; MC: number; MS: number }>();
+  questions.forEach(question => {
+    if (question.type !== 'MC' && question.type !== 'MS') return;
+    const options = (question.options ?? []).length;
+    const entry = optionCounts.get(options) ?? { options, MC: 0, MS: 0 };
+    entry[question.type]++;
+    optionCounts.set(options, entry);
+  });
+
+  // A question with n options adds 1/n to each of its first n positions under an even spread
+  const positions = new Map<number, { position: number; count: number; expected: number }>();
+  const positionEntry = (position: number) => {
+    const entry = positions.get(position) ?? { position, count: 0, expected: 0 };
+    positions.set(position, entry);
+    return entry;
+  };
+  questions.forEach(question => {
+    const correct = correctPositionsOf(question);
+    if (question.type !== 'MC' || correct.length === 0) return;
+    const optionCount = question.options.length;
+    for (let position = 1; position <= optionCount; position++) positionEntry(position).expected += correct.length / optionCount;
+    correct.forEach(position => positionEntry(position).count++);
+  });
+
+  return {
+    questionCount: questions.length,
+    totalPoints,
+    averagePoints: questions.length > 0 ? totalPoints / questions.length : 0,
+    byType,
+    difficulty,
+    features,
+    optionCounts: [...optionCounts.values()].sort((a, b) => a.options - b.options),
+    correctPositions: [...positions.values()].sort((a, b) => a.position - b.position),
+  };
+}
+
+const round = (value: number, places: number = 2) => Number(value.toFixed(places));
+
+// The statistics as a CSV of labelled tables, separated by blank rows, for spreadsheets
+export function statisticsToCsv(stats: QuizStatistics): string {
+  return serializeCsvRows([
+    ['Summary', 'Value'],
+    ['Questions', stats.questionCount],
+    ['Total points', round(stats.totalPoints)],
+    ['Average points', round(stats.averagePoints)],
+    [],
+    ['Question type', 'Questions', 'Points'],
+    ...stats.byType.map(stat => [stat.label, stat.count, round(stat.points)]),
+    [],
+    ['Difficulty', 'Questions'],
+    ...stats.difficulty.map(entry => [entry.difficulty, entry.count]),
+    [],
+    ['Has', 'Questions', 'Share (%)'],
+    ...stats.features.map(entry => [entry.label, entry.count, round(entry.share * 100, 1)]),
+    [],
+    ['Options', 'Multiple Choice', 'Multi-Select'],
+    ...stats.optionCounts.map(entry => [entry.options, entry.MC, entry.MS]),
+    [],
+    ['Correct option position (MC)', 'Questions', 'Expected if even'],
+    ...stats.correctPositions.map(entry => [entry.position, entry.count, round(entry.expected, 1)]),
+  ]);
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import type { Quiz, Question } from '@/types/quiz';
+import {
+  writtenResponseSchema,
+  shortAnswerSchema,
+  matchingSchema,
+  multipleChoiceSchema,
+  trueFalseSchema,
+  multiSelectSchema,
+  orderingSchema,
+  fillInTheBlankSchema,
+  multiShortAnswerSchema,
+  arithmeticSchema,
+  significantFiguresSchema,
+  likertSchema,
+  MATCHING_SCORING_OPTIONS,
+  ORDERING_SCORING_OPTIONS,
+  SHORT_ANSWER_EVALUATION_OPTIONS,
+} from '@/lib/questionSchemas';
+
+export interface ValidationIssue {
+  path: string; // Dotted path to the offending field, e.g. 'options.0.text'; '' for the question itself
+  message: string;
+  baseField: boolean; // True when a field every question type needs (title, text, points) is at fault
+}
+
+export interface QuizValidation {
+  issuesByQuestion: ValidationIssue[][]; // Indexed like quiz.questions
+  invalidCount: number;
+}
+
+// Brightspace fills in defaults for rows a CSV may omit (Scoring, InputBox, the evaluation flag),
+// so the editor's schemas are relaxed here to accept what a valid import looks like.
+const importedQuestionSchema = z.discriminatedUnion('type', [
+  writtenResponseSchema,
+  shortAnswerSchema.extend({
+    evaluation: z.enum(SHORT_ANSWER_EVALUATION_OPTIONS).optional(),
+    inputBox: shortAnswerSchema.shape.inputBox.optional(),
+  }),
+  matchingSchema.extend({ scoring: z.enum(MATCHING_SCORING_OPTIONS).optional() }),
+  multipleChoiceSchema,
+  trueFalseSchema,
+  multiSelectSchema.extend({ scoring: z.string().optional() }),
+  orderingSchema.extend({ scoring: z.enum(ORDERING_SCORING_OPTIONS).optional() }),
+  fillInTheBlankSchema,
+  multiShortAnswerSchema.extend({ inputBox: multiShortAnswerSchema.shape.inputBox.optional() }),
+  arithmeticSchema.extend({ variables: arithmeticSchema.shape.variables.optional() }),
+  significantFiguresSchema.extend({ variables: significantFiguresSchema.shape.variables.optional() }),
+  likertSchema.extend({ statements: likertSchema.shape.statements.optional() }),
+]);
+
+const BASE_FIELDS = new Set(['type', 'title', 'questionText', 'points']);
+
+export function validateQuestion(question: Partial<Question>): ValidationIssue[] {
+  const result = importedQuestionSchema.safeParse(question);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+    baseField: BASE_FIELDS.has(String(issue.path[0])),
+  }));
+}
+
+export function validateQuiz(quiz: Quiz): QuizValidation {
+  const issuesByQuestion = quiz.questions.map(question => validateQuestion(question));
+  return {
+    issuesByQuestion,
+    invalidCount: issuesByQuestion.filter(issues => issues.length > 0).length,
+  };
+}
+
+// One-line description of an issue for lists and tooltips
+export const formatValidationIssue = (issue: ValidationIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : issue.message;
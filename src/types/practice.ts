@@ -0,0 +1,34 @@
+import type { QuestionType } from '@/types/quiz';
+
+// A learner's answer to a single question, shaped per question type
+export type QuestionResponse =
+  | { type: 'WR'; text: string }
+  | { type: 'SA'; text: string }
+  | { type: 'M'; matches: Record<number, number | undefined> } // choiceNo -> choiceNo of the selected match text
+  | { type: 'MC'; selected: number | null } // Option index
+  | { type: 'TF'; selected: boolean | null }
+  | { type: 'MS'; selected: number[] } // Option indices
+  | { type: 'O'; order: number[] } // Item indices in the order the learner arranged them
+  | { type: 'FIB'; answers: string[] } // Indexed by blank, in reading order
+  | { type: 'MSA'; answers: string[] } // Indexed by answer box
+  | { type: 'ARITH'; values: Record<string, number>; text: string } // The instance the learner was shown and their answer
+  | { type: 'SF'; values: Record<string, number>; text: string }
+  | { type: 'LIK'; ratings: (number | null)[] }; // Choice index per statement, or per question text when there are none
+
+export type GradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'manual' | 'survey'; // 'survey': recorded, never scored
+
+export interface QuestionGrade {
+  type: QuestionType;
+  score: number;
+  maxScore: number;
+  status: GradeStatus;
+  feedback: string[]; // Stored option/item/general feedback relevant to the response
+  note?: string; // Explanation of how the score was computed
+}
+
+export interface QuizGrade {
+  grades: QuestionGrade[];
+  score: number;
+  maxScore: number; // Points of auto-graded questions only
+  pendingManualPoints: number; // Points awaiting manual grading (Written Response)
+}
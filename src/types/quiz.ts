@@ -1,21 +1,31 @@
-export type QuestionType = 'WR' | 'SA' | 'M' | 'MC' | 'TF' | 'MS' | 'O';
+export type QuestionType = 'WR' | 'SA' | 'M' | 'MC' | 'TF' | 'MS' | 'O' | 'FIB' | 'MSA' | 'ARITH' | 'SF' | 'LIK';
 
 export interface BaseQuestion {
   type: QuestionType;
   id?: string; // Explicit ID
   title: string;
   questionText: string;
+  questionTextHtmlFlag?: boolean; // The QuestionText row's HTML flag, as read from a CSV
   points: number;
   difficulty?: number;
   image?: string;
   hint?: string;
   feedback?: string; // General feedback for the question
+  feedbackHtmlFlag?: boolean;
+  rawRows?: RawRow[]; // Every CSV record of the question in file order, from its NewQuestion row; CSV sources only
+}
+
+// A CSV record as read, kept so that saving a question never drops content QuizView doesn't understand
+export interface RawRow {
+  cells: string[];
+  recognized: boolean; // False for rows QuizView ignored (unknown keys, rows for another question type); they are written back as read
 }
 
 export interface WrittenResponseQuestion extends BaseQuestion {
   type: 'WR';
   initialText?: string;
   answerKey?: string;
+  answerKeyHtmlFlag?: boolean;
 }
 
 export interface ShortAnswerQuestion extends BaseQuestion {
@@ -93,6 +103,85 @@ export interface OrderingQuestion extends BaseQuestion {
   scoring: 'EquallyWeighted' | 'AllOrNothing' | 'RightMinusWrong';
 }
 
+export interface FIBAnswer {
+  text: string;
+  weight: number; // Percentage of the blank's share of the points (0-100)
+  evaluation: 'regexp' | 'sensitive' | 'insensitive';
+}
+
+export interface FIBText {
+  type: 'text';
+  text: string;
+  htmlFlag: boolean;
+}
+
+export interface FIBBlank {
+  type: 'blank';
+  size?: number; // Width of the input box in characters
+  answers: FIBAnswer[]; // Any of these is accepted, for its weight
+}
+
+export interface FillInTheBlankQuestion extends BaseQuestion {
+  type: 'FIB';
+  parts: (FIBText | FIBBlank)[]; // Text and Blank rows in reading order; questionText is an optional lead-in
+}
+
+export interface MSAAnswer {
+  text: string;
+  evaluation: 'regexp' | 'sensitive' | 'insensitive';
+}
+
+export interface MultiShortAnswerQuestion extends BaseQuestion {
+  type: 'MSA';
+  answers: MSAAnswer[]; // Accepted answers; any box may hold any of them
+  inputBox: { rows: number; cols: number }; // One answer box per row
+}
+
+export interface ArithmeticVariable {
+  name: string; // Written as {name} in the formula and question text
+  min: number;
+  max: number;
+  decimalPlaces: number; // Generated values are rounded to this many places
+  step?: number; // Values are min plus a whole number of steps
+  values?: number[]; // From an Enumeration row: the variable takes one of these instead of a range
+}
+
+export interface ArithmeticQuestion extends BaseQuestion {
+  type: 'ARITH';
+  formula: string; // e.g. "{m} * {v}^2 / 2"
+  variables: ArithmeticVariable[];
+  tolerance?: { amount: number; unit: 'absolute' | 'percent' }; // How far an answer may be from the computed one
+}
+
+export interface SignificantFiguresQuestion extends BaseQuestion {
+  type: 'SF';
+  formula: string;
+  variables: ArithmeticVariable[];
+  significantFigures: number; // SignificantFigures row: answers must be given to this many significant figures
+  tolerance?: { amount: number; unit: 'absolute' | 'percent' }; // Measured from the answer rounded to those figures
+}
+
+// Arithmetic and Significant Figures questions share the Formula, Variable, Enumeration and Tolerance rows
+export type FormulaQuestion = ArithmeticQuestion | SignificantFiguresQuestion;
+
+// Brightspace's Likert scales: numbered 1 to n, or one of the labelled five-point scales
+export type LikertScale =
+  | 'OneToThree' | 'OneToFour' | 'OneToFive' | 'OneToSix' | 'OneToSeven' | 'OneToEight' | 'OneToNine' | 'OneToTen'
+  | 'Agreement' | 'Satisfaction' | 'Frequency' | 'Importance';
+
+export interface LikertStatement {
+  text: string;
+  htmlFlag: boolean;
+}
+
+// A survey question: every statement is rated on the same scale and nothing is scored
+export interface LikertQuestion extends BaseQuestion {
+  type: 'LIK';
+  scale: LikertScale;
+  notApplicable?: boolean; // Scale row's third column: the scale offers an N/A choice
+  statements: LikertStatement[]; // Statement rows; without any, the question text itself is rated
+}
+
 // Union type representing any possible question format
 export type Question =
   | WrittenResponseQuestion
@@ -101,9 +190,68 @@ export type Question =
   | MultipleChoiceQuestion
   | TrueFalseQuestion
   | MultiSelectQuestion
-  | OrderingQuestion;
+  | OrderingQuestion
+  | FillInTheBlankQuestion
+  | MultiShortAnswerQuestion
+  | ArithmeticQuestion
+  | SignificantFiguresQuestion
+  | LikertQuestion;
+
+// A run of consecutive questions introduced by a //Section row; a section with `select` is a random pool
+export interface QuizSection {
+  name: string;
+  description?: string;
+  select?: number; // Pool setting: each attempt draws this many of the section's questions at random
+  start: number; // Index into Quiz.questions of the section's first question
+  count: number; // Number of questions in the section; 0 for a section with none yet
+}
+
+// A question of a type QuizView doesn't know, e.g. a Brightspace hotspot question. It is not shown, but its
+// CSV records are written back where they were.
+export interface UnreadQuestion {
+  start: number; // Index into Quiz.questions of the question it comes before; questions.length at the end
+  rows: string[][]; // From its NewQuestion row, as read
+}
 
 // Represents the entire parsed quiz structure
 export interface Quiz {
   questions: Question[];
+  sections?: QuizSection[]; // In question order; questions before the first section belong to none
+  leadingRows?: string[][]; // CSV records before the first NewQuestion, such as template comments
+  unreadQuestions?: UnreadQuestion[]; // In file order
+}
+
+// Severity of a problem found while parsing a CSV or importing another format
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Stable codes identifying each kind of parse problem
+export type DiagnosticCode =
+  | 'unknown-question-type'
+  | 'incomplete-question'
+  | 'invalid-question'
+  | 'row-type-mismatch'
+  | 'invalid-choice-number'
+  | 'orphan-match'
+  | 'unrecognized-row'
+  | 'record-error'
+  | 'unsupported-item' // Item in an imported file with no QuizView equivalent; it is skipped
+  | 'lossy-import'; // Item imported, but some of its features could not be represented
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  record?: number; // 1-based logical CSV record number; CSV sources only
+  line?: number; // 1-based line in the source file where the record starts; CSV sources only
+  source?: string; // File and item identifier, for imports from formats other than CSV
+  key?: string; // Row key as written in the CSV (first column), e.g. 'Match'
+  column?: number; // 1-based column of the offending cell, when known
+  questionTitle?: string;
+  questionIndex?: number; // Index into Quiz.questions when the question was kept
+}
+
+// Result of parsing a CSV or importing another format: the quiz plus every problem encountered along the way
+export interface ParseResult {
+  quiz: Quiz;
+  diagnostics: ParseDiagnostic[];
 }